@@ -75,7 +75,8 @@ function extractPublicKeyFromAddress(address: any): Uint8Array | null {
 }
 
 /**
- * Authorize a Soroban authorization entry by signing it with a keypair or callback.
+ * Authorize a Soroban authorization entry by signing it with a keypair, a
+ * callback, or a @stellar/tx-builder `Signer`.
  *
  * If the entry uses SourceAccount credentials, it is returned unchanged.
  * For Address credentials, the hash preimage is built, signed, and the
@@ -122,8 +123,13 @@ export async function authorizeEntry(
   const rootInvocation = authEntry.rootInvocation();
 
   // Determine signer's public key for identity check
+  // A @stellar/tx-builder Signer (Keypair, WebCrypto, remote) rather than a compat Keypair
+  const isSigner = typeof signer === 'object' && typeof signer.signTransactionHash === 'function';
+
   let signerPubKey: Uint8Array | undefined;
-  if (typeof signer !== 'function' && signer.rawPublicKey) {
+  if (isSigner) {
+    signerPubKey = decodeStrkey(signer.publicKey).payload;
+  } else if (typeof signer !== 'function' && signer.rawPublicKey) {
     signerPubKey = signer.rawPublicKey();
   }
 
@@ -182,6 +188,12 @@ export async function authorizeEntry(
       const credPubKey = extractPublicKeyFromAddress(credAddress);
       publicKeyBytes = credPubKey ?? new Uint8Array(32);
     }
+  } else if (isSigner) {
+    if (typeof signer.signAuthEntry !== 'function') {
+      throw new Error(`Signer ${signer.publicKey} cannot sign Soroban authorization entries`);
+    }
+    sigBytes = await signer.signAuthEntry(preimageXdr, networkPassphrase ?? '');
+    publicKeyBytes = signerPubKey!;
   } else {
     // Keypair signer
     sigBytes = signer.sign(payload);
@@ -189,7 +201,7 @@ export async function authorizeEntry(
   }
 
   // Verify the signature matches the payload
-  if (typeof signer === 'function') {
+  if (typeof signer === 'function' || isSigner) {
     const valid = ed25519Verify(sigBytes, payload, publicKeyBytes);
     if (!valid) {
       throw new Error("signature doesn't match the entry or is invalid");
@@ -268,6 +280,8 @@ export async function authorizeInvocation(
   if (publicKey) {
     const decoded = decodeStrkey(publicKey);
     pubKeyRaw = decoded.payload;
+  } else if (typeof signer === 'object' && typeof signer.signTransactionHash === 'function') {
+    pubKeyRaw = decodeStrkey(signer.publicKey).payload;
   } else if (typeof signer !== 'function') {
     pubKeyRaw = signer.rawPublicKey();
   } else {
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { Keypair as ModernKeypair } from '@stellar/tx-builder';
+import { Keypair } from '../src/keypair.js';
+import { authorizeInvocation } from '../src/auth.js';
+
+describe('authorizeInvocation', () => {
+  it('accepts a @stellar/tx-builder Signer', async () => {
+    const secret = 'SDL2ENWLAB7NHNVZUWTSZO23D3YLF4YUKUBHLWDVHKNDFJ37VDQ2RI53';
+    const modern = await ModernKeypair.fromSecret(secret);
+    const invocation = {
+      function: {
+        ContractFn: { contractAddress: { Contract: new Uint8Array(32) }, functionName: 'f', args: [] },
+      },
+      subInvocations: [],
+    };
+    const entry = await authorizeInvocation(
+      modern,
+      100,
+      invocation,
+      undefined,
+      'Test SDF Network ; September 2015',
+    );
+    const [sigMap] = entry.credentials().address().signature().vec();
+    const publicKey = sigMap.map()[0].val().bytes();
+    expect(publicKey).toEqual(Keypair.fromSecret(secret).rawPublicKey());
+    expect(entry.credentials().address().signatureExpirationLedger()).toBe(100);
+  });
+});
@@ -236,6 +236,44 @@ describe('Keypair.signatureHint', () => {
   });
 });
 
+describe('Keypair.signMessage and verifyMessage (SEP-53)', () => {
+  const kp = Keypair.fromSecret('SAKICEVQLYWGSOJS4WW7HZJWAHZVEEBS527LHK5V4MLJALYKICQCJXMW');
+  const vectors: Array<[string | Uint8Array, string]> = [
+    [
+      'Hello, World!',
+      'fO5dbYhXUhBMhe6kId/cuVq/AfEnHRHEvsP8vXh03M1uLpi5e46yO2Q8rEBzu3feXQewcQE5GArp88u6ePK6BA==',
+    ],
+    [
+      'こんにちは、世界！',
+      'CDU265Xs8y3OWbB/56H9jPgUss5G9A0qFuTqH2zs2YDgTm+++dIfmAEceFqB7bhfN3am59lCtDXrCtwH2k1GBA==',
+    ],
+    [
+      Buffer.from('2zZDP1sa1BVBfLP7TeeMk3sUbaxAkUhBhDiNdrksaFo=', 'base64'),
+      'VA1+7hefNwv2NKScH6n+Sljj15kLAge+M2wE7fzFOf+L0MMbssA1mwfJZRyyrhBORQRle10X1Dxpx+UOI4EbDQ==',
+    ],
+  ];
+
+  it('matches the SEP-53 test vectors', () => {
+    expect(kp.publicKey()).toBe('GBXFXNDLV4LSWA4VB7YIL5GBD7BVNR22SGBTDKMO2SBZZHDXSKZYCP7L');
+    for (const [message, expected] of vectors) {
+      expect(Buffer.from(kp.signMessage(message)).toString('base64')).toBe(expected);
+    }
+  });
+
+  it('verifies with a public-only keypair', () => {
+    const pub = Keypair.fromPublicKey(kp.publicKey());
+    for (const [message, expected] of vectors) {
+      expect(pub.verifyMessage(message, Buffer.from(expected, 'base64'))).toBe(true);
+    }
+    expect(pub.verifyMessage('Hello, World?', Buffer.from(vectors[0]![1], 'base64'))).toBe(false);
+  });
+
+  it('throws when signing without a secret key', () => {
+    const pub = Keypair.fromPublicKey(kp.publicKey());
+    expect(() => pub.signMessage('Hello')).toThrow('no secret key');
+  });
+});
+
 describe('Keypair.xdrMuxedAccount', () => {
   it('returns a valid MuxedAccount with Ed25519 key type', () => {
     const kp = Keypair.fromPublicKey(
@@ -17,3 +17,9 @@ export {
   STRKEY_LIQUIDITY_POOL,
   STRKEY_CLAIMABLE_BALANCE,
 } from './strkey.js';
+export {
+  validateStrkey,
+  type StrkeyType,
+  type StrkeyFailure,
+  type StrkeyValidation,
+} from './validate.js';
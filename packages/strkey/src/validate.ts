@@ -0,0 +1,260 @@
+/**
+ * Strkey validation with structured failure reasons, for address inputs that
+ * need to tell the user what is wrong:
+ *
+ *   const result = validateStrkey(input, 'public_key_ed25519');
+ *   if (!result.valid) {
+ *     // result.reason: 'checksumMismatch', 'wrongType', ...
+ *     // result.suggestion: the corrected address for a single-character typo
+ *   }
+ *
+ * Unlike `strkeyFromString`, validation never throws.
+ */
+
+import {
+  type Strkey,
+  crc16xmodem,
+  decodeBase32,
+  strkeyFromString,
+  STRKEY_ED25519_PUBLIC,
+  STRKEY_ED25519_PRIVATE,
+  STRKEY_MUXED_ED25519,
+  STRKEY_PRE_AUTH_TX,
+  STRKEY_HASH_X,
+  STRKEY_CONTRACT,
+  STRKEY_SIGNED_PAYLOAD,
+  STRKEY_LIQUIDITY_POOL,
+  STRKEY_CLAIMABLE_BALANCE,
+} from './strkey.js';
+
+export type StrkeyType = Strkey['type'];
+
+/** Why a string is not a valid strkey, by `reason`. */
+export type StrkeyFailure =
+  /** A character outside the base32 alphabet (A-Z, 2-7). */
+  | { reason: 'invalidCharacter'; index: number; character: string }
+  /** A length no base32 encoding of a strkey has. */
+  | { reason: 'invalidLength'; length: number }
+  /**
+   * Not the canonical encoding: `=` padding (at `index`, the first `=`) or
+   * non-zero unused bits in the last character (at `index`).
+   */
+  | { reason: 'nonCanonical'; kind: 'padding' | 'trailingBits'; index: number }
+  /** The CRC16 stored in the strkey differs from the one computed. */
+  | { reason: 'checksumMismatch'; stored: number; computed: number }
+  | { reason: 'unknownVersion'; versionByte: number }
+  /** A valid strkey of a type other than the expected ones. */
+  | { reason: 'wrongType'; expected: readonly StrkeyType[]; actual: StrkeyType }
+  /**
+   * A payload of the wrong size. `expectedLength` is absent when no size
+   * fits, e.g. a signed payload whose `innerLength` exceeds 64.
+   */
+  | {
+      reason: 'invalidPayloadLength';
+      type: StrkeyType;
+      length: number;
+      expectedLength?: number;
+      innerLength?: number;
+    }
+  /** Other payload errors: non-zero signed payload padding, unknown subtype. */
+  | { reason: 'invalidPayload'; type: StrkeyType };
+
+export type StrkeyValidation =
+  | { valid: true; strkey: Strkey }
+  | ({
+      valid: false;
+      message: string;
+      /**
+       * The one strkey of an expected type that differs from the input in a
+       * single character, if there is exactly one. Only looked for when the
+       * encoding itself is broken (bad character, trailing bits, checksum).
+       */
+      suggestion?: string;
+    } & StrkeyFailure);
+
+type Invalid = Extract<StrkeyValidation, { valid: false }>;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const VERSION_TYPES: ReadonlyMap<number, StrkeyType> = new Map([
+  [STRKEY_ED25519_PUBLIC, 'public_key_ed25519'],
+  [STRKEY_ED25519_PRIVATE, 'private_key_ed25519'],
+  [STRKEY_MUXED_ED25519, 'muxed_account_ed25519'],
+  [STRKEY_PRE_AUTH_TX, 'pre_auth_tx'],
+  [STRKEY_HASH_X, 'hash_x'],
+  [STRKEY_CONTRACT, 'contract'],
+  [STRKEY_SIGNED_PAYLOAD, 'signed_payload_ed25519'],
+  [STRKEY_LIQUIDITY_POOL, 'liquidity_pool'],
+  [STRKEY_CLAIMABLE_BALANCE, 'claimable_balance_v0'],
+]);
+
+/**
+ * Validates `s` as a strkey, optionally of the given type(s), returning the
+ * parsed `Strkey` or the first problem found. Checks run from the encoding
+ * inwards: characters, length, canonical form, checksum, version byte,
+ * expected type, payload.
+ */
+export function validateStrkey(
+  s: string,
+  expected?: StrkeyType | readonly StrkeyType[],
+): StrkeyValidation {
+  const types = typeof expected === 'string' ? [expected] : expected;
+  const result = check(s, types);
+  if (result.valid) return result;
+
+  const fixable =
+    (result.reason === 'invalidCharacter' && countInvalid(s) === 1) ||
+    result.reason === 'checksumMismatch' ||
+    (result.reason === 'nonCanonical' && result.kind === 'trailingBits');
+  if (!fixable) return result;
+  const suggestion = suggest(s, types);
+  return suggestion === undefined ? result : { ...result, suggestion };
+}
+
+function check(s: string, expected: readonly StrkeyType[] | undefined): StrkeyValidation {
+  // ---- Encoding ----
+  let end = s.length;
+  while (end > 0 && s[end - 1] === '=') end--;
+  for (let i = 0; i < end; i++) {
+    if (!BASE32_ALPHABET.includes(s[i]!)) {
+      return invalid(`Invalid character '${s[i]}' at index ${i}`, {
+        reason: 'invalidCharacter',
+        index: i,
+        character: s[i]!,
+      });
+    }
+  }
+  // At least a version byte and checksum; whole bytes plus at most 4 bits
+  if (end < 5 || (end * 5) % 8 > 4) {
+    return invalid(`Invalid strkey length ${s.length}`, {
+      reason: 'invalidLength',
+      length: s.length,
+    });
+  }
+  if (end < s.length) {
+    return invalid('Strkeys have no base32 padding', {
+      reason: 'nonCanonical',
+      kind: 'padding',
+      index: end,
+    });
+  }
+  const unusedBits = (end * 5) % 8;
+  if ((BASE32_ALPHABET.indexOf(s[end - 1]!) & ((1 << unusedBits) - 1)) !== 0) {
+    return invalid('Non-zero unused trailing bits in the last character', {
+      reason: 'nonCanonical',
+      kind: 'trailingBits',
+      index: end - 1,
+    });
+  }
+
+  const data = decodeBase32(s);
+  const stored = data[data.length - 2]! | (data[data.length - 1]! << 8);
+  const computed = crc16xmodem(data.subarray(0, data.length - 2));
+  if (stored !== computed) {
+    return invalid('Checksum mismatch', { reason: 'checksumMismatch', stored, computed });
+  }
+
+  // ---- Version and type ----
+  const versionByte = data[0]!;
+  const type = VERSION_TYPES.get(versionByte);
+  if (type === undefined) {
+    return invalid(`Unknown strkey version byte: ${versionByte}`, {
+      reason: 'unknownVersion',
+      versionByte,
+    });
+  }
+  if (expected !== undefined && !expected.includes(type)) {
+    return invalid(`Expected a ${expected.join(' or ')} strkey, got ${type}`, {
+      reason: 'wrongType',
+      expected,
+      actual: type,
+    });
+  }
+
+  // ---- Payload ----
+  const payload = data.subarray(1, data.length - 2);
+  const failure = checkPayload(type, payload);
+  if (failure !== undefined) return failure;
+  return { valid: true, strkey: strkeyFromString(s) };
+}
+
+function checkPayload(type: StrkeyType, payload: Uint8Array): Invalid | undefined {
+  const length = payload.length;
+  const wrongLength = (expectedLength: number | undefined, innerLength?: number) =>
+    invalid(
+      `Invalid ${type} strkey: ` +
+        (expectedLength !== undefined
+          ? `expected ${expectedLength} payload bytes, got ${length}`
+          : innerLength !== undefined
+            ? `inner payload length ${innerLength} exceeds maximum 64`
+            : `payload too short (${length} bytes)`),
+      {
+        reason: 'invalidPayloadLength',
+        type,
+        length,
+        ...(expectedLength !== undefined && { expectedLength }),
+        ...(innerLength !== undefined && { innerLength }),
+      },
+    );
+
+  switch (type) {
+    case 'muxed_account_ed25519':
+      return length === 40 ? undefined : wrongLength(40);
+    case 'claimable_balance_v0':
+      if (length !== 33) return wrongLength(33);
+      if (payload[0] !== 0x00) {
+        return invalid(`Invalid ${type} strkey: unknown subtype ${payload[0]}`, {
+          reason: 'invalidPayload',
+          type,
+        });
+      }
+      return undefined;
+    case 'signed_payload_ed25519': {
+      if (length < 36) return wrongLength(undefined);
+      const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+      const innerLength = view.getUint32(32);
+      if (innerLength > 64) return wrongLength(undefined, innerLength);
+      const padding = (4 - (innerLength % 4)) % 4;
+      const expectedLength = 36 + innerLength + padding;
+      if (length !== expectedLength) return wrongLength(expectedLength, innerLength);
+      if (payload.subarray(36 + innerLength).some((byte) => byte !== 0)) {
+        return invalid(`Invalid ${type} strkey: non-zero padding bytes`, {
+          reason: 'invalidPayload',
+          type,
+        });
+      }
+      return undefined;
+    }
+    default:
+      return length === 32 ? undefined : wrongLength(32);
+  }
+}
+
+function invalid(message: string, failure: StrkeyFailure): Invalid {
+  return { valid: false, message, ...failure };
+}
+
+function countInvalid(s: string): number {
+  let count = 0;
+  for (const character of s) if (!BASE32_ALPHABET.includes(character)) count++;
+  return count;
+}
+
+/**
+ * Tries every single-character substitution, returning the candidate when
+ * exactly one is valid. The checksum catches all single-character errors, so
+ * a unique candidate is almost certainly what was meant.
+ */
+function suggest(s: string, expected: readonly StrkeyType[] | undefined): string | undefined {
+  let found: string | undefined;
+  for (let i = 0; i < s.length; i++) {
+    for (const character of BASE32_ALPHABET) {
+      if (character === s[i]) continue;
+      const candidate = s.slice(0, i) + character + s.slice(i + 1);
+      if (!check(candidate, expected).valid) continue;
+      if (found !== undefined) return undefined;
+      found = candidate;
+    }
+  }
+  return found;
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeStrkey,
+  validateStrkey,
+  STRKEY_ED25519_PUBLIC,
+  STRKEY_MUXED_ED25519,
+  STRKEY_SIGNED_PAYLOAD,
+  STRKEY_CLAIMABLE_BALANCE,
+} from '../src/index.js';
+
+const KEY = new Uint8Array(32).map((_, i) => i * 7 + 3);
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const G = encodeStrkey(STRKEY_ED25519_PUBLIC, KEY);
+
+/** Replaces the character at `index`. */
+function replaceAt(s: string, index: number, character: string): string {
+  return s.slice(0, index) + character + s.slice(index + 1);
+}
+
+function signedPayload(innerLength: number, total: number, padding = 0): string {
+  const payload = new Uint8Array(total);
+  payload.set(KEY, 0);
+  new DataView(payload.buffer).setUint32(32, innerLength);
+  if (total > 36 + innerLength) payload[total - 1] = padding;
+  return encodeStrkey(STRKEY_SIGNED_PAYLOAD, payload);
+}
+
+describe('validateStrkey', () => {
+  it('returns the parsed strkey for valid input', () => {
+    expect(validateStrkey(G)).toEqual({
+      valid: true,
+      strkey: { type: 'public_key_ed25519', data: KEY },
+    });
+    expect(validateStrkey(G, ['public_key_ed25519', 'muxed_account_ed25519']).valid).toBe(true);
+  });
+
+  it('reports invalid characters with their index', () => {
+    const result = validateStrkey(`${G.slice(0, 10)}0${G.slice(11)}`);
+    expect(result).toMatchObject({
+      valid: false,
+      reason: 'invalidCharacter',
+      index: 10,
+      character: '0',
+    });
+    expect(validateStrkey(G.toLowerCase())).toMatchObject({ reason: 'invalidCharacter', index: 0 });
+  });
+
+  it('reports impossible lengths', () => {
+    expect(validateStrkey('')).toMatchObject({ reason: 'invalidLength', length: 0 });
+    // 54 characters hold 33 bytes plus 6 bits
+    expect(validateStrkey(G.slice(0, -2))).toMatchObject({ reason: 'invalidLength', length: 54 });
+  });
+
+  it('reports padding and trailing bits as non-canonical', () => {
+    expect(validateStrkey(`${G}====`)).toMatchObject({
+      reason: 'nonCanonical',
+      kind: 'padding',
+      index: 56,
+    });
+    // Three bytes take five characters, the last with one unused bit
+    const short = encodeStrkey(STRKEY_ED25519_PUBLIC, new Uint8Array(0));
+    expect(short).toHaveLength(5);
+    const lastDigit = BASE32_ALPHABET.indexOf(short[4]!);
+    const dirty = replaceAt(short, 4, BASE32_ALPHABET[lastDigit | 1]!);
+    expect(validateStrkey(dirty)).toMatchObject({
+      reason: 'nonCanonical',
+      kind: 'trailingBits',
+      index: 4,
+    });
+  });
+
+  it('reports checksum mismatches', () => {
+    const result = validateStrkey(replaceAt(G, 20, G[20] === 'A' ? 'B' : 'A'));
+    expect(result).toMatchObject({ valid: false, reason: 'checksumMismatch' });
+    if (!result.valid && result.reason === 'checksumMismatch') {
+      expect(result.stored).not.toBe(result.computed);
+    }
+  });
+
+  it('reports unknown version bytes', () => {
+    expect(validateStrkey(encodeStrkey(5 << 3, KEY))).toMatchObject({
+      reason: 'unknownVersion',
+      versionByte: 40,
+    });
+  });
+
+  it('reports the expected and actual type', () => {
+    const result = validateStrkey(G, 'contract');
+    expect(result).toMatchObject({
+      valid: false,
+      reason: 'wrongType',
+      expected: ['contract'],
+      actual: 'public_key_ed25519',
+    });
+    expect(!result.valid && result.message).toBe(
+      'Expected a contract strkey, got public_key_ed25519',
+    );
+  });
+
+  it('reports payload lengths', () => {
+    const short = encodeStrkey(STRKEY_ED25519_PUBLIC, KEY.subarray(0, 31));
+    expect(validateStrkey(short)).toMatchObject({
+      reason: 'invalidPayloadLength',
+      type: 'public_key_ed25519',
+      length: 31,
+      expectedLength: 32,
+    });
+    expect(validateStrkey(encodeStrkey(STRKEY_MUXED_ED25519, KEY))).toMatchObject({
+      reason: 'invalidPayloadLength',
+      expectedLength: 40,
+    });
+  });
+
+  it('reports bad signed payload inner lengths and padding', () => {
+    expect(validateStrkey(signedPayload(4, 40)).valid).toBe(true);
+    expect(validateStrkey(signedPayload(3, 40)).valid).toBe(true);
+    expect(validateStrkey(signedPayload(65, 104))).toMatchObject({
+      reason: 'invalidPayloadLength',
+      type: 'signed_payload_ed25519',
+      innerLength: 65,
+    });
+    expect(validateStrkey(signedPayload(8, 40))).toMatchObject({
+      reason: 'invalidPayloadLength',
+      innerLength: 8,
+      expectedLength: 44,
+      length: 40,
+    });
+    expect(validateStrkey(signedPayload(3, 40, 1))).toMatchObject({
+      reason: 'invalidPayload',
+      type: 'signed_payload_ed25519',
+    });
+  });
+
+  it('reports unknown claimable balance subtypes', () => {
+    const payload = new Uint8Array(33);
+    payload[0] = 1;
+    expect(validateStrkey(encodeStrkey(STRKEY_CLAIMABLE_BALANCE, payload))).toMatchObject({
+      reason: 'invalidPayload',
+      type: 'claimable_balance_v0',
+    });
+  });
+
+  it('suggests the fix for single-character typos', () => {
+    for (const index of [0, 1, 17, 55]) {
+      const typo = replaceAt(G, index, G[index] === 'Q' ? 'R' : 'Q');
+      const result = validateStrkey(typo, 'public_key_ed25519');
+      expect(result.valid).toBe(false);
+      expect(!result.valid && result.suggestion).toBe(G);
+    }
+    const badCharacter = validateStrkey(replaceAt(G, 30, '1'));
+    expect(badCharacter).toMatchObject({ reason: 'invalidCharacter', suggestion: G });
+  });
+
+  it('does not suggest fixes for other errors', () => {
+    const result = validateStrkey(G, 'contract');
+    expect(!result.valid && result.suggestion).toBeUndefined();
+    const twoTypos = replaceAt(replaceAt(G, 5, '0'), 9, '1');
+    expect(validateStrkey(twoTypos)).not.toHaveProperty('suggestion');
+  });
+});
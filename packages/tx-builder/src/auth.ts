@@ -0,0 +1,68 @@
+import {
+  type SorobanAuthorizationEntry,
+  type SCVal,
+  HashIDPreimage as HashIDPreimageCodec,
+  encodeStrkey,
+  decodeStrkey,
+  STRKEY_ED25519_PUBLIC,
+} from '@stellar/xdr';
+import { networkId } from './hash.js';
+import type { Signer } from './signer.js';
+
+/**
+ * Signs a Soroban authorization entry with `signer`, returning a copy whose
+ * address credentials carry the signature and `validUntilLedgerSeq`.
+ * Source-account entries need no signature and are returned unchanged.
+ */
+export async function authorizeEntry(
+  entry: SorobanAuthorizationEntry,
+  signer: Signer,
+  validUntilLedgerSeq: number,
+  networkPassphrase: string,
+): Promise<SorobanAuthorizationEntry> {
+  if (entry.credentials === 'SourceAccount') {
+    return entry;
+  }
+  if (!signer.signAuthEntry) {
+    throw new Error(`Signer ${signer.publicKey} cannot sign Soroban authorization entries`);
+  }
+  const credentials = entry.credentials.Address;
+  if ('Account' in credentials.address) {
+    const account = encodeStrkey(
+      STRKEY_ED25519_PUBLIC,
+      credentials.address.Account.PublicKeyTypeEd25519,
+    );
+    if (account !== signer.publicKey) {
+      throw new Error(`Signer ${signer.publicKey} does not match entry address ${account}`);
+    }
+  }
+
+  const preimage = HashIDPreimageCodec.toXdr({
+    SorobanAuthorization: {
+      networkID: await networkId(networkPassphrase),
+      nonce: credentials.nonce,
+      signatureExpirationLedger: validUntilLedgerSeq,
+      invocation: entry.rootInvocation,
+    },
+  });
+  const signature = await signer.signAuthEntry(preimage, networkPassphrase);
+
+  // Standard account signature: Vec([Map({ public_key: Bytes, signature: Bytes })])
+  const signatureVal: SCVal = {
+    Vec: [
+      {
+        Map: [
+          { key: { Symbol: 'public_key' }, val: { Bytes: decodeStrkey(signer.publicKey).payload } },
+          { key: { Symbol: 'signature' }, val: { Bytes: signature } },
+        ],
+      },
+    ],
+  };
+
+  return {
+    ...entry,
+    credentials: {
+      Address: { ...credentials, signatureExpirationLedger: validUntilLedgerSeq, signature: signatureVal },
+    },
+  };
+}
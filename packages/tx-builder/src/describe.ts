@@ -0,0 +1,278 @@
+import { is, type AssetCode, type Operation } from '@stellar/xdr';
+import { muxedAccountAddress, publicKeyAddress } from './helpers.js';
+import type {
+  CreateAccountOptions,
+  PaymentOptions,
+  PathPaymentStrictReceiveOptions,
+  PathPaymentStrictSendOptions,
+  ManageSellOfferOptions,
+  ManageBuyOfferOptions,
+  CreatePassiveSellOfferOptions,
+  SetOptionsOptions,
+  ChangeTrustOptions,
+  AllowTrustOptions,
+  AccountMergeOptions,
+  ManageDataOptions,
+  BumpSequenceOptions,
+  CreateClaimableBalanceOptions,
+  ClaimClaimableBalanceOptions,
+  BeginSponsoringFutureReservesOptions,
+  RevokeSponsorshipLedgerEntryOptions,
+  RevokeSponsorshipSignerOptions,
+  ClawbackOptions,
+  ClawbackClaimableBalanceOptions,
+  SetTrustLineFlagsOptions,
+  LiquidityPoolDepositOptions,
+  LiquidityPoolWithdrawOptions,
+  InvokeHostFunctionOptions,
+  ExtendFootprintTtlOptions,
+} from './operations.js';
+
+/**
+ * An operation decoded into the options of the factory that builds it,
+ * tagged with the factory's name.
+ */
+export type DescribedOperation =
+  | ({ type: 'createAccount' } & CreateAccountOptions)
+  | ({ type: 'payment' } & PaymentOptions)
+  | ({ type: 'pathPaymentStrictReceive' } & PathPaymentStrictReceiveOptions)
+  | ({ type: 'pathPaymentStrictSend' } & PathPaymentStrictSendOptions)
+  | ({ type: 'manageSellOffer' } & ManageSellOfferOptions)
+  | ({ type: 'manageBuyOffer' } & ManageBuyOfferOptions)
+  | ({ type: 'createPassiveSellOffer' } & CreatePassiveSellOfferOptions)
+  | ({ type: 'setOptions' } & SetOptionsOptions)
+  | ({ type: 'changeTrust' } & ChangeTrustOptions)
+  | ({ type: 'allowTrust' } & AllowTrustOptions)
+  | ({ type: 'accountMerge' } & AccountMergeOptions)
+  | { type: 'inflation'; source?: string }
+  | ({ type: 'manageData' } & ManageDataOptions)
+  | ({ type: 'bumpSequence' } & BumpSequenceOptions)
+  | ({ type: 'createClaimableBalance' } & CreateClaimableBalanceOptions)
+  | ({ type: 'claimClaimableBalance' } & ClaimClaimableBalanceOptions)
+  | ({ type: 'beginSponsoringFutureReserves' } & BeginSponsoringFutureReservesOptions)
+  | { type: 'endSponsoringFutureReserves'; source?: string }
+  | ({ type: 'revokeSponsorshipLedgerEntry' } & RevokeSponsorshipLedgerEntryOptions)
+  | ({ type: 'revokeSponsorshipSigner' } & RevokeSponsorshipSignerOptions)
+  | ({ type: 'clawback' } & ClawbackOptions)
+  | ({ type: 'clawbackClaimableBalance' } & ClawbackClaimableBalanceOptions)
+  | ({ type: 'setTrustLineFlags' } & SetTrustLineFlagsOptions)
+  | ({ type: 'liquidityPoolDeposit' } & LiquidityPoolDepositOptions)
+  | ({ type: 'liquidityPoolWithdraw' } & LiquidityPoolWithdrawOptions)
+  | ({ type: 'invokeHostFunction' } & InvokeHostFunctionOptions)
+  | ({ type: 'extendFootprintTtl' } & ExtendFootprintTtlOptions)
+  | { type: 'restoreFootprint'; source?: string };
+
+export type DescribedOperationType = DescribedOperation['type'];
+
+const MAX_INT64 = 9223372036854775807n;
+
+const decoder = new TextDecoder();
+
+/**
+ * Decodes an operation into the options its factory takes, so that
+ * `describeOperation(payment(opts))` equals `{ type: 'payment', ...opts }`.
+ * Accounts become G- or M-addresses; optional fields left at the factory's
+ * default (no offer ID, maximum trust limit, unset `setOptions` fields) are
+ * omitted. Assets, prices, claimants and other structures stay XDR values,
+ * as the factories take them, so the result round-trips; for display
+ * strings see `summarizeTransaction`.
+ */
+export function describeOperation(op: Operation): DescribedOperation {
+  const source = op.sourceAccount ? { source: muxedAccountAddress(op.sourceAccount) } : {};
+  const body = op.body;
+
+  if (body === 'Inflation') return { type: 'inflation', ...source };
+  if (body === 'EndSponsoringFutureReserves') {
+    return { type: 'endSponsoringFutureReserves', ...source };
+  }
+  if (is(body, 'CreateAccount')) {
+    const o = body.CreateAccount;
+    return {
+      type: 'createAccount',
+      destination: publicKeyAddress(o.destination),
+      startingBalance: o.startingBalance,
+      ...source,
+    };
+  }
+  if (is(body, 'Payment')) {
+    const o = body.Payment;
+    return {
+      type: 'payment',
+      destination: muxedAccountAddress(o.destination),
+      asset: o.asset,
+      amount: o.amount,
+      ...source,
+    };
+  }
+  if (is(body, 'PathPaymentStrictReceive')) {
+    const o = body.PathPaymentStrictReceive;
+    return {
+      type: 'pathPaymentStrictReceive',
+      sendAsset: o.sendAsset,
+      sendMax: o.sendMax,
+      destination: muxedAccountAddress(o.destination),
+      destAsset: o.destAsset,
+      destAmount: o.destAmount,
+      path: [...o.path],
+      ...source,
+    };
+  }
+  if (is(body, 'PathPaymentStrictSend')) {
+    const o = body.PathPaymentStrictSend;
+    return {
+      type: 'pathPaymentStrictSend',
+      sendAsset: o.sendAsset,
+      sendAmount: o.sendAmount,
+      destination: muxedAccountAddress(o.destination),
+      destAsset: o.destAsset,
+      destMin: o.destMin,
+      path: [...o.path],
+      ...source,
+    };
+  }
+  if (is(body, 'ManageSellOffer')) {
+    const { offerID, ...o } = body.ManageSellOffer;
+    return { type: 'manageSellOffer', ...o, ...offer(offerID), ...source };
+  }
+  if (is(body, 'ManageBuyOffer')) {
+    const { offerID, ...o } = body.ManageBuyOffer;
+    return { type: 'manageBuyOffer', ...o, ...offer(offerID), ...source };
+  }
+  if (is(body, 'CreatePassiveSellOffer')) {
+    return { type: 'createPassiveSellOffer', ...body.CreatePassiveSellOffer, ...source };
+  }
+  if (is(body, 'SetOptions')) {
+    const o = body.SetOptions;
+    const described: SetOptionsOptions = {};
+    if (o.inflationDest !== null) described.inflationDest = publicKeyAddress(o.inflationDest);
+    if (o.clearFlags !== null) described.clearFlags = o.clearFlags;
+    if (o.setFlags !== null) described.setFlags = o.setFlags;
+    if (o.masterWeight !== null) described.masterWeight = o.masterWeight;
+    if (o.lowThreshold !== null) described.lowThreshold = o.lowThreshold;
+    if (o.medThreshold !== null) described.medThreshold = o.medThreshold;
+    if (o.highThreshold !== null) described.highThreshold = o.highThreshold;
+    if (o.homeDomain !== null) described.homeDomain = o.homeDomain;
+    if (o.signer !== null) described.signer = { key: o.signer.key, weight: o.signer.weight };
+    return { type: 'setOptions', ...described, ...source };
+  }
+  if (is(body, 'ChangeTrust')) {
+    const o = body.ChangeTrust;
+    const limit = o.limit === MAX_INT64 ? {} : { limit: o.limit };
+    return { type: 'changeTrust', asset: o.line, ...limit, ...source };
+  }
+  if (is(body, 'AllowTrust')) {
+    const o = body.AllowTrust;
+    return {
+      type: 'allowTrust',
+      trustor: publicKeyAddress(o.trustor),
+      assetCode: assetCodeString(o.asset),
+      authorize: o.authorize,
+      ...source,
+    };
+  }
+  if (is(body, 'AccountMerge')) {
+    return { type: 'accountMerge', destination: muxedAccountAddress(body.AccountMerge), ...source };
+  }
+  if (is(body, 'ManageData')) {
+    const o = body.ManageData;
+    return { type: 'manageData', name: o.dataName, value: o.dataValue, ...source };
+  }
+  if (is(body, 'BumpSequence')) {
+    return { type: 'bumpSequence', bumpTo: body.BumpSequence.bumpTo, ...source };
+  }
+  if (is(body, 'CreateClaimableBalance')) {
+    const o = body.CreateClaimableBalance;
+    return {
+      type: 'createClaimableBalance',
+      asset: o.asset,
+      amount: o.amount,
+      claimants: [...o.claimants],
+      ...source,
+    };
+  }
+  if (is(body, 'ClaimClaimableBalance')) {
+    return {
+      type: 'claimClaimableBalance',
+      balanceID: body.ClaimClaimableBalance.balanceID,
+      ...source,
+    };
+  }
+  if (is(body, 'BeginSponsoringFutureReserves')) {
+    return {
+      type: 'beginSponsoringFutureReserves',
+      sponsoredID: publicKeyAddress(body.BeginSponsoringFutureReserves.sponsoredID),
+      ...source,
+    };
+  }
+  if (is(body, 'RevokeSponsorship')) {
+    const revoke = body.RevokeSponsorship;
+    if (is(revoke, 'LedgerEntry')) {
+      return { type: 'revokeSponsorshipLedgerEntry', ledgerKey: revoke.LedgerEntry, ...source };
+    }
+    return {
+      type: 'revokeSponsorshipSigner',
+      signer: { accountID: revoke.Signer.accountID, signerKey: revoke.Signer.signerKey },
+      ...source,
+    };
+  }
+  if (is(body, 'Clawback')) {
+    const o = body.Clawback;
+    return {
+      type: 'clawback',
+      asset: o.asset,
+      from: muxedAccountAddress(o.from),
+      amount: o.amount,
+      ...source,
+    };
+  }
+  if (is(body, 'ClawbackClaimableBalance')) {
+    return {
+      type: 'clawbackClaimableBalance',
+      balanceID: body.ClawbackClaimableBalance.balanceID,
+      ...source,
+    };
+  }
+  if (is(body, 'SetTrustLineFlags')) {
+    const o = body.SetTrustLineFlags;
+    return {
+      type: 'setTrustLineFlags',
+      trustor: publicKeyAddress(o.trustor),
+      asset: o.asset,
+      clearFlags: o.clearFlags,
+      setFlags: o.setFlags,
+      ...source,
+    };
+  }
+  if (is(body, 'LiquidityPoolDeposit')) {
+    return { type: 'liquidityPoolDeposit', ...body.LiquidityPoolDeposit, ...source };
+  }
+  if (is(body, 'LiquidityPoolWithdraw')) {
+    return { type: 'liquidityPoolWithdraw', ...body.LiquidityPoolWithdraw, ...source };
+  }
+  if (is(body, 'InvokeHostFunction')) {
+    const o = body.InvokeHostFunction;
+    return {
+      type: 'invokeHostFunction',
+      hostFunction: o.hostFunction,
+      auth: [...o.auth],
+      ...source,
+    };
+  }
+  if (is(body, 'ExtendFootprintTtl')) {
+    return { type: 'extendFootprintTtl', extendTo: body.ExtendFootprintTtl.extendTo, ...source };
+  }
+  // RestoreFootprint is the only arm left
+  return { type: 'restoreFootprint', ...source };
+}
+
+// offerID 0 creates a new offer, which is what the factories default to
+function offer(offerID: bigint): { offerID?: bigint } {
+  return offerID === 0n ? {} : { offerID };
+}
+
+function assetCodeString(code: AssetCode): string {
+  const bytes = is(code, 'CreditAlphanum4') ? code.CreditAlphanum4 : code.CreditAlphanum12;
+  let end = bytes.length;
+  while (end > 0 && bytes[end - 1] === 0) end--;
+  return decoder.decode(bytes.subarray(0, end));
+}
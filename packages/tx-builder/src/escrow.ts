@@ -0,0 +1,87 @@
+import type { Operation, SignerKey } from '@stellar/xdr';
+import { TransactionBuilder, type AccountLike } from './builder.js';
+import { setOptions } from './operations.js';
+import type { BuiltTransaction } from './transaction.js';
+
+export interface BuildTimeLockEscrowOptions {
+  /**
+   * The escrow account, source of both transactions. Its sequence number is
+   * advanced past `setup` only, as `TransactionBuilder.build` does, so that
+   * any `sequenceGap` slots remain free for other transactions.
+   */
+  escrow: AccountLike;
+  fee: number;
+  networkPassphrase: string;
+  /** What the pre-authorized transaction does once unlocked, e.g. pay out or merge the escrow. */
+  operations: Operation[];
+  /** Earliest close time (unix seconds) at which the locked transaction is valid. */
+  unlockAt: bigint;
+  /** Latest close time for the locked transaction; omit for no upper bound. */
+  expiresAt?: bigint;
+  /** Weight of the pre-auth signer on the escrow; defaults to 255. */
+  preAuthWeight?: number;
+  /** Further signers to add in the setup transaction, e.g. the escrow's parties. */
+  signers?: { key: SignerKey; weight: number }[];
+  masterWeight?: number;
+  lowThreshold?: number;
+  medThreshold?: number;
+  highThreshold?: number;
+  /**
+   * Number of other escrow transactions allowed between setup and unlock.
+   * When non-zero, the locked transaction uses a `minSeqNum` precondition so
+   * it stays valid across that many sequence bumps.
+   */
+  sequenceGap?: number;
+}
+
+export interface TimeLockEscrow {
+  /** Adds the signers and thresholds; sign with the escrow's current keys and submit first. */
+  readonly setup: BuiltTransaction;
+  /** Pre-authorized by `setup`; submit unsigned once `unlockAt` has passed. */
+  readonly locked: BuiltTransaction;
+  /** The pre-auth signer key added by `setup`. */
+  readonly preAuthSigner: SignerKey;
+}
+
+/**
+ * Builds the classic time-locked escrow: a `locked` transaction bounded by
+ * `unlockAt`/`expiresAt`, and a `setup` transaction that adds its hash as a
+ * pre-auth signer alongside any other signers and threshold changes.
+ */
+export async function buildTimeLockEscrow(opts: BuildTimeLockEscrowOptions): Promise<TimeLockEscrow> {
+  const sequenceGap = BigInt(opts.sequenceGap ?? 0);
+  if (sequenceGap < 0n) {
+    throw new Error('sequenceGap must not be negative');
+  }
+  const startSeq = opts.escrow.sequenceNumber;
+  const txOpts = { fee: opts.fee, networkPassphrase: opts.networkPassphrase };
+
+  // Locked transaction follows setup (startSeq + 1), leaving room for the gap
+  const lockedAccount = { address: opts.escrow.address, sequenceNumber: startSeq + 1n + sequenceGap };
+  const lockedBuilder = new TransactionBuilder(lockedAccount, txOpts).setTimeBounds(
+    opts.unlockAt,
+    opts.expiresAt ?? 0n,
+  );
+  if (sequenceGap > 0n) {
+    lockedBuilder.setPreconditions({ minSeqNum: startSeq + 1n });
+  }
+  for (const op of opts.operations) lockedBuilder.addOperation(op);
+  const locked = await lockedBuilder.build();
+  const preAuthSigner = locked.toPreAuthSigner();
+
+  const setupBuilder = new TransactionBuilder(opts.escrow, txOpts).addOperation(
+    setOptions({ signer: { key: preAuthSigner, weight: opts.preAuthWeight ?? 255 } }),
+  );
+  for (const signer of opts.signers ?? []) {
+    setupBuilder.addOperation(setOptions({ signer }));
+  }
+  const { masterWeight, lowThreshold, medThreshold, highThreshold } = opts;
+  if ([masterWeight, lowThreshold, medThreshold, highThreshold].some((v) => v !== undefined)) {
+    setupBuilder.addOperation(
+      setOptions({ masterWeight, lowThreshold, medThreshold, highThreshold }),
+    );
+  }
+  const setup = await setupBuilder.build();
+
+  return { setup, locked, preAuthSigner };
+}
@@ -23,6 +23,18 @@ export async function networkId(passphrase: string): Promise<Uint8Array> {
   return cached;
 }
 
+// SEP-53 signing domain separator
+const SIGNED_MESSAGE_PREFIX = encoder.encode('Stellar Signed Message:\n');
+
+/** SEP-53 message hash: SHA-256 of `"Stellar Signed Message:\n" || message`. */
+export async function messageHash(message: string | Uint8Array): Promise<Uint8Array> {
+  const msgBytes = typeof message === 'string' ? encoder.encode(message) : message;
+  const prefixed = new Uint8Array(SIGNED_MESSAGE_PREFIX.length + msgBytes.length);
+  prefixed.set(SIGNED_MESSAGE_PREFIX, 0);
+  prefixed.set(msgBytes, SIGNED_MESSAGE_PREFIX.length);
+  return sha256(prefixed);
+}
+
 // EnvelopeType.Tx = 2, as 4-byte big-endian
 const ENVELOPE_TYPE_TX = new Uint8Array([0, 0, 0, 2]);
 // EnvelopeType.TxFeeBump = 5, as 4-byte big-endian
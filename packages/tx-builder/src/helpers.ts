@@ -1,12 +1,21 @@
 import {
   decodeStrkey,
+  encodeStrkey,
+  encodeMuxedAddress,
+  strkeyFromString,
   STRKEY_ED25519_PUBLIC,
   STRKEY_MUXED_ED25519,
+  STRKEY_PRE_AUTH_TX,
+  STRKEY_HASH_X,
+  STRKEY_SIGNED_PAYLOAD,
   type AccountID,
   type MuxedAccount,
   type Asset,
   type Memo,
+  type SignerKey,
+  type SignerKeyEd25519SignedPayload,
 } from '@stellar/xdr';
+import { sha256 } from './hash.js';
 
 const encoder = new TextEncoder();
 
@@ -32,6 +41,118 @@ export function parseMuxedAccount(address: string): MuxedAccount {
   throw new Error(`Expected G-address or M-address, got version byte ${version}`);
 }
 
+/** Encodes an account ID as its G-address; the inverse of `parsePublicKey`. */
+export function publicKeyAddress(accountId: AccountID): string {
+  return encodeStrkey(STRKEY_ED25519_PUBLIC, accountId.PublicKeyTypeEd25519);
+}
+
+/** Encodes a muxed account as its G- or M-address; the inverse of `parseMuxedAccount`. */
+export function muxedAccountAddress(account: MuxedAccount): string {
+  if ('Ed25519' in account) return encodeStrkey(STRKEY_ED25519_PUBLIC, account.Ed25519);
+  return encodeMuxedAddress(account.MuxedEd25519.ed25519, account.MuxedEd25519.id);
+}
+
+/**
+ * Parses a signer strkey: a G-address (ed25519), T-address (pre-auth tx),
+ * X-address (hash-x) or P-address (signed payload).
+ */
+export function parseSignerKey(address: string): SignerKey {
+  const { version, payload } = decodeStrkey(address);
+  switch (version) {
+    case STRKEY_ED25519_PUBLIC:
+      return { Ed25519: fixed32(payload, 'ed25519 public key') };
+    case STRKEY_PRE_AUTH_TX:
+      return { PreAuthTx: fixed32(payload, 'pre-auth tx hash') };
+    case STRKEY_HASH_X:
+      return { HashX: fixed32(payload, 'hash-x') };
+    case STRKEY_SIGNED_PAYLOAD:
+      return { Ed25519SignedPayload: parseSignedPayload(address) };
+    default:
+      throw new Error(`Expected G-, T-, X- or P-address, got version byte ${version}`);
+  }
+}
+
+/**
+ * Hash-x signer key for `preimage`: satisfied by a transaction carrying the
+ * preimage as a signature (see `BuiltTransaction.signHashX`).
+ */
+export async function hashXSigner(preimage: Uint8Array): Promise<SignerKey> {
+  return { HashX: await hashPreimage(preimage) };
+}
+
+/** SHA-256 of a hash-x preimage, which must fit in a signature (≤64 bytes). */
+export async function hashPreimage(preimage: Uint8Array): Promise<Uint8Array> {
+  if (preimage.length > 64) {
+    throw new Error(`Hash-x preimage must be ≤64 bytes, got ${preimage.length} bytes`);
+  }
+  return sha256(preimage);
+}
+
+/** Encodes a signer key as its strkey; the inverse of `parseSignerKey`. */
+export function signerKeyAddress(key: SignerKey): string {
+  if ('Ed25519' in key) return encodeStrkey(STRKEY_ED25519_PUBLIC, key.Ed25519);
+  if ('PreAuthTx' in key) return encodeStrkey(STRKEY_PRE_AUTH_TX, key.PreAuthTx);
+  if ('HashX' in key) return encodeStrkey(STRKEY_HASH_X, key.HashX);
+  return signedPayloadAddress(key.Ed25519SignedPayload);
+}
+
+/** Parses a CAP-40 signed payload signer (P-address). */
+export function parseSignedPayload(pAddress: string): SignerKeyEd25519SignedPayload {
+  const strkey = strkeyFromString(pAddress);
+  if (strkey.type !== 'signed_payload_ed25519') {
+    throw new Error('Expected signed payload (P-address)');
+  }
+  return { ed25519: strkey.ed25519, payload: strkey.payload };
+}
+
+/** Encodes a CAP-40 signed payload signer as a P-address. */
+export function signedPayloadAddress(signer: SignerKeyEd25519SignedPayload): string {
+  const { ed25519, payload } = checkSignedPayload(signer);
+  const padding = (4 - (payload.length % 4)) % 4;
+  const data = new Uint8Array(36 + payload.length + padding);
+  data.set(ed25519, 0);
+  new DataView(data.buffer).setUint32(32, payload.length, false);
+  data.set(payload, 36);
+  return encodeStrkey(STRKEY_SIGNED_PAYLOAD, data);
+}
+
+/**
+ * Signer key requiring a signature of `payload` by `publicKey` (G-address),
+ * for `setOptions` signers and `extraSigners` preconditions.
+ */
+export function signedPayloadSigner(publicKey: string, payload: Uint8Array): SignerKey {
+  const ed25519 = parsePublicKey(publicKey).PublicKeyTypeEd25519;
+  return { Ed25519SignedPayload: checkSignedPayload({ ed25519, payload }) };
+}
+
+/**
+ * Hint of a signed payload signature: the key's hint XOR the last 4 bytes of
+ * the payload, zero-padded on the right when shorter.
+ */
+export function signedPayloadHint(signer: SignerKeyEd25519SignedPayload): Uint8Array {
+  const hint = signer.ed25519.slice(-4);
+  const tail = signer.payload.subarray(Math.max(0, signer.payload.length - 4));
+  for (let i = 0; i < tail.length; i++) hint[i]! ^= tail[i]!;
+  return hint;
+}
+
+function checkSignedPayload(
+  signer: SignerKeyEd25519SignedPayload,
+): SignerKeyEd25519SignedPayload {
+  fixed32(signer.ed25519, 'ed25519 public key');
+  if (signer.payload.length > 64) {
+    throw new Error(`Signed payload must be ≤64 bytes, got ${signer.payload.length} bytes`);
+  }
+  return signer;
+}
+
+function fixed32(bytes: Uint8Array, what: string): Uint8Array {
+  if (bytes.length !== 32) {
+    throw new Error(`Expected 32-byte ${what}, got ${bytes.length} bytes`);
+  }
+  return bytes;
+}
+
 export function nativeAsset(): Asset {
   return 'Native';
 }
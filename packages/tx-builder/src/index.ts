@@ -1,9 +1,49 @@
 export { Networks } from './networks.js';
-export { sha256, networkId, transactionHash, feeBumpTransactionHash } from './hash.js';
+export { sha256, networkId, transactionHash, feeBumpTransactionHash, messageHash } from './hash.js';
 export { Keypair } from './keypair.js';
+export {
+  callbackSigner,
+  webCryptoSigner,
+  type Signer,
+  type SignRequest,
+  type SignCallback,
+} from './signer.js';
+export { authorizeEntry } from './auth.js';
+export {
+  generateMnemonic,
+  validateMnemonic,
+  entropyToMnemonic,
+  mnemonicToEntropy,
+  mnemonicToSeed,
+  deriveSep5Secret,
+  keypairFromMnemonic,
+  type MnemonicLength,
+} from './mnemonic.js';
+export {
+  encryptKeystore,
+  encryptSeedKeystore,
+  decryptKeystore,
+  decryptKeystoreBytes,
+  KeystoreError,
+  KeystoreErrorCode,
+  KEYSTORE_VERSION,
+  type KeystoreDocument,
+  type KeystoreKind,
+  type ScryptParams,
+  type EncryptKeystoreOptions,
+} from './keystore.js';
 export {
   parsePublicKey,
   parseMuxedAccount,
+  parseSignerKey,
+  signerKeyAddress,
+  parseSignedPayload,
+  signedPayloadAddress,
+  signedPayloadSigner,
+  signedPayloadHint,
+  hashXSigner,
+  publicKeyAddress,
+  muxedAccountAddress,
   nativeAsset,
   creditAsset,
   memoNone,
@@ -69,13 +109,49 @@ export type {
   InvokeHostFunctionOptions,
   ExtendFootprintTtlOptions,
 } from './operations.js';
+export {
+  describeOperation,
+  type DescribedOperation,
+  type DescribedOperationType,
+} from './describe.js';
+export {
+  summarizeTransaction,
+  formatTransactionSummary,
+  formatAmount,
+  type TransactionSummary,
+  type FeeBumpSummary,
+  type MemoSummary,
+  type TimeBoundsSummary,
+  type OperationSummary,
+  type ContractInvocationSummary,
+  type RiskFlag,
+  type RiskCode,
+} from './summary.js';
 export { TransactionBuilder, type AccountLike, type TransactionBuilderOptions } from './builder.js';
+export {
+  signatureStatus,
+  operationThresholdLevel,
+  type ThresholdLevel,
+  type AccountSigner,
+  type AccountThresholds,
+  type AccountSigningInfo,
+  type AccountSignatureStatus,
+  type ExtraSignerStatus,
+  type SignatureStatus,
+} from './multisig.js';
 export {
   BuiltTransaction,
   BuiltFeeBumpTransaction,
   buildFeeBumpTransaction,
   type BuildFeeBumpTransactionOptions,
+  type VerifiedSignature,
+  type SignatureVerification,
 } from './transaction.js';
+export {
+  buildTimeLockEscrow,
+  type BuildTimeLockEscrowOptions,
+  type TimeLockEscrow,
+} from './escrow.js';
 
 // Re-export @stellar/xdr for convenience
 export * from '@stellar/xdr';
@@ -9,12 +9,16 @@ import {
   decodeStrkey,
   STRKEY_ED25519_PUBLIC,
   STRKEY_ED25519_PRIVATE,
+  decodeBase64,
   type DecoratedSignature,
   type MuxedAccount,
   type AccountID,
 } from '@stellar/xdr';
+import { signedPayloadHint } from './helpers.js';
+import { sha256, messageHash } from './hash.js';
+import type { Signer } from './signer.js';
 
-export class Keypair {
+export class Keypair implements Signer {
   readonly rawPublicKey: Uint8Array;
   private readonly _rawSecretKey: Uint8Array | null;
 
@@ -46,6 +50,16 @@ export class Keypair {
     return new Keypair(pub, bytes);
   }
 
+  /**
+   * Derives the SEP-5 account key `m/44'/148'/index'` from a BIP-39 mnemonic
+   * and optional passphrase; see `keypairFromMnemonic`. The mnemonic module
+   * is loaded on first use, keeping its wordlist out of `Keypair` bundles.
+   */
+  static async fromMnemonic(mnemonic: string, index = 0, passphrase = ''): Promise<Keypair> {
+    const { keypairFromMnemonic } = await import('./mnemonic.js');
+    return keypairFromMnemonic(mnemonic, index, passphrase);
+  }
+
   static fromPublicKey(gAddress: string): Keypair {
     const { version, payload } = decodeStrkey(gAddress);
     if (version !== STRKEY_ED25519_PUBLIC) {
@@ -99,10 +113,50 @@ export class Keypair {
     return { hint: this.signatureHint(), signature };
   }
 
+  /**
+   * Signs `payload` for this key's CAP-40 signed payload signer; the hint is
+   * XOR'd with the payload's last bytes as the network expects.
+   */
+  async signPayloadDecorated(payload: Uint8Array): Promise<DecoratedSignature> {
+    const signature = await this.sign(payload);
+    const hint = signedPayloadHint({ ed25519: this.rawPublicKey, payload });
+    return { hint, signature };
+  }
+
+  /** `Signer` implementation: signs a transaction hash directly. */
+  async signTransactionHash(hash: Uint8Array): Promise<Uint8Array> {
+    return this.sign(hash);
+  }
+
+  /** `Signer` implementation: signs the SHA-256 of a Soroban auth preimage. */
+  async signAuthEntry(preimage: Uint8Array): Promise<Uint8Array> {
+    return this.sign(await sha256(preimage));
+  }
+
   async verify(data: Uint8Array, signature: Uint8Array): Promise<boolean> {
     return verifyAsync(signature, data, this.rawPublicKey);
   }
 
+  /** SEP-53: signs the hash of `"Stellar Signed Message:\n" || message`. */
+  async signMessage(message: string | Uint8Array): Promise<Uint8Array> {
+    return this.sign(await messageHash(message));
+  }
+
+  /**
+   * SEP-53: verifies a message signature, given as raw bytes or as the
+   * base64 string it is usually transported as. Malformed signatures (bad
+   * base64, wrong length) resolve to false.
+   */
+  async verifyMessage(message: string | Uint8Array, signature: Uint8Array | string): Promise<boolean> {
+    try {
+      const sigBytes = typeof signature === 'string' ? decodeBase64(signature) : signature;
+      if (sigBytes.length !== 64) return false;
+      return await this.verify(await messageHash(message), sigBytes);
+    } catch {
+      return false;
+    }
+  }
+
   toMuxedAccount(): MuxedAccount {
     return { Ed25519: this.rawPublicKey };
   }
@@ -0,0 +1,313 @@
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { encodeBase64, decodeBase64, bytesToHex } from '@stellar/xdr';
+import { Keypair } from './keypair.js';
+import { sha256 } from './hash.js';
+import { deriveSep5Secret } from './mnemonic.js';
+
+const encoder = new TextEncoder();
+
+export const KEYSTORE_VERSION = 1;
+
+export const KeystoreErrorCode = {
+  /** The document is not a keystore this version understands. */
+  InvalidFormat: 'INVALID_FORMAT',
+  /** The document was modified or corrupted after it was written. */
+  Tampered: 'TAMPERED',
+  /** The password does not decrypt the document. */
+  WrongPassword: 'WRONG_PASSWORD',
+} as const;
+
+export type KeystoreErrorCode = (typeof KeystoreErrorCode)[keyof typeof KeystoreErrorCode];
+
+export class KeystoreError extends Error {
+  readonly code: KeystoreErrorCode;
+
+  constructor(code: KeystoreErrorCode, message: string) {
+    super(message);
+    this.name = 'KeystoreError';
+    this.code = code;
+  }
+}
+
+/** What the keystore holds: a single ed25519 secret, or a 64-byte SEP-5 (BIP-39) seed. */
+export type KeystoreKind = 'ed25519' | 'sep5-seed';
+
+export interface ScryptParams {
+  /** CPU/memory cost, a power of two. */
+  n: number;
+  r: number;
+  p: number;
+}
+
+export interface KeystoreDocument {
+  version: typeof KEYSTORE_VERSION;
+  kind: KeystoreKind;
+  /** G-address of the stored key; for seeds, of account index 0. */
+  publicKey: string;
+  crypto: {
+    kdf: 'scrypt';
+    kdfParams: ScryptParams & { dkLen: 64; salt: string };
+    cipher: 'aes-256-gcm';
+    cipherParams: { iv: string };
+    /** Base64 ciphertext with the GCM tag appended. */
+    ciphertext: string;
+    /**
+     * Hex SHA-256 of the second half of the scrypt output. The first half is
+     * the AES key, so this checks the password without involving the
+     * ciphertext, telling a wrong password apart from a modified document.
+     */
+    verifier: string;
+  };
+  /**
+   * Hex SHA-256 over every other field. Catches corruption before the slow
+   * key derivation; anyone can recompute it, so it does not prove integrity.
+   */
+  checksum: string;
+}
+
+export interface EncryptKeystoreOptions {
+  /** scrypt parameters; defaults to n = 2^17, r = 8, p = 1. */
+  scrypt?: Partial<ScryptParams>;
+}
+
+const DEFAULT_SCRYPT: ScryptParams = { n: 2 ** 17, r: 8, p: 1 };
+
+// Documents are untrusted: these bound the memory (128·n·r bytes, 1 GiB at
+// most) and time a KDF run may take
+const MAX_SCRYPT: ScryptParams = { n: 2 ** 20, r: 32, p: 16 };
+const MAX_SCRYPT_MEMORY = 2 ** 30;
+
+function isScryptParams(params: { n?: unknown; r?: unknown; p?: unknown }): boolean {
+  const { n, r, p } = params;
+  return (
+    isIntegerIn(n, 2, MAX_SCRYPT.n) &&
+    (n & (n - 1)) === 0 &&
+    isIntegerIn(r, 1, MAX_SCRYPT.r) &&
+    isIntegerIn(p, 1, MAX_SCRYPT.p) &&
+    128 * n * r <= MAX_SCRYPT_MEMORY
+  );
+}
+
+function isIntegerIn(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/** Decodes a base64 field of an untrusted document. */
+function decodeField(value: string, field: string): Uint8Array {
+  if (value.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(value)) {
+    throw new KeystoreError(KeystoreErrorCode.InvalidFormat, `Keystore ${field} is not valid base64`);
+  }
+  try {
+    return decodeBase64(value);
+  } catch {
+    throw new KeystoreError(KeystoreErrorCode.InvalidFormat, `Keystore ${field} is not valid base64`);
+  }
+}
+
+/** Derives the AES key and the password verifier stored alongside the ciphertext. */
+async function deriveKeys(
+  password: string,
+  salt: Uint8Array,
+  params: ScryptParams,
+): Promise<{ key: CryptoKey; verifier: string }> {
+  const raw = await scryptAsync(encoder.encode(password.normalize('NFKC')), salt, {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    dkLen: 64,
+  });
+  const key = await crypto.subtle.importKey(
+    'raw',
+    raw.slice(0, 32) as Uint8Array<ArrayBuffer>,
+    'AES-GCM',
+    false,
+    ['encrypt', 'decrypt'],
+  );
+  return { key, verifier: bytesToHex(await sha256(raw.subarray(32))) };
+}
+
+// Fixed field order, so the checksum does not depend on how the JSON was laid out
+async function computeChecksum(doc: Omit<KeystoreDocument, 'checksum'>): Promise<string> {
+  const { kdfParams, cipherParams, ciphertext, verifier } = doc.crypto;
+  const canonical = JSON.stringify([
+    doc.version,
+    doc.kind,
+    doc.publicKey,
+    doc.crypto.kdf,
+    [kdfParams.n, kdfParams.r, kdfParams.p, kdfParams.dkLen, kdfParams.salt],
+    doc.crypto.cipher,
+    cipherParams.iv,
+    ciphertext,
+    verifier,
+  ]);
+  return bytesToHex(await sha256(encoder.encode(canonical)));
+}
+
+async function encrypt(
+  kind: KeystoreKind,
+  plaintext: Uint8Array,
+  publicKey: string,
+  password: string,
+  options: EncryptKeystoreOptions,
+): Promise<KeystoreDocument> {
+  const params = { ...DEFAULT_SCRYPT, ...options.scrypt };
+  if (!isScryptParams(params)) {
+    throw new Error(
+      `Invalid scrypt parameters: n must be a power of two up to 2^20, r at most ${MAX_SCRYPT.r}, ` +
+        `p at most ${MAX_SCRYPT.p}, and 128·n·r at most 1 GiB`,
+    );
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(32));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const { key, verifier } = await deriveKeys(password, salt, params);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(publicKey) },
+    key,
+    plaintext as ArrayBufferView<ArrayBuffer>,
+  );
+  const doc: Omit<KeystoreDocument, 'checksum'> = {
+    version: KEYSTORE_VERSION,
+    kind,
+    publicKey,
+    crypto: {
+      kdf: 'scrypt',
+      kdfParams: { ...params, dkLen: 64, salt: encodeBase64(salt) },
+      cipher: 'aes-256-gcm',
+      cipherParams: { iv: encodeBase64(iv) },
+      ciphertext: encodeBase64(new Uint8Array(ciphertext)),
+      verifier,
+    },
+  };
+  return { ...doc, checksum: await computeChecksum(doc) };
+}
+
+/** Encrypts a keypair's secret key under `password`. */
+export async function encryptKeystore(
+  keypair: Keypair,
+  password: string,
+  options: EncryptKeystoreOptions = {},
+): Promise<KeystoreDocument> {
+  return encrypt('ed25519', keypair.rawSecretKey, keypair.publicKey, password, options);
+}
+
+/** Encrypts a 64-byte SEP-5 seed (see `mnemonicToSeed`) under `password`. */
+export async function encryptSeedKeystore(
+  seed: Uint8Array,
+  password: string,
+  options: EncryptKeystoreOptions = {},
+): Promise<KeystoreDocument> {
+  if (seed.length !== 64) {
+    throw new Error('SEP-5 seed must be 64 bytes');
+  }
+  const account = await Keypair.fromRawSecret(await deriveSep5Secret(seed, 0));
+  return encrypt('sep5-seed', seed, account.publicKey, password, options);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function parseDocument(input: KeystoreDocument | string): KeystoreDocument {
+  let doc: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      doc = JSON.parse(input);
+    } catch {
+      throw new KeystoreError(KeystoreErrorCode.InvalidFormat, 'Keystore is not valid JSON');
+    }
+  }
+  if (!isRecord(doc) || doc.version !== KEYSTORE_VERSION) {
+    throw new KeystoreError(
+      KeystoreErrorCode.InvalidFormat,
+      `Unsupported keystore version: ${isRecord(doc) ? String(doc.version) : 'none'}`,
+    );
+  }
+  if (!isKeystoreDocument(doc)) {
+    throw new KeystoreError(KeystoreErrorCode.InvalidFormat, 'Malformed keystore document');
+  }
+  return doc;
+}
+
+function isKeystoreDocument(
+  doc: Record<string, unknown>,
+): doc is Record<string, unknown> & KeystoreDocument {
+  const c = doc.crypto;
+  if (!isRecord(c) || !isRecord(c.kdfParams) || !isRecord(c.cipherParams)) return false;
+  const { kdfParams, cipherParams } = c;
+  return (
+    (doc.kind === 'ed25519' || doc.kind === 'sep5-seed') &&
+    typeof doc.publicKey === 'string' &&
+    typeof doc.checksum === 'string' &&
+    c.kdf === 'scrypt' &&
+    c.cipher === 'aes-256-gcm' &&
+    isScryptParams(kdfParams) &&
+    kdfParams.dkLen === 64 &&
+    typeof kdfParams.salt === 'string' &&
+    typeof cipherParams.iv === 'string' &&
+    typeof c.ciphertext === 'string' &&
+    typeof c.verifier === 'string'
+  );
+}
+
+/**
+ * Decrypts a keystore to its raw secret bytes: the 32-byte ed25519 secret or
+ * the 64-byte SEP-5 seed, depending on `kind`.
+ */
+export async function decryptKeystoreBytes(
+  input: KeystoreDocument | string,
+  password: string,
+): Promise<{ kind: KeystoreKind; secret: Uint8Array }> {
+  const doc = parseDocument(input);
+  const { kdfParams, cipherParams } = doc.crypto;
+  const salt = decodeField(kdfParams.salt, 'salt');
+  const iv = decodeField(cipherParams.iv, 'IV');
+  const ciphertext = decodeField(doc.crypto.ciphertext, 'ciphertext');
+  if (salt.length === 0 || iv.length !== 12 || ciphertext.length < 16) {
+    throw new KeystoreError(KeystoreErrorCode.InvalidFormat, 'Malformed keystore document');
+  }
+  if ((await computeChecksum(doc)) !== doc.checksum.toLowerCase()) {
+    throw new KeystoreError(KeystoreErrorCode.Tampered, 'Keystore checksum mismatch');
+  }
+  const { key, verifier } = await deriveKeys(password, salt, kdfParams);
+  if (verifier !== doc.crypto.verifier.toLowerCase()) {
+    throw new KeystoreError(KeystoreErrorCode.WrongPassword, 'Incorrect keystore password');
+  }
+  // The password is right, so a failed GCM tag means the document was changed
+  let plaintext: Uint8Array;
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: iv as Uint8Array<ArrayBuffer>,
+        additionalData: encoder.encode(doc.publicKey),
+      },
+      key,
+      ciphertext as Uint8Array<ArrayBuffer>,
+    );
+    plaintext = new Uint8Array(decrypted);
+  } catch {
+    throw new KeystoreError(KeystoreErrorCode.Tampered, 'Keystore ciphertext failed authentication');
+  }
+
+  const mismatch = new KeystoreError(
+    KeystoreErrorCode.Tampered,
+    'Decrypted key does not match keystore public key',
+  );
+  if (plaintext.length !== (doc.kind === 'ed25519' ? 32 : 64)) throw mismatch;
+  const secret = doc.kind === 'ed25519' ? plaintext : await deriveSep5Secret(plaintext, 0);
+  if ((await Keypair.fromRawSecret(secret)).publicKey !== doc.publicKey) throw mismatch;
+  return { kind: doc.kind, secret: plaintext };
+}
+
+/**
+ * Decrypts a keystore to a `Keypair`. For SEP-5 seed keystores, `index`
+ * selects the account `m/44'/148'/index'`.
+ */
+export async function decryptKeystore(
+  input: KeystoreDocument | string,
+  password: string,
+  index = 0,
+): Promise<Keypair> {
+  const { kind, secret } = await decryptKeystoreBytes(input, password);
+  return Keypair.fromRawSecret(kind === 'ed25519' ? secret : await deriveSep5Secret(secret, index));
+}
@@ -0,0 +1,161 @@
+import { sha256 } from './hash.js';
+import { Keypair } from './keypair.js';
+
+const encoder = new TextEncoder();
+
+// Loaded on first use, so code-splitting bundlers keep it in its own chunk
+let words: readonly string[] | undefined;
+let wordIndex: Map<string, number> | undefined;
+
+async function wordlist(): Promise<readonly string[]> {
+  const { BIP39_ENGLISH_WORDS } = await import('./bip39-wordlist.js');
+  return (words ??= BIP39_ENGLISH_WORDS.trim().split(/\s+/));
+}
+
+async function wordIndexes(): Promise<Map<string, number>> {
+  return (wordIndex ??= new Map((await wordlist()).map((w, i) => [w, i])));
+}
+
+// SLIP-0010 hardened child offset
+const HARDENED_OFFSET = 0x80000000;
+
+/** Number of mnemonic words: 128 bits of entropy give 12, 256 bits give 24. */
+export type MnemonicLength = 12 | 24;
+
+function bytesToBits(bytes: Uint8Array): string {
+  let bits = '';
+  for (const b of bytes) bits += b.toString(2).padStart(8, '0');
+  return bits;
+}
+
+function splitWords(mnemonic: string): string[] {
+  return mnemonic.normalize('NFKD').trim().split(/\s+/).filter((w) => w.length > 0);
+}
+
+async function checksumBits(entropy: Uint8Array): Promise<string> {
+  const hash = await sha256(entropy);
+  return bytesToBits(hash).slice(0, (entropy.length * 8) / 32);
+}
+
+/** Encodes 16–32 bytes of entropy (a multiple of 4) as a BIP-39 English mnemonic. */
+export async function entropyToMnemonic(entropy: Uint8Array): Promise<string> {
+  if (entropy.length < 16 || entropy.length > 32 || entropy.length % 4 !== 0) {
+    throw new Error('Entropy must be 16 to 32 bytes, in multiples of 4');
+  }
+  const bits = bytesToBits(entropy) + (await checksumBits(entropy));
+  const list = await wordlist();
+  const words: string[] = [];
+  for (let i = 0; i < bits.length; i += 11) {
+    words.push(list[parseInt(bits.slice(i, i + 11), 2)]!);
+  }
+  return words.join(' ');
+}
+
+/**
+ * Decodes a BIP-39 English mnemonic back to its entropy, throwing on unknown
+ * words, an invalid word count, or a checksum mismatch.
+ */
+export async function mnemonicToEntropy(mnemonic: string): Promise<Uint8Array> {
+  const words = splitWords(mnemonic);
+  if (words.length < 12 || words.length > 24 || words.length % 3 !== 0) {
+    throw new Error('Mnemonic must have 12, 15, 18, 21 or 24 words');
+  }
+  const indexes = await wordIndexes();
+  let bits = '';
+  for (const word of words) {
+    const index = indexes.get(word);
+    if (index === undefined) {
+      throw new Error(`Unknown mnemonic word: ${word}`);
+    }
+    bits += index.toString(2).padStart(11, '0');
+  }
+  const entropyBits = (bits.length / 33) * 32;
+  const entropy = new Uint8Array(entropyBits / 8);
+  for (let i = 0; i < entropy.length; i++) {
+    entropy[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+  }
+  if ((await checksumBits(entropy)) !== bits.slice(entropyBits)) {
+    throw new Error('Invalid mnemonic checksum');
+  }
+  return entropy;
+}
+
+/** Generates a random BIP-39 English mnemonic of 12 (default) or 24 words. */
+export async function generateMnemonic(length: MnemonicLength = 12): Promise<string> {
+  if (length !== 12 && length !== 24) {
+    throw new Error('Mnemonic length must be 12 or 24 words');
+  }
+  const entropy = crypto.getRandomValues(new Uint8Array(length === 12 ? 16 : 32));
+  return entropyToMnemonic(entropy);
+}
+
+/** Returns true if `mnemonic` consists of wordlist words with a valid checksum. */
+export async function validateMnemonic(mnemonic: string): Promise<boolean> {
+  try {
+    await mnemonicToEntropy(mnemonic);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Stretches a mnemonic and optional passphrase into the 64-byte BIP-39 seed
+ * (PBKDF2-HMAC-SHA512, 2048 rounds). The checksum is verified first.
+ */
+export async function mnemonicToSeed(mnemonic: string, passphrase = ''): Promise<Uint8Array> {
+  await mnemonicToEntropy(mnemonic);
+  const password = encoder.encode(splitWords(mnemonic).join(' '));
+  const salt = encoder.encode('mnemonic' + passphrase.normalize('NFKD'));
+  const key = await crypto.subtle.importKey('raw', password, 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-512', salt, iterations: 2048 },
+    key,
+    512,
+  );
+  return new Uint8Array(bits);
+}
+
+async function hmacSha512(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key as ArrayBufferView<ArrayBuffer>,
+    { name: 'HMAC', hash: 'SHA-512' },
+    false,
+    ['sign'],
+  );
+  const mac = await crypto.subtle.sign('HMAC', cryptoKey, data as ArrayBufferView<ArrayBuffer>);
+  return new Uint8Array(mac);
+}
+
+/**
+ * Derives the raw ed25519 secret key for SEP-5 path `m/44'/148'/index'` from a
+ * BIP-39 seed, using SLIP-0010 hardened derivation.
+ */
+export async function deriveSep5Secret(seed: Uint8Array, index = 0): Promise<Uint8Array> {
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error('Account index must be an integer in [0, 2^31)');
+  }
+  let node = await hmacSha512(encoder.encode('ed25519 seed'), seed);
+  for (const segment of [44, 148, index]) {
+    const data = new Uint8Array(37);
+    data.set(node.subarray(0, 32), 1);
+    new DataView(data.buffer).setUint32(33, segment + HARDENED_OFFSET);
+    node = await hmacSha512(node.subarray(32), data);
+  }
+  return node.slice(0, 32);
+}
+
+/**
+ * Derives the SEP-5 account keypair `m/44'/148'/index'` from a BIP-39
+ * mnemonic and optional passphrase. Rejects mnemonics with an invalid
+ * checksum.
+ */
+export async function keypairFromMnemonic(
+  mnemonic: string,
+  index = 0,
+  passphrase = '',
+): Promise<Keypair> {
+  const seed = await mnemonicToSeed(mnemonic, passphrase);
+  return Keypair.fromRawSecret(await deriveSep5Secret(seed, index));
+}
@@ -0,0 +1,254 @@
+import { verifyAsync } from '@noble/ed25519';
+import {
+  encodeStrkey,
+  STRKEY_ED25519_PUBLIC,
+  is,
+  type DecoratedSignature,
+  type MuxedAccount,
+  type Operation,
+  type SignerKey,
+} from '@stellar/xdr';
+import { sha256 } from './hash.js';
+import { parseSignerKey, signerKeyAddress, signedPayloadHint } from './helpers.js';
+import type { BuiltTransaction } from './transaction.js';
+
+export type ThresholdLevel = 'low' | 'medium' | 'high';
+
+export interface AccountSigner {
+  /** Signer strkey: G- (ed25519), T- (pre-auth tx), X- (hash-x) or P-address (signed payload). */
+  readonly key: string;
+  readonly weight: number;
+}
+
+export interface AccountThresholds {
+  readonly low: number;
+  readonly medium: number;
+  readonly high: number;
+}
+
+/** An account's signers and thresholds, as reported by Horizon or RPC. */
+export interface AccountSigningInfo {
+  /** Every signer, including the master key (the account's own G-address) at its master weight. */
+  readonly signers: readonly AccountSigner[];
+  readonly thresholds: AccountThresholds;
+}
+
+export interface AccountSignatureStatus {
+  /** G-address of the account (muxed sources are reduced to their base account). */
+  readonly account: string;
+  /** Highest threshold category required by the operations it is source of. */
+  readonly level: ThresholdLevel;
+  readonly threshold: number;
+  /** Total weight of the signers whose signatures are present. */
+  readonly weight: number;
+  readonly met: boolean;
+  readonly signedBy: readonly AccountSigner[];
+  /** Signers that have not signed yet, in the order given. */
+  readonly missing: readonly AccountSigner[];
+}
+
+export interface ExtraSignerStatus {
+  readonly key: string;
+  readonly satisfied: boolean;
+}
+
+export interface SignatureStatus {
+  /** True when every account meets its threshold and every extra signer is satisfied. */
+  readonly complete: boolean;
+  readonly accounts: readonly AccountSignatureStatus[];
+  /** `extraSigners` from the transaction's V2 preconditions. */
+  readonly extraSigners: readonly ExtraSignerStatus[];
+  /** Indices of envelope signatures that match none of the signers above. */
+  readonly unusedSignatures: readonly number[];
+}
+
+// Signer weights above 255 count as 255
+const MAX_SIGNER_WEIGHT = 255;
+
+const LEVEL_ORDER: Record<ThresholdLevel, number> = { low: 0, medium: 1, high: 2 };
+
+/**
+ * Threshold category an operation needs from its source account, as applied
+ * by stellar-core. `setOptions` is high when it changes signers, weights or
+ * thresholds and medium otherwise.
+ */
+export function operationThresholdLevel(op: Operation): ThresholdLevel {
+  const body = op.body;
+  if (is(body, 'SetOptions')) {
+    const o = body.SetOptions;
+    const high =
+      o.masterWeight !== null ||
+      o.lowThreshold !== null ||
+      o.medThreshold !== null ||
+      o.highThreshold !== null ||
+      o.signer !== null;
+    return high ? 'high' : 'medium';
+  }
+  const arm = typeof body === 'string' ? body : Object.keys(body)[0];
+  switch (arm) {
+    case 'AccountMerge':
+      return 'high';
+    case 'AllowTrust':
+    case 'SetTrustLineFlags':
+    case 'BumpSequence':
+    case 'ClaimClaimableBalance':
+    case 'Inflation':
+    case 'ExtendFootprintTtl':
+    case 'RestoreFootprint':
+      return 'low';
+    default:
+      return 'medium';
+  }
+}
+
+/** G-address of a (possibly muxed) account. */
+export function baseAddress(account: MuxedAccount): string {
+  const ed25519 = 'Ed25519' in account ? account.Ed25519 : account.MuxedEd25519.ed25519;
+  return encodeStrkey(STRKEY_ED25519_PUBLIC, ed25519);
+}
+
+function hintMatches(sig: DecoratedSignature, hint: Uint8Array): boolean {
+  return sig.hint.every((b, i) => b === hint[i]);
+}
+
+/** Hint a signature by `key` carries; `null` for pre-auth tx signers, which never sign. */
+export function signerHint(key: SignerKey): Uint8Array | null {
+  if ('Ed25519' in key) return key.Ed25519.slice(-4);
+  if ('HashX' in key) return key.HashX.slice(-4);
+  if ('Ed25519SignedPayload' in key) return signedPayloadHint(key.Ed25519SignedPayload);
+  return null;
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+/**
+ * Whether `sig` is a valid signature of `hash` by `key`: hint and ed25519
+ * signature for G- and P-address signers, hint and SHA-256 preimage for
+ * hash-x signers. Pre-auth tx signers never carry a signature.
+ */
+export async function signatureMatches(
+  sig: DecoratedSignature,
+  key: SignerKey,
+  hash: Uint8Array,
+): Promise<boolean> {
+  if ('Ed25519' in key) {
+    return (
+      hintMatches(sig, key.Ed25519.slice(-4)) && (await verifies(sig.signature, hash, key.Ed25519))
+    );
+  }
+  if ('HashX' in key) {
+    return (
+      hintMatches(sig, key.HashX.slice(-4)) && bytesEqual(await sha256(sig.signature), key.HashX)
+    );
+  }
+  if ('Ed25519SignedPayload' in key) {
+    const signer = key.Ed25519SignedPayload;
+    return (
+      hintMatches(sig, signedPayloadHint(signer)) &&
+      (await verifies(sig.signature, signer.payload, signer.ed25519))
+    );
+  }
+  return false;
+}
+
+/**
+ * Finds the envelope signature satisfying `key`. Resolves to its index, to
+ * `-1` for a pre-auth tx signer matching this transaction (which needs no
+ * signature), or to `null` when the signer has not signed.
+ */
+async function findSignature(
+  key: SignerKey,
+  hash: Uint8Array,
+  signatures: readonly DecoratedSignature[],
+): Promise<number | null> {
+  if ('PreAuthTx' in key) {
+    return bytesEqual(key.PreAuthTx, hash) ? -1 : null;
+  }
+  for (const [i, sig] of signatures.entries()) {
+    if (await signatureMatches(sig, key, hash)) return i;
+  }
+  return null;
+}
+
+async function verifies(
+  signature: Uint8Array,
+  data: Uint8Array,
+  publicKey: Uint8Array,
+): Promise<boolean> {
+  if (signature.length !== 64) return false;
+  try {
+    return await verifyAsync(signature, data, publicKey);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Evaluates which accounts involved in `tx` — its source and every operation
+ * source — have collected enough signature weight, and which signers are
+ * still missing. `accounts` maps each account's G-address to its signers and
+ * thresholds; an involved account missing from it is an error.
+ */
+export async function signatureStatus(
+  tx: BuiltTransaction,
+  accounts: Readonly<Record<string, AccountSigningInfo>>,
+): Promise<SignatureStatus> {
+  const { signatures } = tx.toEnvelope();
+  const used = new Set<number>();
+
+  // The transaction source needs low for fees and sequence number
+  const levels = new Map<string, ThresholdLevel>([[baseAddress(tx.tx.sourceAccount), 'low']]);
+  for (const op of tx.tx.operations) {
+    const account = baseAddress(op.sourceAccount ?? tx.tx.sourceAccount);
+    const level = operationThresholdLevel(op);
+    const current = levels.get(account);
+    if (current === undefined || LEVEL_ORDER[level] > LEVEL_ORDER[current]) {
+      levels.set(account, level);
+    }
+  }
+
+  const accountStatuses: AccountSignatureStatus[] = [];
+  for (const [account, level] of levels) {
+    const info = accounts[account];
+    if (!info) {
+      throw new Error(`No signer information for account ${account}`);
+    }
+    const threshold = info.thresholds[level];
+    const signedBy: AccountSigner[] = [];
+    const missing: AccountSigner[] = [];
+    let weight = 0;
+    for (const signer of info.signers) {
+      if (signer.weight <= 0) continue;
+      const index = await findSignature(parseSignerKey(signer.key), tx.hash, signatures);
+      if (index === null) {
+        missing.push(signer);
+        continue;
+      }
+      if (index >= 0) used.add(index);
+      signedBy.push(signer);
+      weight += Math.min(signer.weight, MAX_SIGNER_WEIGHT);
+    }
+    // stellar-core needs at least one signature even for a zero threshold
+    const met = weight > 0 && weight >= threshold;
+    accountStatuses.push({ account, level, threshold, weight, met, signedBy, missing });
+  }
+
+  const extraSigners: ExtraSignerStatus[] = [];
+  const cond = tx.tx.cond;
+  if (cond !== 'None' && 'V2' in cond) {
+    for (const key of cond.V2.extraSigners) {
+      const index = await findSignature(key, tx.hash, signatures);
+      if (index !== null && index >= 0) used.add(index);
+      extraSigners.push({ key: signerKeyAddress(key), satisfied: index !== null });
+    }
+  }
+
+  return {
+    complete: accountStatuses.every((a) => a.met) && extraSigners.every((e) => e.satisfied),
+    accounts: accountStatuses,
+    extraSigners,
+    unusedSignatures: signatures.map((_, i) => i).filter((i) => !used.has(i)),
+  };
+}
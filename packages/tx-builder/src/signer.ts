@@ -0,0 +1,108 @@
+import { verifyAsync } from '@noble/ed25519';
+import {
+  encodeStrkey,
+  decodeStrkey,
+  decodeBase64,
+  STRKEY_ED25519_PUBLIC,
+  type DecoratedSignature,
+} from '@stellar/xdr';
+import { sha256 } from './hash.js';
+
+/**
+ * Anything that can produce ed25519 signatures for a Stellar account: an
+ * in-process `Keypair`, a WebCrypto key, a remote signing service or a
+ * browser wallet.
+ */
+export interface Signer {
+  /** G-address of the signing key. */
+  readonly publicKey: string;
+
+  /** Signs a 32-byte transaction or fee-bump hash; resolves to the raw 64-byte signature. */
+  signTransactionHash(hash: Uint8Array, networkPassphrase: string): Promise<Uint8Array>;
+
+  /**
+   * Signs a Soroban authorization entry. `preimage` is the XDR-encoded
+   * `HashIDPreimage`; the signature covers its SHA-256 hash.
+   */
+  signAuthEntry?(preimage: Uint8Array, networkPassphrase: string): Promise<Uint8Array>;
+}
+
+/** What a callback signer is asked to sign. */
+export type SignRequest =
+  | { readonly type: 'transaction'; readonly hash: Uint8Array; readonly networkPassphrase: string }
+  | {
+      readonly type: 'authEntry';
+      readonly preimage: Uint8Array;
+      readonly hash: Uint8Array;
+      readonly networkPassphrase: string;
+    };
+
+/** Resolves to the raw signature, or to its base64 encoding. */
+export type SignCallback = (request: SignRequest) => Promise<Uint8Array | string>;
+
+function publicKeyBytes(publicKey: string): Uint8Array {
+  const { version, payload } = decodeStrkey(publicKey);
+  if (version !== STRKEY_ED25519_PUBLIC) {
+    throw new Error('Signer public key must be an ed25519 public key (G-address)');
+  }
+  return payload;
+}
+
+/** Signs a transaction hash with `signer` and attaches the key's signature hint. */
+export async function signHashDecorated(
+  signer: Signer,
+  hash: Uint8Array,
+  networkPassphrase: string,
+): Promise<DecoratedSignature> {
+  const hint = publicKeyBytes(signer.publicKey).slice(-4);
+  const signature = await signer.signTransactionHash(hash, networkPassphrase);
+  return { hint, signature };
+}
+
+/**
+ * Adapts a callback — typically a request to a remote signing service — into
+ * a `Signer`. Returned signatures are verified against `publicKey`, so a
+ * misbehaving service fails here rather than at submission.
+ */
+export function callbackSigner(publicKey: string, callback: SignCallback): Signer {
+  const rawPublicKey = publicKeyBytes(publicKey);
+
+  async function checked(hash: Uint8Array, result: Uint8Array | string): Promise<Uint8Array> {
+    const signature = typeof result === 'string' ? decodeBase64(result) : result;
+    if (signature.length !== 64 || !(await verifyAsync(signature, hash, rawPublicKey))) {
+      throw new Error(`Signer returned an invalid signature for ${publicKey}`);
+    }
+    return signature;
+  }
+
+  return {
+    publicKey,
+    async signTransactionHash(hash, networkPassphrase) {
+      return checked(hash, await callback({ type: 'transaction', hash, networkPassphrase }));
+    },
+    async signAuthEntry(preimage, networkPassphrase) {
+      const hash = await sha256(preimage);
+      return checked(hash, await callback({ type: 'authEntry', preimage, hash, networkPassphrase }));
+    },
+  };
+}
+
+/**
+ * Adapts a WebCrypto Ed25519 key pair into a `Signer`. The private key may be
+ * non-extractable; only the public key is exported.
+ */
+export async function webCryptoSigner(keyPair: CryptoKeyPair): Promise<Signer> {
+  if (keyPair.privateKey.algorithm.name !== 'Ed25519') {
+    throw new Error(`Expected an Ed25519 key, got ${keyPair.privateKey.algorithm.name}`);
+  }
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+  const sign = async (data: Uint8Array): Promise<Uint8Array> =>
+    new Uint8Array(
+      await crypto.subtle.sign('Ed25519', keyPair.privateKey, data as ArrayBufferView<ArrayBuffer>),
+    );
+  return {
+    publicKey: encodeStrkey(STRKEY_ED25519_PUBLIC, raw),
+    signTransactionHash: (hash) => sign(hash),
+    signAuthEntry: async (preimage) => sign(await sha256(preimage)),
+  };
+}
@@ -0,0 +1,558 @@
+import {
+  bytesToHex,
+  is,
+  strkeyToString,
+  type Asset,
+  type ChangeTrustAsset,
+  type ClaimableBalanceID,
+  type HostFunction,
+  type Memo,
+  type Operation,
+  type Price,
+  type SCAddress,
+  type SCVal,
+  type Transaction,
+} from '@stellar/xdr';
+import {
+  describeOperation,
+  type DescribedOperation,
+  type DescribedOperationType,
+} from './describe.js';
+import {
+  muxedAccountAddress,
+  parseMuxedAccount,
+  publicKeyAddress,
+  signerKeyAddress,
+} from './helpers.js';
+import { Networks } from './networks.js';
+import { BuiltFeeBumpTransaction, type BuiltTransaction } from './transaction.js';
+
+export interface MemoSummary {
+  readonly type: 'text' | 'id' | 'hash' | 'return';
+  /** The text, the ID in decimal, or the hash in hex. */
+  readonly value: string;
+}
+
+export interface TimeBoundsSummary {
+  /** Null when the transaction has no lower bound. */
+  readonly minTime: Date | null;
+  /** Null when the transaction never expires. */
+  readonly maxTime: Date | null;
+}
+
+export interface ContractInvocationSummary {
+  /** C-address of the invoked contract. */
+  readonly contract: string;
+  readonly function: string;
+  /**
+   * Arguments as JavaScript values: numbers for 32-bit integers, bigints for
+   * wider ones, strkeys for addresses, `Uint8Array` for bytes, arrays and
+   * `Map`s for vectors and maps, and the `SCVal` itself for anything else.
+   */
+  readonly args: readonly unknown[];
+}
+
+export interface OperationSummary {
+  readonly index: number;
+  readonly type: DescribedOperationType;
+  /** Account the operation acts on: its own source, else the transaction's. */
+  readonly source: string;
+  readonly description: string;
+  readonly operation: DescribedOperation;
+  /** Set for `invokeHostFunction` operations that call a contract. */
+  readonly invocation: ContractInvocationSummary | null;
+}
+
+export type RiskCode =
+  | 'accountMerge'
+  | 'masterWeight'
+  | 'signers'
+  | 'thresholds'
+  | 'accountFlags'
+  | 'noExpiry';
+
+export interface RiskFlag {
+  readonly code: RiskCode;
+  /** Index of the operation raising the flag; null for transaction-level flags. */
+  readonly operation: number | null;
+  readonly message: string;
+}
+
+export interface FeeBumpSummary {
+  readonly feeSource: string;
+  /** Maximum fee in XLM, replacing the inner transaction's. */
+  readonly fee: string;
+}
+
+export interface TransactionSummary {
+  /** 'Public', 'Testnet' or 'Futurenet', else the passphrase itself. */
+  readonly network: string;
+  readonly networkPassphrase: string;
+  readonly source: string;
+  readonly sequenceNumber: bigint;
+  /** Maximum fee in XLM. */
+  readonly fee: string;
+  /** Set when summarizing a fee bump; everything else describes its inner transaction. */
+  readonly feeBump: FeeBumpSummary | null;
+  readonly memo: MemoSummary | null;
+  readonly timeBounds: TimeBoundsSummary | null;
+  readonly operations: readonly OperationSummary[];
+  readonly risks: readonly RiskFlag[];
+}
+
+const STROOPS_PER_XLM = 10_000_000n;
+
+const NETWORK_NAMES: Record<string, string> = {
+  [Networks.PUBLIC]: 'Public',
+  [Networks.TESTNET]: 'Testnet',
+  [Networks.FUTURENET]: 'Futurenet',
+};
+
+const decoder = new TextDecoder();
+const strictDecoder = new TextDecoder('utf-8', { fatal: true });
+
+/** Formats a stroop amount as a decimal with up to 7 places, e.g. `125000000n` → `'12.5'`. */
+export function formatAmount(stroops: bigint): string {
+  const abs = stroops < 0n ? -stroops : stroops;
+  const fraction = (abs % STROOPS_PER_XLM).toString().padStart(7, '0').replace(/0+$/, '');
+  const whole = `${stroops < 0n ? '-' : ''}${abs / STROOPS_PER_XLM}`;
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Summarizes what signing `tx` would authorize, for showing to a user before
+ * they sign: network, source, fees, memo, time bounds, each operation in
+ * words and risk flags. Fee bumps are summarized by their inner transaction
+ * plus `feeBump`.
+ */
+export function summarizeTransaction(
+  tx: BuiltTransaction | BuiltFeeBumpTransaction,
+): TransactionSummary {
+  const feeBump =
+    tx instanceof BuiltFeeBumpTransaction
+      ? { feeSource: muxedAccountAddress(tx.tx.feeSource), fee: formatAmount(tx.tx.fee) }
+      : null;
+  const inner = tx instanceof BuiltFeeBumpTransaction ? tx.innerTransaction.tx : tx.tx;
+  const source = muxedAccountAddress(inner.sourceAccount);
+
+  const operations = inner.operations.map((op, index) => summarizeOperation(op, index, source));
+  const timeBounds = summarizeTimeBounds(inner);
+  const risks = operations.flatMap((op) => operationRisks(op));
+  if (timeBounds === null || timeBounds.maxTime === null) {
+    risks.push({
+      code: 'noExpiry',
+      operation: null,
+      message: 'The transaction never expires and can be submitted at any time',
+    });
+  }
+
+  return {
+    network: NETWORK_NAMES[tx.networkPassphrase] ?? tx.networkPassphrase,
+    networkPassphrase: tx.networkPassphrase,
+    source,
+    sequenceNumber: inner.seqNum,
+    fee: formatAmount(BigInt(inner.fee)),
+    feeBump,
+    memo: summarizeMemo(inner.memo),
+    timeBounds,
+    operations,
+    risks,
+  };
+}
+
+/** Renders a summary as plain-English lines, abbreviating addresses. */
+export function formatTransactionSummary(summary: TransactionSummary): string {
+  const lines = [`Network: ${summary.network}`, `Source: ${account(summary.source)}`];
+  if (summary.feeBump) {
+    const { fee, feeSource } = summary.feeBump;
+    lines.push(`Fee: up to ${fee} XLM, paid by ${account(feeSource)} (fee bump)`);
+  } else {
+    lines.push(`Fee: up to ${summary.fee} XLM`);
+  }
+  if (summary.memo) {
+    const { type, value } = summary.memo;
+    lines.push(`Memo (${type}): ${type === 'text' ? JSON.stringify(value) : value}`);
+  }
+  const { minTime, maxTime } = summary.timeBounds ?? { minTime: null, maxTime: null };
+  if (minTime || maxTime) {
+    const from = minTime ? `from ${minTime.toISOString()}` : 'now';
+    const until = maxTime ? `until ${maxTime.toISOString()}` : 'with no expiry';
+    lines.push(`Valid: ${from} ${until}`);
+  }
+  lines.push('Operations:');
+  for (const op of summary.operations) {
+    lines.push(`  ${op.index + 1}. ${op.description}`);
+  }
+  if (summary.risks.length > 0) {
+    lines.push('Warnings:');
+    for (const risk of summary.risks) {
+      const where = risk.operation === null ? '' : `Operation ${risk.operation + 1}: `;
+      lines.push(`  - ${where}${risk.message}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function summarizeMemo(memo: Memo): MemoSummary | null {
+  if (memo === 'None') return null;
+  if (is(memo, 'Text')) return { type: 'text', value: memo.Text };
+  if (is(memo, 'Id')) return { type: 'id', value: memo.Id.toString() };
+  if (is(memo, 'Hash')) return { type: 'hash', value: bytesToHex(memo.Hash) };
+  return { type: 'return', value: bytesToHex(memo.Return) };
+}
+
+function summarizeTimeBounds(tx: Transaction): TimeBoundsSummary | null {
+  const cond = tx.cond;
+  if (cond === 'None') return null;
+  const bounds = is(cond, 'Time') ? cond.Time : cond.V2.timeBounds;
+  if (bounds === null) return null;
+  // Zero means unbounded on either side
+  const date = (seconds: bigint) => (seconds === 0n ? null : new Date(Number(seconds) * 1000));
+  return { minTime: date(bounds.minTime), maxTime: date(bounds.maxTime) };
+}
+
+function summarizeOperation(op: Operation, index: number, txSource: string): OperationSummary {
+  const described = describeOperation(op);
+  const source = described.source ?? txSource;
+  const invocation =
+    described.type === 'invokeHostFunction' ? summarizeInvocation(described.hostFunction) : null;
+  return {
+    index,
+    type: described.type,
+    source,
+    description: describeInWords(described, source),
+    operation: described,
+    invocation,
+  };
+}
+
+function summarizeInvocation(fn: HostFunction): ContractInvocationSummary | null {
+  if (!is(fn, 'InvokeContract')) return null;
+  const { contractAddress, functionName, args } = fn.InvokeContract;
+  return {
+    contract: scAddressString(contractAddress),
+    function: functionName,
+    args: args.map(scValToNative),
+  };
+}
+
+function operationRisks(op: OperationSummary): RiskFlag[] {
+  const d = op.operation;
+  const flag = (code: RiskCode, message: string): RiskFlag => ({
+    code,
+    operation: op.index,
+    message,
+  });
+  if (d.type === 'accountMerge') {
+    return [
+      flag(
+        'accountMerge',
+        `Deletes account ${account(op.source)} and sends all its XLM to ${account(d.destination)}`,
+      ),
+    ];
+  }
+  if (d.type !== 'setOptions') return [];
+
+  const risks: RiskFlag[] = [];
+  if (d.masterWeight !== undefined) {
+    risks.push(
+      flag(
+        'masterWeight',
+        d.masterWeight === 0
+          ? `Disables the master key of ${account(op.source)}`
+          : `Changes the master key weight of ${account(op.source)} to ${d.masterWeight}`,
+      ),
+    );
+  }
+  if (d.signer) {
+    const signer = account(signerKeyAddress(d.signer.key));
+    risks.push(
+      flag(
+        'signers',
+        d.signer.weight === 0
+          ? `Removes signer ${signer} from ${account(op.source)}`
+          : `Adds signer ${signer} to ${account(op.source)} with weight ${d.signer.weight}`,
+      ),
+    );
+  }
+  if (
+    d.lowThreshold !== undefined ||
+    d.medThreshold !== undefined ||
+    d.highThreshold !== undefined
+  ) {
+    risks.push(flag('thresholds', `Changes the signing thresholds of ${account(op.source)}`));
+  }
+  if (d.setFlags !== undefined || d.clearFlags !== undefined) {
+    risks.push(flag('accountFlags', `Changes the account flags of ${account(op.source)}`));
+  }
+  return risks;
+}
+
+function describeInWords(d: DescribedOperation, source: string): string {
+  switch (d.type) {
+    case 'createAccount':
+      return `Create account ${account(d.destination)} with ${formatAmount(d.startingBalance)} XLM`;
+    case 'payment':
+      return `Pay ${amount(d.amount, d.asset)} to ${account(d.destination)}`;
+    case 'pathPaymentStrictReceive':
+      return (
+        `Send at most ${amount(d.sendMax, d.sendAsset)} so that ${account(d.destination)} ` +
+        `receives ${amount(d.destAmount, d.destAsset)}`
+      );
+    case 'pathPaymentStrictSend':
+      return (
+        `Send ${amount(d.sendAmount, d.sendAsset)} so that ${account(d.destination)} ` +
+        `receives at least ${amount(d.destMin, d.destAsset)}`
+      );
+    case 'manageSellOffer':
+      return offerInWords(d.offerID, d.amount, () =>
+        `sell ${amount(d.amount, d.selling)} for ${asset(d.buying)} ` +
+        `at ${price(d.price)} ${asset(d.buying)} each`,
+      );
+    case 'manageBuyOffer':
+      return offerInWords(d.offerID, d.buyAmount, () =>
+        `buy ${amount(d.buyAmount, d.buying)} with ${asset(d.selling)} ` +
+        `at ${price(d.price)} ${asset(d.selling)} each`,
+      );
+    case 'createPassiveSellOffer':
+      return (
+        `Create passive offer to sell ${amount(d.amount, d.selling)} for ${asset(d.buying)} ` +
+        `at ${price(d.price)} ${asset(d.buying)} each`
+      );
+    case 'setOptions':
+      return setOptionsInWords(d, source);
+    case 'changeTrust':
+      if (d.limit === 0n) return `Remove trustline for ${asset(d.asset)}`;
+      return d.limit === undefined
+        ? `Trust ${asset(d.asset)}`
+        : `Trust ${asset(d.asset)} up to ${formatAmount(d.limit)}`;
+    case 'allowTrust': {
+      const verb =
+        d.authorize === 0
+          ? 'Revoke authorization of'
+          : d.authorize === 2
+            ? 'Authorize only maintaining liabilities for'
+            : 'Authorize';
+      return `${verb} ${account(d.trustor)} to hold ${d.assetCode}`;
+    }
+    case 'accountMerge':
+      return `Merge account ${account(source)} into ${account(d.destination)}`;
+    case 'inflation':
+      return 'Run inflation';
+    case 'manageData':
+      return d.value === null
+        ? `Delete data entry ${JSON.stringify(d.name)} on ${account(source)}`
+        : `Set data entry ${JSON.stringify(d.name)} on ${account(source)} to ${bytes(d.value)}`;
+    case 'bumpSequence':
+      return `Bump sequence number of ${account(source)} to ${d.bumpTo}`;
+    case 'createClaimableBalance': {
+      const claimants = d.claimants.map((c) =>
+        account(publicKeyAddress(c.ClaimantTypeV0.destination)),
+      );
+      return `Create claimable balance of ${amount(d.amount, d.asset)} for ${claimants.join(', ')}`;
+    }
+    case 'claimClaimableBalance':
+      return `Claim claimable balance ${account(balanceIdString(d.balanceID))}`;
+    case 'beginSponsoringFutureReserves':
+      return `Begin sponsoring reserves for ${account(d.sponsoredID)}`;
+    case 'endSponsoringFutureReserves':
+      return `End sponsoring reserves for ${account(source)}`;
+    case 'revokeSponsorshipLedgerEntry': {
+      const entry = Object.keys(d.ledgerKey)[0] ?? 'ledger';
+      return `Revoke sponsorship of a ${entry} entry`;
+    }
+    case 'revokeSponsorshipSigner':
+      return (
+        `Revoke sponsorship of signer ${account(signerKeyAddress(d.signer.signerKey))} ` +
+        `on ${account(publicKeyAddress(d.signer.accountID))}`
+      );
+    case 'clawback':
+      return `Claw back ${amount(d.amount, d.asset)} from ${account(d.from)}`;
+    case 'clawbackClaimableBalance':
+      return `Claw back claimable balance ${account(balanceIdString(d.balanceID))}`;
+    case 'setTrustLineFlags':
+      return (
+        `Change trustline flags of ${account(d.trustor)} for ${asset(d.asset)} ` +
+        `(set ${d.setFlags}, clear ${d.clearFlags})`
+      );
+    case 'liquidityPoolDeposit':
+      return (
+        `Deposit up to ${formatAmount(d.maxAmountA)} and ${formatAmount(d.maxAmountB)} ` +
+        `into liquidity pool ${account(poolIdString(d.liquidityPoolID))}`
+      );
+    case 'liquidityPoolWithdraw':
+      return (
+        `Withdraw ${formatAmount(d.amount)} shares from liquidity pool ` +
+        `${account(poolIdString(d.liquidityPoolID))}, receiving at least ` +
+        `${formatAmount(d.minAmountA)} and ${formatAmount(d.minAmountB)}`
+      );
+    case 'invokeHostFunction':
+      return hostFunctionInWords(d.hostFunction);
+    case 'extendFootprintTtl':
+      return `Extend the TTL of footprint entries to ${d.extendTo} ledgers`;
+    case 'restoreFootprint':
+      return 'Restore archived footprint entries';
+  }
+}
+
+function offerInWords(
+  offerID: bigint | undefined,
+  offerAmount: bigint,
+  what: () => string,
+): string {
+  if (offerID === undefined) return `Offer to ${what()}`;
+  if (offerAmount === 0n) return `Delete offer ${offerID}`;
+  return `Update offer ${offerID} to ${what()}`;
+}
+
+function setOptionsInWords(
+  d: Extract<DescribedOperation, { type: 'setOptions' }>,
+  source: string,
+): string {
+  const changes: string[] = [];
+  if (d.masterWeight !== undefined) changes.push(`set master key weight to ${d.masterWeight}`);
+  if (d.lowThreshold !== undefined) changes.push(`set low threshold to ${d.lowThreshold}`);
+  if (d.medThreshold !== undefined) changes.push(`set medium threshold to ${d.medThreshold}`);
+  if (d.highThreshold !== undefined) changes.push(`set high threshold to ${d.highThreshold}`);
+  if (d.signer) {
+    const signer = account(signerKeyAddress(d.signer.key));
+    changes.push(
+      d.signer.weight === 0
+        ? `remove signer ${signer}`
+        : `add signer ${signer} with weight ${d.signer.weight}`,
+    );
+  }
+  if (d.setFlags !== undefined) changes.push(`set flags ${d.setFlags}`);
+  if (d.clearFlags !== undefined) changes.push(`clear flags ${d.clearFlags}`);
+  if (d.homeDomain !== undefined) {
+    changes.push(`set home domain to ${JSON.stringify(d.homeDomain)}`);
+  }
+  if (d.inflationDest !== undefined) {
+    changes.push(`set inflation destination to ${account(d.inflationDest)}`);
+  }
+  if (changes.length === 0) return `Set options on ${account(source)} (no changes)`;
+  return `On ${account(source)}: ${changes.join(', ')}`;
+}
+
+function hostFunctionInWords(fn: HostFunction): string {
+  if (is(fn, 'InvokeContract')) {
+    const { contractAddress, functionName, args } = fn.InvokeContract;
+    return (
+      `Call ${functionName}(${args.map(scValInWords).join(', ')}) ` +
+      `on contract ${account(scAddressString(contractAddress))}`
+    );
+  }
+  if (is(fn, 'UploadContractWasm')) {
+    return `Upload contract code (${fn.UploadContractWasm.length} bytes)`;
+  }
+  const { executable, contractIDPreimage } = is(fn, 'CreateContract')
+    ? fn.CreateContract
+    : fn.CreateContractV2;
+  if (executable === 'StellarAsset' && is(contractIDPreimage, 'Asset')) {
+    return `Deploy the Stellar Asset Contract for ${asset(contractIDPreimage.Asset)}`;
+  }
+  if (executable === 'StellarAsset') return 'Create a Stellar Asset Contract';
+  return `Create a contract from code ${bytes(executable.Wasm)}`;
+}
+
+function scValInWords(val: SCVal): string {
+  if (val === 'Void') return 'void';
+  if (is(val, 'Address')) return account(scAddressString(val.Address));
+  if (is(val, 'String')) return JSON.stringify(val.String);
+  if (is(val, 'Symbol')) return val.Symbol;
+  if (is(val, 'Bytes')) return bytes(val.Bytes);
+  if (is(val, 'Vec')) return `[${(val.Vec ?? []).map(scValInWords).join(', ')}]`;
+  if (is(val, 'Map')) {
+    const entries = (val.Map ?? []).map((e) => `${scValInWords(e.key)}: ${scValInWords(e.val)}`);
+    return `{${entries.join(', ')}}`;
+  }
+  const native = scValToNative(val);
+  return native === val ? Object.keys(val)[0]! : String(native);
+}
+
+function scValToNative(val: SCVal): unknown {
+  if (val === 'Void') return null;
+  if (is(val, 'Bool')) return val.Bool;
+  if (is(val, 'U32')) return val.U32;
+  if (is(val, 'I32')) return val.I32;
+  if (is(val, 'U64')) return val.U64;
+  if (is(val, 'I64')) return val.I64;
+  if (is(val, 'Timepoint')) return val.Timepoint;
+  if (is(val, 'Duration')) return val.Duration;
+  if (is(val, 'U128')) return (val.U128.hi << 64n) + val.U128.lo;
+  if (is(val, 'I128')) return (val.I128.hi << 64n) + val.I128.lo;
+  if (is(val, 'U256') || is(val, 'I256')) {
+    const p = is(val, 'U256') ? val.U256 : val.I256;
+    return (p.hiHi << 192n) + (p.hiLo << 128n) + (p.loHi << 64n) + p.loLo;
+  }
+  if (is(val, 'Bytes')) return val.Bytes;
+  if (is(val, 'String')) return val.String;
+  if (is(val, 'Symbol')) return val.Symbol;
+  if (is(val, 'Vec')) return (val.Vec ?? []).map(scValToNative);
+  if (is(val, 'Map')) {
+    return new Map((val.Map ?? []).map((e) => [scValToNative(e.key), scValToNative(e.val)]));
+  }
+  if (is(val, 'Address')) return scAddressString(val.Address);
+  return val;
+}
+
+function scAddressString(address: SCAddress): string {
+  if (is(address, 'Account')) return publicKeyAddress(address.Account);
+  if (is(address, 'Contract')) return strkeyToString({ type: 'contract', data: address.Contract });
+  if (is(address, 'MuxedAccount')) {
+    return muxedAccountAddress({ MuxedEd25519: address.MuxedAccount });
+  }
+  if (is(address, 'ClaimableBalance')) return balanceIdString(address.ClaimableBalance);
+  return poolIdString(address.LiquidityPool);
+}
+
+function balanceIdString(id: ClaimableBalanceID): string {
+  return strkeyToString({ type: 'claimable_balance_v0', data: id.ClaimableBalanceIdTypeV0 });
+}
+
+function poolIdString(id: Uint8Array): string {
+  return strkeyToString({ type: 'liquidity_pool', data: id });
+}
+
+// Abbreviates a strkey; muxed accounts are shown as their base account and ID
+function account(address: string): string {
+  if (address.startsWith('M')) {
+    const muxed = parseMuxedAccount(address);
+    if (is(muxed, 'MuxedEd25519')) {
+      const base = muxedAccountAddress({ Ed25519: muxed.MuxedEd25519.ed25519 });
+      return `${account(base)} (muxed ID ${muxed.MuxedEd25519.id})`;
+    }
+  }
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+function asset(a: Asset | ChangeTrustAsset): string {
+  if (a === 'Native') return 'XLM';
+  if (is(a, 'PoolShare')) return 'liquidity pool shares';
+  const { assetCode, issuer } = is(a, 'CreditAlphanum4') ? a.CreditAlphanum4 : a.CreditAlphanum12;
+  let end = assetCode.length;
+  while (end > 0 && assetCode[end - 1] === 0) end--;
+  const code = decoder.decode(assetCode.subarray(0, end));
+  return `${code} (${account(publicKeyAddress(issuer))})`;
+}
+
+function amount(stroops: bigint, a: Asset): string {
+  return `${formatAmount(stroops)} ${asset(a)}`;
+}
+
+function price(p: Price): string {
+  if (p.d === 0) return `${p.n}/${p.d}`;
+  return formatAmount((BigInt(p.n) * STROOPS_PER_XLM) / BigInt(p.d));
+}
+
+// Shows printable UTF-8 as a quoted string, anything else as hex
+function bytes(value: Uint8Array): string {
+  try {
+    const text = strictDecoder.decode(value);
+    if (/^[\x20-\x7e]*$/.test(text)) return JSON.stringify(text);
+  } catch {
+    // not UTF-8
+  }
+  const hex = bytesToHex(value);
+  return hex.length > 16 ? `0x${hex.slice(0, 8)}…${hex.slice(-8)}` : `0x${hex}`;
+}
@@ -5,13 +5,28 @@ import {
   type TransactionEnvelope,
   type FeeBumpTransactionEnvelope,
   type DecoratedSignature,
+  type SignerKey,
   TransactionEnvelope as TransactionEnvelopeCodec,
   encodeBase64,
   decodeBase64,
 } from '@stellar/xdr';
-import type { Keypair } from './keypair.js';
+import { signHashDecorated, type Signer } from './signer.js';
 import { transactionHash, feeBumpTransactionHash } from './hash.js';
-import { parseMuxedAccount } from './helpers.js';
+import { hashPreimage, parseMuxedAccount, parseSignerKey, signerKeyAddress } from './helpers.js';
+import { baseAddress, bytesEqual, signatureMatches, signerHint } from './multisig.js';
+
+/** An envelope signature and the candidate signer it verifies against. */
+export interface VerifiedSignature {
+  readonly signature: DecoratedSignature;
+  /** Strkey of the matching candidate signer, or null when none verifies. */
+  readonly signer: string | null;
+}
+
+export interface SignatureVerification {
+  readonly signatures: readonly VerifiedSignature[];
+  /** Signatures matching no candidate: invalid, or from a signer not listed. */
+  readonly unmatched: readonly DecoratedSignature[];
+}
 
 export class BuiltTransaction {
   readonly tx: Transaction;
@@ -25,8 +40,11 @@ export class BuiltTransaction {
     this.networkPassphrase = networkPassphrase;
   }
 
-  async sign(...keypairs: Keypair[]): Promise<this> {
-    const sigs = await Promise.all(keypairs.map((kp) => kp.signDecorated(this.hash)));
+  /** Signs with each signer — a `Keypair` or any other `Signer` — and appends the signatures. */
+  async sign(...signers: Signer[]): Promise<this> {
+    const sigs = await Promise.all(
+      signers.map((signer) => signHashDecorated(signer, this.hash, this.networkPassphrase)),
+    );
     this.signatures.push(...sigs);
     return this;
   }
@@ -36,6 +54,75 @@ export class BuiltTransaction {
     return this;
   }
 
+  /** Adds the preimage of a hash-x signer as a signature; see `hashXSigner`. */
+  async signHashX(preimage: Uint8Array): Promise<this> {
+    this.signatures.push(await hashXSignature(preimage));
+    return this;
+  }
+
+  /**
+   * Signer key pre-authorizing exactly this transaction. Add it to the source
+   * account with `setOptions` before submitting this transaction unsigned.
+   */
+  toPreAuthSigner(): SignerKey {
+    return { PreAuthTx: this.hash };
+  }
+
+  /**
+   * Checks every signature against the hash and `candidateSigners` (G-, X- or
+   * P-address strkeys). Defaults to the master keys of the transaction and
+   * operation source accounts plus any `extraSigners`.
+   */
+  async verifySignatures(
+    candidateSigners: readonly string[] = this.defaultSigners(),
+  ): Promise<SignatureVerification> {
+    return verifySignatureList(this.hash, this.signatures, candidateSigners);
+  }
+
+  /**
+   * Drops invalid and redundant signatures; resolves to the removed ones.
+   *
+   * With `candidateSigners`, keeps one signature per candidate and drops
+   * everything else. Without, only drops exact duplicates and signatures
+   * whose hint names a source account or extra signer but that verify for
+   * none of them, so signatures by other co-signers are kept.
+   */
+  async pruneSignatures(candidateSigners?: readonly string[]): Promise<DecoratedSignature[]> {
+    return candidateSigners === undefined
+      ? pruneInvalidSignatures(this.hash, this.signatures, this.defaultSigners())
+      : pruneSignatureList(this.hash, this.signatures, candidateSigners);
+  }
+
+  /**
+   * Adds the signatures of another copy of this transaction (as a
+   * `BuiltTransaction`, envelope or base64 envelope) that are not already
+   * present. Throws if the other envelope is for a different transaction.
+   */
+  async mergeSignatures(other: BuiltTransaction | TransactionEnvelope | string): Promise<this> {
+    const envelope = toEnvelopeUnion(other);
+    if (typeof envelope === 'string' || !('Tx' in envelope)) {
+      throw new Error('Expected a transaction envelope');
+    }
+    const hash = await transactionHash(envelope.Tx.tx, this.networkPassphrase);
+    if (!bytesEqual(hash, this.hash)) {
+      throw new Error('Cannot merge signatures from a different transaction');
+    }
+    mergeSignatureList(this.signatures, envelope.Tx.signatures);
+    return this;
+  }
+
+  private defaultSigners(): string[] {
+    const signers = new Set([baseAddress(this.tx.sourceAccount)]);
+    for (const op of this.tx.operations) {
+      if (op.sourceAccount) signers.add(baseAddress(op.sourceAccount));
+    }
+    const cond = this.tx.cond;
+    if (cond !== 'None' && 'V2' in cond) {
+      for (const key of cond.V2.extraSigners) signers.add(signerKeyAddress(key));
+    }
+    return [...signers];
+  }
+
   toEnvelope(): TransactionV1Envelope {
     return { tx: this.tx, signatures: this.signatures };
   }
@@ -87,8 +174,11 @@ export class BuiltFeeBumpTransaction {
     this.innerTransaction = innerTransaction;
   }
 
-  async sign(...keypairs: Keypair[]): Promise<this> {
-    const sigs = await Promise.all(keypairs.map((kp) => kp.signDecorated(this.hash)));
+  /** Signs with each signer — a `Keypair` or any other `Signer` — and appends the signatures. */
+  async sign(...signers: Signer[]): Promise<this> {
+    const sigs = await Promise.all(
+      signers.map((signer) => signHashDecorated(signer, this.hash, this.networkPassphrase)),
+    );
     this.signatures.push(...sigs);
     return this;
   }
@@ -98,6 +188,49 @@ export class BuiltFeeBumpTransaction {
     return this;
   }
 
+  /** Adds the preimage of a hash-x signer as a signature. */
+  async signHashX(preimage: Uint8Array): Promise<this> {
+    this.signatures.push(await hashXSignature(preimage));
+    return this;
+  }
+
+  /**
+   * Checks every signature against the hash and `candidateSigners`; defaults
+   * to the fee source's master key. See `BuiltTransaction.verifySignatures`.
+   */
+  async verifySignatures(
+    candidateSigners: readonly string[] = [baseAddress(this.tx.feeSource)],
+  ): Promise<SignatureVerification> {
+    return verifySignatureList(this.hash, this.signatures, candidateSigners);
+  }
+
+  /**
+   * Drops invalid and redundant signatures; resolves to the removed ones.
+   * Without `candidateSigners`, only signatures hinted at the fee source are
+   * checked. See `BuiltTransaction.pruneSignatures`.
+   */
+  async pruneSignatures(candidateSigners?: readonly string[]): Promise<DecoratedSignature[]> {
+    return candidateSigners === undefined
+      ? pruneInvalidSignatures(this.hash, this.signatures, [baseAddress(this.tx.feeSource)])
+      : pruneSignatureList(this.hash, this.signatures, candidateSigners);
+  }
+
+  /** Adds missing signatures from another copy of this fee-bump transaction. */
+  async mergeSignatures(
+    other: BuiltFeeBumpTransaction | TransactionEnvelope | string,
+  ): Promise<this> {
+    const envelope = toEnvelopeUnion(other);
+    if (typeof envelope === 'string' || !('TxFeeBump' in envelope)) {
+      throw new Error('Expected a fee-bump transaction envelope');
+    }
+    const hash = await feeBumpTransactionHash(envelope.TxFeeBump.tx, this.networkPassphrase);
+    if (!bytesEqual(hash, this.hash)) {
+      throw new Error('Cannot merge signatures from a different transaction');
+    }
+    mergeSignatureList(this.signatures, envelope.TxFeeBump.signatures);
+    return this;
+  }
+
   toEnvelope(): FeeBumpTransactionEnvelope {
     return { tx: this.tx, signatures: this.signatures };
   }
@@ -138,6 +271,114 @@ export async function buildFeeBumpTransaction(
   return new BuiltFeeBumpTransaction(tx, hash, opts.networkPassphrase, opts.innerTransaction);
 }
 
+// A hash-x "signature" is the preimage itself, hinted by its hash
+async function hashXSignature(preimage: Uint8Array): Promise<DecoratedSignature> {
+  const hash = await hashPreimage(preimage);
+  return { hint: hash.slice(-4), signature: preimage };
+}
+
+function sameSignature(a: DecoratedSignature, b: DecoratedSignature): boolean {
+  return bytesEqual(a.hint, b.hint) && bytesEqual(a.signature, b.signature);
+}
+
+function toEnvelopeUnion(
+  other: BuiltTransaction | BuiltFeeBumpTransaction | TransactionEnvelope | string,
+): TransactionEnvelope {
+  if (typeof other === 'string') return TransactionEnvelopeCodec.fromBase64(other);
+  if (other instanceof BuiltTransaction || other instanceof BuiltFeeBumpTransaction) {
+    return other.toTransactionEnvelope();
+  }
+  return other;
+}
+
+async function verifySignatureList(
+  hash: Uint8Array,
+  signatures: readonly DecoratedSignature[],
+  candidateSigners: readonly string[],
+): Promise<SignatureVerification> {
+  const candidates = candidateSigners.map((address) => [address, parseSignerKey(address)] as const);
+  const verified: VerifiedSignature[] = [];
+  for (const signature of signatures) {
+    let signer: string | null = null;
+    for (const [address, key] of candidates) {
+      if (await signatureMatches(signature, key, hash)) {
+        signer = address;
+        break;
+      }
+    }
+    verified.push({ signature, signer });
+  }
+  return {
+    signatures: verified,
+    unmatched: verified.filter((v) => v.signer === null).map((v) => v.signature),
+  };
+}
+
+async function pruneSignatureList(
+  hash: Uint8Array,
+  signatures: DecoratedSignature[],
+  candidateSigners: readonly string[],
+): Promise<DecoratedSignature[]> {
+  const { signatures: verified } = await verifySignatureList(hash, signatures, candidateSigners);
+  const seen = new Set<string>();
+  const kept: DecoratedSignature[] = [];
+  const removed: DecoratedSignature[] = [];
+  for (const { signature, signer } of verified) {
+    if (signer === null || seen.has(signer)) {
+      removed.push(signature);
+    } else {
+      seen.add(signer);
+      kept.push(signature);
+    }
+  }
+  signatures.splice(0, signatures.length, ...kept);
+  return removed;
+}
+
+/**
+ * Drops exact duplicates, and signatures hinted at one of `knownSigners`
+ * that verify for none of the signers with that hint. Signatures with other
+ * hints may come from signers not listed, so they are kept.
+ */
+async function pruneInvalidSignatures(
+  hash: Uint8Array,
+  signatures: DecoratedSignature[],
+  knownSigners: readonly string[],
+): Promise<DecoratedSignature[]> {
+  const keys = knownSigners.map((address) => parseSignerKey(address));
+  const kept: DecoratedSignature[] = [];
+  const removed: DecoratedSignature[] = [];
+  for (const signature of signatures) {
+    const hinted = keys.filter((key) => {
+      const hint = signerHint(key);
+      return hint !== null && bytesEqual(hint, signature.hint);
+    });
+    let valid = hinted.length === 0;
+    for (const key of hinted) {
+      if (await signatureMatches(signature, key, hash)) {
+        valid = true;
+        break;
+      }
+    }
+    if (valid && !kept.some((s) => sameSignature(s, signature))) {
+      kept.push(signature);
+    } else {
+      removed.push(signature);
+    }
+  }
+  signatures.splice(0, signatures.length, ...kept);
+  return removed;
+}
+
+function mergeSignatureList(
+  signatures: DecoratedSignature[],
+  incoming: readonly DecoratedSignature[],
+): void {
+  for (const sig of incoming) {
+    if (!signatures.some((s) => sameSignature(s, sig))) signatures.push(sig);
+  }
+}
+
 async function deserializeEnvelope(
   envelope: TransactionEnvelope,
   passphrase: string,
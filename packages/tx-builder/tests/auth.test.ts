@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  type SorobanAuthorizationEntry,
+  type SorobanAuthorizedInvocation,
+  HashIDPreimage,
+} from '@stellar/xdr';
+import { authorizeEntry } from '../src/auth.js';
+import { Keypair } from '../src/keypair.js';
+import { callbackSigner, type SignRequest } from '../src/signer.js';
+import { sha256, networkId } from '../src/hash.js';
+import { Networks } from '../src/networks.js';
+
+const SECRET1 = 'SDL2ENWLAB7NHNVZUWTSZO23D3YLF4YUKUBHLWDVHKNDFJ37VDQ2RI53';
+
+const invocation: SorobanAuthorizedInvocation = {
+  function: {
+    ContractFn: {
+      contractAddress: { Contract: new Uint8Array(32).fill(7) },
+      functionName: 'transfer',
+      args: [{ U32: 5 }],
+    },
+  },
+  subInvocations: [],
+};
+
+function addressEntry(kp: Keypair): SorobanAuthorizationEntry {
+  return {
+    credentials: {
+      Address: {
+        address: { Account: kp.toAccountId() },
+        nonce: 42n,
+        signatureExpirationLedger: 0,
+        signature: 'Void',
+      },
+    },
+    rootInvocation: invocation,
+  };
+}
+
+describe('authorizeEntry', () => {
+  it('signs address credentials with a Keypair', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const signed = await authorizeEntry(addressEntry(kp), kp, 1000, Networks.TESTNET);
+    if (signed.credentials === 'SourceAccount') throw new Error('expected address credentials');
+    const creds = signed.credentials.Address;
+    expect(creds.signatureExpirationLedger).toBe(1000);
+    expect(creds.nonce).toBe(42n);
+
+    const preimage = HashIDPreimage.toXdr({
+      SorobanAuthorization: {
+        networkID: await networkId(Networks.TESTNET),
+        nonce: 42n,
+        signatureExpirationLedger: 1000,
+        invocation,
+      },
+    });
+    const expectedSig = await kp.sign(await sha256(preimage));
+    expect(creds.signature).toEqual({
+      Vec: [
+        {
+          Map: [
+            { key: { Symbol: 'public_key' }, val: { Bytes: kp.rawPublicKey } },
+            { key: { Symbol: 'signature' }, val: { Bytes: expectedSig } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('passes the preimage to a callback signer', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const requests: SignRequest[] = [];
+    const signer = callbackSigner(kp.publicKey, async (req) => {
+      requests.push(req);
+      return kp.sign(req.hash);
+    });
+    await authorizeEntry(addressEntry(kp), signer, 1000, Networks.TESTNET);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.type).toBe('authEntry');
+  });
+
+  it('returns source-account entries unchanged', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const entry: SorobanAuthorizationEntry = { credentials: 'SourceAccount', rootInvocation: invocation };
+    expect(await authorizeEntry(entry, kp, 1000, Networks.TESTNET)).toBe(entry);
+  });
+
+  it('rejects a signer for a different account', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const other = await Keypair.random();
+    await expect(authorizeEntry(addressEntry(kp), other, 1000, Networks.TESTNET)).rejects.toThrow(
+      'does not match',
+    );
+  });
+
+  it('rejects signers without signAuthEntry', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const txOnly = { publicKey: kp.publicKey, signTransactionHash: (h: Uint8Array) => kp.sign(h) };
+    await expect(authorizeEntry(addressEntry(kp), txOnly, 1000, Networks.TESTNET)).rejects.toThrow(
+      'cannot sign Soroban authorization entries',
+    );
+  });
+});
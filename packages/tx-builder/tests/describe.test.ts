@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import { Operation as OperationCodec, type Operation } from '@stellar/xdr';
+import { describeOperation } from '../src/describe.js';
+import {
+  createAccount,
+  payment,
+  pathPaymentStrictReceive,
+  pathPaymentStrictSend,
+  manageSellOffer,
+  manageBuyOffer,
+  createPassiveSellOffer,
+  setOptions,
+  changeTrust,
+  allowTrust,
+  accountMerge,
+  inflation,
+  manageData,
+  bumpSequence,
+  createClaimableBalance,
+  claimClaimableBalance,
+  beginSponsoringFutureReserves,
+  endSponsoringFutureReserves,
+  revokeSponsorshipLedgerEntry,
+  revokeSponsorshipSigner,
+  clawback,
+  clawbackClaimableBalance,
+  setTrustLineFlags,
+  liquidityPoolDeposit,
+  liquidityPoolWithdraw,
+  invokeHostFunction,
+  extendFootprintTtl,
+  restoreFootprint,
+} from '../src/operations.js';
+import {
+  nativeAsset,
+  creditAsset,
+  parsePublicKey,
+  parseSignerKey,
+  muxedAccountAddress,
+} from '../src/helpers.js';
+
+const PUBKEY1 = 'GBMZSZP7FWHX6OTYMKCUS55EHT2DECX3IIIMZP4AAMSWYX3VVAED5JVC';
+const PUBKEY2 = 'GAT4KBPBCPTOLGILH5NNTBWSXHEBUTRQMEUSQGSPCCFM4QHO2COADB5O';
+const MUXED = muxedAccountAddress({
+  MuxedEd25519: { id: 42n, ed25519: parsePublicKey(PUBKEY2).PublicKeyTypeEd25519 },
+});
+const USD = creditAsset('USD', PUBKEY1);
+const LONG = creditAsset('LONGASSET', PUBKEY1);
+const PRICE = { n: 3, d: 2 };
+const POOL_ID = new Uint8Array(32).fill(5);
+const BALANCE_ID = { ClaimableBalanceIdTypeV0: new Uint8Array(32).fill(9) };
+
+// Decodes from the wire format, as for a transaction received from elsewhere
+function describeXdr(op: Operation) {
+  return describeOperation(OperationCodec.fromXdr(OperationCodec.toXdr(op)));
+}
+
+describe('describeOperation', () => {
+  const cases: [string, (opts: any) => Operation, object][] = [
+    ['createAccount', createAccount, { destination: PUBKEY2, startingBalance: 10_000_000n }],
+    ['payment', payment, { destination: MUXED, asset: USD, amount: 5n, source: PUBKEY1 }],
+    [
+      'pathPaymentStrictReceive',
+      pathPaymentStrictReceive,
+      {
+        sendAsset: nativeAsset(),
+        sendMax: 9n,
+        destination: PUBKEY2,
+        destAsset: USD,
+        destAmount: 3n,
+        path: [LONG],
+      },
+    ],
+    [
+      'pathPaymentStrictSend',
+      pathPaymentStrictSend,
+      {
+        sendAsset: USD,
+        sendAmount: 9n,
+        destination: PUBKEY2,
+        destAsset: nativeAsset(),
+        destMin: 3n,
+        path: [],
+      },
+    ],
+    [
+      'manageSellOffer',
+      manageSellOffer,
+      { selling: USD, buying: nativeAsset(), amount: 7n, price: PRICE },
+    ],
+    [
+      'manageBuyOffer',
+      manageBuyOffer,
+      { selling: USD, buying: LONG, buyAmount: 7n, price: PRICE, offerID: 12n },
+    ],
+    [
+      'createPassiveSellOffer',
+      createPassiveSellOffer,
+      { selling: USD, buying: LONG, amount: 1n, price: PRICE },
+    ],
+    [
+      'setOptions',
+      setOptions,
+      {
+        inflationDest: PUBKEY2,
+        setFlags: 3,
+        masterWeight: 0,
+        homeDomain: 'example.com',
+        signer: { key: parseSignerKey(PUBKEY2), weight: 2 },
+      },
+    ],
+    ['changeTrust', changeTrust, { asset: USD }],
+    ['changeTrust', changeTrust, { asset: LONG, limit: 100n }],
+    ['allowTrust', allowTrust, { trustor: PUBKEY2, assetCode: 'USD', authorize: 1 }],
+    ['allowTrust', allowTrust, { trustor: PUBKEY2, assetCode: 'LONGASSET', authorize: 2 }],
+    ['accountMerge', accountMerge, { destination: MUXED, source: MUXED }],
+    ['inflation', inflation, {}],
+    ['manageData', manageData, { name: 'k', value: new Uint8Array([1, 2]) }],
+    ['manageData', manageData, { name: 'k', value: null }],
+    ['bumpSequence', bumpSequence, { bumpTo: 99n }],
+    [
+      'createClaimableBalance',
+      createClaimableBalance,
+      {
+        asset: USD,
+        amount: 4n,
+        claimants: [
+          { ClaimantTypeV0: { destination: parsePublicKey(PUBKEY2), predicate: 'Unconditional' } },
+        ],
+      },
+    ],
+    ['claimClaimableBalance', claimClaimableBalance, { balanceID: BALANCE_ID }],
+    ['beginSponsoringFutureReserves', beginSponsoringFutureReserves, { sponsoredID: PUBKEY2 }],
+    ['endSponsoringFutureReserves', endSponsoringFutureReserves, { source: PUBKEY2 }],
+    [
+      'revokeSponsorshipLedgerEntry',
+      revokeSponsorshipLedgerEntry,
+      { ledgerKey: { Account: { accountID: parsePublicKey(PUBKEY2) } } },
+    ],
+    [
+      'revokeSponsorshipSigner',
+      revokeSponsorshipSigner,
+      { signer: { accountID: parsePublicKey(PUBKEY1), signerKey: parseSignerKey(PUBKEY2) } },
+    ],
+    ['clawback', clawback, { asset: USD, from: MUXED, amount: 2n }],
+    ['clawbackClaimableBalance', clawbackClaimableBalance, { balanceID: BALANCE_ID }],
+    [
+      'setTrustLineFlags',
+      setTrustLineFlags,
+      { trustor: PUBKEY2, asset: USD, clearFlags: 1, setFlags: 2 },
+    ],
+    [
+      'liquidityPoolDeposit',
+      liquidityPoolDeposit,
+      {
+        liquidityPoolID: POOL_ID,
+        maxAmountA: 1n,
+        maxAmountB: 2n,
+        minPrice: PRICE,
+        maxPrice: PRICE,
+      },
+    ],
+    [
+      'liquidityPoolWithdraw',
+      liquidityPoolWithdraw,
+      { liquidityPoolID: POOL_ID, amount: 3n, minAmountA: 1n, minAmountB: 1n },
+    ],
+    [
+      'invokeHostFunction',
+      invokeHostFunction,
+      { hostFunction: { UploadContractWasm: new Uint8Array([0, 97, 115, 109]) }, auth: [] },
+    ],
+    ['extendFootprintTtl', extendFootprintTtl, { extendTo: 1000 }],
+    ['restoreFootprint', restoreFootprint, {}],
+  ];
+
+  it.each(cases)('round-trips %s options', (type, factory, opts) => {
+    expect(describeXdr(factory(opts))).toEqual({ type, ...opts });
+  });
+
+  it('omits offer IDs, trust limits and setOptions fields left at their defaults', () => {
+    const described = describeOperation(
+      manageSellOffer({ selling: USD, buying: LONG, amount: 1n, price: PRICE, offerID: 0n }),
+    );
+    expect(described).not.toHaveProperty('offerID');
+    expect(Object.keys(describeOperation(setOptions({ lowThreshold: 1 })))).toEqual([
+      'type',
+      'lowThreshold',
+    ]);
+  });
+
+  it('narrows on type', () => {
+    const described = describeOperation(
+      payment({ destination: PUBKEY2, asset: nativeAsset(), amount: 1n }),
+    );
+    if (described.type !== 'payment') throw new Error('expected payment');
+    expect(described.amount).toBe(1n);
+    expect(described).not.toHaveProperty('source');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimeLockEscrow } from '../src/escrow.js';
+import { Keypair } from '../src/keypair.js';
+import { accountMerge } from '../src/operations.js';
+import { parseSignerKey, signerKeyAddress } from '../src/helpers.js';
+import { signatureStatus, type AccountSigningInfo } from '../src/multisig.js';
+import { Networks } from '../src/networks.js';
+
+const DEST = 'GAT4KBPBCPTOLGILH5NNTBWSXHEBUTRQMEUSQGSPCCFM4QHO2COADB5O';
+
+describe('buildTimeLockEscrow', () => {
+  it('pre-authorizes a time-bounded transaction from the setup transaction', async () => {
+    const escrow = await Keypair.random();
+    const party = await Keypair.random();
+    const account = { address: escrow.publicKey, sequenceNumber: 100n };
+
+    const { setup, locked, preAuthSigner } = await buildTimeLockEscrow({
+      escrow: account,
+      fee: 100,
+      networkPassphrase: Networks.TESTNET,
+      operations: [accountMerge({ destination: DEST })],
+      unlockAt: 1_800_000_000n,
+      signers: [{ key: parseSignerKey(party.publicKey), weight: 1 }],
+      masterWeight: 0,
+      lowThreshold: 2,
+      medThreshold: 2,
+      highThreshold: 2,
+    });
+
+    expect(setup.tx.seqNum).toBe(101n);
+    expect(locked.tx.seqNum).toBe(102n);
+    expect(account.sequenceNumber).toBe(101n);
+    expect(locked.tx.cond).toEqual({ Time: { minTime: 1_800_000_000n, maxTime: 0n } });
+    expect(preAuthSigner).toEqual(locked.toPreAuthSigner());
+
+    const setOptionsOps = setup.tx.operations.map((op) => op.body);
+    expect(setOptionsOps).toEqual([
+      expect.objectContaining({
+        SetOptions: expect.objectContaining({ signer: { key: preAuthSigner, weight: 255 } }),
+      }),
+      expect.objectContaining({
+        SetOptions: expect.objectContaining({
+          signer: { key: { Ed25519: party.rawPublicKey }, weight: 1 },
+        }),
+      }),
+      expect.objectContaining({
+        SetOptions: expect.objectContaining({ masterWeight: 0, highThreshold: 2 }),
+      }),
+    ]);
+
+    // After setup the locked transaction needs no signatures at all
+    const info: AccountSigningInfo = {
+      signers: [
+        { key: escrow.publicKey, weight: 0 },
+        { key: signerKeyAddress(preAuthSigner), weight: 255 },
+        { key: party.publicKey, weight: 1 },
+      ],
+      thresholds: { low: 2, medium: 2, high: 2 },
+    };
+    expect((await signatureStatus(locked, { [escrow.publicKey]: info })).complete).toBe(true);
+  });
+
+  it('leaves room for other transactions with a sequence gap', async () => {
+    const escrow = await Keypair.random();
+    const account = { address: escrow.publicKey, sequenceNumber: 5n };
+    const { setup, locked } = await buildTimeLockEscrow({
+      escrow: account,
+      fee: 100,
+      networkPassphrase: Networks.TESTNET,
+      operations: [accountMerge({ destination: DEST })],
+      unlockAt: 10n,
+      expiresAt: 20n,
+      sequenceGap: 3,
+    });
+
+    expect(setup.tx.operations).toHaveLength(1);
+    expect(setup.tx.seqNum).toBe(6n);
+    expect(locked.tx.seqNum).toBe(10n);
+    expect(locked.tx.cond).toEqual({
+      V2: expect.objectContaining({
+        timeBounds: { minTime: 10n, maxTime: 20n },
+        minSeqNum: 6n,
+      }),
+    });
+  });
+
+  it('rejects a negative sequence gap', async () => {
+    const escrow = await Keypair.random();
+    await expect(
+      buildTimeLockEscrow({
+        escrow: { address: escrow.publicKey, sequenceNumber: 0n },
+        fee: 100,
+        networkPassphrase: Networks.TESTNET,
+        operations: [],
+        unlockAt: 0n,
+        sequenceGap: -1,
+      }),
+    ).rejects.toThrow('sequenceGap');
+  });
+});
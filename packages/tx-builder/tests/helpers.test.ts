@@ -3,6 +3,14 @@ import { is } from '@stellar/xdr';
 import {
   parsePublicKey,
   parseMuxedAccount,
+  publicKeyAddress,
+  muxedAccountAddress,
+  parseSignerKey,
+  signerKeyAddress,
+  parseSignedPayload,
+  signedPayloadAddress,
+  signedPayloadSigner,
+  signedPayloadHint,
   nativeAsset,
   creditAsset,
   memoNone,
@@ -14,6 +22,12 @@ import {
 
 const TEST_PUBKEY = 'GBMZSZP7FWHX6OTYMKCUS55EHT2DECX3IIIMZP4AAMSWYX3VVAED5JVC';
 
+// SEP-23 test vector: ed25519 key with a 32-byte payload 0x01..0x20
+const SIGNED_PAYLOAD_ADDRESS =
+  'PA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJUAAAAAQACAQDAQCQMBYIBEFAWDANBYHRAEISCMKBKFQXDAMRUGY4DUPB6IBZGM';
+const SIGNED_PAYLOAD_KEY = 'GA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJVSGZ';
+const PAYLOAD_1_TO_32 = new Uint8Array(32).map((_, i) => i + 1);
+
 describe('helpers', () => {
   describe('parsePublicKey', () => {
     it('parses a G-address to AccountID', () => {
@@ -38,6 +52,15 @@ describe('helpers', () => {
     it('rejects invalid address', () => {
       expect(() => parseMuxedAccount('INVALID')).toThrow();
     });
+
+    it('encodes back to G- and M-addresses', () => {
+      expect(muxedAccountAddress(parseMuxedAccount(TEST_PUBKEY))).toBe(TEST_PUBKEY);
+      const ed25519 = parsePublicKey(TEST_PUBKEY).PublicKeyTypeEd25519;
+      const mAddress = muxedAccountAddress({ MuxedEd25519: { id: 1234n, ed25519 } });
+      expect(mAddress).toMatch(/^M/);
+      expect(parseMuxedAccount(mAddress)).toEqual({ MuxedEd25519: { id: 1234n, ed25519 } });
+      expect(publicKeyAddress(parsePublicKey(TEST_PUBKEY))).toBe(TEST_PUBKEY);
+    });
   });
 
   describe('nativeAsset', () => {
@@ -124,4 +147,57 @@ describe('helpers', () => {
       expect(() => memoReturn(new Uint8Array(64))).toThrow('32 bytes');
     });
   });
+
+  describe('signed payload signers', () => {
+    it('parses a P-address into key and payload', () => {
+      const signer = parseSignedPayload(SIGNED_PAYLOAD_ADDRESS);
+      expect(signer.ed25519).toEqual(parsePublicKey(SIGNED_PAYLOAD_KEY).PublicKeyTypeEd25519);
+      expect(signer.payload).toEqual(PAYLOAD_1_TO_32);
+    });
+
+    it('builds P-addresses', () => {
+      const signer = parseSignedPayload(SIGNED_PAYLOAD_ADDRESS);
+      expect(signedPayloadAddress(signer)).toBe(SIGNED_PAYLOAD_ADDRESS);
+      const short = { ed25519: signer.ed25519, payload: new Uint8Array([9, 8, 7]) };
+      expect(parseSignedPayload(signedPayloadAddress(short))).toEqual(short);
+    });
+
+    it('rejects other strkeys and oversized payloads', () => {
+      expect(() => parseSignedPayload(TEST_PUBKEY)).toThrow('P-address');
+      const ed25519 = new Uint8Array(32);
+      expect(() => signedPayloadAddress({ ed25519, payload: new Uint8Array(65) })).toThrow(
+        '≤64 bytes',
+      );
+      expect(() => signedPayloadSigner(TEST_PUBKEY, new Uint8Array(65))).toThrow('≤64 bytes');
+    });
+
+    it('creates Ed25519SignedPayload signer keys', () => {
+      const key = signedPayloadSigner(SIGNED_PAYLOAD_KEY, PAYLOAD_1_TO_32);
+      expect(key).toEqual({ Ed25519SignedPayload: parseSignedPayload(SIGNED_PAYLOAD_ADDRESS) });
+      expect(parseSignerKey(SIGNED_PAYLOAD_ADDRESS)).toEqual(key);
+    });
+
+    it('parses other signer strkeys', () => {
+      expect(is(parseSignerKey(TEST_PUBKEY), 'Ed25519')).toBe(true);
+      expect(() => parseSignerKey('SDL2ENWLAB7NHNVZUWTSZO23D3YLF4YUKUBHLWDVHKNDFJ37VDQ2RI53'))
+        .toThrow('version byte');
+    });
+
+    it('encodes signer keys back to strkeys', () => {
+      const preAuth = 'TBU2RRGLXH3E5CQHTD3ODLDF2BWDCYUSSBLLZ5GNW7JXHDIYKXZWHXL7';
+      for (const address of [TEST_PUBKEY, preAuth, SIGNED_PAYLOAD_ADDRESS]) {
+        expect(signerKeyAddress(parseSignerKey(address))).toBe(address);
+      }
+    });
+
+    it('XORs the key hint with the last payload bytes', () => {
+      const ed25519 = new Uint8Array(32).fill(0xff);
+      const hint = signedPayloadHint({ ed25519, payload: PAYLOAD_1_TO_32 });
+      expect(hint).toEqual(new Uint8Array([0xff ^ 29, 0xff ^ 30, 0xff ^ 31, 0xff ^ 32]));
+      // Short payloads are zero-padded on the right
+      const short = signedPayloadHint({ ed25519, payload: new Uint8Array([1, 2]) });
+      expect(short).toEqual(new Uint8Array([0xfe, 0xfd, 0xff, 0xff]));
+      expect(ed25519).toEqual(new Uint8Array(32).fill(0xff));
+    });
+  });
 });
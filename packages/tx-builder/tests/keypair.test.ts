@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { Keypair } from '../src/keypair.js';
+import { encodeBase64, decodeBase64 } from '@stellar/xdr';
 
 describe('Keypair', () => {
   const testSecret = 'SDL2ENWLAB7NHNVZUWTSZO23D3YLF4YUKUBHLWDVHKNDFJ37VDQ2RI53';
@@ -119,6 +120,80 @@ describe('Keypair', () => {
     });
   });
 
+  describe('signPayloadDecorated', () => {
+    it('signs the payload with an XORed hint', async () => {
+      const kp = await Keypair.fromSecret(testSecret);
+      const payload = new Uint8Array([1, 2, 3, 4, 5]);
+      const dec = await kp.signPayloadDecorated(payload);
+      const keyHint = kp.signatureHint();
+      expect(dec.hint).toEqual(keyHint.map((b, i) => b ^ payload[i + 1]!));
+      expect(await kp.verify(payload, dec.signature)).toBe(true);
+    });
+  });
+
+  describe('signMessage and verifyMessage (SEP-53)', () => {
+    const sep53Secret = 'SAKICEVQLYWGSOJS4WW7HZJWAHZVEEBS527LHK5V4MLJALYKICQCJXMW';
+    const sep53Public = 'GBXFXNDLV4LSWA4VB7YIL5GBD7BVNR22SGBTDKMO2SBZZHDXSKZYCP7L';
+    const vectors: Array<[string | Uint8Array, string]> = [
+      [
+        'Hello, World!',
+        'fO5dbYhXUhBMhe6kId/cuVq/AfEnHRHEvsP8vXh03M1uLpi5e46yO2Q8rEBzu3feXQewcQE5GArp88u6ePK6BA==',
+      ],
+      [
+        'こんにちは、世界！',
+        'CDU265Xs8y3OWbB/56H9jPgUss5G9A0qFuTqH2zs2YDgTm+++dIfmAEceFqB7bhfN3am59lCtDXrCtwH2k1GBA==',
+      ],
+      [
+        decodeBase64('2zZDP1sa1BVBfLP7TeeMk3sUbaxAkUhBhDiNdrksaFo='),
+        'VA1+7hefNwv2NKScH6n+Sljj15kLAge+M2wE7fzFOf+L0MMbssA1mwfJZRyyrhBORQRle10X1Dxpx+UOI4EbDQ==',
+      ],
+    ];
+
+    it('matches the SEP-53 test vectors', async () => {
+      const kp = await Keypair.fromSecret(sep53Secret);
+      expect(kp.publicKey).toBe(sep53Public);
+      for (const [message, expected] of vectors) {
+        expect(encodeBase64(await kp.signMessage(message))).toBe(expected);
+      }
+    });
+
+    it('verifies raw and base64 signatures with a public-only keypair', async () => {
+      const kp = Keypair.fromPublicKey(sep53Public);
+      for (const [message, expected] of vectors) {
+        expect(await kp.verifyMessage(message, expected)).toBe(true);
+        expect(await kp.verifyMessage(message, decodeBase64(expected))).toBe(true);
+      }
+    });
+
+    it('rejects a signature over a different message', async () => {
+      const kp = await Keypair.fromSecret(sep53Secret);
+      const sig = await kp.signMessage('Hello, World!');
+      expect(await kp.verifyMessage('Hello, World?', sig)).toBe(false);
+    });
+
+    it('resolves to false for malformed signatures', async () => {
+      const kp = Keypair.fromPublicKey(sep53Public);
+      const sig = decodeBase64(vectors[0]![1]);
+      expect(await kp.verifyMessage('Hello, World!', sig.subarray(0, 63))).toBe(false);
+      expect(await kp.verifyMessage('Hello, World!', new Uint8Array(65))).toBe(false);
+      expect(await kp.verifyMessage('Hello, World!', new Uint8Array(0))).toBe(false);
+      expect(await kp.verifyMessage('Hello, World!', 'not base64!')).toBe(false);
+      expect(await kp.verifyMessage('Hello, World!', encodeBase64(sig.subarray(0, 32)))).toBe(false);
+      expect(await kp.verifyMessage('Hello, World!', new Uint8Array(64).fill(0xff))).toBe(false);
+    });
+
+    it('does not verify as a plain signature over the message', async () => {
+      const kp = await Keypair.fromSecret(sep53Secret);
+      const sig = await kp.signMessage('Hello, World!');
+      expect(await kp.verify(new TextEncoder().encode('Hello, World!'), sig)).toBe(false);
+    });
+
+    it('cannot sign without a secret key', async () => {
+      const kp = Keypair.fromPublicKey(sep53Public);
+      await expect(kp.signMessage('Hello')).rejects.toThrow('Cannot sign');
+    });
+  });
+
   describe('signatureHint', () => {
     it('returns last 4 bytes of public key', () => {
       const kp = Keypair.fromPublicKey(testPublic);
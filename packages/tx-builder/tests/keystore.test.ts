@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  encryptKeystore,
+  encryptSeedKeystore,
+  decryptKeystore,
+  decryptKeystoreBytes,
+  KeystoreError,
+  KeystoreErrorCode,
+  type KeystoreDocument,
+} from '../src/keystore.js';
+import { Keypair } from '../src/keypair.js';
+import { keypairFromMnemonic, mnemonicToSeed } from '../src/mnemonic.js';
+import { sha256 } from '../src/hash.js';
+import { bytesToHex } from '@stellar/xdr';
+
+// Low-cost parameters keep the tests fast
+const options = { scrypt: { n: 1024, r: 8, p: 1 } };
+const testSecret = 'SDL2ENWLAB7NHNVZUWTSZO23D3YLF4YUKUBHLWDVHKNDFJ37VDQ2RI53';
+const testMnemonic = 'illness spike retreat truth genius clock brain pass fit cave bargain toe';
+
+async function expectKeystoreError(promise: Promise<unknown>, code: string): Promise<void> {
+  const err = await promise.then(
+    () => undefined,
+    (e: unknown) => e,
+  );
+  expect(err).toBeInstanceOf(KeystoreError);
+  expect((err as KeystoreError).code).toBe(code);
+}
+
+describe('keystore', () => {
+  describe('secret keystores', () => {
+    it('round-trips a keypair through JSON', async () => {
+      const kp = await Keypair.fromSecret(testSecret);
+      const doc = await encryptKeystore(kp, 'hunter2', options);
+      expect(doc.version).toBe(1);
+      expect(doc.kind).toBe('ed25519');
+      expect(doc.publicKey).toBe(kp.publicKey);
+      expect(doc.crypto.kdfParams).toMatchObject({ n: 1024, r: 8, p: 1, dkLen: 64 });
+      expect(JSON.stringify(doc)).not.toContain(testSecret);
+
+      const restored = await decryptKeystore(JSON.stringify(doc), 'hunter2');
+      expect(restored.secret).toBe(testSecret);
+    });
+
+    it('uses a fresh salt and IV each time', async () => {
+      const kp = await Keypair.fromSecret(testSecret);
+      const a = await encryptKeystore(kp, 'pw', options);
+      const b = await encryptKeystore(kp, 'pw', options);
+      expect(a.crypto.kdfParams.salt).not.toBe(b.crypto.kdfParams.salt);
+      expect(a.crypto.ciphertext).not.toBe(b.crypto.ciphertext);
+    });
+
+    it('requires a secret key', async () => {
+      const kp = Keypair.fromPublicKey((await Keypair.fromSecret(testSecret)).publicKey);
+      await expect(encryptKeystore(kp, 'pw', options)).rejects.toThrow('No secret key');
+    });
+  });
+
+  describe('seed keystores', () => {
+    it('round-trips a SEP-5 seed and derives accounts by index', async () => {
+      const seed = await mnemonicToSeed(testMnemonic);
+      const doc = await encryptSeedKeystore(seed, 'pw', options);
+      expect(doc.kind).toBe('sep5-seed');
+      expect(doc.publicKey).toBe('GDRXE2BQUC3AZNPVFSCEZ76NJ3WWL25FYFK6RGZGIEKWE4SOOHSUJUJ6');
+
+      const { kind, secret } = await decryptKeystoreBytes(doc, 'pw');
+      expect(kind).toBe('sep5-seed');
+      expect(secret).toEqual(seed);
+
+      const account1 = await decryptKeystore(doc, 'pw', 1);
+      expect(account1.publicKey).toBe((await keypairFromMnemonic(testMnemonic, 1)).publicKey);
+    });
+
+    it('rejects seeds of the wrong length', async () => {
+      await expect(encryptSeedKeystore(new Uint8Array(32), 'pw', options)).rejects.toThrow('64 bytes');
+    });
+  });
+
+  describe('errors', () => {
+    let doc: KeystoreDocument;
+
+    beforeAll(async () => {
+      doc = await encryptKeystore(await Keypair.fromSecret(testSecret), 'right', options);
+    });
+
+    it('reports a wrong password', async () => {
+      await expectKeystoreError(decryptKeystore(doc, 'wrong'), KeystoreErrorCode.WrongPassword);
+    });
+
+    it('reports a modified ciphertext as tampered', async () => {
+      const bytes = Buffer.from(doc.crypto.ciphertext, 'base64');
+      bytes[0]! ^= 1;
+      const tampered = { ...doc, crypto: { ...doc.crypto, ciphertext: bytes.toString('base64') } };
+      await expectKeystoreError(decryptKeystore(tampered, 'right'), KeystoreErrorCode.Tampered);
+    });
+
+    it('reports a modified ciphertext as tampered even with a recomputed checksum', async () => {
+      const bytes = Buffer.from(doc.crypto.ciphertext, 'base64');
+      bytes[0]! ^= 1;
+      const crypto = { ...doc.crypto, ciphertext: bytes.toString('base64') };
+      const { kdfParams: k, cipherParams, ciphertext, verifier } = crypto;
+      const canonical = JSON.stringify([
+        doc.version,
+        doc.kind,
+        doc.publicKey,
+        crypto.kdf,
+        [k.n, k.r, k.p, k.dkLen, k.salt],
+        crypto.cipher,
+        cipherParams.iv,
+        ciphertext,
+        verifier,
+      ]);
+      const checksum = bytesToHex(await sha256(new TextEncoder().encode(canonical)));
+      const tampered = { ...doc, crypto, checksum };
+      await expectKeystoreError(decryptKeystore(tampered, 'right'), KeystoreErrorCode.Tampered);
+      await expectKeystoreError(decryptKeystore(tampered, 'wrong'), KeystoreErrorCode.WrongPassword);
+    });
+
+    it('reports a swapped public key as tampered', async () => {
+      const other = (await Keypair.random()).publicKey;
+      await expectKeystoreError(
+        decryptKeystore({ ...doc, publicKey: other }, 'right'),
+        KeystoreErrorCode.Tampered,
+      );
+    });
+
+    it('reports malformed and unsupported documents', async () => {
+      await expectKeystoreError(decryptKeystore('{not json', 'right'), KeystoreErrorCode.InvalidFormat);
+      await expectKeystoreError(
+        decryptKeystore({ ...doc, version: 2 } as unknown as KeystoreDocument, 'right'),
+        KeystoreErrorCode.InvalidFormat,
+      );
+      const { ciphertext: _, ...cryptoWithoutCiphertext } = doc.crypto;
+      await expectKeystoreError(
+        decryptKeystore({ ...doc, crypto: cryptoWithoutCiphertext } as unknown as KeystoreDocument, 'right'),
+        KeystoreErrorCode.InvalidFormat,
+      );
+    });
+
+    it('rejects unsafe or invalid scrypt parameters before deriving keys', async () => {
+      const withParams = (params: object) =>
+        ({
+          ...doc,
+          crypto: { ...doc.crypto, kdfParams: { ...doc.crypto.kdfParams, ...params } },
+        }) as KeystoreDocument;
+      for (const params of [
+        { n: 1000 },
+        { n: 2 ** 21 },
+        { n: 2 ** 20, r: 16 },
+        { r: 1000 },
+        { p: 1000 },
+        { n: 1.5 },
+      ]) {
+        await expectKeystoreError(
+          decryptKeystore(withParams(params), 'right'),
+          KeystoreErrorCode.InvalidFormat,
+        );
+      }
+      await expect(
+        encryptKeystore(await Keypair.fromSecret(testSecret), 'pw', { scrypt: { n: 1000 } }),
+      ).rejects.toThrow('power of two');
+    });
+
+    it('rejects invalid base64 fields', async () => {
+      const docs = [
+        { ...doc, crypto: { ...doc.crypto, ciphertext: 'not base64!' } },
+        { ...doc, crypto: { ...doc.crypto, cipherParams: { iv: 'abc' } } },
+        { ...doc, crypto: { ...doc.crypto, kdfParams: { ...doc.crypto.kdfParams, salt: '@@@@' } } },
+        { ...doc, crypto: { ...doc.crypto, cipherParams: { iv: 'AAAA' } } },
+      ];
+      for (const bad of docs) {
+        await expectKeystoreError(decryptKeystore(bad, 'right'), KeystoreErrorCode.InvalidFormat);
+      }
+    });
+
+    it('accepts reordered JSON fields', async () => {
+      const { checksum, crypto, publicKey, kind, version } = doc;
+      const reordered = JSON.stringify({ checksum, crypto, publicKey, kind, version });
+      expect((await decryptKeystore(reordered, 'right')).secret).toBe(testSecret);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateMnemonic,
+  validateMnemonic,
+  entropyToMnemonic,
+  mnemonicToEntropy,
+  mnemonicToSeed,
+  keypairFromMnemonic,
+} from '../src/mnemonic.js';
+import { Keypair } from '../src/keypair.js';
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// SEP-5 test vectors (index 0 of each)
+const SEP5_VECTORS = [
+  {
+    mnemonic: 'illness spike retreat truth genius clock brain pass fit cave bargain toe',
+    passphrase: '',
+    publicKey: 'GDRXE2BQUC3AZNPVFSCEZ76NJ3WWL25FYFK6RGZGIEKWE4SOOHSUJUJ6',
+    secret: 'SBGWSG6BTNCKCOB3DIFBGCVMUPQFYPA2G4O34RMTB343OYPXU5DJDVMN',
+  },
+  {
+    mnemonic:
+      'resource asthma orphan phone ice canvas fire useful arch jewel impose vague theory cushion top',
+    passphrase: '',
+    publicKey: 'GAVXVW5MCK7Q66RIBWZZKZEDQTRXWCZUP4DIIFXCCENGW2P6W4OA34RH',
+  },
+  {
+    mnemonic:
+      'bench hurt jump file august wise shallow faculty impulse spring exact slush thunder author capable act festival slice deposit sauce coconut afford frown better',
+    passphrase: '',
+    publicKey: 'GC3MMSXBWHL6CPOAVERSJITX7BH76YU252WGLUOM5CJX3E7UCYZBTPJQ',
+  },
+  {
+    mnemonic:
+      'cable spray genius state float twenty onion head street palace net private method loan turn phrase state blanket interest dry amazing dress blast tube',
+    passphrase: 'p4ssphr4se',
+    publicKey: 'GDAHPZ2NSYIIHZXM56Y36SBVTV5QKFIZGYMMBHOU53ETUSWTP62B63EQ',
+  },
+  {
+    mnemonic:
+      'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+    passphrase: '',
+    publicKey: 'GB3JDWCQJCWMJ3IILWIGDTQJJC5567PGVEVXSCVPEQOTDN64VJBDQBYX',
+  },
+];
+
+describe('mnemonic', () => {
+  describe('entropyToMnemonic / mnemonicToEntropy', () => {
+    it('matches BIP-39 vectors', async () => {
+      expect(await entropyToMnemonic(new Uint8Array(16))).toBe(
+        'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+      );
+      expect(await entropyToMnemonic(new Uint8Array(16).fill(0x7f))).toBe(
+        'legal winner thank year wave sausage worth useful legal winner thank yellow',
+      );
+      expect(await entropyToMnemonic(new Uint8Array(32).fill(0xff))).toBe(
+        'zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo vote',
+      );
+    });
+
+    it('round-trips entropy', async () => {
+      const entropy = crypto.getRandomValues(new Uint8Array(32));
+      expect(await mnemonicToEntropy(await entropyToMnemonic(entropy))).toEqual(entropy);
+    });
+
+    it('rejects invalid entropy length', async () => {
+      await expect(entropyToMnemonic(new Uint8Array(15))).rejects.toThrow('Entropy');
+    });
+
+    it('rejects a bad checksum', async () => {
+      await expect(
+        mnemonicToEntropy('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon'),
+      ).rejects.toThrow('checksum');
+    });
+
+    it('rejects unknown words and bad lengths', async () => {
+      await expect(mnemonicToEntropy('abandon '.repeat(11) + 'xyzzy')).rejects.toThrow('Unknown mnemonic word');
+      await expect(mnemonicToEntropy('abandon about')).rejects.toThrow('words');
+    });
+  });
+
+  describe('generateMnemonic', () => {
+    it('generates valid 12 and 24 word mnemonics', async () => {
+      const m12 = await generateMnemonic();
+      const m24 = await generateMnemonic(24);
+      expect(m12.split(' ')).toHaveLength(12);
+      expect(m24.split(' ')).toHaveLength(24);
+      expect(await validateMnemonic(m12)).toBe(true);
+      expect(await validateMnemonic(m24)).toBe(true);
+    });
+
+    it('rejects unsupported lengths', async () => {
+      await expect(generateMnemonic(18 as 12)).rejects.toThrow('12 or 24');
+    });
+  });
+
+  describe('validateMnemonic', () => {
+    it('returns false for invalid mnemonics', async () => {
+      expect(await validateMnemonic('illness spike retreat truth genius clock brain pass fit cave bargain bargain')).toBe(false);
+      expect(await validateMnemonic('')).toBe(false);
+    });
+  });
+
+  describe('mnemonicToSeed', () => {
+    it('matches the BIP-39 TREZOR vector', async () => {
+      const seed = await mnemonicToSeed(SEP5_VECTORS[4]!.mnemonic, 'TREZOR');
+      expect(hex(seed)).toBe(
+        'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04',
+      );
+    });
+
+    it('matches the SEP-5 seed for vector 1', async () => {
+      const seed = await mnemonicToSeed(SEP5_VECTORS[0]!.mnemonic);
+      expect(hex(seed)).toBe(
+        'e4a5a632e70943ae7f07659df1332160937fad82587216a4c64315a0fb39497ee4a01f76ddab4cba68147977f3a147b6ad584c41808e8238a07f6cc4b582f186',
+      );
+    });
+  });
+
+  describe('keypairFromMnemonic', () => {
+    for (const [i, v] of SEP5_VECTORS.entries()) {
+      it(`derives SEP-5 vector ${i + 1}`, async () => {
+        const kp = await keypairFromMnemonic(v.mnemonic, 0, v.passphrase);
+        expect(kp.publicKey).toBe(v.publicKey);
+        if (v.secret) expect(kp.secret).toBe(v.secret);
+      });
+    }
+
+    it('derives distinct keys per index', async () => {
+      const kp0 = await keypairFromMnemonic(SEP5_VECTORS[0]!.mnemonic, 0);
+      const kp1 = await keypairFromMnemonic(SEP5_VECTORS[0]!.mnemonic, 1);
+      expect(kp1.publicKey).not.toBe(kp0.publicKey);
+    });
+
+    it('is also available as Keypair.fromMnemonic', async () => {
+      const v = SEP5_VECTORS[0]!;
+      expect((await Keypair.fromMnemonic(v.mnemonic)).publicKey).toBe(v.publicKey);
+      const kp1 = await Keypair.fromMnemonic(v.mnemonic, 1);
+      expect(kp1.publicKey).toBe((await keypairFromMnemonic(v.mnemonic, 1)).publicKey);
+      await expect(Keypair.fromMnemonic(v.mnemonic, -1)).rejects.toThrow('index');
+    });
+
+    it('rejects an invalid mnemonic or index', async () => {
+      await expect(keypairFromMnemonic('abandon '.repeat(12).trim())).rejects.toThrow('checksum');
+      await expect(keypairFromMnemonic(SEP5_VECTORS[0]!.mnemonic, -1)).rejects.toThrow('index');
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { encodeStrkey, STRKEY_PRE_AUTH_TX, STRKEY_HASH_X } from '@stellar/xdr';
+import {
+  signatureStatus,
+  operationThresholdLevel,
+  type AccountSigningInfo,
+} from '../src/multisig.js';
+import { Keypair } from '../src/keypair.js';
+import { TransactionBuilder } from '../src/builder.js';
+import {
+  payment,
+  setOptions,
+  accountMerge,
+  bumpSequence,
+  manageData,
+} from '../src/operations.js';
+import { nativeAsset, parseSignerKey, signedPayloadSigner } from '../src/helpers.js';
+import { sha256 } from '../src/hash.js';
+import { Networks } from '../src/networks.js';
+
+const DEST = 'GAT4KBPBCPTOLGILH5NNTBWSXHEBUTRQMEUSQGSPCCFM4QHO2COADB5O';
+
+function single(kp: Keypair): AccountSigningInfo {
+  return {
+    signers: [{ key: kp.publicKey, weight: 1 }],
+    thresholds: { low: 0, medium: 0, high: 0 },
+  };
+}
+
+describe('multisig', () => {
+  let treasury: Keypair;
+  let other: Keypair;
+  let cosigners: Keypair[];
+  let treasuryInfo: AccountSigningInfo;
+
+  beforeAll(async () => {
+    treasury = await Keypair.random();
+    other = await Keypair.random();
+    cosigners = await Promise.all([0, 1, 2, 3, 4].map(() => Keypair.random()));
+    // 3-of-5 with the master key disabled
+    treasuryInfo = {
+      signers: [
+        { key: treasury.publicKey, weight: 0 },
+        ...cosigners.map((kp) => ({ key: kp.publicKey, weight: 1 })),
+      ],
+      thresholds: { low: 1, medium: 3, high: 4 },
+    };
+  });
+
+  function builder(source = treasury.publicKey) {
+    return new TransactionBuilder(
+      { address: source, sequenceNumber: 1n },
+      { fee: 100, networkPassphrase: Networks.TESTNET },
+    ).setTimeout(0);
+  }
+
+  describe('operationThresholdLevel', () => {
+    it('classifies operations', () => {
+      const pay = payment({ destination: DEST, asset: nativeAsset(), amount: 1n });
+      expect(operationThresholdLevel(pay)).toBe('medium');
+      expect(operationThresholdLevel(bumpSequence({ bumpTo: 5n }))).toBe('low');
+      expect(operationThresholdLevel(accountMerge({ destination: DEST }))).toBe('high');
+      expect(operationThresholdLevel(setOptions({ homeDomain: 'example.com' }))).toBe('medium');
+      expect(operationThresholdLevel(setOptions({ highThreshold: 2 }))).toBe('high');
+      expect(
+        operationThresholdLevel(setOptions({ signer: { key: parseSignerKey(DEST), weight: 1 } })),
+      ).toBe('high');
+    });
+  });
+
+  describe('signatureStatus', () => {
+    it('tracks weight towards a 3-of-5 medium threshold', async () => {
+      const tx = await builder()
+        .addOperation(payment({ destination: DEST, asset: nativeAsset(), amount: 1n }))
+        .build();
+      await tx.sign(cosigners[0]!, cosigners[3]!);
+
+      let status = await signatureStatus(tx, { [treasury.publicKey]: treasuryInfo });
+      expect(status.complete).toBe(false);
+      const [account] = status.accounts;
+      expect(account).toMatchObject({
+        account: treasury.publicKey,
+        level: 'medium',
+        threshold: 3,
+        weight: 2,
+        met: false,
+      });
+      expect(account!.signedBy.map((s) => s.key)).toEqual([
+        cosigners[0]!.publicKey,
+        cosigners[3]!.publicKey,
+      ]);
+      expect(account!.missing.map((s) => s.key)).toEqual(
+        [1, 2, 4].map((i) => cosigners[i]!.publicKey),
+      );
+
+      await tx.sign(cosigners[4]!);
+      status = await signatureStatus(tx, { [treasury.publicKey]: treasuryInfo });
+      expect(status.complete).toBe(true);
+      expect(status.accounts[0]!.weight).toBe(3);
+    });
+
+    it('uses the highest level per account and evaluates operation sources', async () => {
+      const tx = await builder()
+        .addOperation(bumpSequence({ bumpTo: 5n }))
+        .addOperation(setOptions({ signer: { key: parseSignerKey(DEST), weight: 1 } }))
+        .addOperation(manageData({ name: 'k', value: null, source: other.publicKey }))
+        .build();
+      await tx.sign(...cosigners.slice(0, 3));
+
+      const status = await signatureStatus(tx, {
+        [treasury.publicKey]: treasuryInfo,
+        [other.publicKey]: single(other),
+      });
+      expect(status.accounts.map((a) => [a.account, a.level, a.met])).toEqual([
+        [treasury.publicKey, 'high', false],
+        [other.publicKey, 'medium', false],
+      ]);
+      expect(status.accounts[1]!.missing).toEqual([{ key: other.publicKey, weight: 1 }]);
+
+      await tx.sign(cosigners[3]!, other);
+      const after = await signatureStatus(tx, {
+        [treasury.publicKey]: treasuryInfo,
+        [other.publicKey]: single(other),
+      });
+      expect(after.complete).toBe(true);
+    });
+
+    it('requires a signature even when thresholds are zero', async () => {
+      const tx = await builder(other.publicKey)
+        .addOperation(payment({ destination: DEST, asset: nativeAsset(), amount: 1n }))
+        .build();
+      const status = await signatureStatus(tx, { [other.publicKey]: single(other) });
+      expect(status.accounts[0]!.met).toBe(false);
+    });
+
+    it('ignores signatures that do not verify and reports unused ones', async () => {
+      const tx = await builder(other.publicKey)
+        .addOperation(payment({ destination: DEST, asset: nativeAsset(), amount: 1n }))
+        .build();
+      const forged = await other.signDecorated(new Uint8Array(32));
+      tx.addSignature(forged);
+      await tx.sign(treasury);
+      const status = await signatureStatus(tx, { [other.publicKey]: single(other) });
+      expect(status.accounts[0]!.met).toBe(false);
+      expect(status.unusedSignatures).toEqual([0, 1]);
+    });
+
+    it('accepts pre-auth tx and hash-x signers', async () => {
+      const preimage = new Uint8Array([1, 2, 3, 4]);
+      const hashX = await sha256(preimage);
+      const tx = await builder(other.publicKey)
+        .addOperation(payment({ destination: DEST, asset: nativeAsset(), amount: 1n }))
+        .build();
+      const info: AccountSigningInfo = {
+        signers: [
+          { key: other.publicKey, weight: 0 },
+          { key: encodeStrkey(STRKEY_PRE_AUTH_TX, tx.hash), weight: 1 },
+          { key: encodeStrkey(STRKEY_HASH_X, hashX), weight: 1 },
+        ],
+        thresholds: { low: 2, medium: 2, high: 2 },
+      };
+      expect((await signatureStatus(tx, { [other.publicKey]: info })).accounts[0]!.weight).toBe(1);
+
+      tx.addSignature({ hint: hashX.slice(-4), signature: preimage });
+      const status = await signatureStatus(tx, { [other.publicKey]: info });
+      expect(status.complete).toBe(true);
+      expect(status.unusedSignatures).toEqual([]);
+    });
+
+    it('evaluates extraSigners preconditions', async () => {
+      const payload = new Uint8Array([9, 8, 7]);
+      const tx = await builder(other.publicKey)
+        .setPreconditions({ extraSigners: [signedPayloadSigner(treasury.publicKey, payload)] })
+        .addOperation(payment({ destination: DEST, asset: nativeAsset(), amount: 1n }))
+        .build();
+      await tx.sign(other);
+
+      let status = await signatureStatus(tx, { [other.publicKey]: single(other) });
+      expect(status.complete).toBe(false);
+      expect(status.extraSigners).toEqual([{ key: expect.stringMatching(/^P/), satisfied: false }]);
+
+      tx.addSignature(await treasury.signPayloadDecorated(payload));
+      status = await signatureStatus(tx, { [other.publicKey]: single(other) });
+      expect(status.complete).toBe(true);
+      expect(status.extraSigners[0]!.satisfied).toBe(true);
+    });
+
+    it('throws when an involved account is not described', async () => {
+      const tx = await builder()
+        .addOperation(payment({ destination: DEST, asset: nativeAsset(), amount: 1n }))
+        .build();
+      await expect(signatureStatus(tx, {})).rejects.toThrow(treasury.publicKey);
+    });
+  });
+});
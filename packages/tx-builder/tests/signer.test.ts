@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { encodeBase64 } from '@stellar/xdr';
+import { callbackSigner, webCryptoSigner, type SignRequest } from '../src/signer.js';
+import { Keypair } from '../src/keypair.js';
+import { sha256 } from '../src/hash.js';
+import { TransactionBuilder } from '../src/builder.js';
+import { payment } from '../src/operations.js';
+import { nativeAsset } from '../src/helpers.js';
+import { Networks } from '../src/networks.js';
+import { buildFeeBumpTransaction } from '../src/transaction.js';
+
+const SECRET1 = 'SDL2ENWLAB7NHNVZUWTSZO23D3YLF4YUKUBHLWDVHKNDFJ37VDQ2RI53';
+const DEST = 'GAT4KBPBCPTOLGILH5NNTBWSXHEBUTRQMEUSQGSPCCFM4QHO2COADB5O';
+
+async function buildTx(source: string) {
+  return new TransactionBuilder(
+    { address: source, sequenceNumber: 1n },
+    { fee: 100, networkPassphrase: Networks.TESTNET },
+  )
+    .setTimeout(0)
+    .addOperation(payment({ destination: DEST, asset: nativeAsset(), amount: 1n }))
+    .build();
+}
+
+describe('signer', () => {
+  describe('Keypair as Signer', () => {
+    it('signs a transaction the same way as signDecorated', async () => {
+      const kp = await Keypair.fromSecret(SECRET1);
+      const tx = await buildTx(kp.publicKey);
+      await tx.sign(kp);
+      expect(tx.toEnvelope().signatures).toEqual([await kp.signDecorated(tx.hash)]);
+    });
+
+    it('signs auth entries over the preimage hash', async () => {
+      const kp = await Keypair.fromSecret(SECRET1);
+      const preimage = new Uint8Array([1, 2, 3]);
+      const sig = await kp.signAuthEntry(preimage);
+      expect(await kp.verify(await sha256(preimage), sig)).toBe(true);
+    });
+  });
+
+  describe('callbackSigner', () => {
+    it('forwards requests and accepts base64 signatures', async () => {
+      const kp = await Keypair.fromSecret(SECRET1);
+      const requests: SignRequest[] = [];
+      const signer = callbackSigner(kp.publicKey, async (req) => {
+        requests.push(req);
+        return encodeBase64(await kp.sign(req.hash));
+      });
+
+      const tx = await buildTx(kp.publicKey);
+      await tx.sign(signer);
+      expect(requests).toEqual([
+        { type: 'transaction', hash: tx.hash, networkPassphrase: Networks.TESTNET },
+      ]);
+      expect(tx.toEnvelope().signatures[0]!.hint).toEqual(kp.signatureHint());
+
+      const preimage = new Uint8Array([9, 9, 9]);
+      await signer.signAuthEntry!(preimage, Networks.TESTNET);
+      expect(requests[1]).toEqual({
+        type: 'authEntry',
+        preimage,
+        hash: await sha256(preimage),
+        networkPassphrase: Networks.TESTNET,
+      });
+    });
+
+    it('rejects signatures from the wrong key', async () => {
+      const kp = await Keypair.fromSecret(SECRET1);
+      const other = await Keypair.random();
+      const signer = callbackSigner(kp.publicKey, async (req) => other.sign(req.hash));
+      await expect(signer.signTransactionHash(new Uint8Array(32), Networks.TESTNET)).rejects.toThrow(
+        'invalid signature',
+      );
+    });
+
+    it('rejects a non-G public key', async () => {
+      expect(() => callbackSigner(SECRET1, async () => new Uint8Array(64))).toThrow('G-address');
+    });
+  });
+
+  describe('webCryptoSigner', () => {
+    it('signs with a non-extractable Ed25519 key', async () => {
+      const keyPair = (await crypto.subtle.generateKey('Ed25519', false, [
+        'sign',
+        'verify',
+      ])) as CryptoKeyPair;
+      expect(keyPair.privateKey.extractable).toBe(false);
+      const signer = await webCryptoSigner(keyPair);
+      expect(signer.publicKey).toMatch(/^G/);
+
+      const tx = await buildTx(signer.publicKey);
+      await tx.sign(signer);
+      const { signature } = tx.toEnvelope().signatures[0]!;
+      expect(await Keypair.fromPublicKey(signer.publicKey).verify(tx.hash, signature)).toBe(true);
+    });
+
+    it('signs fee-bump transactions', async () => {
+      const keyPair = (await crypto.subtle.generateKey('Ed25519', false, ['sign'])) as CryptoKeyPair;
+      const signer = await webCryptoSigner(keyPair);
+      const inner = await buildTx((await Keypair.fromSecret(SECRET1)).publicKey);
+      const bump = await buildFeeBumpTransaction({
+        feeSource: signer.publicKey,
+        fee: 200n,
+        innerTransaction: inner,
+        networkPassphrase: Networks.TESTNET,
+      });
+      await bump.sign(signer);
+      const { signature } = bump.toEnvelope().signatures[0]!;
+      expect(await Keypair.fromPublicKey(signer.publicKey).verify(bump.hash, signature)).toBe(true);
+    });
+
+    it('rejects non-Ed25519 keys', async () => {
+      const keyPair = await crypto.subtle.generateKey(
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['sign'],
+      );
+      await expect(webCryptoSigner(keyPair)).rejects.toThrow('Ed25519');
+    });
+  });
+});
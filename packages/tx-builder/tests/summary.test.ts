@@ -0,0 +1,249 @@
+import { describe, it, expect } from 'vitest';
+import { strkeyToString } from '@stellar/xdr';
+import {
+  summarizeTransaction,
+  formatTransactionSummary,
+  formatAmount,
+} from '../src/summary.js';
+import { TransactionBuilder } from '../src/builder.js';
+import {
+  payment,
+  setOptions,
+  accountMerge,
+  manageSellOffer,
+  invokeHostFunction,
+} from '../src/operations.js';
+import {
+  nativeAsset,
+  creditAsset,
+  memoText,
+  parsePublicKey,
+  parseSignerKey,
+  muxedAccountAddress,
+} from '../src/helpers.js';
+import { buildFeeBumpTransaction } from '../src/transaction.js';
+import { Networks } from '../src/networks.js';
+
+const SOURCE = 'GBMZSZP7FWHX6OTYMKCUS55EHT2DECX3IIIMZP4AAMSWYX3VVAED5JVC';
+const DEST = 'GAT4KBPBCPTOLGILH5NNTBWSXHEBUTRQMEUSQGSPCCFM4QHO2COADB5O';
+const ISSUER = 'GA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJVSGZ';
+const MUXED_DEST = muxedAccountAddress({
+  MuxedEd25519: { id: 7n, ed25519: parsePublicKey(DEST).PublicKeyTypeEd25519 },
+});
+const CONTRACT_ID = new Uint8Array(32).fill(7);
+
+function builder(source = SOURCE, networkPassphrase: string = Networks.TESTNET) {
+  return new TransactionBuilder(
+    { address: source, sequenceNumber: 41n },
+    { fee: 100, networkPassphrase },
+  );
+}
+
+describe('summary', () => {
+  describe('formatAmount', () => {
+    it('formats stroops as XLM', () => {
+      expect(formatAmount(125_000_000n)).toBe('12.5');
+      expect(formatAmount(100n)).toBe('0.00001');
+      expect(formatAmount(30_000_000n)).toBe('3');
+      expect(formatAmount(-1n)).toBe('-0.0000001');
+    });
+  });
+
+  describe('summarizeTransaction', () => {
+    it('summarizes a payment', async () => {
+      const tx = await builder()
+        .setTimeBounds(1_700_000_000n, 1_700_000_600n)
+        .setMemo(memoText('invoice 42'))
+        .addOperation(
+          payment({
+            destination: MUXED_DEST,
+            asset: creditAsset('USDC', ISSUER),
+            amount: 125_000_000n,
+          }),
+        )
+        .build();
+
+      const summary = summarizeTransaction(tx);
+      expect(summary).toMatchObject({
+        network: 'Testnet',
+        source: SOURCE,
+        sequenceNumber: 42n,
+        fee: '0.00001',
+        feeBump: null,
+        memo: { type: 'text', value: 'invoice 42' },
+        timeBounds: {
+          minTime: new Date('2023-11-14T22:13:20Z'),
+          maxTime: new Date('2023-11-14T22:23:20Z'),
+        },
+        risks: [],
+      });
+      expect(summary.operations[0]).toMatchObject({
+        index: 0,
+        type: 'payment',
+        source: SOURCE,
+        operation: { type: 'payment', destination: MUXED_DEST, amount: 125_000_000n },
+        invocation: null,
+      });
+
+      expect(formatTransactionSummary(summary)).toBe(
+        [
+          'Network: Testnet',
+          'Source: GBMZ…5JVC',
+          'Fee: up to 0.00001 XLM',
+          'Memo (text): "invoice 42"',
+          'Valid: from 2023-11-14T22:13:20.000Z until 2023-11-14T22:23:20.000Z',
+          'Operations:',
+          '  1. Pay 12.5 USDC (GA7Q…VSGZ) to GAT4…DB5O (muxed ID 7)',
+        ].join('\n'),
+      );
+    });
+
+    it('flags account takeovers and merges', async () => {
+      // No time bounds, so it also never expires
+      const tx = await builder()
+        .addOperation(
+          setOptions({
+            masterWeight: 0,
+            highThreshold: 2,
+            signer: { key: parseSignerKey(DEST), weight: 2 },
+          }),
+        )
+        .addOperation(accountMerge({ destination: DEST, source: ISSUER }))
+        .build();
+
+      const summary = summarizeTransaction(tx);
+      expect(summary.risks.map((r) => [r.code, r.operation])).toEqual([
+        ['masterWeight', 0],
+        ['signers', 0],
+        ['thresholds', 0],
+        ['accountMerge', 1],
+        ['noExpiry', null],
+      ]);
+      expect(summary.operations.map((op) => op.description)).toEqual([
+        'On GBMZ…5JVC: set master key weight to 0, set high threshold to 2, ' +
+          'add signer GAT4…DB5O with weight 2',
+        'Merge account GA7Q…VSGZ into GAT4…DB5O',
+      ]);
+      expect(formatTransactionSummary(summary)).toContain(
+        [
+          'Warnings:',
+          '  - Operation 1: Disables the master key of GBMZ…5JVC',
+          '  - Operation 1: Adds signer GAT4…DB5O to GBMZ…5JVC with weight 2',
+          '  - Operation 1: Changes the signing thresholds of GBMZ…5JVC',
+          '  - Operation 2: Deletes account GA7Q…VSGZ and sends all its XLM to GAT4…DB5O',
+          '  - The transaction never expires and can be submitted at any time',
+        ].join('\n'),
+      );
+    });
+
+    it('describes offers', async () => {
+      const tx = await builder()
+        .setTimeBounds(0n, 1n)
+        .addOperation(
+          manageSellOffer({
+            selling: nativeAsset(),
+            buying: creditAsset('USDC', ISSUER),
+            amount: 50_000_000n,
+            price: { n: 1, d: 8 },
+          }),
+        )
+        .addOperation(
+          manageSellOffer({
+            selling: nativeAsset(),
+            buying: creditAsset('USDC', ISSUER),
+            amount: 0n,
+            price: { n: 1, d: 8 },
+            offerID: 99n,
+          }),
+        )
+        .build();
+      expect(summarizeTransaction(tx).operations.map((op) => op.description)).toEqual([
+        'Offer to sell 5 XLM for USDC (GA7Q…VSGZ) at 0.125 USDC (GA7Q…VSGZ) each',
+        'Delete offer 99',
+      ]);
+    });
+
+    it('decodes Soroban invocations', async () => {
+      const tx = await builder()
+        .setTimeout(0)
+        .addOperation(
+          invokeHostFunction({
+            hostFunction: {
+              InvokeContract: {
+                contractAddress: { Contract: CONTRACT_ID },
+                functionName: 'transfer',
+                args: [
+                  { Address: { Account: parsePublicKey(SOURCE) } },
+                  { Address: { Account: parsePublicKey(DEST) } },
+                  { I128: { hi: 0n, lo: 10_000_000n } },
+                  { Symbol: 'memo' },
+                ],
+              },
+            },
+            auth: [],
+          }),
+        )
+        .build();
+
+      const contract = strkeyToString({ type: 'contract', data: CONTRACT_ID });
+      const [op] = summarizeTransaction(tx).operations;
+      expect(op!.invocation).toEqual({
+        contract,
+        function: 'transfer',
+        args: [SOURCE, DEST, 10_000_000n, 'memo'],
+      });
+      expect(op!.description).toBe(
+        'Call transfer(GBMZ…5JVC, GAT4…DB5O, 10000000, memo) ' +
+          `on contract ${contract.slice(0, 4)}…${contract.slice(-4)}`,
+      );
+    });
+
+    it('decodes negative 128-bit integers', async () => {
+      const tx = await builder()
+        .addOperation(
+          invokeHostFunction({
+            hostFunction: {
+              InvokeContract: {
+                contractAddress: { Contract: CONTRACT_ID },
+                functionName: 'adjust',
+                args: [{ I128: { hi: -1n, lo: 18446744073709551615n } }],
+              },
+            },
+            auth: [],
+          }),
+        )
+        .build();
+      expect(summarizeTransaction(tx).operations[0]!.invocation!.args).toEqual([-1n]);
+    });
+
+    it('summarizes the inner transaction of a fee bump', async () => {
+      const inner = await builder(SOURCE, Networks.PUBLIC)
+        .setTimeout(0)
+        .addOperation(payment({ destination: DEST, asset: nativeAsset(), amount: 10_000_000n }))
+        .build();
+      const bump = await buildFeeBumpTransaction({
+        feeSource: MUXED_DEST,
+        fee: 2000n,
+        innerTransaction: inner,
+        networkPassphrase: Networks.PUBLIC,
+      });
+
+      const summary = summarizeTransaction(bump);
+      expect(summary.network).toBe('Public');
+      expect(summary.source).toBe(SOURCE);
+      expect(summary.feeBump).toEqual({ feeSource: MUXED_DEST, fee: '0.0002' });
+      expect(summary.operations[0]!.description).toBe('Pay 1 XLM to GAT4…DB5O');
+      expect(formatTransactionSummary(summary)).toContain(
+        'Fee: up to 0.0002 XLM, paid by GAT4…DB5O (muxed ID 7) (fee bump)',
+      );
+    });
+
+    it('falls back to the passphrase for unknown networks', async () => {
+      const tx = await builder(SOURCE, 'Standalone Network ; February 2017')
+        .setTimeout(0)
+        .addOperation(payment({ destination: DEST, asset: nativeAsset(), amount: 1n }))
+        .build();
+      expect(summarizeTransaction(tx).network).toBe('Standalone Network ; February 2017');
+    });
+  });
+});
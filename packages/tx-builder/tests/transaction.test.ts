@@ -2,7 +2,8 @@ import { describe, it, expect } from 'vitest';
 import { TransactionBuilder, type AccountLike } from '../src/builder.js';
 import { Keypair } from '../src/keypair.js';
 import { payment, createAccount } from '../src/operations.js';
-import { nativeAsset } from '../src/helpers.js';
+import { nativeAsset, hashXSigner } from '../src/helpers.js';
+import { signatureMatches } from '../src/multisig.js';
 import { Networks } from '../src/networks.js';
 import {
   BuiltTransaction,
@@ -196,4 +197,166 @@ describe('transaction', () => {
       expect(await kp2.verify(tx.hash, envelope.signatures[1]!.signature)).toBe(true);
     });
   });
+
+  describe('signature verification', () => {
+    async function buildTx(source: Keypair) {
+      return new TransactionBuilder(
+        { address: source.publicKey, sequenceNumber: 0n },
+        { fee: 100, networkPassphrase: Networks.TESTNET },
+      )
+        .setTimeBounds(0n, 9999999999n)
+        .addOperation(payment({ destination: DEST, asset: nativeAsset(), amount: 1n }))
+        .build();
+    }
+
+    it('matches signatures to the source account by default', async () => {
+      const kp1 = await Keypair.fromSecret(SECRET1);
+      const kp2 = await Keypair.fromSecret(SECRET2);
+      const tx = await buildTx(kp1);
+      await tx.sign(kp1, kp2);
+
+      const result = await tx.verifySignatures();
+      expect(result.signatures.map((v) => v.signer)).toEqual([kp1.publicKey, null]);
+      expect(result.unmatched).toEqual([tx.toEnvelope().signatures[1]]);
+
+      const withCosigner = await tx.verifySignatures([kp1.publicKey, kp2.publicKey]);
+      expect(withCosigner.unmatched).toEqual([]);
+    });
+
+    it('reports signatures over a different hash as unmatched', async () => {
+      const kp1 = await Keypair.fromSecret(SECRET1);
+      const tx = await buildTx(kp1);
+      tx.addSignature(await kp1.signDecorated(new Uint8Array(32)));
+      const result = await tx.verifySignatures();
+      expect(result.signatures[0]!.signer).toBeNull();
+    });
+
+    it('prunes invalid and duplicate signatures but keeps other co-signers', async () => {
+      const kp1 = await Keypair.fromSecret(SECRET1);
+      const kp2 = await Keypair.fromSecret(SECRET2);
+      const tx = await buildTx(kp1);
+      const invalid = await kp1.signDecorated(new Uint8Array(32));
+      tx.addSignature(invalid);
+      await tx.sign(kp1, kp1, kp2);
+
+      const removed = await tx.pruneSignatures();
+      expect(removed).toEqual([invalid, await kp1.signDecorated(tx.hash)]);
+      expect(tx.toEnvelope().signatures).toEqual([
+        await kp1.signDecorated(tx.hash),
+        await kp2.signDecorated(tx.hash),
+      ]);
+    });
+
+    it('prunes to listed candidates', async () => {
+      const kp1 = await Keypair.fromSecret(SECRET1);
+      const kp2 = await Keypair.fromSecret(SECRET2);
+      const tx = await buildTx(kp1);
+      await tx.sign(kp1, kp1, kp2);
+      expect(await tx.pruneSignatures([kp1.publicKey])).toHaveLength(2);
+      expect(tx.toEnvelope().signatures).toEqual([await kp1.signDecorated(tx.hash)]);
+    });
+
+    it('keeps signatures from listed candidates', async () => {
+      const kp1 = await Keypair.fromSecret(SECRET1);
+      const kp2 = await Keypair.fromSecret(SECRET2);
+      const tx = await buildTx(kp1);
+      await tx.sign(kp1, kp2);
+      expect(await tx.pruneSignatures([kp1.publicKey, kp2.publicKey])).toEqual([]);
+      expect(tx.toEnvelope().signatures).toHaveLength(2);
+    });
+
+    it('merges signatures collected on separate copies', async () => {
+      const kp1 = await Keypair.fromSecret(SECRET1);
+      const kp2 = await Keypair.fromSecret(SECRET2);
+      const tx = await buildTx(kp1);
+      const copy = async () =>
+        (await BuiltTransaction.fromBase64(tx.toBase64(), Networks.TESTNET)) as BuiltTransaction;
+      const copyA = await copy();
+      const copyB = await copy();
+      await copyA.sign(kp1);
+      await copyB.sign(kp1, kp2);
+
+      await tx.mergeSignatures(copyA);
+      await tx.mergeSignatures(copyB.toBase64());
+      await tx.mergeSignatures(copyB.toTransactionEnvelope());
+      expect(tx.toEnvelope().signatures).toEqual(copyB.toEnvelope().signatures);
+    });
+
+    it('refuses to merge signatures from another transaction', async () => {
+      const kp1 = await Keypair.fromSecret(SECRET1);
+      const kp2 = await Keypair.fromSecret(SECRET2);
+      const tx = await buildTx(kp1);
+      const other = await buildTx(kp2);
+      await other.sign(kp2);
+      await expect(tx.mergeSignatures(other)).rejects.toThrow('different transaction');
+    });
+
+    it('verifies, prunes and merges fee-bump signatures', async () => {
+      const kp1 = await Keypair.fromSecret(SECRET1);
+      const kp2 = await Keypair.fromSecret(SECRET2);
+      const inner = await buildTx(kp1);
+      await inner.sign(kp1);
+      const bump = await buildFeeBumpTransaction({
+        feeSource: kp2.publicKey,
+        fee: 200n,
+        innerTransaction: inner,
+        networkPassphrase: Networks.TESTNET,
+      });
+      const copy = (await BuiltTransaction.fromBase64(
+        bump.toBase64(),
+        Networks.TESTNET,
+      )) as BuiltFeeBumpTransaction;
+      await copy.sign(kp2, kp1);
+
+      await bump.mergeSignatures(copy);
+      expect((await bump.verifySignatures()).signatures.map((v) => v.signer)).toEqual([
+        kp2.publicKey,
+        null,
+      ]);
+      expect(await bump.pruneSignatures()).toEqual([]);
+      expect(await bump.pruneSignatures([kp2.publicKey])).toHaveLength(1);
+      expect(bump.toEnvelope().signatures).toHaveLength(1);
+      await expect(bump.mergeSignatures(inner)).rejects.toThrow('fee-bump');
+    });
+  });
+
+  describe('hash-x and pre-auth signers', () => {
+    async function buildTx(source: Keypair) {
+      return new TransactionBuilder(
+        { address: source.publicKey, sequenceNumber: 0n },
+        { fee: 100, networkPassphrase: Networks.TESTNET },
+      )
+        .setTimeout(0)
+        .addOperation(payment({ destination: DEST, asset: nativeAsset(), amount: 1n }))
+        .build();
+    }
+
+    it('adds a preimage that satisfies the hash-x signer', async () => {
+      const kp1 = await Keypair.fromSecret(SECRET1);
+      const preimage = new TextEncoder().encode('open sesame');
+      const key = await hashXSigner(preimage);
+      const tx = await buildTx(kp1);
+      expect(await tx.signHashX(preimage)).toBe(tx);
+
+      const [sig] = tx.toEnvelope().signatures;
+      expect(sig!.signature).toEqual(preimage);
+      expect(await signatureMatches(sig!, key, tx.hash)).toBe(true);
+      expect(await signatureMatches(sig!, await hashXSigner(new Uint8Array(1)), tx.hash)).toBe(
+        false,
+      );
+    });
+
+    it('rejects preimages over 64 bytes', async () => {
+      const kp1 = await Keypair.fromSecret(SECRET1);
+      const tx = await buildTx(kp1);
+      await expect(tx.signHashX(new Uint8Array(65))).rejects.toThrow('≤64 bytes');
+      await expect(hashXSigner(new Uint8Array(65))).rejects.toThrow('≤64 bytes');
+    });
+
+    it('turns the transaction hash into a pre-auth signer', async () => {
+      const kp1 = await Keypair.fromSecret(SECRET1);
+      const tx = await buildTx(kp1);
+      expect(tx.toPreAuthSigner()).toEqual({ PreAuthTx: tx.hash });
+    });
+  });
 });
@@ -0,0 +1 @@
+export * from './stellar_generated.js';
@@ -21,20 +21,21 @@ import {
   xdrStruct,
   xdrEnum,
   taggedUnion,
-} from '../src/index.js';
+  typedef,
+} from '../../src/index.js';
 
 export type Uint32 = number;
-export const Uint32: XdrCodec<Uint32> = uint32;
+export const Uint32: XdrCodec<Uint32> = typedef('Uint32', uint32);
 
 export interface ConfigSettingContractExecutionLanesV0 {
   readonly ledgerMaxTxCount: Uint32;
 }
 export const ConfigSettingContractExecutionLanesV0: XdrCodec<ConfigSettingContractExecutionLanesV0> = xdrStruct<ConfigSettingContractExecutionLanesV0>([
   ['ledgerMaxTxCount', Uint32],
-]);
+], 'ConfigSettingContractExecutionLanesV0');
 
 export type Int64 = bigint;
-export const Int64: XdrCodec<Int64> = int64;
+export const Int64: XdrCodec<Int64> = typedef('Int64', int64);
 
 export interface ConfigSettingContractComputeV0 {
   readonly ledgerMaxInstructions: Int64;
@@ -47,14 +48,14 @@ export const ConfigSettingContractComputeV0: XdrCodec<ConfigSettingContractCompu
   ['txMaxInstructions', Int64],
   ['feeRatePerInstructionsIncrement', Int64],
   ['txMemoryLimit', Uint32],
-]);
+], 'ConfigSettingContractComputeV0');
 
 export interface ConfigSettingContractParallelComputeV0 {
   readonly ledgerMaxDependentTxClusters: Uint32;
 }
 export const ConfigSettingContractParallelComputeV0: XdrCodec<ConfigSettingContractParallelComputeV0> = xdrStruct<ConfigSettingContractParallelComputeV0>([
   ['ledgerMaxDependentTxClusters', Uint32],
-]);
+], 'ConfigSettingContractParallelComputeV0');
 
 export interface ConfigSettingContractLedgerCostV0 {
   readonly ledgerMaxDiskReadEntries: Uint32;
@@ -89,7 +90,7 @@ export const ConfigSettingContractLedgerCostV0: XdrCodec<ConfigSettingContractLe
   ['rentFee1KBSorobanStateSizeLow', Int64],
   ['rentFee1KBSorobanStateSizeHigh', Int64],
   ['sorobanStateRentFeeGrowthFactor', Uint32],
-]);
+], 'ConfigSettingContractLedgerCostV0');
 
 export interface ConfigSettingContractLedgerCostExtV0 {
   readonly txMaxFootprintEntries: Uint32;
@@ -98,14 +99,14 @@ export interface ConfigSettingContractLedgerCostExtV0 {
 export const ConfigSettingContractLedgerCostExtV0: XdrCodec<ConfigSettingContractLedgerCostExtV0> = xdrStruct<ConfigSettingContractLedgerCostExtV0>([
   ['txMaxFootprintEntries', Uint32],
   ['feeWrite1KB', Int64],
-]);
+], 'ConfigSettingContractLedgerCostExtV0');
 
 export interface ConfigSettingContractHistoricalDataV0 {
   readonly feeHistorical1KB: Int64;
 }
 export const ConfigSettingContractHistoricalDataV0: XdrCodec<ConfigSettingContractHistoricalDataV0> = xdrStruct<ConfigSettingContractHistoricalDataV0>([
   ['feeHistorical1KB', Int64],
-]);
+], 'ConfigSettingContractHistoricalDataV0');
 
 export interface ConfigSettingContractEventsV0 {
   readonly txMaxContractEventsSizeBytes: Uint32;
@@ -114,7 +115,7 @@ export interface ConfigSettingContractEventsV0 {
 export const ConfigSettingContractEventsV0: XdrCodec<ConfigSettingContractEventsV0> = xdrStruct<ConfigSettingContractEventsV0>([
   ['txMaxContractEventsSizeBytes', Uint32],
   ['feeContractEvents1KB', Int64],
-]);
+], 'ConfigSettingContractEventsV0');
 
 export interface ConfigSettingContractBandwidthV0 {
   readonly ledgerMaxTxsSizeBytes: Uint32;
@@ -125,7 +126,7 @@ export const ConfigSettingContractBandwidthV0: XdrCodec<ConfigSettingContractBan
   ['ledgerMaxTxsSizeBytes', Uint32],
   ['txMaxSizeBytes', Uint32],
   ['feeTxSize1KB', Int64],
-]);
+], 'ConfigSettingContractBandwidthV0');
 
 export type ContractCostType = 'WasmInsnExec' | 'MemAlloc' | 'MemCpy' | 'MemCmp' | 'DispatchHostFunction' | 'VisitObject' | 'ValSer' | 'ValDeser' | 'ComputeSha256Hash' | 'ComputeEd25519PubKey' | 'VerifyEd25519Sig' | 'VmInstantiation' | 'VmCachedInstantiation' | 'InvokeVmFunction' | 'ComputeKeccak256Hash' | 'DecodeEcdsaCurve256Sig' | 'RecoverEcdsaSecp256k1Key' | 'Int256AddSub' | 'Int256Mul' | 'Int256Div' | 'Int256Pow' | 'Int256Shift' | 'ChaCha20DrawBytes' | 'ParseWasmInstructions' | 'ParseWasmFunctions' | 'ParseWasmGlobals' | 'ParseWasmTableEntries' | 'ParseWasmTypes' | 'ParseWasmDataSegments' | 'ParseWasmElemSegments' | 'ParseWasmImports' | 'ParseWasmExports' | 'ParseWasmDataSegmentBytes' | 'InstantiateWasmInstructions' | 'InstantiateWasmFunctions' | 'InstantiateWasmGlobals' | 'InstantiateWasmTableEntries' | 'InstantiateWasmTypes' | 'InstantiateWasmDataSegments' | 'InstantiateWasmElemSegments' | 'InstantiateWasmImports' | 'InstantiateWasmExports' | 'InstantiateWasmDataSegmentBytes' | 'Sec1DecodePointUncompressed' | 'VerifyEcdsaSecp256r1Sig' | 'Bls12381EncodeFp' | 'Bls12381DecodeFp' | 'Bls12381G1CheckPointOnCurve' | 'Bls12381G1CheckPointInSubgroup' | 'Bls12381G2CheckPointOnCurve' | 'Bls12381G2CheckPointInSubgroup' | 'Bls12381G1ProjectiveToAffine' | 'Bls12381G2ProjectiveToAffine' | 'Bls12381G1Add' | 'Bls12381G1Mul' | 'Bls12381G1Msm' | 'Bls12381MapFpToG1' | 'Bls12381HashToG1' | 'Bls12381G2Add' | 'Bls12381G2Mul' | 'Bls12381G2Msm' | 'Bls12381MapFp2ToG2' | 'Bls12381HashToG2' | 'Bls12381Pairing' | 'Bls12381FrFromU256' | 'Bls12381FrToU256' | 'Bls12381FrAddSub' | 'Bls12381FrMul' | 'Bls12381FrPow' | 'Bls12381FrInv' | 'Bn254EncodeFp' | 'Bn254DecodeFp' | 'Bn254G1CheckPointOnCurve' | 'Bn254G2CheckPointOnCurve' | 'Bn254G2CheckPointInSubgroup' | 'Bn254G1ProjectiveToAffine' | 'Bn254G1Add' | 'Bn254G1Mul' | 'Bn254Pairing' | 'Bn254FrFromU256' | 'Bn254FrToU256' | 'Bn254FrAddSub' | 'Bn254FrMul' | 'Bn254FrPow' | 'Bn254FrInv';
 export const ContractCostType = xdrEnum({
@@ -214,13 +215,14 @@ export const ContractCostType = xdrEnum({
   Bn254FrMul: 82,
   Bn254FrPow: 83,
   Bn254FrInv: 84,
-});
+}, 'ContractCostType');
 
 export type ExtensionPoint =
   | '0'
 ;
 
 export const ExtensionPoint: XdrCodec<ExtensionPoint> = taggedUnion({
+  name: 'ExtensionPoint',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -236,7 +238,7 @@ export const ContractCostParamEntry: XdrCodec<ContractCostParamEntry> = xdrStruc
   ['ext', ExtensionPoint],
   ['constTerm', Int64],
   ['linearTerm', Int64],
-]);
+], 'ContractCostParamEntry');
 
 export interface StateArchivalSettings {
   readonly maxEntryTTL: Uint32;
@@ -261,10 +263,10 @@ export const StateArchivalSettings: XdrCodec<StateArchivalSettings> = xdrStruct<
   ['liveSorobanStateSizeWindowSamplePeriod', Uint32],
   ['evictionScanSize', Uint32],
   ['startingEvictionScanLevel', Uint32],
-]);
+], 'StateArchivalSettings');
 
 export type Uint64 = bigint;
-export const Uint64: XdrCodec<Uint64> = uint64;
+export const Uint64: XdrCodec<Uint64> = typedef('Uint64', uint64);
 
 export interface EvictionIterator {
   readonly bucketListLevel: Uint32;
@@ -275,7 +277,7 @@ export const EvictionIterator: XdrCodec<EvictionIterator> = xdrStruct<EvictionIt
   ['bucketListLevel', Uint32],
   ['isCurrBucket', bool],
   ['bucketFileOffset', Uint64],
-]);
+], 'EvictionIterator');
 
 export interface ConfigSettingSCPTiming {
   readonly ledgerTargetCloseTimeMilliseconds: Uint32;
@@ -290,12 +292,12 @@ export const ConfigSettingSCPTiming: XdrCodec<ConfigSettingSCPTiming> = xdrStruc
   ['nominationTimeoutIncrementMilliseconds', Uint32],
   ['ballotTimeoutInitialMilliseconds', Uint32],
   ['ballotTimeoutIncrementMilliseconds', Uint32],
-]);
+], 'ConfigSettingSCPTiming');
 
 export const CONTRACT_COST_COUNT_LIMIT = 1024;
 
 export type ContractCostParams = readonly ContractCostParamEntry[];
-export const ContractCostParams: XdrCodec<ContractCostParams> = varArray(CONTRACT_COST_COUNT_LIMIT, ContractCostParamEntry);
+export const ContractCostParams: XdrCodec<ContractCostParams> = typedef('ContractCostParams', varArray(CONTRACT_COST_COUNT_LIMIT, ContractCostParamEntry));
 
 export type ConfigSettingID = 'ContractMaxSizeBytes' | 'ContractComputeV0' | 'ContractLedgerCostV0' | 'ContractHistoricalDataV0' | 'ContractEventsV0' | 'ContractBandwidthV0' | 'ContractCostParamsCpuInstructions' | 'ContractCostParamsMemoryBytes' | 'ContractDataKeySizeBytes' | 'ContractDataEntrySizeBytes' | 'StateArchival' | 'ContractExecutionLanes' | 'LiveSorobanStateSizeWindow' | 'EvictionIterator' | 'ContractParallelComputeV0' | 'ContractLedgerCostExtV0' | 'ScpTiming';
 export const ConfigSettingID = xdrEnum({
@@ -316,7 +318,7 @@ export const ConfigSettingID = xdrEnum({
   ContractParallelComputeV0: 14,
   ContractLedgerCostExtV0: 15,
   ScpTiming: 16,
-});
+}, 'ConfigSettingID');
 
 export type ConfigSettingEntry =
   | { readonly ContractMaxSizeBytes: Uint32 }
@@ -339,6 +341,7 @@ export type ConfigSettingEntry =
 ;
 
 export const ConfigSettingEntry: XdrCodec<ConfigSettingEntry> = taggedUnion({
+  name: 'ConfigSettingEntry',
   switchOn: ConfigSettingID,
   arms: [
     { tags: ['ContractMaxSizeBytes'], codec: Uint32 },
@@ -364,7 +367,7 @@ export const ConfigSettingEntry: XdrCodec<ConfigSettingEntry> = taggedUnion({
 export type SCEnvMetaKind = 'ScEnvMetaKindInterfaceVersion';
 export const SCEnvMetaKind = xdrEnum({
   ScEnvMetaKindInterfaceVersion: 0,
-});
+}, 'SCEnvMetaKind');
 
 export interface SCEnvMetaEntryInterfaceVersion {
   readonly protocol: Uint32;
@@ -373,13 +376,14 @@ export interface SCEnvMetaEntryInterfaceVersion {
 export const SCEnvMetaEntryInterfaceVersion: XdrCodec<SCEnvMetaEntryInterfaceVersion> = xdrStruct<SCEnvMetaEntryInterfaceVersion>([
   ['protocol', Uint32],
   ['preRelease', Uint32],
-]);
+], 'SCEnvMetaEntryInterfaceVersion');
 
 export type SCEnvMetaEntry =
   | { readonly ScEnvMetaKindInterfaceVersion: SCEnvMetaEntryInterfaceVersion }
 ;
 
 export const SCEnvMetaEntry: XdrCodec<SCEnvMetaEntry> = taggedUnion({
+  name: 'SCEnvMetaEntry',
   switchOn: SCEnvMetaKind,
   arms: [
     { tags: ['ScEnvMetaKindInterfaceVersion'], codec: SCEnvMetaEntryInterfaceVersion },
@@ -393,18 +397,19 @@ export interface SCMetaV0 {
 export const SCMetaV0: XdrCodec<SCMetaV0> = xdrStruct<SCMetaV0>([
   ['key', xdrString(2147483647)],
   ['val', xdrString(2147483647)],
-]);
+], 'SCMetaV0');
 
 export type SCMetaKind = 'ScMetaV0';
 export const SCMetaKind = xdrEnum({
   ScMetaV0: 0,
-});
+}, 'SCMetaKind');
 
 export type SCMetaEntry =
   | { readonly ScMetaV0: SCMetaV0 }
 ;
 
 export const SCMetaEntry: XdrCodec<SCMetaEntry> = taggedUnion({
+  name: 'SCMetaEntry',
   switchOn: SCMetaKind,
   arms: [
     { tags: ['ScMetaV0'], codec: SCMetaV0 },
@@ -441,7 +446,7 @@ export const SCSpecType = xdrEnum({
   Tuple: 1005,
   BytesN: 1006,
   Udt: 2000,
-});
+}, 'SCSpecType');
 
 export interface SCSpecTypeResult {
   readonly okType: SCSpecTypeDef;
@@ -450,14 +455,14 @@ export interface SCSpecTypeResult {
 export const SCSpecTypeResult: XdrCodec<SCSpecTypeResult> = xdrStruct<SCSpecTypeResult>([
   ['okType', lazy(() => SCSpecTypeDef)],
   ['errorType', lazy(() => SCSpecTypeDef)],
-]);
+], 'SCSpecTypeResult');
 
 export interface SCSpecTypeVec {
   readonly elementType: SCSpecTypeDef;
 }
 export const SCSpecTypeVec: XdrCodec<SCSpecTypeVec> = xdrStruct<SCSpecTypeVec>([
   ['elementType', lazy(() => SCSpecTypeDef)],
-]);
+], 'SCSpecTypeVec');
 
 export interface SCSpecTypeMap {
   readonly keyType: SCSpecTypeDef;
@@ -466,28 +471,28 @@ export interface SCSpecTypeMap {
 export const SCSpecTypeMap: XdrCodec<SCSpecTypeMap> = xdrStruct<SCSpecTypeMap>([
   ['keyType', lazy(() => SCSpecTypeDef)],
   ['valueType', lazy(() => SCSpecTypeDef)],
-]);
+], 'SCSpecTypeMap');
 
 export interface SCSpecTypeTuple {
   readonly valueTypes: readonly SCSpecTypeDef[];
 }
 export const SCSpecTypeTuple: XdrCodec<SCSpecTypeTuple> = xdrStruct<SCSpecTypeTuple>([
   ['valueTypes', varArray(12, lazy(() => SCSpecTypeDef))],
-]);
+], 'SCSpecTypeTuple');
 
 export interface SCSpecTypeBytesN {
   readonly n: Uint32;
 }
 export const SCSpecTypeBytesN: XdrCodec<SCSpecTypeBytesN> = xdrStruct<SCSpecTypeBytesN>([
   ['n', Uint32],
-]);
+], 'SCSpecTypeBytesN');
 
 export interface SCSpecTypeUDT {
   readonly name: string;
 }
 export const SCSpecTypeUDT: XdrCodec<SCSpecTypeUDT> = xdrStruct<SCSpecTypeUDT>([
   ['name', xdrString(60)],
-]);
+], 'SCSpecTypeUDT');
 
 export type SCSpecTypeDef =
   | 'Val'
@@ -519,6 +524,7 @@ export type SCSpecTypeDef =
 ;
 
 export const SCSpecTypeDef: XdrCodec<SCSpecTypeDef> = taggedUnion({
+  name: 'SCSpecTypeDef',
   switchOn: SCSpecType,
   arms: [
     { tags: ['Val', 'Bool', 'Void', 'Error', 'U32', 'I32', 'U64', 'I64', 'Timepoint', 'Duration', 'U128', 'I128', 'U256', 'I256', 'Bytes', 'String', 'Symbol', 'Address', 'MuxedAddress'] },
@@ -537,7 +543,7 @@ export interface SCSpecTypeOption {
 }
 export const SCSpecTypeOption: XdrCodec<SCSpecTypeOption> = xdrStruct<SCSpecTypeOption>([
   ['valueType', lazy(() => SCSpecTypeDef)],
-]);
+], 'SCSpecTypeOption');
 
 export interface SCSpecUDTStructFieldV0 {
   readonly doc: string;
@@ -548,7 +554,7 @@ export const SCSpecUDTStructFieldV0: XdrCodec<SCSpecUDTStructFieldV0> = xdrStruc
   ['doc', xdrString(SC_SPEC_DOC_LIMIT)],
   ['name', xdrString(30)],
   ['type', lazy(() => SCSpecTypeDef)],
-]);
+], 'SCSpecUDTStructFieldV0');
 
 export interface SCSpecUDTStructV0 {
   readonly doc: string;
@@ -561,7 +567,7 @@ export const SCSpecUDTStructV0: XdrCodec<SCSpecUDTStructV0> = xdrStruct<SCSpecUD
   ['lib', xdrString(80)],
   ['name', xdrString(60)],
   ['fields', varArray(2147483647, SCSpecUDTStructFieldV0)],
-]);
+], 'SCSpecUDTStructV0');
 
 export interface SCSpecUDTUnionCaseVoidV0 {
   readonly doc: string;
@@ -570,7 +576,7 @@ export interface SCSpecUDTUnionCaseVoidV0 {
 export const SCSpecUDTUnionCaseVoidV0: XdrCodec<SCSpecUDTUnionCaseVoidV0> = xdrStruct<SCSpecUDTUnionCaseVoidV0>([
   ['doc', xdrString(SC_SPEC_DOC_LIMIT)],
   ['name', xdrString(60)],
-]);
+], 'SCSpecUDTUnionCaseVoidV0');
 
 export interface SCSpecUDTUnionCaseTupleV0 {
   readonly doc: string;
@@ -581,13 +587,13 @@ export const SCSpecUDTUnionCaseTupleV0: XdrCodec<SCSpecUDTUnionCaseTupleV0> = xd
   ['doc', xdrString(SC_SPEC_DOC_LIMIT)],
   ['name', xdrString(60)],
   ['type', varArray(2147483647, lazy(() => SCSpecTypeDef))],
-]);
+], 'SCSpecUDTUnionCaseTupleV0');
 
 export type SCSpecUDTUnionCaseV0Kind = 'VoidV0' | 'TupleV0';
 export const SCSpecUDTUnionCaseV0Kind = xdrEnum({
   VoidV0: 0,
   TupleV0: 1,
-});
+}, 'SCSpecUDTUnionCaseV0Kind');
 
 export type SCSpecUDTUnionCaseV0 =
   | { readonly VoidV0: SCSpecUDTUnionCaseVoidV0 }
@@ -595,6 +601,7 @@ export type SCSpecUDTUnionCaseV0 =
 ;
 
 export const SCSpecUDTUnionCaseV0: XdrCodec<SCSpecUDTUnionCaseV0> = taggedUnion({
+  name: 'SCSpecUDTUnionCaseV0',
   switchOn: SCSpecUDTUnionCaseV0Kind,
   arms: [
     { tags: ['VoidV0'], codec: SCSpecUDTUnionCaseVoidV0 },
@@ -613,7 +620,7 @@ export const SCSpecUDTUnionV0: XdrCodec<SCSpecUDTUnionV0> = xdrStruct<SCSpecUDTU
   ['lib', xdrString(80)],
   ['name', xdrString(60)],
   ['cases', varArray(2147483647, SCSpecUDTUnionCaseV0)],
-]);
+], 'SCSpecUDTUnionV0');
 
 export interface SCSpecUDTEnumCaseV0 {
   readonly doc: string;
@@ -624,7 +631,7 @@ export const SCSpecUDTEnumCaseV0: XdrCodec<SCSpecUDTEnumCaseV0> = xdrStruct<SCSp
   ['doc', xdrString(SC_SPEC_DOC_LIMIT)],
   ['name', xdrString(60)],
   ['value', Uint32],
-]);
+], 'SCSpecUDTEnumCaseV0');
 
 export interface SCSpecUDTEnumV0 {
   readonly doc: string;
@@ -637,7 +644,7 @@ export const SCSpecUDTEnumV0: XdrCodec<SCSpecUDTEnumV0> = xdrStruct<SCSpecUDTEnu
   ['lib', xdrString(80)],
   ['name', xdrString(60)],
   ['cases', varArray(2147483647, SCSpecUDTEnumCaseV0)],
-]);
+], 'SCSpecUDTEnumV0');
 
 export interface SCSpecUDTErrorEnumCaseV0 {
   readonly doc: string;
@@ -648,7 +655,7 @@ export const SCSpecUDTErrorEnumCaseV0: XdrCodec<SCSpecUDTErrorEnumCaseV0> = xdrS
   ['doc', xdrString(SC_SPEC_DOC_LIMIT)],
   ['name', xdrString(60)],
   ['value', Uint32],
-]);
+], 'SCSpecUDTErrorEnumCaseV0');
 
 export interface SCSpecUDTErrorEnumV0 {
   readonly doc: string;
@@ -661,7 +668,7 @@ export const SCSpecUDTErrorEnumV0: XdrCodec<SCSpecUDTErrorEnumV0> = xdrStruct<SC
   ['lib', xdrString(80)],
   ['name', xdrString(60)],
   ['cases', varArray(2147483647, SCSpecUDTErrorEnumCaseV0)],
-]);
+], 'SCSpecUDTErrorEnumV0');
 
 export interface SCSpecFunctionInputV0 {
   readonly doc: string;
@@ -672,12 +679,12 @@ export const SCSpecFunctionInputV0: XdrCodec<SCSpecFunctionInputV0> = xdrStruct<
   ['doc', xdrString(SC_SPEC_DOC_LIMIT)],
   ['name', xdrString(30)],
   ['type', lazy(() => SCSpecTypeDef)],
-]);
+], 'SCSpecFunctionInputV0');
 
 export const SCSYMBOL_LIMIT = 32;
 
 export type SCSymbol = string;
-export const SCSymbol: XdrCodec<SCSymbol> = xdrString(SCSYMBOL_LIMIT);
+export const SCSymbol: XdrCodec<SCSymbol> = typedef('SCSymbol', xdrString(SCSYMBOL_LIMIT));
 
 export interface SCSpecFunctionV0 {
   readonly doc: string;
@@ -690,13 +697,13 @@ export const SCSpecFunctionV0: XdrCodec<SCSpecFunctionV0> = xdrStruct<SCSpecFunc
   ['name', SCSymbol],
   ['inputs', varArray(2147483647, SCSpecFunctionInputV0)],
   ['outputs', varArray(1, lazy(() => SCSpecTypeDef))],
-]);
+], 'SCSpecFunctionV0');
 
 export type SCSpecEventParamLocationV0 = 'Data' | 'TopicList';
 export const SCSpecEventParamLocationV0 = xdrEnum({
   Data: 0,
   TopicList: 1,
-});
+}, 'SCSpecEventParamLocationV0');
 
 export interface SCSpecEventParamV0 {
   readonly doc: string;
@@ -709,14 +716,14 @@ export const SCSpecEventParamV0: XdrCodec<SCSpecEventParamV0> = xdrStruct<SCSpec
   ['name', xdrString(30)],
   ['type', lazy(() => SCSpecTypeDef)],
   ['location', SCSpecEventParamLocationV0],
-]);
+], 'SCSpecEventParamV0');
 
 export type SCSpecEventDataFormat = 'SingleValue' | 'Vec' | 'Map';
 export const SCSpecEventDataFormat = xdrEnum({
   SingleValue: 0,
   Vec: 1,
   Map: 2,
-});
+}, 'SCSpecEventDataFormat');
 
 export interface SCSpecEventV0 {
   readonly doc: string;
@@ -733,7 +740,7 @@ export const SCSpecEventV0: XdrCodec<SCSpecEventV0> = xdrStruct<SCSpecEventV0>([
   ['prefixTopics', varArray(2, SCSymbol)],
   ['params', varArray(2147483647, SCSpecEventParamV0)],
   ['dataFormat', SCSpecEventDataFormat],
-]);
+], 'SCSpecEventV0');
 
 export type SCSpecEntryKind = 'FunctionV0' | 'UdtStructV0' | 'UdtUnionV0' | 'UdtEnumV0' | 'UdtErrorEnumV0' | 'EventV0';
 export const SCSpecEntryKind = xdrEnum({
@@ -743,7 +750,7 @@ export const SCSpecEntryKind = xdrEnum({
   UdtEnumV0: 3,
   UdtErrorEnumV0: 4,
   EventV0: 5,
-});
+}, 'SCSpecEntryKind');
 
 export type SCSpecEntry =
   | { readonly FunctionV0: SCSpecFunctionV0 }
@@ -755,6 +762,7 @@ export type SCSpecEntry =
 ;
 
 export const SCSpecEntry: XdrCodec<SCSpecEntry> = taggedUnion({
+  name: 'SCSpecEntry',
   switchOn: SCSpecEntryKind,
   arms: [
     { tags: ['FunctionV0'], codec: SCSpecFunctionV0 },
@@ -790,7 +798,7 @@ export const SCValType = xdrEnum({
   ContractInstance: 19,
   LedgerKeyContractInstance: 20,
   LedgerKeyNonce: 21,
-});
+}, 'SCValType');
 
 export type SCErrorType = 'Contract' | 'WasmVm' | 'Context' | 'Storage' | 'Object' | 'Crypto' | 'Events' | 'Budget' | 'Value' | 'Auth';
 export const SCErrorType = xdrEnum({
@@ -804,7 +812,7 @@ export const SCErrorType = xdrEnum({
   Budget: 7,
   Value: 8,
   Auth: 9,
-});
+}, 'SCErrorType');
 
 export type SCErrorCode = 'ArithDomain' | 'IndexBounds' | 'InvalidInput' | 'MissingValue' | 'ExistingValue' | 'ExceededLimit' | 'InvalidAction' | 'InternalError' | 'UnexpectedType' | 'UnexpectedSize';
 export const SCErrorCode = xdrEnum({
@@ -818,7 +826,7 @@ export const SCErrorCode = xdrEnum({
   InternalError: 7,
   UnexpectedType: 8,
   UnexpectedSize: 9,
-});
+}, 'SCErrorCode');
 
 export type SCError =
   | { readonly Contract: Uint32 }
@@ -834,6 +842,7 @@ export type SCError =
 ;
 
 export const SCError: XdrCodec<SCError> = taggedUnion({
+  name: 'SCError',
   switchOn: SCErrorType,
   arms: [
     { tags: ['Contract'], codec: Uint32 },
@@ -848,7 +857,7 @@ export interface UInt128Parts {
 export const UInt128Parts: XdrCodec<UInt128Parts> = xdrStruct<UInt128Parts>([
   ['hi', Uint64],
   ['lo', Uint64],
-]);
+], 'UInt128Parts');
 
 export interface Int128Parts {
   readonly hi: Int64;
@@ -857,7 +866,7 @@ export interface Int128Parts {
 export const Int128Parts: XdrCodec<Int128Parts> = xdrStruct<Int128Parts>([
   ['hi', Int64],
   ['lo', Uint64],
-]);
+], 'Int128Parts');
 
 export interface UInt256Parts {
   readonly hiHi: Uint64;
@@ -870,7 +879,7 @@ export const UInt256Parts: XdrCodec<UInt256Parts> = xdrStruct<UInt256Parts>([
   ['hiLo', Uint64],
   ['loHi', Uint64],
   ['loLo', Uint64],
-]);
+], 'UInt256Parts');
 
 export interface Int256Parts {
   readonly hiHi: Int64;
@@ -883,16 +892,16 @@ export const Int256Parts: XdrCodec<Int256Parts> = xdrStruct<Int256Parts>([
   ['hiLo', Uint64],
   ['loHi', Uint64],
   ['loLo', Uint64],
-]);
+], 'Int256Parts');
 
 export type ContractExecutableType = 'Wasm' | 'StellarAsset';
 export const ContractExecutableType = xdrEnum({
   Wasm: 0,
   StellarAsset: 1,
-});
+}, 'ContractExecutableType');
 
 export type Hash = Uint8Array;
-export const Hash: XdrCodec<Hash> = fixedOpaque(32);
+export const Hash: XdrCodec<Hash> = typedef('Hash', fixedOpaque(32));
 
 export type ContractExecutable =
   | { readonly Wasm: Hash }
@@ -900,6 +909,7 @@ export type ContractExecutable =
 ;
 
 export const ContractExecutable: XdrCodec<ContractExecutable> = taggedUnion({
+  name: 'ContractExecutable',
   switchOn: ContractExecutableType,
   arms: [
     { tags: ['Wasm'], codec: Hash },
@@ -914,10 +924,10 @@ export const SCAddressType = xdrEnum({
   MuxedAccount: 2,
   ClaimableBalance: 3,
   LiquidityPool: 4,
-});
+}, 'SCAddressType');
 
 export type Uint256 = Uint8Array;
-export const Uint256: XdrCodec<Uint256> = fixedOpaque(32);
+export const Uint256: XdrCodec<Uint256> = typedef('Uint256', fixedOpaque(32));
 
 export interface MuxedEd25519Account {
   readonly id: Uint64;
@@ -926,18 +936,19 @@ export interface MuxedEd25519Account {
 export const MuxedEd25519Account: XdrCodec<MuxedEd25519Account> = xdrStruct<MuxedEd25519Account>([
   ['id', Uint64],
   ['ed25519', Uint256],
-]);
+], 'MuxedEd25519Account');
 
 export type PublicKeyType = 'PublicKeyTypeEd25519';
 export const PublicKeyType = xdrEnum({
   PublicKeyTypeEd25519: 0,
-});
+}, 'PublicKeyType');
 
 export type PublicKey =
   | { readonly PublicKeyTypeEd25519: Uint256 }
 ;
 
 export const PublicKey: XdrCodec<PublicKey> = taggedUnion({
+  name: 'PublicKey',
   switchOn: PublicKeyType,
   arms: [
     { tags: ['PublicKeyTypeEd25519'], codec: Uint256 },
@@ -945,21 +956,22 @@ export const PublicKey: XdrCodec<PublicKey> = taggedUnion({
 }) as XdrCodec<PublicKey>;
 
 export type AccountID = PublicKey;
-export const AccountID: XdrCodec<AccountID> = PublicKey;
+export const AccountID: XdrCodec<AccountID> = typedef('AccountID', PublicKey);
 
 export type ContractID = Hash;
-export const ContractID: XdrCodec<ContractID> = Hash;
+export const ContractID: XdrCodec<ContractID> = typedef('ContractID', Hash);
 
 export type ClaimableBalanceIDType = 'ClaimableBalanceIdTypeV0';
 export const ClaimableBalanceIDType = xdrEnum({
   ClaimableBalanceIdTypeV0: 0,
-});
+}, 'ClaimableBalanceIDType');
 
 export type ClaimableBalanceID =
   | { readonly ClaimableBalanceIdTypeV0: Hash }
 ;
 
 export const ClaimableBalanceID: XdrCodec<ClaimableBalanceID> = taggedUnion({
+  name: 'ClaimableBalanceID',
   switchOn: ClaimableBalanceIDType,
   arms: [
     { tags: ['ClaimableBalanceIdTypeV0'], codec: Hash },
@@ -967,7 +979,7 @@ export const ClaimableBalanceID: XdrCodec<ClaimableBalanceID> = taggedUnion({
 }) as XdrCodec<ClaimableBalanceID>;
 
 export type PoolID = Hash;
-export const PoolID: XdrCodec<PoolID> = Hash;
+export const PoolID: XdrCodec<PoolID> = typedef('PoolID', Hash);
 
 export type SCAddress =
   | { readonly Account: AccountID }
@@ -978,6 +990,7 @@ export type SCAddress =
 ;
 
 export const SCAddress: XdrCodec<SCAddress> = taggedUnion({
+  name: 'SCAddress',
   switchOn: SCAddressType,
   arms: [
     { tags: ['Account'], codec: AccountID },
@@ -989,19 +1002,19 @@ export const SCAddress: XdrCodec<SCAddress> = taggedUnion({
 }) as XdrCodec<SCAddress>;
 
 export type Int32 = number;
-export const Int32: XdrCodec<Int32> = int32;
+export const Int32: XdrCodec<Int32> = typedef('Int32', int32);
 
 export type TimePoint = Uint64;
-export const TimePoint: XdrCodec<TimePoint> = Uint64;
+export const TimePoint: XdrCodec<TimePoint> = typedef('TimePoint', Uint64);
 
 export type Duration = Uint64;
-export const Duration: XdrCodec<Duration> = Uint64;
+export const Duration: XdrCodec<Duration> = typedef('Duration', Uint64);
 
 export type SCBytes = Uint8Array;
-export const SCBytes: XdrCodec<SCBytes> = varOpaque(2147483647);
+export const SCBytes: XdrCodec<SCBytes> = typedef('SCBytes', varOpaque(2147483647));
 
 export type SCString = string;
-export const SCString: XdrCodec<SCString> = xdrString(2147483647);
+export const SCString: XdrCodec<SCString> = typedef('SCString', xdrString(2147483647));
 
 export interface SCMapEntry {
   readonly key: SCVal;
@@ -1010,10 +1023,10 @@ export interface SCMapEntry {
 export const SCMapEntry: XdrCodec<SCMapEntry> = xdrStruct<SCMapEntry>([
   ['key', lazy(() => SCVal)],
   ['val', lazy(() => SCVal)],
-]);
+], 'SCMapEntry');
 
 export type SCMap = readonly SCMapEntry[];
-export const SCMap: XdrCodec<SCMap> = varArray(2147483647, SCMapEntry);
+export const SCMap: XdrCodec<SCMap> = typedef('SCMap', varArray(2147483647, SCMapEntry));
 
 export interface SCContractInstance {
   readonly executable: ContractExecutable;
@@ -1022,14 +1035,14 @@ export interface SCContractInstance {
 export const SCContractInstance: XdrCodec<SCContractInstance> = xdrStruct<SCContractInstance>([
   ['executable', ContractExecutable],
   ['storage', option(SCMap)],
-]);
+], 'SCContractInstance');
 
 export interface SCNonceKey {
   readonly nonce: Int64;
 }
 export const SCNonceKey: XdrCodec<SCNonceKey> = xdrStruct<SCNonceKey>([
   ['nonce', Int64],
-]);
+], 'SCNonceKey');
 
 export type SCVal =
   | { readonly Bool: boolean }
@@ -1057,6 +1070,7 @@ export type SCVal =
 ;
 
 export const SCVal: XdrCodec<SCVal> = taggedUnion({
+  name: 'SCVal',
   switchOn: SCValType,
   arms: [
     { tags: ['Bool'], codec: bool },
@@ -1085,22 +1099,22 @@ export const SCVal: XdrCodec<SCVal> = taggedUnion({
 }) as XdrCodec<SCVal>;
 
 export type SCVec = readonly SCVal[];
-export const SCVec: XdrCodec<SCVec> = varArray(2147483647, lazy(() => SCVal));
+export const SCVec: XdrCodec<SCVec> = typedef('SCVec', varArray(2147483647, lazy(() => SCVal)));
 
 export type UpgradeType = Uint8Array;
-export const UpgradeType: XdrCodec<UpgradeType> = varOpaque(128);
+export const UpgradeType: XdrCodec<UpgradeType> = typedef('UpgradeType', varOpaque(128));
 
 export type StellarValueType = 'Basic' | 'Signed';
 export const StellarValueType = xdrEnum({
   Basic: 0,
   Signed: 1,
-});
+}, 'StellarValueType');
 
 export type NodeID = PublicKey;
-export const NodeID: XdrCodec<NodeID> = PublicKey;
+export const NodeID: XdrCodec<NodeID> = typedef('NodeID', PublicKey);
 
 export type Signature = Uint8Array;
-export const Signature: XdrCodec<Signature> = varOpaque(64);
+export const Signature: XdrCodec<Signature> = typedef('Signature', varOpaque(64));
 
 export interface LedgerCloseValueSignature {
   readonly nodeID: NodeID;
@@ -1109,7 +1123,7 @@ export interface LedgerCloseValueSignature {
 export const LedgerCloseValueSignature: XdrCodec<LedgerCloseValueSignature> = xdrStruct<LedgerCloseValueSignature>([
   ['nodeID', NodeID],
   ['signature', Signature],
-]);
+], 'LedgerCloseValueSignature');
 
 export type StellarValueExt =
   | 'Basic'
@@ -1117,6 +1131,7 @@ export type StellarValueExt =
 ;
 
 export const StellarValueExt: XdrCodec<StellarValueExt> = taggedUnion({
+  name: 'StellarValueExt',
   switchOn: StellarValueType,
   arms: [
     { tags: ['Basic'] },
@@ -1135,13 +1150,14 @@ export const StellarValue: XdrCodec<StellarValue> = xdrStruct<StellarValue>([
   ['closeTime', TimePoint],
   ['upgrades', varArray(6, UpgradeType)],
   ['ext', StellarValueExt],
-]);
+], 'StellarValue');
 
 export type LedgerHeaderExtensionV1Ext =
   | '0'
 ;
 
 export const LedgerHeaderExtensionV1Ext: XdrCodec<LedgerHeaderExtensionV1Ext> = taggedUnion({
+  name: 'LedgerHeaderExtensionV1Ext',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -1155,7 +1171,7 @@ export interface LedgerHeaderExtensionV1 {
 export const LedgerHeaderExtensionV1: XdrCodec<LedgerHeaderExtensionV1> = xdrStruct<LedgerHeaderExtensionV1>([
   ['flags', Uint32],
   ['ext', LedgerHeaderExtensionV1Ext],
-]);
+], 'LedgerHeaderExtensionV1');
 
 export type LedgerHeaderExt =
   | '0'
@@ -1163,6 +1179,7 @@ export type LedgerHeaderExt =
 ;
 
 export const LedgerHeaderExt: XdrCodec<LedgerHeaderExt> = taggedUnion({
+  name: 'LedgerHeaderExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -1203,13 +1220,14 @@ export const LedgerHeader: XdrCodec<LedgerHeader> = xdrStruct<LedgerHeader>([
   ['maxTxSetSize', Uint32],
   ['skipList', fixedArray(4, Hash)],
   ['ext', LedgerHeaderExt],
-]);
+], 'LedgerHeader');
 
 export type LedgerHeaderHistoryEntryExt =
   | '0'
 ;
 
 export const LedgerHeaderHistoryEntryExt: XdrCodec<LedgerHeaderHistoryEntryExt> = taggedUnion({
+  name: 'LedgerHeaderHistoryEntryExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -1225,7 +1243,7 @@ export const LedgerHeaderHistoryEntry: XdrCodec<LedgerHeaderHistoryEntry> = xdrS
   ['hash', Hash],
   ['header', LedgerHeader],
   ['ext', LedgerHeaderHistoryEntryExt],
-]);
+], 'LedgerHeaderHistoryEntry');
 
 export type EnvelopeType = 'TxV0' | 'Scp' | 'Tx' | 'Auth' | 'Scpvalue' | 'TxFeeBump' | 'OpId' | 'PoolRevokeOpId' | 'ContractId' | 'SorobanAuthorization';
 export const EnvelopeType = xdrEnum({
@@ -1239,10 +1257,10 @@ export const EnvelopeType = xdrEnum({
   PoolRevokeOpId: 7,
   ContractId: 8,
   SorobanAuthorization: 9,
-});
+}, 'EnvelopeType');
 
 export type SequenceNumber = Int64;
-export const SequenceNumber: XdrCodec<SequenceNumber> = Int64;
+export const SequenceNumber: XdrCodec<SequenceNumber> = typedef('SequenceNumber', Int64);
 
 export interface TimeBounds {
   readonly minTime: TimePoint;
@@ -1251,7 +1269,7 @@ export interface TimeBounds {
 export const TimeBounds: XdrCodec<TimeBounds> = xdrStruct<TimeBounds>([
   ['minTime', TimePoint],
   ['maxTime', TimePoint],
-]);
+], 'TimeBounds');
 
 export type MemoType = 'None' | 'Text' | 'Id' | 'Hash' | 'Return';
 export const MemoType = xdrEnum({
@@ -1260,7 +1278,7 @@ export const MemoType = xdrEnum({
   Id: 2,
   Hash: 3,
   Return: 4,
-});
+}, 'MemoType');
 
 export type Memo =
   | 'None'
@@ -1271,6 +1289,7 @@ export type Memo =
 ;
 
 export const Memo: XdrCodec<Memo> = taggedUnion({
+  name: 'Memo',
   switchOn: MemoType,
   arms: [
     { tags: ['None'] },
@@ -1288,7 +1307,7 @@ export const CryptoKeyType = xdrEnum({
   HashX: 2,
   Ed25519SignedPayload: 3,
   MuxedEd25519: 256,
-});
+}, 'CryptoKeyType');
 
 export interface MuxedAccountMed25519 {
   readonly id: Uint64;
@@ -1297,7 +1316,7 @@ export interface MuxedAccountMed25519 {
 export const MuxedAccountMed25519: XdrCodec<MuxedAccountMed25519> = xdrStruct<MuxedAccountMed25519>([
   ['id', Uint64],
   ['ed25519', Uint256],
-]);
+], 'MuxedAccountMed25519');
 
 export type MuxedAccount =
   | { readonly Ed25519: Uint256 }
@@ -1305,6 +1324,7 @@ export type MuxedAccount =
 ;
 
 export const MuxedAccount: XdrCodec<MuxedAccount> = taggedUnion({
+  name: 'MuxedAccount',
   switchOn: CryptoKeyType,
   arms: [
     { tags: ['Ed25519'], codec: Uint256 },
@@ -1341,7 +1361,7 @@ export const OperationType = xdrEnum({
   InvokeHostFunction: 24,
   ExtendFootprintTtl: 25,
   RestoreFootprint: 26,
-});
+}, 'OperationType');
 
 export interface CreateAccountOp {
   readonly destination: AccountID;
@@ -1350,7 +1370,7 @@ export interface CreateAccountOp {
 export const CreateAccountOp: XdrCodec<CreateAccountOp> = xdrStruct<CreateAccountOp>([
   ['destination', AccountID],
   ['startingBalance', Int64],
-]);
+], 'CreateAccountOp');
 
 export type AssetType = 'Native' | 'CreditAlphanum4' | 'CreditAlphanum12' | 'PoolShare';
 export const AssetType = xdrEnum({
@@ -1358,10 +1378,10 @@ export const AssetType = xdrEnum({
   CreditAlphanum4: 1,
   CreditAlphanum12: 2,
   PoolShare: 3,
-});
+}, 'AssetType');
 
 export type AssetCode4 = Uint8Array;
-export const AssetCode4: XdrCodec<AssetCode4> = fixedOpaque(4);
+export const AssetCode4: XdrCodec<AssetCode4> = typedef('AssetCode4', fixedOpaque(4));
 
 export interface AlphaNum4 {
   readonly assetCode: AssetCode4;
@@ -1370,10 +1390,10 @@ export interface AlphaNum4 {
 export const AlphaNum4: XdrCodec<AlphaNum4> = xdrStruct<AlphaNum4>([
   ['assetCode', AssetCode4],
   ['issuer', AccountID],
-]);
+], 'AlphaNum4');
 
 export type AssetCode12 = Uint8Array;
-export const AssetCode12: XdrCodec<AssetCode12> = fixedOpaque(12);
+export const AssetCode12: XdrCodec<AssetCode12> = typedef('AssetCode12', fixedOpaque(12));
 
 export interface AlphaNum12 {
   readonly assetCode: AssetCode12;
@@ -1382,7 +1402,7 @@ export interface AlphaNum12 {
 export const AlphaNum12: XdrCodec<AlphaNum12> = xdrStruct<AlphaNum12>([
   ['assetCode', AssetCode12],
   ['issuer', AccountID],
-]);
+], 'AlphaNum12');
 
 export type Asset =
   | 'Native'
@@ -1391,6 +1411,7 @@ export type Asset =
 ;
 
 export const Asset: XdrCodec<Asset> = taggedUnion({
+  name: 'Asset',
   switchOn: AssetType,
   arms: [
     { tags: ['Native'] },
@@ -1408,7 +1429,7 @@ export const PaymentOp: XdrCodec<PaymentOp> = xdrStruct<PaymentOp>([
   ['destination', MuxedAccount],
   ['asset', Asset],
   ['amount', Int64],
-]);
+], 'PaymentOp');
 
 export interface PathPaymentStrictReceiveOp {
   readonly sendAsset: Asset;
@@ -1425,7 +1446,7 @@ export const PathPaymentStrictReceiveOp: XdrCodec<PathPaymentStrictReceiveOp> =
   ['destAsset', Asset],
   ['destAmount', Int64],
   ['path', varArray(5, Asset)],
-]);
+], 'PathPaymentStrictReceiveOp');
 
 export interface Price {
   readonly n: Int32;
@@ -1434,7 +1455,7 @@ export interface Price {
 export const Price: XdrCodec<Price> = xdrStruct<Price>([
   ['n', Int32],
   ['d', Int32],
-]);
+], 'Price');
 
 export interface ManageSellOfferOp {
   readonly selling: Asset;
@@ -1449,7 +1470,7 @@ export const ManageSellOfferOp: XdrCodec<ManageSellOfferOp> = xdrStruct<ManageSe
   ['amount', Int64],
   ['price', Price],
   ['offerID', Int64],
-]);
+], 'ManageSellOfferOp');
 
 export interface CreatePassiveSellOfferOp {
   readonly selling: Asset;
@@ -1462,10 +1483,10 @@ export const CreatePassiveSellOfferOp: XdrCodec<CreatePassiveSellOfferOp> = xdrS
   ['buying', Asset],
   ['amount', Int64],
   ['price', Price],
-]);
+], 'CreatePassiveSellOfferOp');
 
 export type String32 = string;
-export const String32: XdrCodec<String32> = xdrString(32);
+export const String32: XdrCodec<String32> = typedef('String32', xdrString(32));
 
 export type SignerKeyType = 'Ed25519' | 'PreAuthTx' | 'HashX' | 'Ed25519SignedPayload';
 export const SignerKeyType = xdrEnum({
@@ -1473,7 +1494,7 @@ export const SignerKeyType = xdrEnum({
   PreAuthTx: 1,
   HashX: 2,
   Ed25519SignedPayload: 3,
-});
+}, 'SignerKeyType');
 
 export interface SignerKeyEd25519SignedPayload {
   readonly ed25519: Uint256;
@@ -1482,7 +1503,7 @@ export interface SignerKeyEd25519SignedPayload {
 export const SignerKeyEd25519SignedPayload: XdrCodec<SignerKeyEd25519SignedPayload> = xdrStruct<SignerKeyEd25519SignedPayload>([
   ['ed25519', Uint256],
   ['payload', varOpaque(64)],
-]);
+], 'SignerKeyEd25519SignedPayload');
 
 export type SignerKey =
   | { readonly Ed25519: Uint256 }
@@ -1492,6 +1513,7 @@ export type SignerKey =
 ;
 
 export const SignerKey: XdrCodec<SignerKey> = taggedUnion({
+  name: 'SignerKey',
   switchOn: SignerKeyType,
   arms: [
     { tags: ['Ed25519'], codec: Uint256 },
@@ -1508,7 +1530,7 @@ export interface Signer {
 export const Signer: XdrCodec<Signer> = xdrStruct<Signer>([
   ['key', SignerKey],
   ['weight', Uint32],
-]);
+], 'Signer');
 
 export interface SetOptionsOp {
   readonly inflationDest: AccountID | null;
@@ -1531,12 +1553,12 @@ export const SetOptionsOp: XdrCodec<SetOptionsOp> = xdrStruct<SetOptionsOp>([
   ['highThreshold', option(Uint32)],
   ['homeDomain', option(String32)],
   ['signer', option(Signer)],
-]);
+], 'SetOptionsOp');
 
 export type LiquidityPoolType = 'LiquidityPoolConstantProduct';
 export const LiquidityPoolType = xdrEnum({
   LiquidityPoolConstantProduct: 0,
-});
+}, 'LiquidityPoolType');
 
 export interface LiquidityPoolConstantProductParameters {
   readonly assetA: Asset;
@@ -1547,13 +1569,14 @@ export const LiquidityPoolConstantProductParameters: XdrCodec<LiquidityPoolConst
   ['assetA', Asset],
   ['assetB', Asset],
   ['fee', Int32],
-]);
+], 'LiquidityPoolConstantProductParameters');
 
 export type LiquidityPoolParameters =
   | { readonly LiquidityPoolConstantProduct: LiquidityPoolConstantProductParameters }
 ;
 
 export const LiquidityPoolParameters: XdrCodec<LiquidityPoolParameters> = taggedUnion({
+  name: 'LiquidityPoolParameters',
   switchOn: LiquidityPoolType,
   arms: [
     { tags: ['LiquidityPoolConstantProduct'], codec: LiquidityPoolConstantProductParameters },
@@ -1568,6 +1591,7 @@ export type ChangeTrustAsset =
 ;
 
 export const ChangeTrustAsset: XdrCodec<ChangeTrustAsset> = taggedUnion({
+  name: 'ChangeTrustAsset',
   switchOn: AssetType,
   arms: [
     { tags: ['Native'] },
@@ -1584,7 +1608,7 @@ export interface ChangeTrustOp {
 export const ChangeTrustOp: XdrCodec<ChangeTrustOp> = xdrStruct<ChangeTrustOp>([
   ['line', ChangeTrustAsset],
   ['limit', Int64],
-]);
+], 'ChangeTrustOp');
 
 export type AssetCode =
   | { readonly CreditAlphanum4: AssetCode4 }
@@ -1592,6 +1616,7 @@ export type AssetCode =
 ;
 
 export const AssetCode: XdrCodec<AssetCode> = taggedUnion({
+  name: 'AssetCode',
   switchOn: AssetType,
   arms: [
     { tags: ['CreditAlphanum4'], codec: AssetCode4 },
@@ -1608,13 +1633,13 @@ export const AllowTrustOp: XdrCodec<AllowTrustOp> = xdrStruct<AllowTrustOp>([
   ['trustor', AccountID],
   ['asset', AssetCode],
   ['authorize', Uint32],
-]);
+], 'AllowTrustOp');
 
 export type String64 = string;
-export const String64: XdrCodec<String64> = xdrString(64);
+export const String64: XdrCodec<String64> = typedef('String64', xdrString(64));
 
 export type DataValue = Uint8Array;
-export const DataValue: XdrCodec<DataValue> = varOpaque(64);
+export const DataValue: XdrCodec<DataValue> = typedef('DataValue', varOpaque(64));
 
 export interface ManageDataOp {
   readonly dataName: String64;
@@ -1623,14 +1648,14 @@ export interface ManageDataOp {
 export const ManageDataOp: XdrCodec<ManageDataOp> = xdrStruct<ManageDataOp>([
   ['dataName', String64],
   ['dataValue', option(DataValue)],
-]);
+], 'ManageDataOp');
 
 export interface BumpSequenceOp {
   readonly bumpTo: SequenceNumber;
 }
 export const BumpSequenceOp: XdrCodec<BumpSequenceOp> = xdrStruct<BumpSequenceOp>([
   ['bumpTo', SequenceNumber],
-]);
+], 'BumpSequenceOp');
 
 export interface ManageBuyOfferOp {
   readonly selling: Asset;
@@ -1645,7 +1670,7 @@ export const ManageBuyOfferOp: XdrCodec<ManageBuyOfferOp> = xdrStruct<ManageBuyO
   ['buyAmount', Int64],
   ['price', Price],
   ['offerID', Int64],
-]);
+], 'ManageBuyOfferOp');
 
 export interface PathPaymentStrictSendOp {
   readonly sendAsset: Asset;
@@ -1662,12 +1687,12 @@ export const PathPaymentStrictSendOp: XdrCodec<PathPaymentStrictSendOp> = xdrStr
   ['destAsset', Asset],
   ['destMin', Int64],
   ['path', varArray(5, Asset)],
-]);
+], 'PathPaymentStrictSendOp');
 
 export type ClaimantType = 'ClaimantTypeV0';
 export const ClaimantType = xdrEnum({
   ClaimantTypeV0: 0,
-});
+}, 'ClaimantType');
 
 export type ClaimPredicateType = 'Unconditional' | 'And' | 'Or' | 'Not' | 'BeforeAbsoluteTime' | 'BeforeRelativeTime';
 export const ClaimPredicateType = xdrEnum({
@@ -1677,7 +1702,7 @@ export const ClaimPredicateType = xdrEnum({
   Not: 3,
   BeforeAbsoluteTime: 4,
   BeforeRelativeTime: 5,
-});
+}, 'ClaimPredicateType');
 
 export type ClaimPredicate =
   | 'Unconditional'
@@ -1689,6 +1714,7 @@ export type ClaimPredicate =
 ;
 
 export const ClaimPredicate: XdrCodec<ClaimPredicate> = taggedUnion({
+  name: 'ClaimPredicate',
   switchOn: ClaimPredicateType,
   arms: [
     { tags: ['Unconditional'] },
@@ -1707,13 +1733,14 @@ export interface ClaimantV0 {
 export const ClaimantV0: XdrCodec<ClaimantV0> = xdrStruct<ClaimantV0>([
   ['destination', AccountID],
   ['predicate', lazy(() => ClaimPredicate)],
-]);
+], 'ClaimantV0');
 
 export type Claimant =
   | { readonly ClaimantTypeV0: ClaimantV0 }
 ;
 
 export const Claimant: XdrCodec<Claimant> = taggedUnion({
+  name: 'Claimant',
   switchOn: ClaimantType,
   arms: [
     { tags: ['ClaimantTypeV0'], codec: ClaimantV0 },
@@ -1729,27 +1756,27 @@ export const CreateClaimableBalanceOp: XdrCodec<CreateClaimableBalanceOp> = xdrS
   ['asset', Asset],
   ['amount', Int64],
   ['claimants', varArray(10, Claimant)],
-]);
+], 'CreateClaimableBalanceOp');
 
 export interface ClaimClaimableBalanceOp {
   readonly balanceID: ClaimableBalanceID;
 }
 export const ClaimClaimableBalanceOp: XdrCodec<ClaimClaimableBalanceOp> = xdrStruct<ClaimClaimableBalanceOp>([
   ['balanceID', ClaimableBalanceID],
-]);
+], 'ClaimClaimableBalanceOp');
 
 export interface BeginSponsoringFutureReservesOp {
   readonly sponsoredID: AccountID;
 }
 export const BeginSponsoringFutureReservesOp: XdrCodec<BeginSponsoringFutureReservesOp> = xdrStruct<BeginSponsoringFutureReservesOp>([
   ['sponsoredID', AccountID],
-]);
+], 'BeginSponsoringFutureReservesOp');
 
 export type RevokeSponsorshipType = 'LedgerEntry' | 'Signer';
 export const RevokeSponsorshipType = xdrEnum({
   LedgerEntry: 0,
   Signer: 1,
-});
+}, 'RevokeSponsorshipType');
 
 export type LedgerEntryType = 'Account' | 'Trustline' | 'Offer' | 'Data' | 'ClaimableBalance' | 'LiquidityPool' | 'ContractData' | 'ContractCode' | 'ConfigSetting' | 'Ttl';
 export const LedgerEntryType = xdrEnum({
@@ -1763,14 +1790,14 @@ export const LedgerEntryType = xdrEnum({
   ContractCode: 7,
   ConfigSetting: 8,
   Ttl: 9,
-});
+}, 'LedgerEntryType');
 
 export interface LedgerKeyAccount {
   readonly accountID: AccountID;
 }
 export const LedgerKeyAccount: XdrCodec<LedgerKeyAccount> = xdrStruct<LedgerKeyAccount>([
   ['accountID', AccountID],
-]);
+], 'LedgerKeyAccount');
 
 export type TrustLineAsset =
   | 'Native'
@@ -1780,6 +1807,7 @@ export type TrustLineAsset =
 ;
 
 export const TrustLineAsset: XdrCodec<TrustLineAsset> = taggedUnion({
+  name: 'TrustLineAsset',
   switchOn: AssetType,
   arms: [
     { tags: ['Native'] },
@@ -1796,7 +1824,7 @@ export interface LedgerKeyTrustLine {
 export const LedgerKeyTrustLine: XdrCodec<LedgerKeyTrustLine> = xdrStruct<LedgerKeyTrustLine>([
   ['accountID', AccountID],
   ['asset', TrustLineAsset],
-]);
+], 'LedgerKeyTrustLine');
 
 export interface LedgerKeyOffer {
   readonly sellerID: AccountID;
@@ -1805,7 +1833,7 @@ export interface LedgerKeyOffer {
 export const LedgerKeyOffer: XdrCodec<LedgerKeyOffer> = xdrStruct<LedgerKeyOffer>([
   ['sellerID', AccountID],
   ['offerID', Int64],
-]);
+], 'LedgerKeyOffer');
 
 export interface LedgerKeyData {
   readonly accountID: AccountID;
@@ -1814,27 +1842,27 @@ export interface LedgerKeyData {
 export const LedgerKeyData: XdrCodec<LedgerKeyData> = xdrStruct<LedgerKeyData>([
   ['accountID', AccountID],
   ['dataName', String64],
-]);
+], 'LedgerKeyData');
 
 export interface LedgerKeyClaimableBalance {
   readonly balanceID: ClaimableBalanceID;
 }
 export const LedgerKeyClaimableBalance: XdrCodec<LedgerKeyClaimableBalance> = xdrStruct<LedgerKeyClaimableBalance>([
   ['balanceID', ClaimableBalanceID],
-]);
+], 'LedgerKeyClaimableBalance');
 
 export interface LedgerKeyLiquidityPool {
   readonly liquidityPoolID: PoolID;
 }
 export const LedgerKeyLiquidityPool: XdrCodec<LedgerKeyLiquidityPool> = xdrStruct<LedgerKeyLiquidityPool>([
   ['liquidityPoolID', PoolID],
-]);
+], 'LedgerKeyLiquidityPool');
 
 export type ContractDataDurability = 'Temporary' | 'Persistent';
 export const ContractDataDurability = xdrEnum({
   Temporary: 0,
   Persistent: 1,
-});
+}, 'ContractDataDurability');
 
 export interface LedgerKeyContractData {
   readonly contract: SCAddress;
@@ -1845,28 +1873,28 @@ export const LedgerKeyContractData: XdrCodec<LedgerKeyContractData> = xdrStruct<
   ['contract', SCAddress],
   ['key', lazy(() => SCVal)],
   ['durability', ContractDataDurability],
-]);
+], 'LedgerKeyContractData');
 
 export interface LedgerKeyContractCode {
   readonly hash: Hash;
 }
 export const LedgerKeyContractCode: XdrCodec<LedgerKeyContractCode> = xdrStruct<LedgerKeyContractCode>([
   ['hash', Hash],
-]);
+], 'LedgerKeyContractCode');
 
 export interface LedgerKeyConfigSetting {
   readonly configSettingID: ConfigSettingID;
 }
 export const LedgerKeyConfigSetting: XdrCodec<LedgerKeyConfigSetting> = xdrStruct<LedgerKeyConfigSetting>([
   ['configSettingID', ConfigSettingID],
-]);
+], 'LedgerKeyConfigSetting');
 
 export interface LedgerKeyTtl {
   readonly keyHash: Hash;
 }
 export const LedgerKeyTtl: XdrCodec<LedgerKeyTtl> = xdrStruct<LedgerKeyTtl>([
   ['keyHash', Hash],
-]);
+], 'LedgerKeyTtl');
 
 export type LedgerKey =
   | { readonly Account: LedgerKeyAccount }
@@ -1882,6 +1910,7 @@ export type LedgerKey =
 ;
 
 export const LedgerKey: XdrCodec<LedgerKey> = taggedUnion({
+  name: 'LedgerKey',
   switchOn: LedgerEntryType,
   arms: [
     { tags: ['Account'], codec: LedgerKeyAccount },
@@ -1904,7 +1933,7 @@ export interface RevokeSponsorshipOpSigner {
 export const RevokeSponsorshipOpSigner: XdrCodec<RevokeSponsorshipOpSigner> = xdrStruct<RevokeSponsorshipOpSigner>([
   ['accountID', AccountID],
   ['signerKey', SignerKey],
-]);
+], 'RevokeSponsorshipOpSigner');
 
 export type RevokeSponsorshipOp =
   | { readonly LedgerEntry: LedgerKey }
@@ -1912,6 +1941,7 @@ export type RevokeSponsorshipOp =
 ;
 
 export const RevokeSponsorshipOp: XdrCodec<RevokeSponsorshipOp> = taggedUnion({
+  name: 'RevokeSponsorshipOp',
   switchOn: RevokeSponsorshipType,
   arms: [
     { tags: ['LedgerEntry'], codec: LedgerKey },
@@ -1928,14 +1958,14 @@ export const ClawbackOp: XdrCodec<ClawbackOp> = xdrStruct<ClawbackOp>([
   ['asset', Asset],
   ['from', MuxedAccount],
   ['amount', Int64],
-]);
+], 'ClawbackOp');
 
 export interface ClawbackClaimableBalanceOp {
   readonly balanceID: ClaimableBalanceID;
 }
 export const ClawbackClaimableBalanceOp: XdrCodec<ClawbackClaimableBalanceOp> = xdrStruct<ClawbackClaimableBalanceOp>([
   ['balanceID', ClaimableBalanceID],
-]);
+], 'ClawbackClaimableBalanceOp');
 
 export interface SetTrustLineFlagsOp {
   readonly trustor: AccountID;
@@ -1948,7 +1978,7 @@ export const SetTrustLineFlagsOp: XdrCodec<SetTrustLineFlagsOp> = xdrStruct<SetT
   ['asset', Asset],
   ['clearFlags', Uint32],
   ['setFlags', Uint32],
-]);
+], 'SetTrustLineFlagsOp');
 
 export interface LiquidityPoolDepositOp {
   readonly liquidityPoolID: PoolID;
@@ -1963,7 +1993,7 @@ export const LiquidityPoolDepositOp: XdrCodec<LiquidityPoolDepositOp> = xdrStruc
   ['maxAmountB', Int64],
   ['minPrice', Price],
   ['maxPrice', Price],
-]);
+], 'LiquidityPoolDepositOp');
 
 export interface LiquidityPoolWithdrawOp {
   readonly liquidityPoolID: PoolID;
@@ -1976,7 +2006,7 @@ export const LiquidityPoolWithdrawOp: XdrCodec<LiquidityPoolWithdrawOp> = xdrStr
   ['amount', Int64],
   ['minAmountA', Int64],
   ['minAmountB', Int64],
-]);
+], 'LiquidityPoolWithdrawOp');
 
 export type HostFunctionType = 'InvokeContract' | 'CreateContract' | 'UploadContractWasm' | 'CreateContractV2';
 export const HostFunctionType = xdrEnum({
@@ -1984,7 +2014,7 @@ export const HostFunctionType = xdrEnum({
   CreateContract: 1,
   UploadContractWasm: 2,
   CreateContractV2: 3,
-});
+}, 'HostFunctionType');
 
 export interface InvokeContractArgs {
   readonly contractAddress: SCAddress;
@@ -1995,13 +2025,13 @@ export const InvokeContractArgs: XdrCodec<InvokeContractArgs> = xdrStruct<Invoke
   ['contractAddress', SCAddress],
   ['functionName', SCSymbol],
   ['args', varArray(2147483647, lazy(() => SCVal))],
-]);
+], 'InvokeContractArgs');
 
 export type ContractIDPreimageType = 'Address' | 'Asset';
 export const ContractIDPreimageType = xdrEnum({
   Address: 0,
   Asset: 1,
-});
+}, 'ContractIDPreimageType');
 
 export interface ContractIDPreimageFromAddress {
   readonly address: SCAddress;
@@ -2010,7 +2040,7 @@ export interface ContractIDPreimageFromAddress {
 export const ContractIDPreimageFromAddress: XdrCodec<ContractIDPreimageFromAddress> = xdrStruct<ContractIDPreimageFromAddress>([
   ['address', SCAddress],
   ['salt', Uint256],
-]);
+], 'ContractIDPreimageFromAddress');
 
 export type ContractIDPreimage =
   | { readonly Address: ContractIDPreimageFromAddress }
@@ -2018,6 +2048,7 @@ export type ContractIDPreimage =
 ;
 
 export const ContractIDPreimage: XdrCodec<ContractIDPreimage> = taggedUnion({
+  name: 'ContractIDPreimage',
   switchOn: ContractIDPreimageType,
   arms: [
     { tags: ['Address'], codec: ContractIDPreimageFromAddress },
@@ -2032,7 +2063,7 @@ export interface CreateContractArgs {
 export const CreateContractArgs: XdrCodec<CreateContractArgs> = xdrStruct<CreateContractArgs>([
   ['contractIDPreimage', ContractIDPreimage],
   ['executable', ContractExecutable],
-]);
+], 'CreateContractArgs');
 
 export interface CreateContractArgsV2 {
   readonly contractIDPreimage: ContractIDPreimage;
@@ -2043,7 +2074,7 @@ export const CreateContractArgsV2: XdrCodec<CreateContractArgsV2> = xdrStruct<Cr
   ['contractIDPreimage', ContractIDPreimage],
   ['executable', ContractExecutable],
   ['constructorArgs', varArray(2147483647, lazy(() => SCVal))],
-]);
+], 'CreateContractArgsV2');
 
 export type HostFunction =
   | { readonly InvokeContract: InvokeContractArgs }
@@ -2053,6 +2084,7 @@ export type HostFunction =
 ;
 
 export const HostFunction: XdrCodec<HostFunction> = taggedUnion({
+  name: 'HostFunction',
   switchOn: HostFunctionType,
   arms: [
     { tags: ['InvokeContract'], codec: InvokeContractArgs },
@@ -2066,7 +2098,7 @@ export type SorobanCredentialsType = 'SourceAccount' | 'Address';
 export const SorobanCredentialsType = xdrEnum({
   SourceAccount: 0,
   Address: 1,
-});
+}, 'SorobanCredentialsType');
 
 export interface SorobanAddressCredentials {
   readonly address: SCAddress;
@@ -2079,7 +2111,7 @@ export const SorobanAddressCredentials: XdrCodec<SorobanAddressCredentials> = xd
   ['nonce', Int64],
   ['signatureExpirationLedger', Uint32],
   ['signature', lazy(() => SCVal)],
-]);
+], 'SorobanAddressCredentials');
 
 export type SorobanCredentials =
   | 'SourceAccount'
@@ -2087,6 +2119,7 @@ export type SorobanCredentials =
 ;
 
 export const SorobanCredentials: XdrCodec<SorobanCredentials> = taggedUnion({
+  name: 'SorobanCredentials',
   switchOn: SorobanCredentialsType,
   arms: [
     { tags: ['SourceAccount'] },
@@ -2099,7 +2132,7 @@ export const SorobanAuthorizedFunctionType = xdrEnum({
   ContractFn: 0,
   CreateContractHostFn: 1,
   CreateContractV2HostFn: 2,
-});
+}, 'SorobanAuthorizedFunctionType');
 
 export type SorobanAuthorizedFunction =
   | { readonly ContractFn: InvokeContractArgs }
@@ -2108,6 +2141,7 @@ export type SorobanAuthorizedFunction =
 ;
 
 export const SorobanAuthorizedFunction: XdrCodec<SorobanAuthorizedFunction> = taggedUnion({
+  name: 'SorobanAuthorizedFunction',
   switchOn: SorobanAuthorizedFunctionType,
   arms: [
     { tags: ['ContractFn'], codec: InvokeContractArgs },
@@ -2123,7 +2157,7 @@ export interface SorobanAuthorizedInvocation {
 export const SorobanAuthorizedInvocation: XdrCodec<SorobanAuthorizedInvocation> = xdrStruct<SorobanAuthorizedInvocation>([
   ['function', SorobanAuthorizedFunction],
   ['subInvocations', varArray(2147483647, lazy(() => SorobanAuthorizedInvocation))],
-]);
+], 'SorobanAuthorizedInvocation');
 
 export interface SorobanAuthorizationEntry {
   readonly credentials: SorobanCredentials;
@@ -2132,7 +2166,7 @@ export interface SorobanAuthorizationEntry {
 export const SorobanAuthorizationEntry: XdrCodec<SorobanAuthorizationEntry> = xdrStruct<SorobanAuthorizationEntry>([
   ['credentials', SorobanCredentials],
   ['rootInvocation', lazy(() => SorobanAuthorizedInvocation)],
-]);
+], 'SorobanAuthorizationEntry');
 
 export interface InvokeHostFunctionOp {
   readonly hostFunction: HostFunction;
@@ -2141,7 +2175,7 @@ export interface InvokeHostFunctionOp {
 export const InvokeHostFunctionOp: XdrCodec<InvokeHostFunctionOp> = xdrStruct<InvokeHostFunctionOp>([
   ['hostFunction', HostFunction],
   ['auth', varArray(2147483647, SorobanAuthorizationEntry)],
-]);
+], 'InvokeHostFunctionOp');
 
 export interface ExtendFootprintTTLOp {
   readonly ext: ExtensionPoint;
@@ -2150,14 +2184,14 @@ export interface ExtendFootprintTTLOp {
 export const ExtendFootprintTTLOp: XdrCodec<ExtendFootprintTTLOp> = xdrStruct<ExtendFootprintTTLOp>([
   ['ext', ExtensionPoint],
   ['extendTo', Uint32],
-]);
+], 'ExtendFootprintTTLOp');
 
 export interface RestoreFootprintOp {
   readonly ext: ExtensionPoint;
 }
 export const RestoreFootprintOp: XdrCodec<RestoreFootprintOp> = xdrStruct<RestoreFootprintOp>([
   ['ext', ExtensionPoint],
-]);
+], 'RestoreFootprintOp');
 
 export type OperationBody =
   | { readonly CreateAccount: CreateAccountOp }
@@ -2190,6 +2224,7 @@ export type OperationBody =
 ;
 
 export const OperationBody: XdrCodec<OperationBody> = taggedUnion({
+  name: 'OperationBody',
   switchOn: OperationType,
   arms: [
     { tags: ['CreateAccount'], codec: CreateAccountOp },
@@ -2229,7 +2264,7 @@ export interface Operation {
 export const Operation: XdrCodec<Operation> = xdrStruct<Operation>([
   ['sourceAccount', option(MuxedAccount)],
   ['body', OperationBody],
-]);
+], 'Operation');
 
 export const MAX_OPS_PER_TX = 100;
 
@@ -2238,6 +2273,7 @@ export type TransactionV0Ext =
 ;
 
 export const TransactionV0Ext: XdrCodec<TransactionV0Ext> = taggedUnion({
+  name: 'TransactionV0Ext',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -2261,10 +2297,10 @@ export const TransactionV0: XdrCodec<TransactionV0> = xdrStruct<TransactionV0>([
   ['memo', Memo],
   ['operations', varArray(MAX_OPS_PER_TX, Operation)],
   ['ext', TransactionV0Ext],
-]);
+], 'TransactionV0');
 
 export type SignatureHint = Uint8Array;
-export const SignatureHint: XdrCodec<SignatureHint> = fixedOpaque(4);
+export const SignatureHint: XdrCodec<SignatureHint> = typedef('SignatureHint', fixedOpaque(4));
 
 export interface DecoratedSignature {
   readonly hint: SignatureHint;
@@ -2273,7 +2309,7 @@ export interface DecoratedSignature {
 export const DecoratedSignature: XdrCodec<DecoratedSignature> = xdrStruct<DecoratedSignature>([
   ['hint', SignatureHint],
   ['signature', Signature],
-]);
+], 'DecoratedSignature');
 
 export interface TransactionV0Envelope {
   readonly tx: TransactionV0;
@@ -2282,14 +2318,14 @@ export interface TransactionV0Envelope {
 export const TransactionV0Envelope: XdrCodec<TransactionV0Envelope> = xdrStruct<TransactionV0Envelope>([
   ['tx', TransactionV0],
   ['signatures', varArray(20, DecoratedSignature)],
-]);
+], 'TransactionV0Envelope');
 
 export type PreconditionType = 'None' | 'Time' | 'V2';
 export const PreconditionType = xdrEnum({
   None: 0,
   Time: 1,
   V2: 2,
-});
+}, 'PreconditionType');
 
 export interface LedgerBounds {
   readonly minLedger: Uint32;
@@ -2298,7 +2334,7 @@ export interface LedgerBounds {
 export const LedgerBounds: XdrCodec<LedgerBounds> = xdrStruct<LedgerBounds>([
   ['minLedger', Uint32],
   ['maxLedger', Uint32],
-]);
+], 'LedgerBounds');
 
 export interface PreconditionsV2 {
   readonly timeBounds: TimeBounds | null;
@@ -2315,7 +2351,7 @@ export const PreconditionsV2: XdrCodec<PreconditionsV2> = xdrStruct<Precondition
   ['minSeqAge', Duration],
   ['minSeqLedgerGap', Uint32],
   ['extraSigners', varArray(2, SignerKey)],
-]);
+], 'PreconditionsV2');
 
 export type Preconditions =
   | 'None'
@@ -2324,6 +2360,7 @@ export type Preconditions =
 ;
 
 export const Preconditions: XdrCodec<Preconditions> = taggedUnion({
+  name: 'Preconditions',
   switchOn: PreconditionType,
   arms: [
     { tags: ['None'] },
@@ -2337,7 +2374,7 @@ export interface SorobanResourcesExtV0 {
 }
 export const SorobanResourcesExtV0: XdrCodec<SorobanResourcesExtV0> = xdrStruct<SorobanResourcesExtV0>([
   ['archivedSorobanEntries', varArray(2147483647, Uint32)],
-]);
+], 'SorobanResourcesExtV0');
 
 export type SorobanTransactionDataExt =
   | '0'
@@ -2345,6 +2382,7 @@ export type SorobanTransactionDataExt =
 ;
 
 export const SorobanTransactionDataExt: XdrCodec<SorobanTransactionDataExt> = taggedUnion({
+  name: 'SorobanTransactionDataExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -2359,7 +2397,7 @@ export interface LedgerFootprint {
 export const LedgerFootprint: XdrCodec<LedgerFootprint> = xdrStruct<LedgerFootprint>([
   ['readOnly', varArray(2147483647, LedgerKey)],
   ['readWrite', varArray(2147483647, LedgerKey)],
-]);
+], 'LedgerFootprint');
 
 export interface SorobanResources {
   readonly footprint: LedgerFootprint;
@@ -2372,7 +2410,7 @@ export const SorobanResources: XdrCodec<SorobanResources> = xdrStruct<SorobanRes
   ['instructions', Uint32],
   ['diskReadBytes', Uint32],
   ['writeBytes', Uint32],
-]);
+], 'SorobanResources');
 
 export interface SorobanTransactionData {
   readonly ext: SorobanTransactionDataExt;
@@ -2383,7 +2421,7 @@ export const SorobanTransactionData: XdrCodec<SorobanTransactionData> = xdrStruc
   ['ext', SorobanTransactionDataExt],
   ['resources', SorobanResources],
   ['resourceFee', Int64],
-]);
+], 'SorobanTransactionData');
 
 export type TransactionExt =
   | '0'
@@ -2391,6 +2429,7 @@ export type TransactionExt =
 ;
 
 export const TransactionExt: XdrCodec<TransactionExt> = taggedUnion({
+  name: 'TransactionExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -2415,7 +2454,7 @@ export const Transaction: XdrCodec<Transaction> = xdrStruct<Transaction>([
   ['memo', Memo],
   ['operations', varArray(MAX_OPS_PER_TX, Operation)],
   ['ext', TransactionExt],
-]);
+], 'Transaction');
 
 export interface TransactionV1Envelope {
   readonly tx: Transaction;
@@ -2424,13 +2463,14 @@ export interface TransactionV1Envelope {
 export const TransactionV1Envelope: XdrCodec<TransactionV1Envelope> = xdrStruct<TransactionV1Envelope>([
   ['tx', Transaction],
   ['signatures', varArray(20, DecoratedSignature)],
-]);
+], 'TransactionV1Envelope');
 
 export type FeeBumpTransactionInnerTx =
   | { readonly Tx: TransactionV1Envelope }
 ;
 
 export const FeeBumpTransactionInnerTx: XdrCodec<FeeBumpTransactionInnerTx> = taggedUnion({
+  name: 'FeeBumpTransactionInnerTx',
   switchOn: EnvelopeType,
   arms: [
     { tags: ['Tx'], codec: TransactionV1Envelope },
@@ -2442,6 +2482,7 @@ export type FeeBumpTransactionExt =
 ;
 
 export const FeeBumpTransactionExt: XdrCodec<FeeBumpTransactionExt> = taggedUnion({
+  name: 'FeeBumpTransactionExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -2459,7 +2500,7 @@ export const FeeBumpTransaction: XdrCodec<FeeBumpTransaction> = xdrStruct<FeeBum
   ['fee', Int64],
   ['innerTx', FeeBumpTransactionInnerTx],
   ['ext', FeeBumpTransactionExt],
-]);
+], 'FeeBumpTransaction');
 
 export interface FeeBumpTransactionEnvelope {
   readonly tx: FeeBumpTransaction;
@@ -2468,7 +2509,7 @@ export interface FeeBumpTransactionEnvelope {
 export const FeeBumpTransactionEnvelope: XdrCodec<FeeBumpTransactionEnvelope> = xdrStruct<FeeBumpTransactionEnvelope>([
   ['tx', FeeBumpTransaction],
   ['signatures', varArray(20, DecoratedSignature)],
-]);
+], 'FeeBumpTransactionEnvelope');
 
 export type TransactionEnvelope =
   | { readonly TxV0: TransactionV0Envelope }
@@ -2477,6 +2518,7 @@ export type TransactionEnvelope =
 ;
 
 export const TransactionEnvelope: XdrCodec<TransactionEnvelope> = taggedUnion({
+  name: 'TransactionEnvelope',
   switchOn: EnvelopeType,
   arms: [
     { tags: ['TxV0'], codec: TransactionV0Envelope },
@@ -2492,7 +2534,7 @@ export interface TransactionSet {
 export const TransactionSet: XdrCodec<TransactionSet> = xdrStruct<TransactionSet>([
   ['previousLedgerHash', Hash],
   ['txs', varArray(2147483647, TransactionEnvelope)],
-]);
+], 'TransactionSet');
 
 export type TransactionResultCode = 'TxFEEBumpInnerSuccess' | 'TxSUCCESS' | 'TxFAILED' | 'TxTOOEarly' | 'TxTOOLate' | 'TxMISSINGOperation' | 'TxBADSeq' | 'TxBADAuth' | 'TxINSUFFICIENTBalance' | 'TxNOAccount' | 'TxINSUFFICIENTFee' | 'TxBADAuthExtra' | 'TxINTERNALError' | 'TxNOTSupported' | 'TxFEEBumpInnerFailed' | 'TxBADSponsorship' | 'TxBADMinSeqAgeOrGap' | 'TxMALFORMED' | 'TxSOROBANInvalid';
 export const TransactionResultCode = xdrEnum({
@@ -2515,7 +2557,7 @@ export const TransactionResultCode = xdrEnum({
   TxBADMinSeqAgeOrGap: -15,
   TxMALFORMED: -16,
   TxSOROBANInvalid: -17,
-});
+}, 'TransactionResultCode');
 
 export type OperationResultCode = 'OpINNER' | 'OpBADAuth' | 'OpNOAccount' | 'OpNOTSupported' | 'OpTOOManySubentries' | 'OpEXCEEDEDWorkLimit' | 'OpTOOManySponsoring';
 export const OperationResultCode = xdrEnum({
@@ -2526,7 +2568,7 @@ export const OperationResultCode = xdrEnum({
   OpTOOManySubentries: -4,
   OpEXCEEDEDWorkLimit: -5,
   OpTOOManySponsoring: -6,
-});
+}, 'OperationResultCode');
 
 export type CreateAccountResultCode = 'Success' | 'Malformed' | 'Underfunded' | 'LowReserve' | 'AlreadyExist';
 export const CreateAccountResultCode = xdrEnum({
@@ -2535,7 +2577,7 @@ export const CreateAccountResultCode = xdrEnum({
   Underfunded: -2,
   LowReserve: -3,
   AlreadyExist: -4,
-});
+}, 'CreateAccountResultCode');
 
 export type CreateAccountResult =
   | 'Success'
@@ -2546,6 +2588,7 @@ export type CreateAccountResult =
 ;
 
 export const CreateAccountResult: XdrCodec<CreateAccountResult> = taggedUnion({
+  name: 'CreateAccountResult',
   switchOn: CreateAccountResultCode,
   arms: [
     { tags: ['Success'] },
@@ -2565,7 +2608,7 @@ export const PaymentResultCode = xdrEnum({
   NotAuthorized: -7,
   LineFull: -8,
   NoIssuer: -9,
-});
+}, 'PaymentResultCode');
 
 export type PaymentResult =
   | 'Success'
@@ -2581,6 +2624,7 @@ export type PaymentResult =
 ;
 
 export const PaymentResult: XdrCodec<PaymentResult> = taggedUnion({
+  name: 'PaymentResult',
   switchOn: PaymentResultCode,
   arms: [
     { tags: ['Success'] },
@@ -2603,14 +2647,14 @@ export const PathPaymentStrictReceiveResultCode = xdrEnum({
   TooFewOffers: -10,
   OfferCrossSelf: -11,
   OverSendmax: -12,
-});
+}, 'PathPaymentStrictReceiveResultCode');
 
 export type ClaimAtomType = 'V0' | 'OrderBook' | 'LiquidityPool';
 export const ClaimAtomType = xdrEnum({
   V0: 0,
   OrderBook: 1,
   LiquidityPool: 2,
-});
+}, 'ClaimAtomType');
 
 export interface ClaimOfferAtomV0 {
   readonly sellerEd25519: Uint256;
@@ -2627,7 +2671,7 @@ export const ClaimOfferAtomV0: XdrCodec<ClaimOfferAtomV0> = xdrStruct<ClaimOffer
   ['amountSold', Int64],
   ['assetBought', Asset],
   ['amountBought', Int64],
-]);
+], 'ClaimOfferAtomV0');
 
 export interface ClaimOfferAtom {
   readonly sellerID: AccountID;
@@ -2644,7 +2688,7 @@ export const ClaimOfferAtom: XdrCodec<ClaimOfferAtom> = xdrStruct<ClaimOfferAtom
   ['amountSold', Int64],
   ['assetBought', Asset],
   ['amountBought', Int64],
-]);
+], 'ClaimOfferAtom');
 
 export interface ClaimLiquidityAtom {
   readonly liquidityPoolID: PoolID;
@@ -2659,7 +2703,7 @@ export const ClaimLiquidityAtom: XdrCodec<ClaimLiquidityAtom> = xdrStruct<ClaimL
   ['amountSold', Int64],
   ['assetBought', Asset],
   ['amountBought', Int64],
-]);
+], 'ClaimLiquidityAtom');
 
 export type ClaimAtom =
   | { readonly V0: ClaimOfferAtomV0 }
@@ -2668,6 +2712,7 @@ export type ClaimAtom =
 ;
 
 export const ClaimAtom: XdrCodec<ClaimAtom> = taggedUnion({
+  name: 'ClaimAtom',
   switchOn: ClaimAtomType,
   arms: [
     { tags: ['V0'], codec: ClaimOfferAtomV0 },
@@ -2685,7 +2730,7 @@ export const SimplePaymentResult: XdrCodec<SimplePaymentResult> = xdrStruct<Simp
   ['destination', AccountID],
   ['asset', Asset],
   ['amount', Int64],
-]);
+], 'SimplePaymentResult');
 
 export interface PathPaymentStrictReceiveResultSuccess {
   readonly offers: readonly ClaimAtom[];
@@ -2694,7 +2739,7 @@ export interface PathPaymentStrictReceiveResultSuccess {
 export const PathPaymentStrictReceiveResultSuccess: XdrCodec<PathPaymentStrictReceiveResultSuccess> = xdrStruct<PathPaymentStrictReceiveResultSuccess>([
   ['offers', varArray(2147483647, ClaimAtom)],
   ['last', SimplePaymentResult],
-]);
+], 'PathPaymentStrictReceiveResultSuccess');
 
 export type PathPaymentStrictReceiveResult =
   | { readonly Success: PathPaymentStrictReceiveResultSuccess }
@@ -2713,6 +2758,7 @@ export type PathPaymentStrictReceiveResult =
 ;
 
 export const PathPaymentStrictReceiveResult: XdrCodec<PathPaymentStrictReceiveResult> = taggedUnion({
+  name: 'PathPaymentStrictReceiveResult',
   switchOn: PathPaymentStrictReceiveResultCode,
   arms: [
     { tags: ['Success'], codec: PathPaymentStrictReceiveResultSuccess },
@@ -2737,20 +2783,21 @@ export const ManageSellOfferResultCode = xdrEnum({
   BuyNoIssuer: -10,
   NotFound: -11,
   LowReserve: -12,
-});
+}, 'ManageSellOfferResultCode');
 
 export type ManageOfferEffect = 'Created' | 'Updated' | 'Deleted';
 export const ManageOfferEffect = xdrEnum({
   Created: 0,
   Updated: 1,
   Deleted: 2,
-});
+}, 'ManageOfferEffect');
 
 export type OfferEntryExt =
   | '0'
 ;
 
 export const OfferEntryExt: XdrCodec<OfferEntryExt> = taggedUnion({
+  name: 'OfferEntryExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -2776,7 +2823,7 @@ export const OfferEntry: XdrCodec<OfferEntry> = xdrStruct<OfferEntry>([
   ['price', Price],
   ['flags', Uint32],
   ['ext', OfferEntryExt],
-]);
+], 'OfferEntry');
 
 export type ManageOfferSuccessResultOffer =
   | { readonly Created: OfferEntry }
@@ -2785,6 +2832,7 @@ export type ManageOfferSuccessResultOffer =
 ;
 
 export const ManageOfferSuccessResultOffer: XdrCodec<ManageOfferSuccessResultOffer> = taggedUnion({
+  name: 'ManageOfferSuccessResultOffer',
   switchOn: ManageOfferEffect,
   arms: [
     { tags: ['Created', 'Updated'], codec: OfferEntry },
@@ -2799,7 +2847,7 @@ export interface ManageOfferSuccessResult {
 export const ManageOfferSuccessResult: XdrCodec<ManageOfferSuccessResult> = xdrStruct<ManageOfferSuccessResult>([
   ['offersClaimed', varArray(2147483647, ClaimAtom)],
   ['offer', ManageOfferSuccessResultOffer],
-]);
+], 'ManageOfferSuccessResult');
 
 export type ManageSellOfferResult =
   | { readonly Success: ManageOfferSuccessResult }
@@ -2818,6 +2866,7 @@ export type ManageSellOfferResult =
 ;
 
 export const ManageSellOfferResult: XdrCodec<ManageSellOfferResult> = taggedUnion({
+  name: 'ManageSellOfferResult',
   switchOn: ManageSellOfferResultCode,
   arms: [
     { tags: ['Success'], codec: ManageOfferSuccessResult },
@@ -2838,7 +2887,7 @@ export const SetOptionsResultCode = xdrEnum({
   BadSigner: -8,
   InvalidHomeDomain: -9,
   AuthRevocableRequired: -10,
-});
+}, 'SetOptionsResultCode');
 
 export type SetOptionsResult =
   | 'Success'
@@ -2855,6 +2904,7 @@ export type SetOptionsResult =
 ;
 
 export const SetOptionsResult: XdrCodec<SetOptionsResult> = taggedUnion({
+  name: 'SetOptionsResult',
   switchOn: SetOptionsResultCode,
   arms: [
     { tags: ['Success'] },
@@ -2873,7 +2923,7 @@ export const ChangeTrustResultCode = xdrEnum({
   TrustLineMissing: -6,
   CannotDelete: -7,
   NotAuthMaintainLiabilities: -8,
-});
+}, 'ChangeTrustResultCode');
 
 export type ChangeTrustResult =
   | 'Success'
@@ -2888,6 +2938,7 @@ export type ChangeTrustResult =
 ;
 
 export const ChangeTrustResult: XdrCodec<ChangeTrustResult> = taggedUnion({
+  name: 'ChangeTrustResult',
   switchOn: ChangeTrustResultCode,
   arms: [
     { tags: ['Success'] },
@@ -2904,7 +2955,7 @@ export const AllowTrustResultCode = xdrEnum({
   CantRevoke: -4,
   SelfNotAllowed: -5,
   LowReserve: -6,
-});
+}, 'AllowTrustResultCode');
 
 export type AllowTrustResult =
   | 'Success'
@@ -2917,6 +2968,7 @@ export type AllowTrustResult =
 ;
 
 export const AllowTrustResult: XdrCodec<AllowTrustResult> = taggedUnion({
+  name: 'AllowTrustResult',
   switchOn: AllowTrustResultCode,
   arms: [
     { tags: ['Success'] },
@@ -2934,7 +2986,7 @@ export const AccountMergeResultCode = xdrEnum({
   SeqnumTooFar: -5,
   DestFull: -6,
   IsSponsor: -7,
-});
+}, 'AccountMergeResultCode');
 
 export type AccountMergeResult =
   | { readonly Success: Int64 }
@@ -2948,6 +3000,7 @@ export type AccountMergeResult =
 ;
 
 export const AccountMergeResult: XdrCodec<AccountMergeResult> = taggedUnion({
+  name: 'AccountMergeResult',
   switchOn: AccountMergeResultCode,
   arms: [
     { tags: ['Success'], codec: Int64 },
@@ -2959,7 +3012,7 @@ export type InflationResultCode = 'Success' | 'NotTime';
 export const InflationResultCode = xdrEnum({
   Success: 0,
   NotTime: -1,
-});
+}, 'InflationResultCode');
 
 export interface InflationPayout {
   readonly destination: AccountID;
@@ -2968,7 +3021,7 @@ export interface InflationPayout {
 export const InflationPayout: XdrCodec<InflationPayout> = xdrStruct<InflationPayout>([
   ['destination', AccountID],
   ['amount', Int64],
-]);
+], 'InflationPayout');
 
 export type InflationResult =
   | { readonly Success: readonly InflationPayout[] }
@@ -2976,6 +3029,7 @@ export type InflationResult =
 ;
 
 export const InflationResult: XdrCodec<InflationResult> = taggedUnion({
+  name: 'InflationResult',
   switchOn: InflationResultCode,
   arms: [
     { tags: ['Success'], codec: varArray(2147483647, InflationPayout) },
@@ -2990,7 +3044,7 @@ export const ManageDataResultCode = xdrEnum({
   NameNotFound: -2,
   LowReserve: -3,
   InvalidName: -4,
-});
+}, 'ManageDataResultCode');
 
 export type ManageDataResult =
   | 'Success'
@@ -3001,6 +3055,7 @@ export type ManageDataResult =
 ;
 
 export const ManageDataResult: XdrCodec<ManageDataResult> = taggedUnion({
+  name: 'ManageDataResult',
   switchOn: ManageDataResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3012,7 +3067,7 @@ export type BumpSequenceResultCode = 'Success' | 'BadSeq';
 export const BumpSequenceResultCode = xdrEnum({
   Success: 0,
   BadSeq: -1,
-});
+}, 'BumpSequenceResultCode');
 
 export type BumpSequenceResult =
   | 'Success'
@@ -3020,6 +3075,7 @@ export type BumpSequenceResult =
 ;
 
 export const BumpSequenceResult: XdrCodec<BumpSequenceResult> = taggedUnion({
+  name: 'BumpSequenceResult',
   switchOn: BumpSequenceResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3042,7 +3098,7 @@ export const ManageBuyOfferResultCode = xdrEnum({
   BuyNoIssuer: -10,
   NotFound: -11,
   LowReserve: -12,
-});
+}, 'ManageBuyOfferResultCode');
 
 export type ManageBuyOfferResult =
   | { readonly Success: ManageOfferSuccessResult }
@@ -3061,6 +3117,7 @@ export type ManageBuyOfferResult =
 ;
 
 export const ManageBuyOfferResult: XdrCodec<ManageBuyOfferResult> = taggedUnion({
+  name: 'ManageBuyOfferResult',
   switchOn: ManageBuyOfferResultCode,
   arms: [
     { tags: ['Success'], codec: ManageOfferSuccessResult },
@@ -3083,7 +3140,7 @@ export const PathPaymentStrictSendResultCode = xdrEnum({
   TooFewOffers: -10,
   OfferCrossSelf: -11,
   UnderDestmin: -12,
-});
+}, 'PathPaymentStrictSendResultCode');
 
 export interface PathPaymentStrictSendResultSuccess {
   readonly offers: readonly ClaimAtom[];
@@ -3092,7 +3149,7 @@ export interface PathPaymentStrictSendResultSuccess {
 export const PathPaymentStrictSendResultSuccess: XdrCodec<PathPaymentStrictSendResultSuccess> = xdrStruct<PathPaymentStrictSendResultSuccess>([
   ['offers', varArray(2147483647, ClaimAtom)],
   ['last', SimplePaymentResult],
-]);
+], 'PathPaymentStrictSendResultSuccess');
 
 export type PathPaymentStrictSendResult =
   | { readonly Success: PathPaymentStrictSendResultSuccess }
@@ -3111,6 +3168,7 @@ export type PathPaymentStrictSendResult =
 ;
 
 export const PathPaymentStrictSendResult: XdrCodec<PathPaymentStrictSendResult> = taggedUnion({
+  name: 'PathPaymentStrictSendResult',
   switchOn: PathPaymentStrictSendResultCode,
   arms: [
     { tags: ['Success'], codec: PathPaymentStrictSendResultSuccess },
@@ -3128,7 +3186,7 @@ export const CreateClaimableBalanceResultCode = xdrEnum({
   NoTrust: -3,
   NotAuthorized: -4,
   Underfunded: -5,
-});
+}, 'CreateClaimableBalanceResultCode');
 
 export type CreateClaimableBalanceResult =
   | { readonly Success: ClaimableBalanceID }
@@ -3140,6 +3198,7 @@ export type CreateClaimableBalanceResult =
 ;
 
 export const CreateClaimableBalanceResult: XdrCodec<CreateClaimableBalanceResult> = taggedUnion({
+  name: 'CreateClaimableBalanceResult',
   switchOn: CreateClaimableBalanceResultCode,
   arms: [
     { tags: ['Success'], codec: ClaimableBalanceID },
@@ -3155,7 +3214,7 @@ export const ClaimClaimableBalanceResultCode = xdrEnum({
   LineFull: -3,
   NoTrust: -4,
   NotAuthorized: -5,
-});
+}, 'ClaimClaimableBalanceResultCode');
 
 export type ClaimClaimableBalanceResult =
   | 'Success'
@@ -3167,6 +3226,7 @@ export type ClaimClaimableBalanceResult =
 ;
 
 export const ClaimClaimableBalanceResult: XdrCodec<ClaimClaimableBalanceResult> = taggedUnion({
+  name: 'ClaimClaimableBalanceResult',
   switchOn: ClaimClaimableBalanceResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3180,7 +3240,7 @@ export const BeginSponsoringFutureReservesResultCode = xdrEnum({
   Malformed: -1,
   AlreadySponsored: -2,
   Recursive: -3,
-});
+}, 'BeginSponsoringFutureReservesResultCode');
 
 export type BeginSponsoringFutureReservesResult =
   | 'Success'
@@ -3190,6 +3250,7 @@ export type BeginSponsoringFutureReservesResult =
 ;
 
 export const BeginSponsoringFutureReservesResult: XdrCodec<BeginSponsoringFutureReservesResult> = taggedUnion({
+  name: 'BeginSponsoringFutureReservesResult',
   switchOn: BeginSponsoringFutureReservesResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3201,7 +3262,7 @@ export type EndSponsoringFutureReservesResultCode = 'Success' | 'NotSponsored';
 export const EndSponsoringFutureReservesResultCode = xdrEnum({
   Success: 0,
   NotSponsored: -1,
-});
+}, 'EndSponsoringFutureReservesResultCode');
 
 export type EndSponsoringFutureReservesResult =
   | 'Success'
@@ -3209,6 +3270,7 @@ export type EndSponsoringFutureReservesResult =
 ;
 
 export const EndSponsoringFutureReservesResult: XdrCodec<EndSponsoringFutureReservesResult> = taggedUnion({
+  name: 'EndSponsoringFutureReservesResult',
   switchOn: EndSponsoringFutureReservesResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3224,7 +3286,7 @@ export const RevokeSponsorshipResultCode = xdrEnum({
   LowReserve: -3,
   OnlyTransferable: -4,
   Malformed: -5,
-});
+}, 'RevokeSponsorshipResultCode');
 
 export type RevokeSponsorshipResult =
   | 'Success'
@@ -3236,6 +3298,7 @@ export type RevokeSponsorshipResult =
 ;
 
 export const RevokeSponsorshipResult: XdrCodec<RevokeSponsorshipResult> = taggedUnion({
+  name: 'RevokeSponsorshipResult',
   switchOn: RevokeSponsorshipResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3250,7 +3313,7 @@ export const ClawbackResultCode = xdrEnum({
   NotClawbackEnabled: -2,
   NoTrust: -3,
   Underfunded: -4,
-});
+}, 'ClawbackResultCode');
 
 export type ClawbackResult =
   | 'Success'
@@ -3261,6 +3324,7 @@ export type ClawbackResult =
 ;
 
 export const ClawbackResult: XdrCodec<ClawbackResult> = taggedUnion({
+  name: 'ClawbackResult',
   switchOn: ClawbackResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3274,7 +3338,7 @@ export const ClawbackClaimableBalanceResultCode = xdrEnum({
   DoesNotExist: -1,
   NotIssuer: -2,
   NotClawbackEnabled: -3,
-});
+}, 'ClawbackClaimableBalanceResultCode');
 
 export type ClawbackClaimableBalanceResult =
   | 'Success'
@@ -3284,6 +3348,7 @@ export type ClawbackClaimableBalanceResult =
 ;
 
 export const ClawbackClaimableBalanceResult: XdrCodec<ClawbackClaimableBalanceResult> = taggedUnion({
+  name: 'ClawbackClaimableBalanceResult',
   switchOn: ClawbackClaimableBalanceResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3299,7 +3364,7 @@ export const SetTrustLineFlagsResultCode = xdrEnum({
   CantRevoke: -3,
   InvalidState: -4,
   LowReserve: -5,
-});
+}, 'SetTrustLineFlagsResultCode');
 
 export type SetTrustLineFlagsResult =
   | 'Success'
@@ -3311,6 +3376,7 @@ export type SetTrustLineFlagsResult =
 ;
 
 export const SetTrustLineFlagsResult: XdrCodec<SetTrustLineFlagsResult> = taggedUnion({
+  name: 'SetTrustLineFlagsResult',
   switchOn: SetTrustLineFlagsResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3328,7 +3394,7 @@ export const LiquidityPoolDepositResultCode = xdrEnum({
   LineFull: -5,
   BadPrice: -6,
   PoolFull: -7,
-});
+}, 'LiquidityPoolDepositResultCode');
 
 export type LiquidityPoolDepositResult =
   | 'Success'
@@ -3342,6 +3408,7 @@ export type LiquidityPoolDepositResult =
 ;
 
 export const LiquidityPoolDepositResult: XdrCodec<LiquidityPoolDepositResult> = taggedUnion({
+  name: 'LiquidityPoolDepositResult',
   switchOn: LiquidityPoolDepositResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3357,7 +3424,7 @@ export const LiquidityPoolWithdrawResultCode = xdrEnum({
   Underfunded: -3,
   LineFull: -4,
   UnderMinimum: -5,
-});
+}, 'LiquidityPoolWithdrawResultCode');
 
 export type LiquidityPoolWithdrawResult =
   | 'Success'
@@ -3369,6 +3436,7 @@ export type LiquidityPoolWithdrawResult =
 ;
 
 export const LiquidityPoolWithdrawResult: XdrCodec<LiquidityPoolWithdrawResult> = taggedUnion({
+  name: 'LiquidityPoolWithdrawResult',
   switchOn: LiquidityPoolWithdrawResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3384,7 +3452,7 @@ export const InvokeHostFunctionResultCode = xdrEnum({
   ResourceLimitExceeded: -3,
   EntryArchived: -4,
   InsufficientRefundableFee: -5,
-});
+}, 'InvokeHostFunctionResultCode');
 
 export type InvokeHostFunctionResult =
   | { readonly Success: Hash }
@@ -3396,6 +3464,7 @@ export type InvokeHostFunctionResult =
 ;
 
 export const InvokeHostFunctionResult: XdrCodec<InvokeHostFunctionResult> = taggedUnion({
+  name: 'InvokeHostFunctionResult',
   switchOn: InvokeHostFunctionResultCode,
   arms: [
     { tags: ['Success'], codec: Hash },
@@ -3409,7 +3478,7 @@ export const ExtendFootprintTTLResultCode = xdrEnum({
   Malformed: -1,
   ResourceLimitExceeded: -2,
   InsufficientRefundableFee: -3,
-});
+}, 'ExtendFootprintTTLResultCode');
 
 export type ExtendFootprintTTLResult =
   | 'Success'
@@ -3419,6 +3488,7 @@ export type ExtendFootprintTTLResult =
 ;
 
 export const ExtendFootprintTTLResult: XdrCodec<ExtendFootprintTTLResult> = taggedUnion({
+  name: 'ExtendFootprintTTLResult',
   switchOn: ExtendFootprintTTLResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3432,7 +3502,7 @@ export const RestoreFootprintResultCode = xdrEnum({
   Malformed: -1,
   ResourceLimitExceeded: -2,
   InsufficientRefundableFee: -3,
-});
+}, 'RestoreFootprintResultCode');
 
 export type RestoreFootprintResult =
   | 'Success'
@@ -3442,6 +3512,7 @@ export type RestoreFootprintResult =
 ;
 
 export const RestoreFootprintResult: XdrCodec<RestoreFootprintResult> = taggedUnion({
+  name: 'RestoreFootprintResult',
   switchOn: RestoreFootprintResultCode,
   arms: [
     { tags: ['Success'] },
@@ -3480,6 +3551,7 @@ export type OperationResultTr =
 ;
 
 export const OperationResultTr: XdrCodec<OperationResultTr> = taggedUnion({
+  name: 'OperationResultTr',
   switchOn: OperationType,
   arms: [
     { tags: ['CreateAccount'], codec: CreateAccountResult },
@@ -3523,6 +3595,7 @@ export type OperationResult =
 ;
 
 export const OperationResult: XdrCodec<OperationResult> = taggedUnion({
+  name: 'OperationResult',
   switchOn: OperationResultCode,
   arms: [
     { tags: ['OpINNER'], codec: OperationResultTr },
@@ -3551,6 +3624,7 @@ export type InnerTransactionResultResult =
 ;
 
 export const InnerTransactionResultResult: XdrCodec<InnerTransactionResultResult> = taggedUnion({
+  name: 'InnerTransactionResultResult',
   switchOn: TransactionResultCode,
   arms: [
     { tags: ['TxSUCCESS', 'TxFAILED'], codec: varArray(2147483647, OperationResult) },
@@ -3563,6 +3637,7 @@ export type InnerTransactionResultExt =
 ;
 
 export const InnerTransactionResultExt: XdrCodec<InnerTransactionResultExt> = taggedUnion({
+  name: 'InnerTransactionResultExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -3578,7 +3653,7 @@ export const InnerTransactionResult: XdrCodec<InnerTransactionResult> = xdrStruc
   ['feeCharged', Int64],
   ['result', InnerTransactionResultResult],
   ['ext', InnerTransactionResultExt],
-]);
+], 'InnerTransactionResult');
 
 export interface InnerTransactionResultPair {
   readonly transactionHash: Hash;
@@ -3587,7 +3662,7 @@ export interface InnerTransactionResultPair {
 export const InnerTransactionResultPair: XdrCodec<InnerTransactionResultPair> = xdrStruct<InnerTransactionResultPair>([
   ['transactionHash', Hash],
   ['result', InnerTransactionResult],
-]);
+], 'InnerTransactionResultPair');
 
 export type TransactionResultResult =
   | { readonly TxFEEBumpInnerSuccess: InnerTransactionResultPair }
@@ -3612,6 +3687,7 @@ export type TransactionResultResult =
 ;
 
 export const TransactionResultResult: XdrCodec<TransactionResultResult> = taggedUnion({
+  name: 'TransactionResultResult',
   switchOn: TransactionResultCode,
   arms: [
     { tags: ['TxFEEBumpInnerSuccess', 'TxFEEBumpInnerFailed'], codec: InnerTransactionResultPair },
@@ -3625,6 +3701,7 @@ export type TransactionResultExt =
 ;
 
 export const TransactionResultExt: XdrCodec<TransactionResultExt> = taggedUnion({
+  name: 'TransactionResultExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -3640,7 +3717,7 @@ export const TransactionResult: XdrCodec<TransactionResult> = xdrStruct<Transact
   ['feeCharged', Int64],
   ['result', TransactionResultResult],
   ['ext', TransactionResultExt],
-]);
+], 'TransactionResult');
 
 export interface TransactionResultPair {
   readonly transactionHash: Hash;
@@ -3649,7 +3726,7 @@ export interface TransactionResultPair {
 export const TransactionResultPair: XdrCodec<TransactionResultPair> = xdrStruct<TransactionResultPair>([
   ['transactionHash', Hash],
   ['result', TransactionResult],
-]);
+], 'TransactionResultPair');
 
 export type LedgerEntryChangeType = 'Created' | 'Updated' | 'Removed' | 'State' | 'Restored';
 export const LedgerEntryChangeType = xdrEnum({
@@ -3658,10 +3735,10 @@ export const LedgerEntryChangeType = xdrEnum({
   Removed: 2,
   State: 3,
   Restored: 4,
-});
+}, 'LedgerEntryChangeType');
 
 export type Thresholds = Uint8Array;
-export const Thresholds: XdrCodec<Thresholds> = fixedOpaque(4);
+export const Thresholds: XdrCodec<Thresholds> = typedef('Thresholds', fixedOpaque(4));
 
 export const MAX_SIGNERS = 20;
 
@@ -3672,10 +3749,10 @@ export interface Liabilities {
 export const Liabilities: XdrCodec<Liabilities> = xdrStruct<Liabilities>([
   ['buying', Int64],
   ['selling', Int64],
-]);
+], 'Liabilities');
 
 export type SponsorshipDescriptor = AccountID | null;
-export const SponsorshipDescriptor: XdrCodec<SponsorshipDescriptor> = option(AccountID);
+export const SponsorshipDescriptor: XdrCodec<SponsorshipDescriptor> = typedef('SponsorshipDescriptor', option(AccountID));
 
 export interface AccountEntryExtensionV3 {
   readonly ext: ExtensionPoint;
@@ -3686,7 +3763,7 @@ export const AccountEntryExtensionV3: XdrCodec<AccountEntryExtensionV3> = xdrStr
   ['ext', ExtensionPoint],
   ['seqLedger', Uint32],
   ['seqTime', TimePoint],
-]);
+], 'AccountEntryExtensionV3');
 
 export type AccountEntryExtensionV2Ext =
   | '0'
@@ -3694,6 +3771,7 @@ export type AccountEntryExtensionV2Ext =
 ;
 
 export const AccountEntryExtensionV2Ext: XdrCodec<AccountEntryExtensionV2Ext> = taggedUnion({
+  name: 'AccountEntryExtensionV2Ext',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -3712,7 +3790,7 @@ export const AccountEntryExtensionV2: XdrCodec<AccountEntryExtensionV2> = xdrStr
   ['numSponsoring', Uint32],
   ['signerSponsoringIDs', varArray(MAX_SIGNERS, SponsorshipDescriptor)],
   ['ext', AccountEntryExtensionV2Ext],
-]);
+], 'AccountEntryExtensionV2');
 
 export type AccountEntryExtensionV1Ext =
   | '0'
@@ -3720,6 +3798,7 @@ export type AccountEntryExtensionV1Ext =
 ;
 
 export const AccountEntryExtensionV1Ext: XdrCodec<AccountEntryExtensionV1Ext> = taggedUnion({
+  name: 'AccountEntryExtensionV1Ext',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -3734,7 +3813,7 @@ export interface AccountEntryExtensionV1 {
 export const AccountEntryExtensionV1: XdrCodec<AccountEntryExtensionV1> = xdrStruct<AccountEntryExtensionV1>([
   ['liabilities', Liabilities],
   ['ext', AccountEntryExtensionV1Ext],
-]);
+], 'AccountEntryExtensionV1');
 
 export type AccountEntryExt =
   | '0'
@@ -3742,6 +3821,7 @@ export type AccountEntryExt =
 ;
 
 export const AccountEntryExt: XdrCodec<AccountEntryExt> = taggedUnion({
+  name: 'AccountEntryExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -3772,13 +3852,14 @@ export const AccountEntry: XdrCodec<AccountEntry> = xdrStruct<AccountEntry>([
   ['thresholds', Thresholds],
   ['signers', varArray(MAX_SIGNERS, Signer)],
   ['ext', AccountEntryExt],
-]);
+], 'AccountEntry');
 
 export type TrustLineEntryExtensionV2Ext =
   | '0'
 ;
 
 export const TrustLineEntryExtensionV2Ext: XdrCodec<TrustLineEntryExtensionV2Ext> = taggedUnion({
+  name: 'TrustLineEntryExtensionV2Ext',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -3792,7 +3873,7 @@ export interface TrustLineEntryExtensionV2 {
 export const TrustLineEntryExtensionV2: XdrCodec<TrustLineEntryExtensionV2> = xdrStruct<TrustLineEntryExtensionV2>([
   ['liquidityPoolUseCount', Int32],
   ['ext', TrustLineEntryExtensionV2Ext],
-]);
+], 'TrustLineEntryExtensionV2');
 
 export type TrustLineEntryV1Ext =
   | '0'
@@ -3800,6 +3881,7 @@ export type TrustLineEntryV1Ext =
 ;
 
 export const TrustLineEntryV1Ext: XdrCodec<TrustLineEntryV1Ext> = taggedUnion({
+  name: 'TrustLineEntryV1Ext',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -3814,7 +3896,7 @@ export interface TrustLineEntryV1 {
 export const TrustLineEntryV1: XdrCodec<TrustLineEntryV1> = xdrStruct<TrustLineEntryV1>([
   ['liabilities', Liabilities],
   ['ext', TrustLineEntryV1Ext],
-]);
+], 'TrustLineEntryV1');
 
 export type TrustLineEntryExt =
   | '0'
@@ -3822,6 +3904,7 @@ export type TrustLineEntryExt =
 ;
 
 export const TrustLineEntryExt: XdrCodec<TrustLineEntryExt> = taggedUnion({
+  name: 'TrustLineEntryExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -3844,13 +3927,14 @@ export const TrustLineEntry: XdrCodec<TrustLineEntry> = xdrStruct<TrustLineEntry
   ['limit', Int64],
   ['flags', Uint32],
   ['ext', TrustLineEntryExt],
-]);
+], 'TrustLineEntry');
 
 export type DataEntryExt =
   | '0'
 ;
 
 export const DataEntryExt: XdrCodec<DataEntryExt> = taggedUnion({
+  name: 'DataEntryExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -3868,13 +3952,14 @@ export const DataEntry: XdrCodec<DataEntry> = xdrStruct<DataEntry>([
   ['dataName', String64],
   ['dataValue', DataValue],
   ['ext', DataEntryExt],
-]);
+], 'DataEntry');
 
 export type ClaimableBalanceEntryExtensionV1Ext =
   | '0'
 ;
 
 export const ClaimableBalanceEntryExtensionV1Ext: XdrCodec<ClaimableBalanceEntryExtensionV1Ext> = taggedUnion({
+  name: 'ClaimableBalanceEntryExtensionV1Ext',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -3888,7 +3973,7 @@ export interface ClaimableBalanceEntryExtensionV1 {
 export const ClaimableBalanceEntryExtensionV1: XdrCodec<ClaimableBalanceEntryExtensionV1> = xdrStruct<ClaimableBalanceEntryExtensionV1>([
   ['ext', ClaimableBalanceEntryExtensionV1Ext],
   ['flags', Uint32],
-]);
+], 'ClaimableBalanceEntryExtensionV1');
 
 export type ClaimableBalanceEntryExt =
   | '0'
@@ -3896,6 +3981,7 @@ export type ClaimableBalanceEntryExt =
 ;
 
 export const ClaimableBalanceEntryExt: XdrCodec<ClaimableBalanceEntryExt> = taggedUnion({
+  name: 'ClaimableBalanceEntryExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -3916,7 +4002,7 @@ export const ClaimableBalanceEntry: XdrCodec<ClaimableBalanceEntry> = xdrStruct<
   ['asset', Asset],
   ['amount', Int64],
   ['ext', ClaimableBalanceEntryExt],
-]);
+], 'ClaimableBalanceEntry');
 
 export interface LiquidityPoolEntryConstantProduct {
   readonly params: LiquidityPoolConstantProductParameters;
@@ -3931,13 +4017,14 @@ export const LiquidityPoolEntryConstantProduct: XdrCodec<LiquidityPoolEntryConst
   ['reserveB', Int64],
   ['totalPoolShares', Int64],
   ['poolSharesTrustLineCount', Int64],
-]);
+], 'LiquidityPoolEntryConstantProduct');
 
 export type LiquidityPoolEntryBody =
   | { readonly LiquidityPoolConstantProduct: LiquidityPoolEntryConstantProduct }
 ;
 
 export const LiquidityPoolEntryBody: XdrCodec<LiquidityPoolEntryBody> = taggedUnion({
+  name: 'LiquidityPoolEntryBody',
   switchOn: LiquidityPoolType,
   arms: [
     { tags: ['LiquidityPoolConstantProduct'], codec: LiquidityPoolEntryConstantProduct },
@@ -3951,7 +4038,7 @@ export interface LiquidityPoolEntry {
 export const LiquidityPoolEntry: XdrCodec<LiquidityPoolEntry> = xdrStruct<LiquidityPoolEntry>([
   ['liquidityPoolID', PoolID],
   ['body', LiquidityPoolEntryBody],
-]);
+], 'LiquidityPoolEntry');
 
 export interface ContractDataEntry {
   readonly ext: ExtensionPoint;
@@ -3966,7 +4053,7 @@ export const ContractDataEntry: XdrCodec<ContractDataEntry> = xdrStruct<Contract
   ['key', lazy(() => SCVal)],
   ['durability', ContractDataDurability],
   ['val', lazy(() => SCVal)],
-]);
+], 'ContractDataEntry');
 
 export interface ContractCodeCostInputs {
   readonly ext: ExtensionPoint;
@@ -3993,7 +4080,7 @@ export const ContractCodeCostInputs: XdrCodec<ContractCodeCostInputs> = xdrStruc
   ['nImports', Uint32],
   ['nExports', Uint32],
   ['nDataSegmentBytes', Uint32],
-]);
+], 'ContractCodeCostInputs');
 
 export interface ContractCodeEntryV1 {
   readonly ext: ExtensionPoint;
@@ -4002,7 +4089,7 @@ export interface ContractCodeEntryV1 {
 export const ContractCodeEntryV1: XdrCodec<ContractCodeEntryV1> = xdrStruct<ContractCodeEntryV1>([
   ['ext', ExtensionPoint],
   ['costInputs', ContractCodeCostInputs],
-]);
+], 'ContractCodeEntryV1');
 
 export type ContractCodeEntryExt =
   | '0'
@@ -4010,6 +4097,7 @@ export type ContractCodeEntryExt =
 ;
 
 export const ContractCodeEntryExt: XdrCodec<ContractCodeEntryExt> = taggedUnion({
+  name: 'ContractCodeEntryExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -4026,7 +4114,7 @@ export const ContractCodeEntry: XdrCodec<ContractCodeEntry> = xdrStruct<Contract
   ['ext', ContractCodeEntryExt],
   ['hash', Hash],
   ['code', varOpaque(2147483647)],
-]);
+], 'ContractCodeEntry');
 
 export interface TTLEntry {
   readonly keyHash: Hash;
@@ -4035,7 +4123,7 @@ export interface TTLEntry {
 export const TTLEntry: XdrCodec<TTLEntry> = xdrStruct<TTLEntry>([
   ['keyHash', Hash],
   ['liveUntilLedgerSeq', Uint32],
-]);
+], 'TTLEntry');
 
 export type LedgerEntryData =
   | { readonly Account: AccountEntry }
@@ -4051,6 +4139,7 @@ export type LedgerEntryData =
 ;
 
 export const LedgerEntryData: XdrCodec<LedgerEntryData> = taggedUnion({
+  name: 'LedgerEntryData',
   switchOn: LedgerEntryType,
   arms: [
     { tags: ['Account'], codec: AccountEntry },
@@ -4071,6 +4160,7 @@ export type LedgerEntryExtensionV1Ext =
 ;
 
 export const LedgerEntryExtensionV1Ext: XdrCodec<LedgerEntryExtensionV1Ext> = taggedUnion({
+  name: 'LedgerEntryExtensionV1Ext',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -4084,7 +4174,7 @@ export interface LedgerEntryExtensionV1 {
 export const LedgerEntryExtensionV1: XdrCodec<LedgerEntryExtensionV1> = xdrStruct<LedgerEntryExtensionV1>([
   ['sponsoringID', SponsorshipDescriptor],
   ['ext', LedgerEntryExtensionV1Ext],
-]);
+], 'LedgerEntryExtensionV1');
 
 export type LedgerEntryExt =
   | '0'
@@ -4092,6 +4182,7 @@ export type LedgerEntryExt =
 ;
 
 export const LedgerEntryExt: XdrCodec<LedgerEntryExt> = taggedUnion({
+  name: 'LedgerEntryExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -4108,7 +4199,7 @@ export const LedgerEntry: XdrCodec<LedgerEntry> = xdrStruct<LedgerEntry>([
   ['lastModifiedLedgerSeq', Uint32],
   ['data', LedgerEntryData],
   ['ext', LedgerEntryExt],
-]);
+], 'LedgerEntry');
 
 export type LedgerEntryChange =
   | { readonly Created: LedgerEntry }
@@ -4119,6 +4210,7 @@ export type LedgerEntryChange =
 ;
 
 export const LedgerEntryChange: XdrCodec<LedgerEntryChange> = taggedUnion({
+  name: 'LedgerEntryChange',
   switchOn: LedgerEntryChangeType,
   arms: [
     { tags: ['Created'], codec: LedgerEntry },
@@ -4130,14 +4222,14 @@ export const LedgerEntryChange: XdrCodec<LedgerEntryChange> = taggedUnion({
 }) as XdrCodec<LedgerEntryChange>;
 
 export type LedgerEntryChanges = readonly LedgerEntryChange[];
-export const LedgerEntryChanges: XdrCodec<LedgerEntryChanges> = varArray(2147483647, LedgerEntryChange);
+export const LedgerEntryChanges: XdrCodec<LedgerEntryChanges> = typedef('LedgerEntryChanges', varArray(2147483647, LedgerEntryChange));
 
 export interface OperationMeta {
   readonly changes: LedgerEntryChanges;
 }
 export const OperationMeta: XdrCodec<OperationMeta> = xdrStruct<OperationMeta>([
   ['changes', LedgerEntryChanges],
-]);
+], 'OperationMeta');
 
 export interface TransactionMetaV1 {
   readonly txChanges: LedgerEntryChanges;
@@ -4146,7 +4238,7 @@ export interface TransactionMetaV1 {
 export const TransactionMetaV1: XdrCodec<TransactionMetaV1> = xdrStruct<TransactionMetaV1>([
   ['txChanges', LedgerEntryChanges],
   ['operations', varArray(2147483647, OperationMeta)],
-]);
+], 'TransactionMetaV1');
 
 export interface TransactionMetaV2 {
   readonly txChangesBefore: LedgerEntryChanges;
@@ -4157,7 +4249,7 @@ export const TransactionMetaV2: XdrCodec<TransactionMetaV2> = xdrStruct<Transact
   ['txChangesBefore', LedgerEntryChanges],
   ['operations', varArray(2147483647, OperationMeta)],
   ['txChangesAfter', LedgerEntryChanges],
-]);
+], 'TransactionMetaV2');
 
 export interface SorobanTransactionMetaExtV1 {
   readonly ext: ExtensionPoint;
@@ -4170,7 +4262,7 @@ export const SorobanTransactionMetaExtV1: XdrCodec<SorobanTransactionMetaExtV1>
   ['totalNonRefundableResourceFeeCharged', Int64],
   ['totalRefundableResourceFeeCharged', Int64],
   ['rentFeeCharged', Int64],
-]);
+], 'SorobanTransactionMetaExtV1');
 
 export type SorobanTransactionMetaExt =
   | '0'
@@ -4178,6 +4270,7 @@ export type SorobanTransactionMetaExt =
 ;
 
 export const SorobanTransactionMetaExt: XdrCodec<SorobanTransactionMetaExt> = taggedUnion({
+  name: 'SorobanTransactionMetaExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -4190,7 +4283,7 @@ export const ContractEventType = xdrEnum({
   System: 0,
   Contract: 1,
   Diagnostic: 2,
-});
+}, 'ContractEventType');
 
 export interface ContractEventV0 {
   readonly topics: readonly SCVal[];
@@ -4199,13 +4292,14 @@ export interface ContractEventV0 {
 export const ContractEventV0: XdrCodec<ContractEventV0> = xdrStruct<ContractEventV0>([
   ['topics', varArray(2147483647, lazy(() => SCVal))],
   ['data', lazy(() => SCVal)],
-]);
+], 'ContractEventV0');
 
 export type ContractEventBody =
   | { readonly '0': ContractEventV0 }
 ;
 
 export const ContractEventBody: XdrCodec<ContractEventBody> = taggedUnion({
+  name: 'ContractEventBody',
   switchOn: int32,
   arms: [
     { tags: [0], codec: ContractEventV0 },
@@ -4223,7 +4317,7 @@ export const ContractEvent: XdrCodec<ContractEvent> = xdrStruct<ContractEvent>([
   ['contractID', option(ContractID)],
   ['type', ContractEventType],
   ['body', ContractEventBody],
-]);
+], 'ContractEvent');
 
 export interface DiagnosticEvent {
   readonly inSuccessfulContractCall: boolean;
@@ -4232,7 +4326,7 @@ export interface DiagnosticEvent {
 export const DiagnosticEvent: XdrCodec<DiagnosticEvent> = xdrStruct<DiagnosticEvent>([
   ['inSuccessfulContractCall', bool],
   ['event', ContractEvent],
-]);
+], 'DiagnosticEvent');
 
 export interface SorobanTransactionMeta {
   readonly ext: SorobanTransactionMetaExt;
@@ -4245,7 +4339,7 @@ export const SorobanTransactionMeta: XdrCodec<SorobanTransactionMeta> = xdrStruc
   ['events', varArray(2147483647, ContractEvent)],
   ['returnValue', lazy(() => SCVal)],
   ['diagnosticEvents', varArray(2147483647, DiagnosticEvent)],
-]);
+], 'SorobanTransactionMeta');
 
 export interface TransactionMetaV3 {
   readonly ext: ExtensionPoint;
@@ -4260,7 +4354,7 @@ export const TransactionMetaV3: XdrCodec<TransactionMetaV3> = xdrStruct<Transact
   ['operations', varArray(2147483647, OperationMeta)],
   ['txChangesAfter', LedgerEntryChanges],
   ['sorobanMeta', option(SorobanTransactionMeta)],
-]);
+], 'TransactionMetaV3');
 
 export interface OperationMetaV2 {
   readonly ext: ExtensionPoint;
@@ -4271,7 +4365,7 @@ export const OperationMetaV2: XdrCodec<OperationMetaV2> = xdrStruct<OperationMet
   ['ext', ExtensionPoint],
   ['changes', LedgerEntryChanges],
   ['events', varArray(2147483647, ContractEvent)],
-]);
+], 'OperationMetaV2');
 
 export interface SorobanTransactionMetaV2 {
   readonly ext: SorobanTransactionMetaExt;
@@ -4280,14 +4374,14 @@ export interface SorobanTransactionMetaV2 {
 export const SorobanTransactionMetaV2: XdrCodec<SorobanTransactionMetaV2> = xdrStruct<SorobanTransactionMetaV2>([
   ['ext', SorobanTransactionMetaExt],
   ['returnValue', option(lazy(() => SCVal))],
-]);
+], 'SorobanTransactionMetaV2');
 
 export type TransactionEventStage = 'BeforeAllTxs' | 'AfterTx' | 'AfterAllTxs';
 export const TransactionEventStage = xdrEnum({
   BeforeAllTxs: 0,
   AfterTx: 1,
   AfterAllTxs: 2,
-});
+}, 'TransactionEventStage');
 
 export interface TransactionEvent {
   readonly stage: TransactionEventStage;
@@ -4296,7 +4390,7 @@ export interface TransactionEvent {
 export const TransactionEvent: XdrCodec<TransactionEvent> = xdrStruct<TransactionEvent>([
   ['stage', TransactionEventStage],
   ['event', ContractEvent],
-]);
+], 'TransactionEvent');
 
 export interface TransactionMetaV4 {
   readonly ext: ExtensionPoint;
@@ -4315,7 +4409,7 @@ export const TransactionMetaV4: XdrCodec<TransactionMetaV4> = xdrStruct<Transact
   ['sorobanMeta', option(SorobanTransactionMetaV2)],
   ['events', varArray(2147483647, TransactionEvent)],
   ['diagnosticEvents', varArray(2147483647, DiagnosticEvent)],
-]);
+], 'TransactionMetaV4');
 
 export type TransactionMeta =
   | { readonly '0': readonly OperationMeta[] }
@@ -4326,6 +4420,7 @@ export type TransactionMeta =
 ;
 
 export const TransactionMeta: XdrCodec<TransactionMeta> = taggedUnion({
+  name: 'TransactionMeta',
   switchOn: int32,
   arms: [
     { tags: [0], codec: varArray(2147483647, OperationMeta) },
@@ -4345,7 +4440,7 @@ export const TransactionResultMeta: XdrCodec<TransactionResultMeta> = xdrStruct<
   ['result', TransactionResultPair],
   ['feeProcessing', LedgerEntryChanges],
   ['txApplyProcessing', TransactionMeta],
-]);
+], 'TransactionResultMeta');
 
 export type LedgerUpgradeType = 'Version' | 'BaseFee' | 'MaxTxSetSize' | 'BaseReserve' | 'Flags' | 'Config' | 'MaxSorobanTxSetSize';
 export const LedgerUpgradeType = xdrEnum({
@@ -4356,7 +4451,7 @@ export const LedgerUpgradeType = xdrEnum({
   Flags: 5,
   Config: 6,
   MaxSorobanTxSetSize: 7,
-});
+}, 'LedgerUpgradeType');
 
 export interface ConfigUpgradeSetKey {
   readonly contractID: ContractID;
@@ -4365,7 +4460,7 @@ export interface ConfigUpgradeSetKey {
 export const ConfigUpgradeSetKey: XdrCodec<ConfigUpgradeSetKey> = xdrStruct<ConfigUpgradeSetKey>([
   ['contractID', ContractID],
   ['contentHash', Hash],
-]);
+], 'ConfigUpgradeSetKey');
 
 export type LedgerUpgrade =
   | { readonly Version: Uint32 }
@@ -4378,6 +4473,7 @@ export type LedgerUpgrade =
 ;
 
 export const LedgerUpgrade: XdrCodec<LedgerUpgrade> = taggedUnion({
+  name: 'LedgerUpgrade',
   switchOn: LedgerUpgradeType,
   arms: [
     { tags: ['Version'], codec: Uint32 },
@@ -4397,7 +4493,7 @@ export interface UpgradeEntryMeta {
 export const UpgradeEntryMeta: XdrCodec<UpgradeEntryMeta> = xdrStruct<UpgradeEntryMeta>([
   ['upgrade', LedgerUpgrade],
   ['changes', LedgerEntryChanges],
-]);
+], 'UpgradeEntryMeta');
 
 export interface SCPQuorumSet {
   readonly threshold: Uint32;
@@ -4408,7 +4504,7 @@ export const SCPQuorumSet: XdrCodec<SCPQuorumSet> = xdrStruct<SCPQuorumSet>([
   ['threshold', Uint32],
   ['validators', varArray(2147483647, NodeID)],
   ['innerSets', varArray(2147483647, lazy(() => SCPQuorumSet))],
-]);
+], 'SCPQuorumSet');
 
 export type SCPStatementType = 'Prepare' | 'Confirm' | 'Externalize' | 'Nominate';
 export const SCPStatementType = xdrEnum({
@@ -4416,10 +4512,10 @@ export const SCPStatementType = xdrEnum({
   Confirm: 1,
   Externalize: 2,
   Nominate: 3,
-});
+}, 'SCPStatementType');
 
 export type Value = Uint8Array;
-export const Value: XdrCodec<Value> = varOpaque(2147483647);
+export const Value: XdrCodec<Value> = typedef('Value', varOpaque(2147483647));
 
 export interface SCPBallot {
   readonly counter: Uint32;
@@ -4428,7 +4524,7 @@ export interface SCPBallot {
 export const SCPBallot: XdrCodec<SCPBallot> = xdrStruct<SCPBallot>([
   ['counter', Uint32],
   ['value', Value],
-]);
+], 'SCPBallot');
 
 export interface SCPStatementPrepare {
   readonly quorumSetHash: Hash;
@@ -4445,7 +4541,7 @@ export const SCPStatementPrepare: XdrCodec<SCPStatementPrepare> = xdrStruct<SCPS
   ['preparedPrime', option(SCPBallot)],
   ['nC', Uint32],
   ['nH', Uint32],
-]);
+], 'SCPStatementPrepare');
 
 export interface SCPStatementConfirm {
   readonly ballot: SCPBallot;
@@ -4460,7 +4556,7 @@ export const SCPStatementConfirm: XdrCodec<SCPStatementConfirm> = xdrStruct<SCPS
   ['nCommit', Uint32],
   ['nH', Uint32],
   ['quorumSetHash', Hash],
-]);
+], 'SCPStatementConfirm');
 
 export interface SCPStatementExternalize {
   readonly commit: SCPBallot;
@@ -4471,7 +4567,7 @@ export const SCPStatementExternalize: XdrCodec<SCPStatementExternalize> = xdrStr
   ['commit', SCPBallot],
   ['nH', Uint32],
   ['commitQuorumSetHash', Hash],
-]);
+], 'SCPStatementExternalize');
 
 export interface SCPNomination {
   readonly quorumSetHash: Hash;
@@ -4482,7 +4578,7 @@ export const SCPNomination: XdrCodec<SCPNomination> = xdrStruct<SCPNomination>([
   ['quorumSetHash', Hash],
   ['votes', varArray(2147483647, Value)],
   ['accepted', varArray(2147483647, Value)],
-]);
+], 'SCPNomination');
 
 export type SCPStatementPledges =
   | { readonly Prepare: SCPStatementPrepare }
@@ -4492,6 +4588,7 @@ export type SCPStatementPledges =
 ;
 
 export const SCPStatementPledges: XdrCodec<SCPStatementPledges> = taggedUnion({
+  name: 'SCPStatementPledges',
   switchOn: SCPStatementType,
   arms: [
     { tags: ['Prepare'], codec: SCPStatementPrepare },
@@ -4510,7 +4607,7 @@ export const SCPStatement: XdrCodec<SCPStatement> = xdrStruct<SCPStatement>([
   ['nodeID', NodeID],
   ['slotIndex', Uint64],
   ['pledges', SCPStatementPledges],
-]);
+], 'SCPStatement');
 
 export interface SCPEnvelope {
   readonly statement: SCPStatement;
@@ -4519,7 +4616,7 @@ export interface SCPEnvelope {
 export const SCPEnvelope: XdrCodec<SCPEnvelope> = xdrStruct<SCPEnvelope>([
   ['statement', SCPStatement],
   ['signature', Signature],
-]);
+], 'SCPEnvelope');
 
 export interface LedgerSCPMessages {
   readonly ledgerSeq: Uint32;
@@ -4528,7 +4625,7 @@ export interface LedgerSCPMessages {
 export const LedgerSCPMessages: XdrCodec<LedgerSCPMessages> = xdrStruct<LedgerSCPMessages>([
   ['ledgerSeq', Uint32],
   ['messages', varArray(2147483647, SCPEnvelope)],
-]);
+], 'LedgerSCPMessages');
 
 export interface SCPHistoryEntryV0 {
   readonly quorumSets: readonly SCPQuorumSet[];
@@ -4537,13 +4634,14 @@ export interface SCPHistoryEntryV0 {
 export const SCPHistoryEntryV0: XdrCodec<SCPHistoryEntryV0> = xdrStruct<SCPHistoryEntryV0>([
   ['quorumSets', varArray(2147483647, lazy(() => SCPQuorumSet))],
   ['ledgerMessages', LedgerSCPMessages],
-]);
+], 'SCPHistoryEntryV0');
 
 export type SCPHistoryEntry =
   | { readonly '0': SCPHistoryEntryV0 }
 ;
 
 export const SCPHistoryEntry: XdrCodec<SCPHistoryEntry> = taggedUnion({
+  name: 'SCPHistoryEntry',
   switchOn: int32,
   arms: [
     { tags: [0], codec: SCPHistoryEntryV0 },
@@ -4563,7 +4661,7 @@ export const LedgerCloseMetaV0: XdrCodec<LedgerCloseMetaV0> = xdrStruct<LedgerCl
   ['txProcessing', varArray(2147483647, TransactionResultMeta)],
   ['upgradesProcessing', varArray(2147483647, UpgradeEntryMeta)],
   ['scpInfo', varArray(2147483647, SCPHistoryEntry)],
-]);
+], 'LedgerCloseMetaV0');
 
 export interface LedgerCloseMetaExtV1 {
   readonly ext: ExtensionPoint;
@@ -4572,7 +4670,7 @@ export interface LedgerCloseMetaExtV1 {
 export const LedgerCloseMetaExtV1: XdrCodec<LedgerCloseMetaExtV1> = xdrStruct<LedgerCloseMetaExtV1>([
   ['ext', ExtensionPoint],
   ['sorobanFeeWrite1KB', Int64],
-]);
+], 'LedgerCloseMetaExtV1');
 
 export type LedgerCloseMetaExt =
   | '0'
@@ -4580,6 +4678,7 @@ export type LedgerCloseMetaExt =
 ;
 
 export const LedgerCloseMetaExt: XdrCodec<LedgerCloseMetaExt> = taggedUnion({
+  name: 'LedgerCloseMetaExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -4590,7 +4689,7 @@ export const LedgerCloseMetaExt: XdrCodec<LedgerCloseMetaExt> = taggedUnion({
 export type TxSetComponentType = 'TxsetCompTxsMaybeDiscountedFee';
 export const TxSetComponentType = xdrEnum({
   TxsetCompTxsMaybeDiscountedFee: 0,
-});
+}, 'TxSetComponentType');
 
 export interface TxSetComponentTxsMaybeDiscountedFee {
   readonly baseFee: Int64 | null;
@@ -4599,13 +4698,14 @@ export interface TxSetComponentTxsMaybeDiscountedFee {
 export const TxSetComponentTxsMaybeDiscountedFee: XdrCodec<TxSetComponentTxsMaybeDiscountedFee> = xdrStruct<TxSetComponentTxsMaybeDiscountedFee>([
   ['baseFee', option(Int64)],
   ['txs', varArray(2147483647, TransactionEnvelope)],
-]);
+], 'TxSetComponentTxsMaybeDiscountedFee');
 
 export type TxSetComponent =
   | { readonly TxsetCompTxsMaybeDiscountedFee: TxSetComponentTxsMaybeDiscountedFee }
 ;
 
 export const TxSetComponent: XdrCodec<TxSetComponent> = taggedUnion({
+  name: 'TxSetComponent',
   switchOn: TxSetComponentType,
   arms: [
     { tags: ['TxsetCompTxsMaybeDiscountedFee'], codec: TxSetComponentTxsMaybeDiscountedFee },
@@ -4613,10 +4713,10 @@ export const TxSetComponent: XdrCodec<TxSetComponent> = taggedUnion({
 }) as XdrCodec<TxSetComponent>;
 
 export type DependentTxCluster = readonly TransactionEnvelope[];
-export const DependentTxCluster: XdrCodec<DependentTxCluster> = varArray(2147483647, TransactionEnvelope);
+export const DependentTxCluster: XdrCodec<DependentTxCluster> = typedef('DependentTxCluster', varArray(2147483647, TransactionEnvelope));
 
 export type ParallelTxExecutionStage = readonly DependentTxCluster[];
-export const ParallelTxExecutionStage: XdrCodec<ParallelTxExecutionStage> = varArray(2147483647, DependentTxCluster);
+export const ParallelTxExecutionStage: XdrCodec<ParallelTxExecutionStage> = typedef('ParallelTxExecutionStage', varArray(2147483647, DependentTxCluster));
 
 export interface ParallelTxsComponent {
   readonly baseFee: Int64 | null;
@@ -4625,7 +4725,7 @@ export interface ParallelTxsComponent {
 export const ParallelTxsComponent: XdrCodec<ParallelTxsComponent> = xdrStruct<ParallelTxsComponent>([
   ['baseFee', option(Int64)],
   ['executionStages', varArray(2147483647, ParallelTxExecutionStage)],
-]);
+], 'ParallelTxsComponent');
 
 export type TransactionPhase =
   | { readonly '0': readonly TxSetComponent[] }
@@ -4633,6 +4733,7 @@ export type TransactionPhase =
 ;
 
 export const TransactionPhase: XdrCodec<TransactionPhase> = taggedUnion({
+  name: 'TransactionPhase',
   switchOn: int32,
   arms: [
     { tags: [0], codec: varArray(2147483647, TxSetComponent) },
@@ -4647,13 +4748,14 @@ export interface TransactionSetV1 {
 export const TransactionSetV1: XdrCodec<TransactionSetV1> = xdrStruct<TransactionSetV1>([
   ['previousLedgerHash', Hash],
   ['phases', varArray(2147483647, TransactionPhase)],
-]);
+], 'TransactionSetV1');
 
 export type GeneralizedTransactionSet =
   | { readonly '1': TransactionSetV1 }
 ;
 
 export const GeneralizedTransactionSet: XdrCodec<GeneralizedTransactionSet> = taggedUnion({
+  name: 'GeneralizedTransactionSet',
   switchOn: int32,
   arms: [
     { tags: [1], codec: TransactionSetV1 },
@@ -4681,7 +4783,7 @@ export const LedgerCloseMetaV1: XdrCodec<LedgerCloseMetaV1> = xdrStruct<LedgerCl
   ['totalByteSizeOfLiveSorobanState', Uint64],
   ['evictedKeys', varArray(2147483647, LedgerKey)],
   ['unused', varArray(2147483647, LedgerEntry)],
-]);
+], 'LedgerCloseMetaV1');
 
 export interface TransactionResultMetaV1 {
   readonly ext: ExtensionPoint;
@@ -4696,7 +4798,7 @@ export const TransactionResultMetaV1: XdrCodec<TransactionResultMetaV1> = xdrStr
   ['feeProcessing', LedgerEntryChanges],
   ['txApplyProcessing', TransactionMeta],
   ['postTxApplyFeeProcessing', LedgerEntryChanges],
-]);
+], 'TransactionResultMetaV1');
 
 export interface LedgerCloseMetaV2 {
   readonly ext: LedgerCloseMetaExt;
@@ -4717,7 +4819,7 @@ export const LedgerCloseMetaV2: XdrCodec<LedgerCloseMetaV2> = xdrStruct<LedgerCl
   ['scpInfo', varArray(2147483647, SCPHistoryEntry)],
   ['totalByteSizeOfLiveSorobanState', Uint64],
   ['evictedKeys', varArray(2147483647, LedgerKey)],
-]);
+], 'LedgerCloseMetaV2');
 
 export type LedgerCloseMeta =
   | { readonly '0': LedgerCloseMetaV0 }
@@ -4726,6 +4828,7 @@ export type LedgerCloseMeta =
 ;
 
 export const LedgerCloseMeta: XdrCodec<LedgerCloseMeta> = taggedUnion({
+  name: 'LedgerCloseMeta',
   switchOn: int32,
   arms: [
     { tags: [0], codec: LedgerCloseMetaV0 },
@@ -4743,7 +4846,7 @@ export const LedgerCloseMetaBatch: XdrCodec<LedgerCloseMetaBatch> = xdrStruct<Le
   ['startSequence', Uint32],
   ['endSequence', Uint32],
   ['ledgerCloseMetas', varArray(2147483647, LedgerCloseMeta)],
-]);
+], 'LedgerCloseMetaBatch');
 
 export type StoredTransactionSet =
   | { readonly '0': TransactionSet }
@@ -4751,6 +4854,7 @@ export type StoredTransactionSet =
 ;
 
 export const StoredTransactionSet: XdrCodec<StoredTransactionSet> = taggedUnion({
+  name: 'StoredTransactionSet',
   switchOn: int32,
   arms: [
     { tags: [0], codec: TransactionSet },
@@ -4767,7 +4871,7 @@ export const StoredDebugTransactionSet: XdrCodec<StoredDebugTransactionSet> = xd
   ['txSet', StoredTransactionSet],
   ['ledgerSeq', Uint32],
   ['scpValue', StellarValue],
-]);
+], 'StoredDebugTransactionSet');
 
 export interface PersistedSCPStateV0 {
   readonly scpEnvelopes: readonly SCPEnvelope[];
@@ -4778,7 +4882,7 @@ export const PersistedSCPStateV0: XdrCodec<PersistedSCPStateV0> = xdrStruct<Pers
   ['scpEnvelopes', varArray(2147483647, SCPEnvelope)],
   ['quorumSets', varArray(2147483647, lazy(() => SCPQuorumSet))],
   ['txSets', varArray(2147483647, StoredTransactionSet)],
-]);
+], 'PersistedSCPStateV0');
 
 export interface PersistedSCPStateV1 {
   readonly scpEnvelopes: readonly SCPEnvelope[];
@@ -4787,7 +4891,7 @@ export interface PersistedSCPStateV1 {
 export const PersistedSCPStateV1: XdrCodec<PersistedSCPStateV1> = xdrStruct<PersistedSCPStateV1>([
   ['scpEnvelopes', varArray(2147483647, SCPEnvelope)],
   ['quorumSets', varArray(2147483647, lazy(() => SCPQuorumSet))],
-]);
+], 'PersistedSCPStateV1');
 
 export type PersistedSCPState =
   | { readonly '0': PersistedSCPStateV0 }
@@ -4795,6 +4899,7 @@ export type PersistedSCPState =
 ;
 
 export const PersistedSCPState: XdrCodec<PersistedSCPState> = taggedUnion({
+  name: 'PersistedSCPState',
   switchOn: int32,
   arms: [
     { tags: [0], codec: PersistedSCPStateV0 },
@@ -4808,7 +4913,7 @@ export const ThresholdIndexes = xdrEnum({
   Low: 1,
   Med: 2,
   High: 3,
-});
+}, 'ThresholdIndexes');
 
 export type AccountFlags = 'RequiredFlag' | 'RevocableFlag' | 'ImmutableFlag' | 'ClawbackEnabledFlag';
 export const AccountFlags = xdrEnum({
@@ -4816,7 +4921,7 @@ export const AccountFlags = xdrEnum({
   RevocableFlag: 2,
   ImmutableFlag: 4,
   ClawbackEnabledFlag: 8,
-});
+}, 'AccountFlags');
 
 export const MASK_ACCOUNT_FLAGS = 0x7;
 
@@ -4827,7 +4932,7 @@ export const TrustLineFlags = xdrEnum({
   AuthorizedFlag: 1,
   AuthorizedToMaintainLiabilitiesFlag: 2,
   TrustlineClawbackEnabledFlag: 4,
-});
+}, 'TrustLineFlags');
 
 export const MASK_TRUSTLINE_FLAGS = 1;
 
@@ -4838,14 +4943,14 @@ export const MASK_TRUSTLINE_FLAGS_V17 = 7;
 export type OfferEntryFlags = 'PassiveFlag';
 export const OfferEntryFlags = xdrEnum({
   PassiveFlag: 1,
-});
+}, 'OfferEntryFlags');
 
 export const MASK_OFFERENTRY_FLAGS = 1;
 
 export type ClaimableBalanceFlags = 'ClaimableBalanceClawbackEnabledFlag';
 export const ClaimableBalanceFlags = xdrEnum({
   ClaimableBalanceClawbackEnabledFlag: 1,
-});
+}, 'ClaimableBalanceFlags');
 
 export const MASK_CLAIMABLE_BALANCE_FLAGS = 0x1;
 
@@ -4853,7 +4958,7 @@ export type BucketListType = 'Live' | 'HotArchive';
 export const BucketListType = xdrEnum({
   Live: 0,
   HotArchive: 1,
-});
+}, 'BucketListType');
 
 export type BucketEntryType = 'Metaentry' | 'Liveentry' | 'Deadentry' | 'Initentry';
 export const BucketEntryType = xdrEnum({
@@ -4861,14 +4966,14 @@ export const BucketEntryType = xdrEnum({
   Liveentry: 0,
   Deadentry: 1,
   Initentry: 2,
-});
+}, 'BucketEntryType');
 
 export type HotArchiveBucketEntryType = 'Metaentry' | 'Archived' | 'Live';
 export const HotArchiveBucketEntryType = xdrEnum({
   Metaentry: -1,
   Archived: 0,
   Live: 1,
-});
+}, 'HotArchiveBucketEntryType');
 
 export type BucketMetadataExt =
   | '0'
@@ -4876,6 +4981,7 @@ export type BucketMetadataExt =
 ;
 
 export const BucketMetadataExt: XdrCodec<BucketMetadataExt> = taggedUnion({
+  name: 'BucketMetadataExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -4890,7 +4996,7 @@ export interface BucketMetadata {
 export const BucketMetadata: XdrCodec<BucketMetadata> = xdrStruct<BucketMetadata>([
   ['ledgerVersion', Uint32],
   ['ext', BucketMetadataExt],
-]);
+], 'BucketMetadata');
 
 export type BucketEntry =
   | { readonly Liveentry: LedgerEntry }
@@ -4900,6 +5006,7 @@ export type BucketEntry =
 ;
 
 export const BucketEntry: XdrCodec<BucketEntry> = taggedUnion({
+  name: 'BucketEntry',
   switchOn: BucketEntryType,
   arms: [
     { tags: ['Liveentry', 'Initentry'], codec: LedgerEntry },
@@ -4915,6 +5022,7 @@ export type HotArchiveBucketEntry =
 ;
 
 export const HotArchiveBucketEntry: XdrCodec<HotArchiveBucketEntry> = taggedUnion({
+  name: 'HotArchiveBucketEntry',
   switchOn: HotArchiveBucketEntryType,
   arms: [
     { tags: ['Archived'], codec: LedgerEntry },
@@ -4930,21 +5038,21 @@ export const LedgerHeaderFlags = xdrEnum({
   TradingFlag: 1,
   DepositFlag: 2,
   WithdrawalFlag: 4,
-});
+}, 'LedgerHeaderFlags');
 
 export interface ConfigUpgradeSet {
   readonly updatedEntry: readonly ConfigSettingEntry[];
 }
 export const ConfigUpgradeSet: XdrCodec<ConfigUpgradeSet> = xdrStruct<ConfigUpgradeSet>([
   ['updatedEntry', varArray(2147483647, ConfigSettingEntry)],
-]);
+], 'ConfigUpgradeSet');
 
 export interface TransactionResultSet {
   readonly results: readonly TransactionResultPair[];
 }
 export const TransactionResultSet: XdrCodec<TransactionResultSet> = xdrStruct<TransactionResultSet>([
   ['results', varArray(2147483647, TransactionResultPair)],
-]);
+], 'TransactionResultSet');
 
 export type TransactionHistoryEntryExt =
   | '0'
@@ -4952,6 +5060,7 @@ export type TransactionHistoryEntryExt =
 ;
 
 export const TransactionHistoryEntryExt: XdrCodec<TransactionHistoryEntryExt> = taggedUnion({
+  name: 'TransactionHistoryEntryExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -4968,13 +5077,14 @@ export const TransactionHistoryEntry: XdrCodec<TransactionHistoryEntry> = xdrStr
   ['ledgerSeq', Uint32],
   ['txSet', TransactionSet],
   ['ext', TransactionHistoryEntryExt],
-]);
+], 'TransactionHistoryEntry');
 
 export type TransactionHistoryResultEntryExt =
   | '0'
 ;
 
 export const TransactionHistoryResultEntryExt: XdrCodec<TransactionHistoryResultEntryExt> = taggedUnion({
+  name: 'TransactionHistoryResultEntryExt',
   switchOn: int32,
   arms: [
     { tags: [0] },
@@ -4990,7 +5100,7 @@ export const TransactionHistoryResultEntry: XdrCodec<TransactionHistoryResultEnt
   ['ledgerSeq', Uint32],
   ['txResultSet', TransactionResultSet],
   ['ext', TransactionHistoryResultEntryExt],
-]);
+], 'TransactionHistoryResultEntry');
 
 export interface InvokeHostFunctionSuccessPreImage {
   readonly returnValue: SCVal;
@@ -4999,7 +5109,7 @@ export interface InvokeHostFunctionSuccessPreImage {
 export const InvokeHostFunctionSuccessPreImage: XdrCodec<InvokeHostFunctionSuccessPreImage> = xdrStruct<InvokeHostFunctionSuccessPreImage>([
   ['returnValue', lazy(() => SCVal)],
   ['events', varArray(2147483647, ContractEvent)],
-]);
+], 'InvokeHostFunctionSuccessPreImage');
 
 export type ErrorCode = 'Misc' | 'Data' | 'Conf' | 'Auth' | 'Load';
 export const ErrorCode = xdrEnum({
@@ -5008,7 +5118,7 @@ export const ErrorCode = xdrEnum({
   Conf: 2,
   Auth: 3,
   Load: 4,
-});
+}, 'ErrorCode');
 
 export interface Error {
   readonly code: ErrorCode;
@@ -5017,14 +5127,14 @@ export interface Error {
 export const Error: XdrCodec<Error> = xdrStruct<Error>([
   ['code', ErrorCode],
   ['msg', xdrString(100)],
-]);
+], 'Error');
 
 export interface SendMore {
   readonly numMessages: Uint32;
 }
 export const SendMore: XdrCodec<SendMore> = xdrStruct<SendMore>([
   ['numMessages', Uint32],
-]);
+], 'SendMore');
 
 export interface SendMoreExtended {
   readonly numMessages: Uint32;
@@ -5033,14 +5143,14 @@ export interface SendMoreExtended {
 export const SendMoreExtended: XdrCodec<SendMoreExtended> = xdrStruct<SendMoreExtended>([
   ['numMessages', Uint32],
   ['numBytes', Uint32],
-]);
+], 'SendMoreExtended');
 
 export interface Curve25519Public {
   readonly key: Uint8Array;
 }
 export const Curve25519Public: XdrCodec<Curve25519Public> = xdrStruct<Curve25519Public>([
   ['key', fixedOpaque(32)],
-]);
+], 'Curve25519Public');
 
 export interface AuthCert {
   readonly pubkey: Curve25519Public;
@@ -5051,7 +5161,7 @@ export const AuthCert: XdrCodec<AuthCert> = xdrStruct<AuthCert>([
   ['pubkey', Curve25519Public],
   ['expiration', Uint64],
   ['sig', Signature],
-]);
+], 'AuthCert');
 
 export interface Hello {
   readonly ledgerVersion: Uint32;
@@ -5074,7 +5184,7 @@ export const Hello: XdrCodec<Hello> = xdrStruct<Hello>([
   ['peerID', NodeID],
   ['cert', AuthCert],
   ['nonce', Uint256],
-]);
+], 'Hello');
 
 export const AUTH_MSG_FLAG_FLOW_CONTROL_BYTES_REQUESTED = 200;
 
@@ -5083,13 +5193,13 @@ export interface Auth {
 }
 export const Auth: XdrCodec<Auth> = xdrStruct<Auth>([
   ['flags', int32],
-]);
+], 'Auth');
 
 export type IPAddrType = 'IPv4' | 'IPv6';
 export const IPAddrType = xdrEnum({
   IPv4: 0,
   IPv6: 1,
-});
+}, 'IPAddrType');
 
 export type PeerAddressIp =
   | { readonly IPv4: Uint8Array }
@@ -5097,6 +5207,7 @@ export type PeerAddressIp =
 ;
 
 export const PeerAddressIp: XdrCodec<PeerAddressIp> = taggedUnion({
+  name: 'PeerAddressIp',
   switchOn: IPAddrType,
   arms: [
     { tags: ['IPv4'], codec: fixedOpaque(4) },
@@ -5113,7 +5224,7 @@ export const PeerAddress: XdrCodec<PeerAddress> = xdrStruct<PeerAddress>([
   ['ip', PeerAddressIp],
   ['port', Uint32],
   ['numFailures', Uint32],
-]);
+], 'PeerAddress');
 
 export type MessageType = 'ErrorMsg' | 'Auth' | 'DontHave' | 'Peers' | 'GetTxSet' | 'TxSet' | 'GeneralizedTxSet' | 'Transaction' | 'GetScpQuorumset' | 'ScpQuorumset' | 'ScpMessage' | 'GetScpState' | 'Hello' | 'SendMore' | 'SendMoreExtended' | 'FloodAdvert' | 'FloodDemand' | 'TimeSlicedSurveyRequest' | 'TimeSlicedSurveyResponse' | 'TimeSlicedSurveyStartCollecting' | 'TimeSlicedSurveyStopCollecting';
 export const MessageType = xdrEnum({
@@ -5138,7 +5249,7 @@ export const MessageType = xdrEnum({
   TimeSlicedSurveyResponse: 22,
   TimeSlicedSurveyStartCollecting: 23,
   TimeSlicedSurveyStopCollecting: 24,
-});
+}, 'MessageType');
 
 export interface DontHave {
   readonly type: MessageType;
@@ -5147,17 +5258,17 @@ export interface DontHave {
 export const DontHave: XdrCodec<DontHave> = xdrStruct<DontHave>([
   ['type', MessageType],
   ['reqHash', Uint256],
-]);
+], 'DontHave');
 
 export type SurveyMessageCommandType = 'TimeSlicedSurveyTopology';
 export const SurveyMessageCommandType = xdrEnum({
   TimeSlicedSurveyTopology: 1,
-});
+}, 'SurveyMessageCommandType');
 
 export type SurveyMessageResponseType = 'SurveyTopologyResponseV2';
 export const SurveyMessageResponseType = xdrEnum({
   SurveyTopologyResponseV2: 2,
-});
+}, 'SurveyMessageResponseType');
 
 export interface TimeSlicedSurveyStartCollectingMessage {
   readonly surveyorID: NodeID;
@@ -5168,7 +5279,7 @@ export const TimeSlicedSurveyStartCollectingMessage: XdrCodec<TimeSlicedSurveySt
   ['surveyorID', NodeID],
   ['nonce', Uint32],
   ['ledgerNum', Uint32],
-]);
+], 'TimeSlicedSurveyStartCollectingMessage');
 
 export interface SignedTimeSlicedSurveyStartCollectingMessage {
   readonly signature: Signature;
@@ -5177,7 +5288,7 @@ export interface SignedTimeSlicedSurveyStartCollectingMessage {
 export const SignedTimeSlicedSurveyStartCollectingMessage: XdrCodec<SignedTimeSlicedSurveyStartCollectingMessage> = xdrStruct<SignedTimeSlicedSurveyStartCollectingMessage>([
   ['signature', Signature],
   ['startCollecting', TimeSlicedSurveyStartCollectingMessage],
-]);
+], 'SignedTimeSlicedSurveyStartCollectingMessage');
 
 export interface TimeSlicedSurveyStopCollectingMessage {
   readonly surveyorID: NodeID;
@@ -5188,7 +5299,7 @@ export const TimeSlicedSurveyStopCollectingMessage: XdrCodec<TimeSlicedSurveySto
   ['surveyorID', NodeID],
   ['nonce', Uint32],
   ['ledgerNum', Uint32],
-]);
+], 'TimeSlicedSurveyStopCollectingMessage');
 
 export interface SignedTimeSlicedSurveyStopCollectingMessage {
   readonly signature: Signature;
@@ -5197,7 +5308,7 @@ export interface SignedTimeSlicedSurveyStopCollectingMessage {
 export const SignedTimeSlicedSurveyStopCollectingMessage: XdrCodec<SignedTimeSlicedSurveyStopCollectingMessage> = xdrStruct<SignedTimeSlicedSurveyStopCollectingMessage>([
   ['signature', Signature],
   ['stopCollecting', TimeSlicedSurveyStopCollectingMessage],
-]);
+], 'SignedTimeSlicedSurveyStopCollectingMessage');
 
 export interface SurveyRequestMessage {
   readonly surveyorPeerID: NodeID;
@@ -5212,7 +5323,7 @@ export const SurveyRequestMessage: XdrCodec<SurveyRequestMessage> = xdrStruct<Su
   ['ledgerNum', Uint32],
   ['encryptionKey', Curve25519Public],
   ['commandType', SurveyMessageCommandType],
-]);
+], 'SurveyRequestMessage');
 
 export interface TimeSlicedSurveyRequestMessage {
   readonly request: SurveyRequestMessage;
@@ -5225,7 +5336,7 @@ export const TimeSlicedSurveyRequestMessage: XdrCodec<TimeSlicedSurveyRequestMes
   ['nonce', Uint32],
   ['inboundPeersIndex', Uint32],
   ['outboundPeersIndex', Uint32],
-]);
+], 'TimeSlicedSurveyRequestMessage');
 
 export interface SignedTimeSlicedSurveyRequestMessage {
   readonly requestSignature: Signature;
@@ -5234,10 +5345,10 @@ export interface SignedTimeSlicedSurveyRequestMessage {
 export const SignedTimeSlicedSurveyRequestMessage: XdrCodec<SignedTimeSlicedSurveyRequestMessage> = xdrStruct<SignedTimeSlicedSurveyRequestMessage>([
   ['requestSignature', Signature],
   ['request', TimeSlicedSurveyRequestMessage],
-]);
+], 'SignedTimeSlicedSurveyRequestMessage');
 
 export type EncryptedBody = Uint8Array;
-export const EncryptedBody: XdrCodec<EncryptedBody> = varOpaque(64000);
+export const EncryptedBody: XdrCodec<EncryptedBody> = typedef('EncryptedBody', varOpaque(64000));
 
 export interface SurveyResponseMessage {
   readonly surveyorPeerID: NodeID;
@@ -5252,7 +5363,7 @@ export const SurveyResponseMessage: XdrCodec<SurveyResponseMessage> = xdrStruct<
   ['ledgerNum', Uint32],
   ['commandType', SurveyMessageCommandType],
   ['encryptedBody', EncryptedBody],
-]);
+], 'SurveyResponseMessage');
 
 export interface TimeSlicedSurveyResponseMessage {
   readonly response: SurveyResponseMessage;
@@ -5261,7 +5372,7 @@ export interface TimeSlicedSurveyResponseMessage {
 export const TimeSlicedSurveyResponseMessage: XdrCodec<TimeSlicedSurveyResponseMessage> = xdrStruct<TimeSlicedSurveyResponseMessage>([
   ['response', SurveyResponseMessage],
   ['nonce', Uint32],
-]);
+], 'TimeSlicedSurveyResponseMessage');
 
 export interface SignedTimeSlicedSurveyResponseMessage {
   readonly responseSignature: Signature;
@@ -5270,7 +5381,7 @@ export interface SignedTimeSlicedSurveyResponseMessage {
 export const SignedTimeSlicedSurveyResponseMessage: XdrCodec<SignedTimeSlicedSurveyResponseMessage> = xdrStruct<SignedTimeSlicedSurveyResponseMessage>([
   ['responseSignature', Signature],
   ['response', TimeSlicedSurveyResponseMessage],
-]);
+], 'SignedTimeSlicedSurveyResponseMessage');
 
 export interface PeerStats {
   readonly id: NodeID;
@@ -5305,7 +5416,7 @@ export const PeerStats: XdrCodec<PeerStats> = xdrStruct<PeerStats>([
   ['duplicateFloodMessageRecv', Uint64],
   ['uniqueFetchMessageRecv', Uint64],
   ['duplicateFetchMessageRecv', Uint64],
-]);
+], 'PeerStats');
 
 export interface TimeSlicedNodeData {
   readonly addedAuthenticatedPeers: Uint32;
@@ -5330,7 +5441,7 @@ export const TimeSlicedNodeData: XdrCodec<TimeSlicedNodeData> = xdrStruct<TimeSl
   ['isValidator', bool],
   ['maxInboundPeerCount', Uint32],
   ['maxOutboundPeerCount', Uint32],
-]);
+], 'TimeSlicedNodeData');
 
 export interface TimeSlicedPeerData {
   readonly peerStats: PeerStats;
@@ -5339,10 +5450,10 @@ export interface TimeSlicedPeerData {
 export const TimeSlicedPeerData: XdrCodec<TimeSlicedPeerData> = xdrStruct<TimeSlicedPeerData>([
   ['peerStats', PeerStats],
   ['averageLatencyMs', Uint32],
-]);
+], 'TimeSlicedPeerData');
 
 export type TimeSlicedPeerDataList = readonly TimeSlicedPeerData[];
-export const TimeSlicedPeerDataList: XdrCodec<TimeSlicedPeerDataList> = varArray(25, TimeSlicedPeerData);
+export const TimeSlicedPeerDataList: XdrCodec<TimeSlicedPeerDataList> = typedef('TimeSlicedPeerDataList', varArray(25, TimeSlicedPeerData));
 
 export interface TopologyResponseBodyV2 {
   readonly inboundPeers: TimeSlicedPeerDataList;
@@ -5353,13 +5464,14 @@ export const TopologyResponseBodyV2: XdrCodec<TopologyResponseBodyV2> = xdrStruc
   ['inboundPeers', TimeSlicedPeerDataList],
   ['outboundPeers', TimeSlicedPeerDataList],
   ['nodeData', TimeSlicedNodeData],
-]);
+], 'TopologyResponseBodyV2');
 
 export type SurveyResponseBody =
   | { readonly SurveyTopologyResponseV2: TopologyResponseBodyV2 }
 ;
 
 export const SurveyResponseBody: XdrCodec<SurveyResponseBody> = taggedUnion({
+  name: 'SurveyResponseBody',
   switchOn: SurveyMessageResponseType,
   arms: [
     { tags: ['SurveyTopologyResponseV2'], codec: TopologyResponseBodyV2 },
@@ -5369,26 +5481,26 @@ export const SurveyResponseBody: XdrCodec<SurveyResponseBody> = taggedUnion({
 export const TX_ADVERT_VECTOR_MAX_SIZE = 1000;
 
 export type TxAdvertVector = readonly Hash[];
-export const TxAdvertVector: XdrCodec<TxAdvertVector> = varArray(TX_ADVERT_VECTOR_MAX_SIZE, Hash);
+export const TxAdvertVector: XdrCodec<TxAdvertVector> = typedef('TxAdvertVector', varArray(TX_ADVERT_VECTOR_MAX_SIZE, Hash));
 
 export interface FloodAdvert {
   readonly txHashes: TxAdvertVector;
 }
 export const FloodAdvert: XdrCodec<FloodAdvert> = xdrStruct<FloodAdvert>([
   ['txHashes', TxAdvertVector],
-]);
+], 'FloodAdvert');
 
 export const TX_DEMAND_VECTOR_MAX_SIZE = 1000;
 
 export type TxDemandVector = readonly Hash[];
-export const TxDemandVector: XdrCodec<TxDemandVector> = varArray(TX_DEMAND_VECTOR_MAX_SIZE, Hash);
+export const TxDemandVector: XdrCodec<TxDemandVector> = typedef('TxDemandVector', varArray(TX_DEMAND_VECTOR_MAX_SIZE, Hash));
 
 export interface FloodDemand {
   readonly txHashes: TxDemandVector;
 }
 export const FloodDemand: XdrCodec<FloodDemand> = xdrStruct<FloodDemand>([
   ['txHashes', TxDemandVector],
-]);
+], 'FloodDemand');
 
 export type StellarMessage =
   | { readonly ErrorMsg: Error }
@@ -5415,6 +5527,7 @@ export type StellarMessage =
 ;
 
 export const StellarMessage: XdrCodec<StellarMessage> = taggedUnion({
+  name: 'StellarMessage',
   switchOn: MessageType,
   arms: [
     { tags: ['ErrorMsg'], codec: Error },
@@ -5446,7 +5559,7 @@ export interface HmacSha256Mac {
 }
 export const HmacSha256Mac: XdrCodec<HmacSha256Mac> = xdrStruct<HmacSha256Mac>([
   ['mac', fixedOpaque(32)],
-]);
+], 'HmacSha256Mac');
 
 export interface AuthenticatedMessageV0 {
   readonly sequence: Uint64;
@@ -5457,13 +5570,14 @@ export const AuthenticatedMessageV0: XdrCodec<AuthenticatedMessageV0> = xdrStruc
   ['sequence', Uint64],
   ['message', StellarMessage],
   ['mac', HmacSha256Mac],
-]);
+], 'AuthenticatedMessageV0');
 
 export type AuthenticatedMessage =
   | { readonly '0': AuthenticatedMessageV0 }
 ;
 
 export const AuthenticatedMessage: XdrCodec<AuthenticatedMessage> = taggedUnion({
+  name: 'AuthenticatedMessage',
   switchOn: Uint32,
   arms: [
     { tags: [0], codec: AuthenticatedMessageV0 },
@@ -5473,7 +5587,7 @@ export const AuthenticatedMessage: XdrCodec<AuthenticatedMessage> = taggedUnion(
 export const LIQUIDITY_POOL_FEE_V18 = 30;
 
 export type SorobanAuthorizationEntries = readonly SorobanAuthorizationEntry[];
-export const SorobanAuthorizationEntries: XdrCodec<SorobanAuthorizationEntries> = varArray(2147483647, SorobanAuthorizationEntry);
+export const SorobanAuthorizationEntries: XdrCodec<SorobanAuthorizationEntries> = typedef('SorobanAuthorizationEntries', varArray(2147483647, SorobanAuthorizationEntry));
 
 export interface HashIDPreimageOperationID {
   readonly sourceAccount: AccountID;
@@ -5484,7 +5598,7 @@ export const HashIDPreimageOperationID: XdrCodec<HashIDPreimageOperationID> = xd
   ['sourceAccount', AccountID],
   ['seqNum', SequenceNumber],
   ['opNum', Uint32],
-]);
+], 'HashIDPreimageOperationID');
 
 export interface HashIDPreimageRevokeID {
   readonly sourceAccount: AccountID;
@@ -5499,7 +5613,7 @@ export const HashIDPreimageRevokeID: XdrCodec<HashIDPreimageRevokeID> = xdrStruc
   ['opNum', Uint32],
   ['liquidityPoolID', PoolID],
   ['asset', Asset],
-]);
+], 'HashIDPreimageRevokeID');
 
 export interface HashIDPreimageContractID {
   readonly networkID: Hash;
@@ -5508,7 +5622,7 @@ export interface HashIDPreimageContractID {
 export const HashIDPreimageContractID: XdrCodec<HashIDPreimageContractID> = xdrStruct<HashIDPreimageContractID>([
   ['networkID', Hash],
   ['contractIDPreimage', ContractIDPreimage],
-]);
+], 'HashIDPreimageContractID');
 
 export interface HashIDPreimageSorobanAuthorization {
   readonly networkID: Hash;
@@ -5521,7 +5635,7 @@ export const HashIDPreimageSorobanAuthorization: XdrCodec<HashIDPreimageSorobanA
   ['nonce', Int64],
   ['signatureExpirationLedger', Uint32],
   ['invocation', lazy(() => SorobanAuthorizedInvocation)],
-]);
+], 'HashIDPreimageSorobanAuthorization');
 
 export type HashIDPreimage =
   | { readonly OpId: HashIDPreimageOperationID }
@@ -5531,6 +5645,7 @@ export type HashIDPreimage =
 ;
 
 export const HashIDPreimage: XdrCodec<HashIDPreimage> = taggedUnion({
+  name: 'HashIDPreimage',
   switchOn: EnvelopeType,
   arms: [
     { tags: ['OpId'], codec: HashIDPreimageOperationID },
@@ -5546,6 +5661,7 @@ export type TransactionSignaturePayloadTaggedTransaction =
 ;
 
 export const TransactionSignaturePayloadTaggedTransaction: XdrCodec<TransactionSignaturePayloadTaggedTransaction> = taggedUnion({
+  name: 'TransactionSignaturePayloadTaggedTransaction',
   switchOn: EnvelopeType,
   arms: [
     { tags: ['Tx'], codec: Transaction },
@@ -5560,35 +5676,35 @@ export interface TransactionSignaturePayload {
 export const TransactionSignaturePayload: XdrCodec<TransactionSignaturePayload> = xdrStruct<TransactionSignaturePayload>([
   ['networkId', Hash],
   ['taggedTransaction', TransactionSignaturePayloadTaggedTransaction],
-]);
+], 'TransactionSignaturePayload');
 
 export interface Curve25519Secret {
   readonly key: Uint8Array;
 }
 export const Curve25519Secret: XdrCodec<Curve25519Secret> = xdrStruct<Curve25519Secret>([
   ['key', fixedOpaque(32)],
-]);
+], 'Curve25519Secret');
 
 export interface HmacSha256Key {
   readonly key: Uint8Array;
 }
 export const HmacSha256Key: XdrCodec<HmacSha256Key> = xdrStruct<HmacSha256Key>([
   ['key', fixedOpaque(32)],
-]);
+], 'HmacSha256Key');
 
 export interface ShortHashSeed {
   readonly seed: Uint8Array;
 }
 export const ShortHashSeed: XdrCodec<ShortHashSeed> = xdrStruct<ShortHashSeed>([
   ['seed', fixedOpaque(16)],
-]);
+], 'ShortHashSeed');
 
 export type BinaryFuseFilterType = 'B8Bit' | 'B16Bit' | 'B32Bit';
 export const BinaryFuseFilterType = xdrEnum({
   B8Bit: 0,
   B16Bit: 1,
   B32Bit: 2,
-});
+}, 'BinaryFuseFilterType');
 
 export interface SerializedBinaryFuseFilter {
   readonly type: BinaryFuseFilterType;
@@ -5611,5 +5727,5 @@ export const SerializedBinaryFuseFilter: XdrCodec<SerializedBinaryFuseFilter> =
   ['segmentCountLength', Uint32],
   ['fingerprintLength', Uint32],
   ['fingerprints', varOpaque(2147483647)],
-]);
+], 'SerializedBinaryFuseFilter');
 
@@ -1 +1 @@
-export * from './stellar_generated.js';
+export * from './curr/index.js';
@@ -219,7 +219,8 @@ module Xdrgen
         @out.puts "  xdrStruct,"
         @out.puts "  xdrEnum,"
         @out.puts "  taggedUnion,"
-        @out.puts "} from '../src/index.js';"
+        @out.puts "  typedef,"
+        @out.puts "} from '../../src/index.js';"
         @out.puts ""
       end
 
@@ -242,7 +243,7 @@ module Xdrgen
         codec = codec_ref(typedef.declaration)
 
         @out.puts "export type #{ts} = #{ts_type};"
-        @out.puts "export const #{ts}: XdrCodec<#{ts}> = #{codec};"
+        @out.puts "export const #{ts}: XdrCodec<#{ts}> = typedef('#{ts}', #{codec});"
         @out.puts ""
       end
 
@@ -265,7 +266,7 @@ module Xdrgen
         members.each_with_index do |m, i|
           @out.puts "  #{ts_names[i]}: #{m.value},"
         end
-        @out.puts "});"
+        @out.puts "}, '#{ts}');"
         @out.puts ""
       end
 
@@ -292,7 +293,7 @@ module Xdrgen
           codec = codec_ref(m.declaration)
           @out.puts "  ['#{field}', #{codec}],"
         end
-        @out.puts "]);"
+        @out.puts "], '#{ts}');"
         @out.puts ""
       end
 
@@ -354,6 +355,7 @@ module Xdrgen
         end
 
         @out.puts "export const #{ts}: XdrCodec<#{ts}> = taggedUnion({"
+        @out.puts "  name: '#{ts}',"
         @out.puts "  switchOn: #{switch_codec},"
         @out.puts "  arms: ["
 
@@ -0,0 +1,345 @@
+/**
+ * Seeded random values for any codec, for property-based tests and fuzzing.
+ *
+ *   const envelopes = arbitrary(TransactionEnvelope, { seed: 42, edgeCases: true });
+ *   for (const envelope of envelopes.take(1000)) {
+ *     const bytes = TransactionEnvelope.toXdr(envelope);
+ *     expect(TransactionEnvelope.fromXdr(bytes)).toEqual(envelope);
+ *   }
+ *
+ * Values follow the codec's schema: lengths stay within their maxima, enums
+ * take declared members and unions take declared (or default) arms, so every
+ * generated value encodes. The same seed always yields the same sequence.
+ */
+import { type XdrCodec } from './codec.js';
+import { type XdrSchema, type XdrSchemaOf, resolveSchema } from './schema.js';
+
+export interface ArbitraryOptions {
+  /** Seed of the built-in PRNG. Default 0. */
+  seed?: number;
+  /** Replaces the built-in PRNG; must return numbers in [0, 1). */
+  random?: () => number;
+  /**
+   * Maximum nesting of structs and unions. Recursive types (SCVal) stop
+   * growing there; deeper required fields are still filled minimally.
+   * Default 10.
+   */
+  depth?: number;
+  /** Soft cap on the number of structs and unions in one value. Default 200. */
+  size?: number;
+  /**
+   * Longest generated array. Opaque data and strings are bounded by the same
+   * value unless edge cases fill them to their maximum. Type maxima always
+   * apply. Default 8.
+   */
+  maxLength?: number;
+  /**
+   * Mixes in boundary values: integer extremes, empty and full-length
+   * arrays, opaque data and strings, absent options, full-length asset codes
+   * and strings with escaped bytes. Default false.
+   */
+  edgeCases?: boolean;
+}
+
+export interface XdrArbitrary<T> {
+  readonly codec: XdrCodec<T>;
+  /** Generates the next value. */
+  next(): T;
+  /** Generates `count` values. */
+  take(count: number): T[];
+}
+
+const EDGE_RATE = 0.2;
+/** Longest opaque data or string filled to its maximum as an edge case. */
+const MAX_EDGE_BYTES = 256;
+
+const INT32_MIN = -(2 ** 31);
+const INT32_MAX = 2 ** 31 - 1;
+const UINT32_MAX = 2 ** 32 - 1;
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+const UINT64_MAX = 2n ** 64n - 1n;
+const FLOAT32_MAX = 3.4028234663852886e38;
+const FLOAT32_MIN = 1.401298464324817e-45;
+
+const ALPHANUMERIC = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+/** Printable ASCII plus bytes that SEP-0051 JSON escapes. */
+const EDGE_CHARS = '\0\t\n\r\\\x7f\xff';
+
+/**
+ * Creates a generator of random values for `codec`. Throws `TypeError` for
+ * invalid options.
+ */
+export function arbitrary<T>(
+  codec: XdrCodec<T>,
+  options: ArbitraryOptions = {},
+): XdrArbitrary<T> {
+  const depth = options.depth ?? 10;
+  const size = options.size ?? 200;
+  const maxLength = options.maxLength ?? 8;
+  if (!Number.isInteger(depth) || depth < 0) {
+    throw new TypeError(`depth must be a non-negative integer, got ${depth}`);
+  }
+  if (!Number.isInteger(maxLength) || maxLength < 0) {
+    throw new TypeError(`maxLength must be a non-negative integer, got ${maxLength}`);
+  }
+  const generator = new Generator(
+    options.random ?? mulberry32(options.seed ?? 0),
+    maxLength,
+    options.edgeCases ?? false,
+  );
+  return {
+    codec,
+    next(): T {
+      generator.nodes = size;
+      return generator.value(codec, depth) as T;
+    },
+    take(count: number): T[] {
+      const values: T[] = [];
+      for (let i = 0; i < count; i++) values.push(this.next());
+      return values;
+    },
+  };
+}
+
+/** Small, fast 32-bit PRNG; good enough for test data, not for keys. */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fewest nested structs and unions a value of each schema needs, or
+ * Infinity while a recursive type is being measured. Shared by all
+ * generators: it depends on the schema alone.
+ */
+const minDepths = new WeakMap<XdrSchema, number>();
+
+function minDepth(codec: XdrCodec<any> | undefined): number {
+  if (codec === undefined) return 0;
+  const schema = codec.schema;
+  const known = minDepths.get(schema);
+  if (known !== undefined) return known;
+  minDepths.set(schema, Infinity);
+  let result: number;
+  switch (schema.kind) {
+    case 'typedef':
+      result = minDepth(schema.codec);
+      break;
+    case 'fixedArray':
+      result = schema.length === 0 ? 0 : minDepth(schema.codec);
+      break;
+    case 'struct':
+      result = 1 + Math.max(0, ...schema.fields.map((field) => minDepth(field.codec)));
+      break;
+    case 'union': {
+      const arms = schema.arms.map((arm) => minDepth(arm.codec));
+      if (schema.defaultArm !== undefined) arms.push(minDepth(schema.defaultArm.codec));
+      result = 1 + Math.min(...arms);
+      break;
+    }
+    default:
+      // Options and variable arrays can always be empty
+      result = 0;
+  }
+  minDepths.set(schema, result);
+  return result;
+}
+
+interface ArmChoice {
+  readonly key: string;
+  readonly codec?: XdrCodec<any>;
+}
+
+class Generator {
+  /** Structs and unions left in the current value's `size` budget. */
+  nodes = 0;
+
+  constructor(
+    private readonly random: () => number,
+    private readonly maxLength: number,
+    private readonly edgeCases: boolean,
+  ) {}
+
+  /** `budget` is the struct/union nesting still allowed. */
+  value(codec: XdrCodec<any>, budget: number, name?: string): unknown {
+    const schema = codec.schema;
+    switch (schema.kind) {
+      case 'typedef':
+        return this.value(schema.codec, budget, name ?? schema.name);
+      case 'void':
+        return undefined;
+      case 'bool':
+        return this.random() < 0.5;
+      case 'int32':
+        return this.edge()
+          ? this.pick([0, -1, INT32_MIN, INT32_MAX])
+          : this.int(INT32_MIN, INT32_MAX);
+      case 'uint32':
+        return this.edge() ? this.pick([0, 1, UINT32_MAX]) : this.int(0, UINT32_MAX);
+      case 'int64':
+        return this.edge()
+          ? this.pick([0n, -1n, INT64_MIN, INT64_MAX])
+          : BigInt.asIntN(64, this.bigint());
+      case 'uint64':
+        return this.edge() ? this.pick([0n, 1n, UINT64_MAX]) : this.bigint();
+      case 'float32':
+        return this.edge()
+          ? this.pick([0, FLOAT32_MIN, FLOAT32_MAX, -FLOAT32_MAX])
+          : Math.fround((this.random() - 0.5) * 2e6);
+      case 'float64':
+        return this.edge()
+          ? this.pick([0, Number.MIN_VALUE, Number.MAX_VALUE, -Number.MAX_VALUE])
+          : (this.random() - 0.5) * 2e12;
+      case 'enum':
+        return this.pick(Object.keys(schema.members));
+
+      case 'fixedOpaque':
+        if (name === 'AssetCode4' || name === 'AssetCode12') {
+          return this.assetCode(schema.length, name === 'AssetCode4' ? 1 : 5);
+        }
+        return this.bytes(schema.length);
+      case 'varOpaque':
+        return this.bytes(this.byteLength(schema.maxLength));
+      case 'string':
+        return this.string(this.byteLength(schema.maxLength));
+
+      case 'fixedArray':
+      case 'varArray': {
+        const element = schema.codec;
+        let length: number;
+        if (schema.kind === 'fixedArray') {
+          length = schema.length;
+        } else if (!this.canGrow(element, budget)) {
+          length = 0;
+        } else {
+          const max = Math.min(schema.maxLength, this.maxLength);
+          length = this.edge() ? this.pick([0, max]) : this.int(0, max);
+        }
+        const items: unknown[] = [];
+        for (let i = 0; i < length; i++) items.push(this.value(element, budget));
+        return items;
+      }
+
+      case 'option':
+        if (!this.canGrow(schema.codec, budget) || this.edge() || this.random() < 0.5) {
+          return null;
+        }
+        return this.value(schema.codec, budget);
+
+      case 'struct': {
+        this.nodes--;
+        const result: Record<string, unknown> = {};
+        for (const field of schema.fields) {
+          result[field.name] = this.value(field.codec, budget - 1);
+        }
+        return result;
+      }
+
+      case 'union': {
+        this.nodes--;
+        const arm = this.arm(schema, budget - 1);
+        return arm.codec === undefined
+          ? arm.key
+          : { [arm.key]: this.value(arm.codec, budget - 1) };
+      }
+    }
+  }
+
+  /** Whether an optional or repeated value fits in the remaining budget. */
+  private canGrow(codec: XdrCodec<any>, budget: number): boolean {
+    const needed = minDepth(codec);
+    return needed === 0 || (this.nodes > 0 && needed <= budget);
+  }
+
+  /**
+   * A random arm that fits in `budget`, or the shallowest arms when none
+   * does (the budget is exceeded only as far as the type requires).
+   */
+  private arm(schema: XdrSchemaOf<'union'>, budget: number): ArmChoice {
+    const choices = new Map<string, ArmChoice>();
+    for (const arm of schema.arms) choices.set(arm.key, arm);
+    if (schema.defaultArm !== undefined) {
+      const key = this.defaultKey(schema);
+      if (key !== undefined) choices.set(key, { key, codec: schema.defaultArm.codec });
+    }
+    const all = [...choices.values()];
+    const limit = this.nodes > 0 ? budget : 0;
+    const fitting = all.filter((arm) => minDepth(arm.codec) <= limit);
+    if (fitting.length > 0) return this.pick(fitting);
+    const shallowest = Math.min(...all.map((arm) => minDepth(arm.codec)));
+    return this.pick(all.filter((arm) => minDepth(arm.codec) === shallowest));
+  }
+
+  /** A discriminant no declared arm covers, as its value key. */
+  private defaultKey(schema: XdrSchemaOf<'union'>): string | undefined {
+    const tags = new Set(schema.arms.map((arm) => arm.tag));
+    const switchOn = resolveSchema(schema.switchOn);
+    if (switchOn.kind === 'enum') {
+      const free = Object.keys(switchOn.members).filter((member) => !tags.has(member));
+      return free.length > 0 ? this.pick(free) : undefined;
+    }
+    const [min, max] = switchOn.kind === 'uint32' ? [0, UINT32_MAX] : [INT32_MIN, INT32_MAX];
+    for (;;) {
+      const tag = this.random() < 0.5 ? this.int(0, 16) : this.int(min, max);
+      if (!tags.has(tag)) return String(tag);
+    }
+  }
+
+  private edge(): boolean {
+    return this.edgeCases && this.random() < EDGE_RATE;
+  }
+
+  /** Uniform integer in [min, max]. */
+  private int(min: number, max: number): number {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  /** Uniform unsigned 64-bit integer. */
+  private bigint(): bigint {
+    return (BigInt(this.int(0, UINT32_MAX)) << 32n) | BigInt(this.int(0, UINT32_MAX));
+  }
+
+  private pick<V>(values: readonly V[]): V {
+    return values[Math.floor(this.random() * values.length)]!;
+  }
+
+  private byteLength(max: number | undefined): number {
+    const limit = max ?? Infinity;
+    if (this.edge()) return this.pick([0, Math.min(limit, MAX_EDGE_BYTES)]);
+    return this.int(0, Math.min(limit, this.maxLength));
+  }
+
+  private bytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i++) bytes[i] = this.int(0, 255);
+    return bytes;
+  }
+
+  /** Printable ASCII, with escaped bytes mixed in as an edge case. */
+  private string(length: number): string {
+    const escapes = this.edge();
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      result +=
+        escapes && this.random() < 0.3
+          ? this.pick([...EDGE_CHARS])
+          : String.fromCharCode(this.int(0x20, 0x7e));
+    }
+    return result;
+  }
+
+  /** Upper-case alphanumeric, NUL-padded; full length as an edge case. */
+  private assetCode(size: number, minLength: number): Uint8Array {
+    const length = this.edge() ? size : this.int(minLength, size);
+    const code = new Uint8Array(size);
+    for (let i = 0; i < length; i++) code[i] = this.pick([...ALPHANUMERIC]).charCodeAt(0);
+    return code;
+  }
+}
@@ -2,38 +2,127 @@ import { type Limits } from './limits.js';
 import { XdrReader } from './reader.js';
 import { XdrWriter } from './writer.js';
 import { encodeBase64, decodeBase64 } from './base64.js';
+import {
+  annotateError,
+  type XdrPathSegment,
+  type XdrViolation,
+} from './errors.js';
+import { type XdrSchema } from './schema.js';
+import { type JsonSchema } from './json-schema.js';
+import { XdrHasher } from './compare.js';
 
 export interface XdrCodec<T> {
+  /** Runtime descriptor of the XDR type this codec handles. */
+  readonly schema: XdrSchema;
   encode(writer: XdrWriter, value: T): void;
   decode(reader: XdrReader): T;
+  /**
+   * Advances the reader past one encoded value without materializing it.
+   * Checks the same lengths, padding and discriminants as `decode`.
+   */
+  skip(reader: XdrReader): void;
+  /** Exact length in bytes of the value's XDR encoding, computed without writing. */
+  encodedSize(value: T): number;
   toXdr(value: T, limits?: Limits): Uint8Array;
   fromXdr(input: Uint8Array | ArrayBufferLike, limits?: Limits): T;
+  /**
+   * Checks that a value has the shape and ranges this codec can encode,
+   * returning every violation found (empty when valid). Nothing is encoded.
+   */
+  validate(value: unknown): XdrViolation[];
+  /** Appends violations for a value located at `path` (used by composites). */
+  collectViolations(
+    value: unknown,
+    path: XdrPathSegment[],
+    violations: XdrViolation[],
+  ): void;
+  /** Deep equality: true when both values have the same XDR encoding. */
+  equals(a: T, b: T): boolean;
+  /**
+   * Orders values by their XDR encoding (byte-wise), returning a negative
+   * number, zero or a positive number. Usable directly as a sort comparator.
+   */
+  compare(a: T, b: T): number;
+  /**
+   * Stable 32-bit hash (FNV-1a of the XDR encoding), consistent with
+   * `equals`. Suitable for hash-based collections such as `XdrMap`.
+   */
+  hash(value: T): number;
+  /** Feeds a value's encoding into a running hash (used by composites). */
+  hashInto(hasher: XdrHasher, value: T): void;
   toBase64(value: T, limits?: Limits): string;
   fromBase64(input: string, limits?: Limits): T;
   toJsonValue(value: T): unknown;
   fromJsonValue(json: unknown): T;
+  /**
+   * JSON Schema of `toJsonValue` output, for codecs whose JSON form is not
+   * implied by `schema` (set through `jsonAs`). Undefined otherwise.
+   */
+  readonly jsonSchema?: JsonSchema;
   toJson(value: T): string;
   fromJson(input: string): T;
 }
 
 export abstract class BaseCodec<T> implements XdrCodec<T> {
+  abstract readonly schema: XdrSchema;
   abstract encode(writer: XdrWriter, value: T): void;
   abstract decode(reader: XdrReader): T;
+  abstract skip(reader: XdrReader): void;
+  abstract encodedSize(value: T): number;
+  abstract collectViolations(
+    value: unknown,
+    path: XdrPathSegment[],
+    violations: XdrViolation[],
+  ): void;
+  abstract equals(a: T, b: T): boolean;
+  abstract compare(a: T, b: T): number;
+  abstract hashInto(hasher: XdrHasher, value: T): void;
 
   toXdr(value: T, limits?: Limits): Uint8Array {
-    const writer = new XdrWriter(undefined, limits);
-    this.encode(writer, value);
+    let size: number | undefined;
+    try {
+      size = this.encodedSize(value);
+    } catch {
+      // Malformed value: let encode report it with its path
+    }
+    const writer = new XdrWriter(size, limits);
+    try {
+      this.encode(writer, value);
+    } catch (err) {
+      throw annotateError(err, undefined, writer.offset);
+    }
     return writer.toUint8Array();
   }
 
   fromXdr(input: Uint8Array | ArrayBufferLike, limits?: Limits): T {
     const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
     const reader = new XdrReader(bytes, limits);
-    const result = this.decode(reader);
-    reader.ensureEnd();
+    let result: T;
+    try {
+      result = this.decode(reader);
+    } catch (err) {
+      throw annotateError(err, undefined, 0);
+    }
+    try {
+      reader.ensureEnd();
+    } catch (err) {
+      throw annotateError(err, undefined, reader.offset);
+    }
     return result;
   }
 
+  validate(value: unknown): XdrViolation[] {
+    const violations: XdrViolation[] = [];
+    this.collectViolations(value, [], violations);
+    return violations;
+  }
+
+  hash(value: T): number {
+    const hasher = new XdrHasher();
+    this.hashInto(hasher, value);
+    return hasher.digest();
+  }
+
   toBase64(value: T, limits?: Limits): string {
     return encodeBase64(this.toXdr(value, limits));
   }
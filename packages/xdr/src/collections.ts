@@ -0,0 +1,140 @@
+/**
+ * Hash-based collections keyed by XDR value rather than object identity.
+ *
+ * Entries are bucketed by `codec.hash` and matched by `codec.equals`, so two
+ * separately decoded LedgerKeys (or Assets, ScVals, ...) address the same
+ * entry. Iteration follows insertion order, like `Map` and `Set`.
+ */
+import { type XdrCodec } from './codec.js';
+
+export class XdrMap<K, V> {
+  private readonly buckets = new Map<number, [K, V][]>();
+  private readonly entryOrder = new Set<[K, V]>();
+
+  constructor(
+    readonly codec: XdrCodec<K>,
+    entries?: Iterable<readonly [K, V]>,
+  ) {
+    if (entries !== undefined) {
+      for (const [key, value] of entries) this.set(key, value);
+    }
+  }
+
+  get size(): number {
+    return this.entryOrder.size;
+  }
+
+  has(key: K): boolean {
+    return this.find(key) !== undefined;
+  }
+
+  get(key: K): V | undefined {
+    return this.find(key)?.[1];
+  }
+
+  set(key: K, value: V): this {
+    const existing = this.find(key);
+    if (existing !== undefined) {
+      existing[1] = value;
+      return this;
+    }
+    const entry: [K, V] = [key, value];
+    const hash = this.codec.hash(key);
+    const bucket = this.buckets.get(hash);
+    if (bucket === undefined) this.buckets.set(hash, [entry]);
+    else bucket.push(entry);
+    this.entryOrder.add(entry);
+    return this;
+  }
+
+  delete(key: K): boolean {
+    const hash = this.codec.hash(key);
+    const bucket = this.buckets.get(hash);
+    if (bucket === undefined) return false;
+    const index = bucket.findIndex(([k]) => this.codec.equals(k, key));
+    if (index === -1) return false;
+    this.entryOrder.delete(bucket[index]!);
+    if (bucket.length === 1) this.buckets.delete(hash);
+    else bucket.splice(index, 1);
+    return true;
+  }
+
+  clear(): void {
+    this.buckets.clear();
+    this.entryOrder.clear();
+  }
+
+  *entries(): IterableIterator<[K, V]> {
+    for (const [key, value] of this.entryOrder) yield [key, value];
+  }
+
+  *keys(): IterableIterator<K> {
+    for (const [key] of this.entryOrder) yield key;
+  }
+
+  *values(): IterableIterator<V> {
+    for (const [, value] of this.entryOrder) yield value;
+  }
+
+  forEach(callback: (value: V, key: K, map: this) => void): void {
+    for (const [key, value] of this.entryOrder) callback(value, key, this);
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+
+  private find(key: K): [K, V] | undefined {
+    const bucket = this.buckets.get(this.codec.hash(key));
+    return bucket?.find(([k]) => this.codec.equals(k, key));
+  }
+}
+
+export class XdrSet<T> {
+  private readonly map: XdrMap<T, T>;
+
+  constructor(codec: XdrCodec<T>, values?: Iterable<T>) {
+    this.map = new XdrMap(codec);
+    if (values !== undefined) {
+      for (const value of values) this.add(value);
+    }
+  }
+
+  get codec(): XdrCodec<T> {
+    return this.map.codec;
+  }
+
+  get size(): number {
+    return this.map.size;
+  }
+
+  has(value: T): boolean {
+    return this.map.has(value);
+  }
+
+  /** Adds a value; an equal value already present is kept. */
+  add(value: T): this {
+    if (!this.map.has(value)) this.map.set(value, value);
+    return this;
+  }
+
+  delete(value: T): boolean {
+    return this.map.delete(value);
+  }
+
+  clear(): void {
+    this.map.clear();
+  }
+
+  values(): IterableIterator<T> {
+    return this.map.keys();
+  }
+
+  forEach(callback: (value: T, set: this) => void): void {
+    for (const value of this.map.keys()) callback(value, this);
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.map.keys();
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Helpers for the `equals`/`compare`/`hash` codec methods.
+ *
+ * `compare` orders values by their XDR encoding, byte by byte. Because every
+ * XDR encoding is self-delimiting, that order can be computed field by field
+ * without serializing: integers compare by their big-endian bit patterns,
+ * variable-length data by length prefix first, unions by discriminant first.
+ */
+
+const scratch = new DataView(new ArrayBuffer(8));
+
+/** Three-way comparison of two numbers or bigints. */
+export function cmp(a: number | bigint, b: number | bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Byte order of two int32 values: their unsigned bit patterns. */
+export function cmpInt32(a: number, b: number): number {
+  return cmp(a >>> 0, b >>> 0);
+}
+
+/** Byte order of two int64 values: their unsigned bit patterns. */
+export function cmpInt64(a: bigint, b: bigint): number {
+  return cmp(BigInt.asUintN(64, a), BigInt.asUintN(64, b));
+}
+
+export function float32Bits(value: number): number {
+  scratch.setFloat32(0, value);
+  return scratch.getUint32(0);
+}
+
+export function float64Bits(value: number): bigint {
+  scratch.setFloat64(0, value);
+  return scratch.getBigUint64(0);
+}
+
+/** Lexicographic comparison of byte arrays; a proper prefix sorts first. */
+export function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    if (a[i] !== b[i]) return a[i]! < b[i]! ? -1 : 1;
+  }
+  return cmp(a.length, b.length);
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/** Latin1 byte order of two XDR strings, as written by `XdrWriter`. */
+export function compareStringBytes(a: string, b: string): number {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    const x = a.charCodeAt(i) & 0xff;
+    const y = b.charCodeAt(i) & 0xff;
+    if (x !== y) return x < y ? -1 : 1;
+  }
+  return cmp(a.length, b.length);
+}
+
+/**
+ * Incremental 32-bit FNV-1a hash over the XDR encoding of a value. Codecs
+ * feed it the same bytes `XdrWriter` would write, so the result is stable
+ * across processes and equals the FNV-1a hash of `codec.toXdr(value)`.
+ */
+export class XdrHasher {
+  private state: number = 0x811c9dc5;
+
+  writeInt32(value: number): void {
+    this.writeUint32(value >>> 0);
+  }
+
+  writeUint32(value: number): void {
+    this.byte(value >>> 24);
+    this.byte(value >>> 16);
+    this.byte(value >>> 8);
+    this.byte(value);
+  }
+
+  writeInt64(value: bigint): void {
+    this.writeUint64(BigInt.asUintN(64, value));
+  }
+
+  writeUint64(value: bigint): void {
+    this.writeUint32(Number(value >> 32n) >>> 0);
+    this.writeUint32(Number(value & 0xffffffffn) >>> 0);
+  }
+
+  writeFloat32(value: number): void {
+    this.writeUint32(float32Bits(value));
+  }
+
+  writeFloat64(value: number): void {
+    this.writeUint64(float64Bits(value));
+  }
+
+  writeBool(value: boolean): void {
+    this.writeUint32(value ? 1 : 0);
+  }
+
+  writeFixedOpaque(data: Uint8Array): void {
+    for (let i = 0; i < data.length; i++) this.byte(data[i]!);
+    this.padding(data.length);
+  }
+
+  writeVarOpaque(data: Uint8Array): void {
+    this.writeUint32(data.length);
+    this.writeFixedOpaque(data);
+  }
+
+  writeString(value: string): void {
+    this.writeUint32(value.length);
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+    this.padding(value.length);
+  }
+
+  digest(): number {
+    return this.state >>> 0;
+  }
+
+  private padding(length: number): void {
+    const remainder = length % 4;
+    if (remainder === 0) return;
+    for (let i = remainder; i < 4; i++) this.byte(0);
+  }
+
+  private byte(b: number): void {
+    this.state = Math.imul(this.state ^ (b & 0xff), 0x01000193);
+  }
+}
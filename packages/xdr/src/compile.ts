@@ -0,0 +1,466 @@
+/**
+ * Opt-in compilation of codecs into specialized encode/decode functions.
+ *
+ * `compile(codec)` walks the codec's schema once and generates straight-line
+ * JavaScript (via `new Function`) for every struct, union, enum, array and
+ * option it reaches: fields are read into locals instead of looping over a
+ * field list, depth is tracked with `enter`/`exit` instead of `withDepth`
+ * callbacks, and enum-switched unions dispatch on the raw discriminant.
+ *
+ * The compiled codec produces the same values and bytes, enforces the same
+ * limits and throws the same errors (with the same paths) as the original.
+ * Everything other than binary encode/decode — JSON, validation, skip,
+ * compare — is delegated to the original codec. Environments that forbid
+ * `new Function` (strict CSP) cannot use it.
+ */
+import { BaseCodec, type XdrCodec } from './codec.js';
+import {
+  XdrError,
+  XdrErrorCode,
+  annotateError,
+  type XdrPathSegment,
+  type XdrViolation,
+} from './errors.js';
+import { XdrReader } from './reader.js';
+import { XdrWriter } from './writer.js';
+import { type XdrSchema } from './schema.js';
+import { XdrHasher } from './compare.js';
+import { parseTag } from './composites.js';
+
+interface CompiledFunctions {
+  decode(reader: XdrReader): any;
+  encode(writer: XdrWriter, value: any): void;
+}
+
+const compiledCodecs = new WeakMap<XdrCodec<any>, XdrCodec<any>>();
+
+/**
+ * Returns a codec equivalent to `codec` whose encode/decode are generated,
+ * specialized functions. Results are cached per codec.
+ *
+ *   const FastLedgerCloseMeta = compile(LedgerCloseMeta);
+ *   FastLedgerCloseMeta.fromXdr(bytes);
+ */
+export function compile<T>(codec: XdrCodec<T>): XdrCodec<T> {
+  let compiled = compiledCodecs.get(codec);
+  if (compiled === undefined) {
+    compiled = compiledCodec(codec, new Compiler().compile(codec));
+    compiledCodecs.set(codec, compiled);
+  }
+  return compiled as XdrCodec<T>;
+}
+
+function compiledCodec<T>(
+  codec: XdrCodec<T>,
+  fns: CompiledFunctions,
+): XdrCodec<T> {
+  return new (class extends BaseCodec<T> {
+    readonly jsonSchema = codec.jsonSchema;
+    get schema(): XdrSchema {
+      return codec.schema;
+    }
+    encode(writer: XdrWriter, value: T): void {
+      fns.encode(writer, value);
+    }
+    decode(reader: XdrReader): T {
+      return fns.decode(reader);
+    }
+    skip(reader: XdrReader): void {
+      codec.skip(reader);
+    }
+    encodedSize(value: T): number {
+      return codec.encodedSize(value);
+    }
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      codec.collectViolations(value, path, violations);
+    }
+    equals(a: T, b: T): boolean {
+      return codec.equals(a, b);
+    }
+    compare(a: T, b: T): number {
+      return codec.compare(a, b);
+    }
+    hashInto(hasher: XdrHasher, value: T): void {
+      codec.hashInto(hasher, value);
+    }
+    toJsonValue(value: T): unknown {
+      return codec.toJsonValue(value);
+    }
+    fromJsonValue(json: unknown): T {
+      return codec.fromJsonValue(json);
+    }
+  })();
+}
+
+/** A JavaScript literal for a string, number or undefined. */
+function lit(value: string | number | undefined): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+/**
+ * Generates one `d<id>(r)` / `e<id>(w, v)` function pair per composite type.
+ * Types are identified by schema object, which `lazy` and `jsonAs` share with
+ * their target, so recursive types compile to recursive functions.
+ */
+class Compiler {
+  private readonly ids = new Map<XdrSchema, number>();
+  private readonly functions: string[] = [];
+  private readonly constants: unknown[] = [];
+
+  compile(codec: XdrCodec<any>): CompiledFunctions {
+    const decode = this.decodeExpr(codec);
+    const encode = this.encodeStmt(codec, 'v');
+    const source = [
+      '"use strict";',
+      ...this.functions,
+      `return { decode: function (r) { return ${decode}; }, ` +
+        `encode: function (w, v) { ${encode} } };`,
+    ].join('\n');
+    const factory = new Function(
+      'K',
+      'XdrError',
+      'Code',
+      'A',
+      'P',
+      source,
+    ) as (...args: unknown[]) => CompiledFunctions;
+    return factory(this.constants, XdrError, XdrErrorCode, annotateError, parseTag);
+  }
+
+  private constant(value: unknown): string {
+    this.constants.push(value);
+    return `K[${this.constants.length - 1}]`;
+  }
+
+  /** An expression reading one value from `r`. */
+  private decodeExpr(codec: XdrCodec<any>): string {
+    const schema = codec.schema;
+    switch (schema.kind) {
+      case 'typedef':
+        return this.decodeExpr(schema.codec);
+      case 'int32':
+        return 'r.readInt32()';
+      case 'uint32':
+        return 'r.readUint32()';
+      case 'int64':
+        return 'r.readInt64()';
+      case 'uint64':
+        return 'r.readUint64()';
+      case 'float32':
+        return 'r.readFloat32()';
+      case 'float64':
+        return 'r.readFloat64()';
+      case 'bool':
+        return 'r.readBool()';
+      case 'void':
+        return 'undefined';
+      case 'fixedOpaque':
+        return `r.readFixedOpaque(${schema.length})`;
+      case 'varOpaque':
+        return `r.readVarOpaque(${lit(schema.maxLength)})`;
+      case 'string':
+        return `r.readString(${lit(schema.maxLength)})`;
+      default:
+        return `d${this.functionsFor(codec)}(r)`;
+    }
+  }
+
+  /** A statement writing the value of expression `value` to `w`. */
+  private encodeStmt(codec: XdrCodec<any>, value: string): string {
+    const schema = codec.schema;
+    switch (schema.kind) {
+      case 'typedef':
+        return this.encodeStmt(schema.codec, value);
+      case 'int32':
+        return `w.writeInt32(${value});`;
+      case 'uint32':
+        return `w.writeUint32(${value});`;
+      case 'int64':
+        return `w.writeInt64(${value});`;
+      case 'uint64':
+        return `w.writeUint64(${value});`;
+      case 'float32':
+        return `w.writeFloat32(${value});`;
+      case 'float64':
+        return `w.writeFloat64(${value});`;
+      case 'bool':
+        return `w.writeBool(${value});`;
+      case 'void':
+        return '';
+      case 'fixedOpaque':
+        return `w.writeFixedOpaque(${value}, ${schema.length});`;
+      case 'varOpaque':
+        return `w.writeVarOpaque(${value}, ${lit(schema.maxLength)});`;
+      case 'string':
+        return `w.writeString(${value}, ${lit(schema.maxLength)});`;
+      default:
+        return `e${this.functionsFor(codec)}(w, ${value});`;
+    }
+  }
+
+  private functionsFor(codec: XdrCodec<any>): number {
+    const schema = codec.schema;
+    const existing = this.ids.get(schema);
+    if (existing !== undefined) return existing;
+    const id = this.ids.size;
+    // Registered before generating the body so recursion finds it
+    this.ids.set(schema, id);
+    switch (schema.kind) {
+      case 'struct':
+        this.struct(id, schema);
+        break;
+      case 'enum':
+        this.enumeration(id, schema);
+        break;
+      case 'fixedArray':
+      case 'varArray':
+        this.array(id, schema);
+        break;
+      case 'option':
+        this.option(id, schema);
+        break;
+      case 'union':
+        this.union(id, codec, schema);
+        break;
+      default:
+        this.delegate(id, codec);
+    }
+    return id;
+  }
+
+  /** Calls the original codec (for shapes not worth specializing). */
+  private delegate(id: number, codec: XdrCodec<any>): void {
+    const c = this.constant(codec);
+    this.functions.push(
+      `function d${id}(r) { return ${c}.decode(r); }`,
+      `function e${id}(w, v) { ${c}.encode(w, v); }`,
+    );
+  }
+
+  private struct(id: number, schema: Extract<XdrSchema, { kind: 'struct' }>): void {
+    const names = this.constant(schema.fields.map((f) => f.name));
+    const reads: string[] = [];
+    const writes: string[] = [];
+    const props: string[] = [];
+    schema.fields.forEach((field, i) => {
+      const next = i < schema.fields.length - 1 ? ` f = ${i + 1};` : '';
+      const nextRead = i < schema.fields.length - 1 ? ` f = ${i + 1}; s = r.offset;` : '';
+      reads.push(`const v${i} = ${this.decodeExpr(field.codec)};${nextRead}`);
+      writes.push(`${this.encodeStmt(field.codec, `v[${lit(field.name)}]`)}${next}`);
+      props.push(`${lit(field.name)}: v${i}`);
+    });
+    this.functions.push(
+      `function d${id}(r) {
+  const L = r.limits; L.enter();
+  let f = 0, s = r.offset;
+  try {
+    ${reads.join('\n    ')}
+    return { ${props.join(', ')} };
+  } catch (e) { throw A(e, ${names}[f], s); } finally { L.exit(); }
+}`,
+      `function e${id}(w, v) {
+  const L = w.limits; L.enter();
+  let f = 0;
+  try {
+    ${writes.join('\n    ')}
+  } catch (e) { throw A(e, ${names}[f], w.offset); } finally { L.exit(); }
+}`,
+    );
+  }
+
+  private enumeration(id: number, schema: Extract<XdrSchema, { kind: 'enum' }>): void {
+    // Same value → name resolution as xdrEnum: the last member wins
+    const names = new Map<number, string>();
+    for (const [name, value] of Object.entries(schema.members)) {
+      names.set(value, name);
+    }
+    const cases = [...names].map(
+      ([value, name]) => `case ${value}: return ${lit(name)};`,
+    );
+    const members = this.constant(schema.members);
+    this.functions.push(
+      `function d${id}(r) {
+  const x = r.readInt32();
+  switch (x) {
+    ${cases.join('\n    ')}
+    default: throw new XdrError(Code.InvalidEnumValue, "Unknown enum value: " + x);
+  }
+}`,
+      `function e${id}(w, v) {
+  const n = ${members}[v];
+  if (n === undefined) throw new XdrError(Code.InvalidEnumValue, "Unknown enum member: " + String(v));
+  w.writeInt32(n);
+}`,
+    );
+  }
+
+  private array(
+    id: number,
+    schema: Extract<XdrSchema, { kind: 'fixedArray' | 'varArray' }>,
+  ): void {
+    const item = this.decodeExpr(schema.codec);
+    const write = this.encodeStmt(schema.codec, 'v[i]');
+    let readLength: string;
+    let checkLength: string;
+    if (schema.kind === 'fixedArray') {
+      const n = schema.length;
+      readLength = `const n = ${n};`;
+      checkLength = `if (v.length !== ${n}) throw new XdrError(Code.LengthMismatch, "Fixed array length mismatch: got " + v.length + ", expected ${n}");`;
+    } else {
+      const max = schema.maxLength;
+      readLength = `const n = r.readUint32();
+  if (n > ${max}) throw new XdrError(Code.LengthExceedsMax, "Array length " + n + " exceeds max ${max}");`;
+      checkLength = `if (v.length > ${max}) throw new XdrError(Code.LengthExceedsMax, "Array length " + v.length + " exceeds max ${max}");
+  w.writeUint32(v.length);`;
+    }
+    this.functions.push(
+      `function d${id}(r) {
+  ${readLength}
+  const a = [];
+  let i = 0, s = r.offset;
+  try {
+    for (; i < n; i++) { s = r.offset; a.push(${item}); }
+  } catch (e) { throw A(e, i, s); }
+  return a;
+}`,
+      `function e${id}(w, v) {
+  ${checkLength}
+  let i = 0;
+  try {
+    for (; i < v.length; i++) { ${write} }
+  } catch (e) { throw A(e, i, w.offset); }
+}`,
+    );
+  }
+
+  private option(id: number, schema: Extract<XdrSchema, { kind: 'option' }>): void {
+    const item = this.decodeExpr(schema.codec);
+    const write = this.encodeStmt(schema.codec, 'v');
+    this.functions.push(
+      `function d${id}(r) { return r.readBool() ? ${item} : null; }`,
+      `function e${id}(w, v) {
+  if (v === null) { w.writeInt32(0); } else { w.writeInt32(1); ${write} }
+}`,
+    );
+  }
+
+  private union(
+    id: number,
+    codec: XdrCodec<any>,
+    schema: Extract<XdrSchema, { kind: 'union' }>,
+  ): void {
+    let switchSchema = schema.switchOn.schema;
+    while (switchSchema.kind === 'typedef') switchSchema = switchSchema.codec.schema;
+    if (
+      switchSchema.kind !== 'enum' &&
+      switchSchema.kind !== 'int32' &&
+      switchSchema.kind !== 'uint32'
+    ) {
+      this.delegate(id, codec);
+      return;
+    }
+    const readTag = switchSchema.kind === 'uint32' ? 'r.readUint32()' : 'r.readInt32()';
+    const writeTag = switchSchema.kind === 'uint32' ? 'w.writeUint32' : 'w.writeInt32';
+    const enumMembers = switchSchema.kind === 'enum' ? switchSchema.members : undefined;
+    const rawTag = (tag: string | number): number =>
+      enumMembers !== undefined ? enumMembers[tag as string]! : (tag as number);
+
+    // Same resolution as taggedUnion: last arm wins per tag, first tag per key
+    const byTag = new Map<string | number, { key: string; codec?: XdrCodec<any> }>();
+    const byKey = new Map<string, { tag: string | number; codec?: XdrCodec<any> }>();
+    for (const arm of schema.arms) {
+      byTag.set(arm.tag, { key: arm.key, codec: arm.codec });
+      if (!byKey.has(arm.key)) byKey.set(arm.key, { tag: arm.tag, codec: arm.codec });
+    }
+    const defaultArm = schema.defaultArm;
+
+    const decodeArm = (key: string, armCodec: XdrCodec<any> | undefined): string => {
+      if (armCodec === undefined) return `return ${key};`;
+      return `{ let x; const s = r.offset; try { x = ${this.decodeExpr(armCodec)}; } catch (e) { throw A(e, ${key}, s); } return { [${key}]: x }; }`;
+    };
+    const decodeDefault = (key: string, shown: string): string =>
+      defaultArm === undefined
+        ? `throw new XdrError(Code.InvalidUnionDiscriminant, "Unknown union discriminant: " + ${shown});`
+        : decodeArm(key, defaultArm.codec);
+
+    const decodeCases: string[] = [];
+    let decodeFallback: string;
+    if (enumMembers !== undefined) {
+      // Every enum member gets a case; anything else is not a valid enum value
+      const names = new Map<number, string>();
+      for (const [name, value] of Object.entries(enumMembers)) names.set(value, name);
+      for (const [value, name] of names) {
+        const arm = byTag.get(name);
+        decodeCases.push(
+          `case ${value}: ${arm !== undefined ? decodeArm(lit(arm.key), arm.codec) : decodeDefault(lit(name), lit(name))}`,
+        );
+      }
+      decodeFallback = `throw new XdrError(Code.InvalidEnumValue, "Unknown enum value: " + t);`;
+    } else {
+      for (const [tag, arm] of byTag) {
+        decodeCases.push(`case ${rawTag(tag)}: ${decodeArm(lit(arm.key), arm.codec)}`);
+      }
+      decodeFallback = decodeDefault('String(t)', 'String(t)');
+    }
+
+    const switchCodec = this.constant(schema.switchOn);
+    const stringCases: string[] = [];
+    const objectCases: string[] = [];
+    for (const [key, arm] of byKey) {
+      const writeTagStmt = `${writeTag}(${rawTag(arm.tag)});`;
+      stringCases.push(`case ${lit(key)}: ${writeTagStmt} return;`);
+      const writeArm =
+        arm.codec === undefined
+          ? ''
+          : `try { ${this.encodeStmt(arm.codec, 'x')} } catch (e) { throw A(e, k, w.offset); } `;
+      objectCases.push(`case ${lit(key)}: ${writeTagStmt} ${writeArm}return;`);
+    }
+    let stringDefault: string;
+    let objectDefault: string;
+    if (defaultArm === undefined) {
+      stringDefault = `throw new XdrError(Code.InvalidUnionDiscriminant, "Unknown union key: " + v);`;
+      objectDefault = `throw new XdrError(Code.InvalidUnionDiscriminant, "Unknown union key: " + k);`;
+    } else {
+      stringDefault = `${switchCodec}.encode(w, P(v)); return;`;
+      const writeArm =
+        defaultArm.codec === undefined
+          ? ''
+          : `try { ${this.encodeStmt(defaultArm.codec, 'x')} } catch (e) { throw A(e, k, w.offset); } `;
+      objectDefault = `${switchCodec}.encode(w, P(k)); ${writeArm}return;`;
+    }
+
+    this.functions.push(
+      `function d${id}(r) {
+  const L = r.limits; L.enter();
+  try {
+    const t = ${readTag};
+    switch (t) {
+      ${decodeCases.join('\n      ')}
+      default: ${decodeFallback}
+    }
+  } finally { L.exit(); }
+}`,
+      `function e${id}(w, v) {
+  const L = w.limits; L.enter();
+  try {
+    if (typeof v === "string") {
+      switch (v) {
+        ${stringCases.join('\n        ')}
+        default: ${stringDefault}
+      }
+    }
+    const k = Object.keys(v)[0];
+    const x = v[k];
+    switch (k) {
+      ${objectCases.join('\n      ')}
+      default: ${objectDefault}
+    }
+  } finally { L.exit(); }
+}`,
+    );
+  }
+}
@@ -1,30 +1,121 @@
 import { BaseCodec, type XdrCodec } from './codec.js';
-import { XdrError, XdrErrorCode } from './errors.js';
+import {
+  XdrError,
+  XdrErrorCode,
+  addViolation,
+  annotateError,
+  describeValue,
+  type XdrPathSegment,
+  type XdrViolation,
+} from './errors.js';
 import { XdrReader } from './reader.js';
 import { XdrWriter } from './writer.js';
+import { type XdrSchema, type XdrUnionArm } from './schema.js';
+import { type JsonSchema } from './json-schema.js';
+import { XdrHasher, cmpInt32 } from './compare.js';
 
 // ---- xdrStruct ----
 
 export function xdrStruct<T>(
   fields: ReadonlyArray<readonly [string, XdrCodec<any>]>,
+  name?: string,
 ): XdrCodec<T> {
+  const schema: XdrSchema = {
+    kind: 'struct',
+    name,
+    fields: fields.map(([fieldName, codec]) => ({ name: fieldName, codec })),
+  };
   return new (class extends BaseCodec<T> {
+    readonly schema = schema;
     encode(writer: XdrWriter, value: T): void {
       writer.limits.withDepth(() => {
-        for (const [name, codec] of fields) {
-          codec.encode(writer, (value as any)[name]);
+        let i = 0;
+        try {
+          for (; i < fields.length; i++) {
+            const [name, codec] = fields[i]!;
+            codec.encode(writer, (value as any)[name]);
+          }
+        } catch (err) {
+          throw annotateError(err, fields[i]?.[0], writer.offset);
         }
       });
     }
     decode(reader: XdrReader): T {
       return reader.limits.withDepth(() => {
         const result: Record<string, unknown> = {};
-        for (const [name, codec] of fields) {
-          result[name] = codec.decode(reader);
+        let i = 0;
+        let start = reader.offset;
+        try {
+          for (; i < fields.length; i++) {
+            const [name, codec] = fields[i]!;
+            start = reader.offset;
+            result[name] = codec.decode(reader);
+          }
+        } catch (err) {
+          throw annotateError(err, fields[i]?.[0], start);
         }
         return result as T;
       });
     }
+    skip(reader: XdrReader): void {
+      reader.limits.withDepth(() => {
+        let i = 0;
+        let start = reader.offset;
+        try {
+          for (; i < fields.length; i++) {
+            start = reader.offset;
+            fields[i]![1].skip(reader);
+          }
+        } catch (err) {
+          throw annotateError(err, fields[i]?.[0], start);
+        }
+      });
+    }
+    encodedSize(value: T): number {
+      let size = 0;
+      for (const [name, codec] of fields) {
+        size += codec.encodedSize((value as any)[name]);
+      }
+      return size;
+    }
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.InvalidValue,
+          `Expected struct object, got ${describeValue(value)}`,
+        );
+        return;
+      }
+      for (const [name, codec] of fields) {
+        path.push(name);
+        codec.collectViolations((value as any)[name], path, violations);
+        path.pop();
+      }
+    }
+    equals(a: T, b: T): boolean {
+      for (const [name, codec] of fields) {
+        if (!codec.equals((a as any)[name], (b as any)[name])) return false;
+      }
+      return true;
+    }
+    compare(a: T, b: T): number {
+      for (const [name, codec] of fields) {
+        const order = codec.compare((a as any)[name], (b as any)[name]);
+        if (order !== 0) return order;
+      }
+      return 0;
+    }
+    hashInto(hasher: XdrHasher, value: T): void {
+      for (const [name, codec] of fields) {
+        codec.hashInto(hasher, (value as any)[name]);
+      }
+    }
     toJsonValue(value: T): unknown {
       const result: Record<string, unknown> = {};
       for (const [name, codec] of fields) {
@@ -36,7 +127,11 @@ export function xdrStruct<T>(
       const obj = json as Record<string, unknown>;
       const result: Record<string, unknown> = {};
       for (const [name, codec] of fields) {
-        result[name] = codec.fromJsonValue(obj[name]);
+        try {
+          result[name] = codec.fromJsonValue(obj[name]);
+        } catch (err) {
+          throw annotateError(err, name);
+        }
       }
       return result as T;
     }
@@ -47,6 +142,7 @@ export function xdrStruct<T>(
 
 export function xdrEnum<D extends Record<string, number>>(
   members: D,
+  name?: string,
 ): XdrCodec<keyof D & string> & Readonly<D> {
   const reverseMap = new Map<number, string>();
   for (const [name, value] of Object.entries(members)) {
@@ -54,6 +150,7 @@ export function xdrEnum<D extends Record<string, number>>(
   }
 
   const codec = new (class extends BaseCodec<keyof D & string> {
+    readonly schema: XdrSchema = { kind: 'enum', name, members: { ...members } };
     encode(writer: XdrWriter, value: keyof D & string): void {
       const numericValue = members[value];
       if (numericValue === undefined) {
@@ -75,6 +172,44 @@ export function xdrEnum<D extends Record<string, number>>(
       }
       return name as keyof D & string;
     }
+    skip(reader: XdrReader): void {
+      const raw = reader.readInt32();
+      if (!reverseMap.has(raw)) {
+        throw new XdrError(
+          XdrErrorCode.InvalidEnumValue,
+          `Unknown enum value: ${raw}`,
+        );
+      }
+    }
+    encodedSize(_value: keyof D & string): number {
+      return 4;
+    }
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      if (
+        typeof value !== 'string' ||
+        !Object.prototype.hasOwnProperty.call(members, value)
+      ) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.InvalidEnumValue,
+          `Unknown enum member: ${describeValue(value)}`,
+        );
+      }
+    }
+    equals(a: keyof D & string, b: keyof D & string): boolean {
+      return a === b;
+    }
+    compare(a: keyof D & string, b: keyof D & string): number {
+      return cmpInt32(members[a]!, members[b]!);
+    }
+    hashInto(hasher: XdrHasher, value: keyof D & string): void {
+      hasher.writeInt32(members[value]!);
+    }
   })();
 
   // Copy enum member properties onto the codec object
@@ -88,12 +223,40 @@ export function lazy<T>(factory: () => XdrCodec<T>): XdrCodec<T> {
   let cached: XdrCodec<T> | undefined;
   const get = () => (cached ??= factory());
   return new (class extends BaseCodec<T> {
+    get schema(): XdrSchema {
+      return get().schema;
+    }
+    get jsonSchema(): JsonSchema | undefined {
+      return get().jsonSchema;
+    }
     encode(writer: XdrWriter, value: T): void {
       get().encode(writer, value);
     }
     decode(reader: XdrReader): T {
       return get().decode(reader);
     }
+    skip(reader: XdrReader): void {
+      get().skip(reader);
+    }
+    encodedSize(value: T): number {
+      return get().encodedSize(value);
+    }
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      get().collectViolations(value, path, violations);
+    }
+    equals(a: T, b: T): boolean {
+      return get().equals(a, b);
+    }
+    compare(a: T, b: T): number {
+      return get().compare(a, b);
+    }
+    hashInto(hasher: XdrHasher, value: T): void {
+      get().hashInto(hasher, value);
+    }
     toJsonValue(value: T): unknown {
       return get().toJsonValue(value);
     }
@@ -125,20 +288,58 @@ export function jsonAs<T>(
   overrides: {
     toJsonValue: (value: T) => unknown;
     fromJsonValue: (json: unknown) => T;
+    /** Describes the custom JSON form for `toJsonSchema`. */
+    jsonSchema?: JsonSchema;
   },
 ): XdrCodec<T> {
   return new (class extends BaseCodec<T> {
+    readonly jsonSchema = overrides.jsonSchema;
+    get schema(): XdrSchema {
+      return codec.schema;
+    }
     encode(writer: XdrWriter, value: T): void {
       codec.encode(writer, value);
     }
     decode(reader: XdrReader): T {
       return codec.decode(reader);
     }
+    skip(reader: XdrReader): void {
+      codec.skip(reader);
+    }
+    encodedSize(value: T): number {
+      return codec.encodedSize(value);
+    }
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      codec.collectViolations(value, path, violations);
+    }
+    equals(a: T, b: T): boolean {
+      return codec.equals(a, b);
+    }
+    compare(a: T, b: T): number {
+      return codec.compare(a, b);
+    }
+    hashInto(hasher: XdrHasher, value: T): void {
+      codec.hashInto(hasher, value);
+    }
     toJsonValue(value: T): unknown {
       return overrides.toJsonValue(value);
     }
     fromJsonValue(json: unknown): T {
-      return overrides.fromJsonValue(json);
+      try {
+        return overrides.fromJsonValue(json);
+      } catch (err) {
+        // Custom parsers (strkeys, asset codes) throw plain errors; make them
+        // XdrErrors so enclosing codecs can record where they happened
+        if (err instanceof XdrError) throw err;
+        throw new XdrError(
+          XdrErrorCode.InvalidValue,
+          err instanceof Error ? err.message : String(err),
+        );
+      }
     }
   })();
 }
@@ -152,11 +353,52 @@ interface UnionArm {
 }
 
 interface TaggedUnionConfig {
+  name?: string;
   switchOn: XdrCodec<any>;
   arms: ReadonlyArray<UnionArm>;
   defaultArm?: { codec?: XdrCodec<any> };
 }
 
+function encodeArm(
+  writer: XdrWriter,
+  key: string,
+  codec: XdrCodec<any>,
+  value: unknown,
+): void {
+  try {
+    codec.encode(writer, value);
+  } catch (err) {
+    throw annotateError(err, key, writer.offset);
+  }
+}
+
+function decodeArm(reader: XdrReader, key: string, codec: XdrCodec<any>): unknown {
+  const start = reader.offset;
+  try {
+    return codec.decode(reader);
+  } catch (err) {
+    throw annotateError(err, key, start);
+  }
+}
+
+function skipArm(reader: XdrReader, key: string, codec: XdrCodec<any>): void {
+  const start = reader.offset;
+  try {
+    codec.skip(reader);
+  } catch (err) {
+    throw annotateError(err, key, start);
+  }
+}
+
+/** Default-arm keys are the discriminant rendered as a string. */
+export function parseTag(key: string): string | number {
+  const asNum = parseInt(key, 10);
+  if (!isNaN(asNum) && String(asNum) === key) {
+    return asNum;
+  }
+  return key;
+}
+
 export function taggedUnion(config: TaggedUnionConfig): XdrCodec<any> {
   // Forward map: tag → { key, codec }
   const forwardMap = new Map<
@@ -169,6 +411,8 @@ export function taggedUnion(config: TaggedUnionConfig): XdrCodec<any> {
     { tag: string | number; codec?: XdrCodec<any> }
   >();
 
+  const schemaArms: XdrUnionArm[] = [];
+
   for (const arm of config.arms) {
     for (const tag of arm.tags) {
       const key =
@@ -177,6 +421,7 @@ export function taggedUnion(config: TaggedUnionConfig): XdrCodec<any> {
           : typeof tag === 'string'
             ? tag
             : String(tag);
+      schemaArms.push({ tag, key, codec: arm.codec });
       forwardMap.set(tag, { key, codec: arm.codec });
       // Only map the first tag per key for reverse (all tags in same arm share key)
       if (!reverseMap.has(key)) {
@@ -185,7 +430,38 @@ export function taggedUnion(config: TaggedUnionConfig): XdrCodec<any> {
     }
   }
 
+  const schema: XdrSchema = {
+    kind: 'union',
+    name: config.name,
+    switchOn: config.switchOn,
+    arms: schemaArms,
+    defaultArm: config.defaultArm,
+  };
+
+  // Resolves a union value to its discriminant, arm codec and arm value
+  const armOf = (
+    value: any,
+  ): { tag: string | number; codec?: XdrCodec<any>; armValue?: unknown } => {
+    if (typeof value === 'string') {
+      const entry = reverseMap.get(value);
+      return entry !== undefined
+        ? { tag: entry.tag, codec: entry.codec }
+        : { tag: parseTag(value), codec: config.defaultArm?.codec };
+    }
+    const key = Object.keys(value)[0]!;
+    const entry = reverseMap.get(key);
+    return entry !== undefined
+      ? { tag: entry.tag, codec: entry.codec, armValue: value[key] }
+      : {
+          tag: parseTag(key),
+          codec: config.defaultArm?.codec,
+          armValue: value[key],
+        };
+  };
+
   return new (class extends BaseCodec<any> {
+    readonly schema = schema;
+
     encode(writer: XdrWriter, value: any): void {
       writer.limits.withDepth(() => {
         if (typeof value === 'string') {
@@ -211,14 +487,14 @@ export function taggedUnion(config: TaggedUnionConfig): XdrCodec<any> {
           if (entry !== undefined) {
             config.switchOn.encode(writer, entry.tag);
             if (entry.codec !== undefined) {
-              entry.codec.encode(writer, armValue);
+              encodeArm(writer, key, entry.codec, armValue);
             }
           } else if (config.defaultArm !== undefined) {
             // Default arm
             const tag = this._parseTag(key);
             config.switchOn.encode(writer, tag);
             if (config.defaultArm.codec !== undefined) {
-              config.defaultArm.codec.encode(writer, armValue);
+              encodeArm(writer, key, config.defaultArm.codec, armValue);
             }
           } else {
             throw new XdrError(
@@ -237,7 +513,7 @@ export function taggedUnion(config: TaggedUnionConfig): XdrCodec<any> {
 
         if (entry !== undefined) {
           if (entry.codec !== undefined) {
-            return { [entry.key]: entry.codec.decode(reader) };
+            return { [entry.key]: decodeArm(reader, entry.key, entry.codec) };
           }
           return entry.key;
         }
@@ -252,12 +528,136 @@ export function taggedUnion(config: TaggedUnionConfig): XdrCodec<any> {
 
         const key = typeof tag === 'number' ? String(tag) : tag;
         if (config.defaultArm.codec !== undefined) {
-          return { [key]: config.defaultArm.codec.decode(reader) };
+          return { [key]: decodeArm(reader, key, config.defaultArm.codec) };
         }
         return key;
       });
     }
 
+    skip(reader: XdrReader): void {
+      reader.limits.withDepth(() => {
+        const tag = config.switchOn.decode(reader);
+        const entry = forwardMap.get(tag);
+        if (entry === undefined && config.defaultArm === undefined) {
+          throw new XdrError(
+            XdrErrorCode.InvalidUnionDiscriminant,
+            `Unknown union discriminant: ${String(tag)}`,
+          );
+        }
+        const codec = entry !== undefined ? entry.codec : config.defaultArm?.codec;
+        if (codec !== undefined) {
+          skipArm(reader, entry?.key ?? String(tag), codec);
+        }
+      });
+    }
+
+    encodedSize(value: any): number {
+      const { tag, codec, armValue } = armOf(value);
+      const size = config.switchOn.encodedSize(tag);
+      return codec === undefined ? size : size + codec.encodedSize(armValue);
+    }
+
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      if (typeof value === 'string') {
+        const entry = reverseMap.get(value);
+        const codec =
+          entry !== undefined ? entry.codec : config.defaultArm?.codec;
+        if (entry === undefined && config.defaultArm === undefined) {
+          addViolation(
+            violations,
+            path,
+            XdrErrorCode.InvalidUnionDiscriminant,
+            `Unknown union key: ${value}`,
+          );
+        } else if (codec !== undefined) {
+          addViolation(
+            violations,
+            path,
+            XdrErrorCode.InvalidValue,
+            `Union arm ${value} requires a value: expected { ${value}: ... }`,
+          );
+        } else if (entry === undefined) {
+          const tag = this._parseTag(value);
+          config.switchOn.collectViolations(tag, path, violations);
+        }
+        return;
+      }
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.InvalidValue,
+          `Expected union key or single-key object, got ${describeValue(value)}`,
+        );
+        return;
+      }
+      const keys = Object.keys(value);
+      if (keys.length !== 1) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.InvalidValue,
+          `Union object must have exactly one key, got ${keys.length}`,
+        );
+        return;
+      }
+      const key = keys[0]!;
+      const entry = reverseMap.get(key);
+      if (entry === undefined && config.defaultArm === undefined) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.InvalidUnionDiscriminant,
+          `Unknown union key: ${key}`,
+        );
+        return;
+      }
+      if (entry === undefined) {
+        const tag = this._parseTag(key);
+        config.switchOn.collectViolations(tag, path, violations);
+      }
+      const codec =
+        entry !== undefined ? entry.codec : config.defaultArm?.codec;
+      if (codec === undefined) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.InvalidValue,
+          `Union arm ${key} is void: expected the string '${key}'`,
+        );
+        return;
+      }
+      path.push(key);
+      const armValue = (value as Record<string, unknown>)[key];
+      codec.collectViolations(armValue, path, violations);
+      path.pop();
+    }
+
+    equals(a: any, b: any): boolean {
+      const x = armOf(a);
+      const y = armOf(b);
+      if (!config.switchOn.equals(x.tag, y.tag)) return false;
+      return x.codec === undefined || x.codec.equals(x.armValue, y.armValue);
+    }
+
+    compare(a: any, b: any): number {
+      const x = armOf(a);
+      const y = armOf(b);
+      const order = config.switchOn.compare(x.tag, y.tag);
+      if (order !== 0 || x.codec === undefined) return order;
+      return x.codec.compare(x.armValue, y.armValue);
+    }
+
+    hashInto(hasher: XdrHasher, value: any): void {
+      const { tag, codec, armValue } = armOf(value);
+      config.switchOn.hashInto(hasher, tag);
+      codec?.hashInto(hasher, armValue);
+    }
+
     toJsonValue(value: any): unknown {
       if (typeof value === 'string') {
         return value;
@@ -282,17 +682,64 @@ export function taggedUnion(config: TaggedUnionConfig): XdrCodec<any> {
       const entry = reverseMap.get(key);
       const codec = entry?.codec ?? config.defaultArm?.codec;
       if (codec !== undefined) {
-        return { [key]: codec.fromJsonValue(jsonValue) };
+        try {
+          return { [key]: codec.fromJsonValue(jsonValue) };
+        } catch (err) {
+          throw annotateError(err, key);
+        }
       }
       return json;
     }
 
     _parseTag(key: string): string | number {
-      const asNum = parseInt(key, 10);
-      if (!isNaN(asNum) && String(asNum) === key) {
-        return asNum;
-      }
-      return key;
+      return parseTag(key);
+    }
+  })();
+}
+
+// ---- typedef ----
+
+/**
+ * Gives a codec a declared type name, as the code generator does for XDR
+ * typedefs (`typedef opaque Hash[32]`). Encoding and JSON are those of the
+ * wrapped codec; only the schema differs.
+ */
+export function typedef<T>(name: string, codec: XdrCodec<T>): XdrCodec<T> {
+  return new (class extends BaseCodec<T> {
+    readonly schema: XdrSchema = { kind: 'typedef', name, codec };
+    encode(writer: XdrWriter, value: T): void {
+      codec.encode(writer, value);
+    }
+    decode(reader: XdrReader): T {
+      return codec.decode(reader);
+    }
+    skip(reader: XdrReader): void {
+      codec.skip(reader);
+    }
+    encodedSize(value: T): number {
+      return codec.encodedSize(value);
+    }
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      codec.collectViolations(value, path, violations);
+    }
+    equals(a: T, b: T): boolean {
+      return codec.equals(a, b);
+    }
+    compare(a: T, b: T): number {
+      return codec.compare(a, b);
+    }
+    hashInto(hasher: XdrHasher, value: T): void {
+      codec.hashInto(hasher, value);
+    }
+    toJsonValue(value: T): unknown {
+      return codec.toJsonValue(value);
+    }
+    fromJsonValue(json: unknown): T {
+      return codec.fromJsonValue(json);
     }
   })();
 }
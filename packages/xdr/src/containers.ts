@@ -1,43 +1,161 @@
 import { BaseCodec, type XdrCodec } from './codec.js';
-import { XdrError, XdrErrorCode } from './errors.js';
+import {
+  XdrError,
+  XdrErrorCode,
+  addViolation,
+  annotateError,
+  describeValue,
+  type XdrPathSegment,
+  type XdrViolation,
+} from './errors.js';
 import { bytesToHex, hexToBytes } from './hex.js';
 import { XdrReader } from './reader.js';
 import { XdrWriter } from './writer.js';
+import { type XdrSchema } from './schema.js';
+import {
+  XdrHasher,
+  bytesEqual,
+  cmp,
+  compareBytes,
+  compareStringBytes,
+} from './compare.js';
+
+/** Length of `n` bytes of opaque data plus padding to a 4-byte boundary. */
+function paddedLength(n: number): number {
+  return n + ((4 - (n % 4)) % 4);
+}
 
 export function fixedOpaque(n: number): XdrCodec<Uint8Array> {
   return new (class extends BaseCodec<Uint8Array> {
+    readonly schema: XdrSchema = { kind: 'fixedOpaque', length: n };
     encode(writer: XdrWriter, value: Uint8Array): void {
       writer.writeFixedOpaque(value, n);
     }
     decode(reader: XdrReader): Uint8Array {
       return reader.readFixedOpaque(n);
     }
+    skip(reader: XdrReader): void {
+      reader.skipFixedOpaque(n);
+    }
+    encodedSize(_value: Uint8Array): number {
+      return paddedLength(n);
+    }
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      if (!(value instanceof Uint8Array)) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.InvalidValue,
+          `Expected Uint8Array, got ${describeValue(value)}`,
+        );
+      } else if (value.length !== n) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.LengthMismatch,
+          `Fixed opaque length mismatch: got ${value.length}, expected ${n}`,
+        );
+      }
+    }
+    equals(a: Uint8Array, b: Uint8Array): boolean {
+      return bytesEqual(a, b);
+    }
+    compare(a: Uint8Array, b: Uint8Array): number {
+      return compareBytes(a, b);
+    }
+    hashInto(hasher: XdrHasher, value: Uint8Array): void {
+      hasher.writeFixedOpaque(value);
+    }
     toJsonValue(value: Uint8Array): unknown {
       return bytesToHex(value);
     }
     fromJsonValue(json: unknown): Uint8Array {
-      return hexToBytes(json as string);
+      const bytes = opaqueFromJson(json);
+      if (bytes.length !== n) {
+        throw new XdrError(
+          XdrErrorCode.LengthMismatch,
+          `Fixed opaque length mismatch: got ${bytes.length}, expected ${n}`,
+        );
+      }
+      return bytes;
     }
   })();
 }
 
 export function varOpaque(maxLength?: number): XdrCodec<Uint8Array> {
   return new (class extends BaseCodec<Uint8Array> {
+    readonly schema: XdrSchema = { kind: 'varOpaque', maxLength };
     encode(writer: XdrWriter, value: Uint8Array): void {
       writer.writeVarOpaque(value, maxLength);
     }
     decode(reader: XdrReader): Uint8Array {
       return reader.readVarOpaque(maxLength);
     }
+    skip(reader: XdrReader): void {
+      reader.skipVarOpaque(maxLength);
+    }
+    encodedSize(value: Uint8Array): number {
+      return 4 + paddedLength(value.length);
+    }
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      if (!(value instanceof Uint8Array)) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.InvalidValue,
+          `Expected Uint8Array, got ${describeValue(value)}`,
+        );
+      } else if (maxLength !== undefined && value.length > maxLength) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.LengthExceedsMax,
+          `Opaque length ${value.length} exceeds max ${maxLength}`,
+        );
+      }
+    }
+    equals(a: Uint8Array, b: Uint8Array): boolean {
+      return bytesEqual(a, b);
+    }
+    compare(a: Uint8Array, b: Uint8Array): number {
+      // The length prefix is compared first
+      return cmp(a.length, b.length) || compareBytes(a, b);
+    }
+    hashInto(hasher: XdrHasher, value: Uint8Array): void {
+      hasher.writeVarOpaque(value);
+    }
     toJsonValue(value: Uint8Array): unknown {
       return bytesToHex(value);
     }
     fromJsonValue(json: unknown): Uint8Array {
-      return hexToBytes(json as string);
+      const bytes = opaqueFromJson(json);
+      if (maxLength !== undefined && bytes.length > maxLength) {
+        throw new XdrError(
+          XdrErrorCode.LengthExceedsMax,
+          `Opaque length ${bytes.length} exceeds max ${maxLength}`,
+        );
+      }
+      return bytes;
     }
   })();
 }
 
+/** Parses opaque data from its JSON form, a hex string. */
+function opaqueFromJson(json: unknown): Uint8Array {
+  if (typeof json !== 'string' || !/^(?:[0-9a-fA-F]{2})*$/.test(json)) {
+    throw new XdrError(XdrErrorCode.InvalidValue, `Invalid hex value: ${describeValue(json)}`);
+  }
+  return hexToBytes(json);
+}
+
 const textEncoder = new TextEncoder();
 const textDecoder = new TextDecoder();
 
@@ -106,12 +224,49 @@ function unescapeStringFromJson(value: string): string {
 
 export function xdrString(maxLength?: number): XdrCodec<string> {
   return new (class extends BaseCodec<string> {
+    readonly schema: XdrSchema = { kind: 'string', maxLength };
     encode(writer: XdrWriter, value: string): void {
       writer.writeString(value, maxLength);
     }
     decode(reader: XdrReader): string {
       return reader.readString(maxLength);
     }
+    skip(reader: XdrReader): void {
+      reader.skipVarOpaque(maxLength);
+    }
+    encodedSize(value: string): number {
+      return 4 + paddedLength(value.length);
+    }
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      if (typeof value !== 'string') {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.InvalidValue,
+          `Expected string, got ${describeValue(value)}`,
+        );
+      } else if (maxLength !== undefined && value.length > maxLength) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.LengthExceedsMax,
+          `String length ${value.length} exceeds max ${maxLength}`,
+        );
+      }
+    }
+    equals(a: string, b: string): boolean {
+      return a.length === b.length && compareStringBytes(a, b) === 0;
+    }
+    compare(a: string, b: string): number {
+      return cmp(a.length, b.length) || compareStringBytes(a, b);
+    }
+    hashInto(hasher: XdrHasher, value: string): void {
+      hasher.writeString(value);
+    }
     toJsonValue(value: string): unknown {
       return escapeStringForJson(value);
     }
@@ -121,11 +276,70 @@ export function xdrString(maxLength?: number): XdrCodec<string> {
   })();
 }
 
+function arrayFromJsonValue<T>(codec: XdrCodec<T>, json: unknown): T[] {
+  const items = json as unknown[];
+  const result: T[] = [];
+  let i = 0;
+  try {
+    for (; i < items.length; i++) {
+      result.push(codec.fromJsonValue(items[i]));
+    }
+  } catch (err) {
+    throw annotateError(err, i);
+  }
+  return result;
+}
+
+function elementsEqual<T>(
+  codec: XdrCodec<T>,
+  a: readonly T[],
+  b: readonly T[],
+): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (!codec.equals(a[i]!, b[i]!)) return false;
+  }
+  return true;
+}
+
+function compareElements<T>(
+  codec: XdrCodec<T>,
+  a: readonly T[],
+  b: readonly T[],
+): number {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    const order = codec.compare(a[i]!, b[i]!);
+    if (order !== 0) return order;
+  }
+  return cmp(a.length, b.length);
+}
+
+function elementsSize<T>(codec: XdrCodec<T>, items: readonly T[]): number {
+  let size = 0;
+  for (const item of items) size += codec.encodedSize(item);
+  return size;
+}
+
+function collectElementViolations<T>(
+  codec: XdrCodec<T>,
+  items: readonly unknown[],
+  path: XdrPathSegment[],
+  violations: XdrViolation[],
+): void {
+  for (let i = 0; i < items.length; i++) {
+    path.push(i);
+    codec.collectViolations(items[i], path, violations);
+    path.pop();
+  }
+}
+
 export function fixedArray<T>(
   n: number,
   codec: XdrCodec<T>,
 ): XdrCodec<readonly T[]> {
   return new (class extends BaseCodec<readonly T[]> {
+    readonly schema: XdrSchema = { kind: 'fixedArray', length: n, codec };
     encode(writer: XdrWriter, value: readonly T[]): void {
       if (value.length !== n) {
         throw new XdrError(
@@ -133,22 +347,82 @@ export function fixedArray<T>(
           `Fixed array length mismatch: got ${value.length}, expected ${n}`,
         );
       }
-      for (let i = 0; i < n; i++) {
-        codec.encode(writer, value[i]!);
+      let i = 0;
+      try {
+        for (; i < n; i++) {
+          codec.encode(writer, value[i]!);
+        }
+      } catch (err) {
+        throw annotateError(err, i, writer.offset);
       }
     }
     decode(reader: XdrReader): readonly T[] {
       const result: T[] = [];
-      for (let i = 0; i < n; i++) {
-        result.push(codec.decode(reader));
+      let i = 0;
+      let start = reader.offset;
+      try {
+        for (; i < n; i++) {
+          start = reader.offset;
+          result.push(codec.decode(reader));
+        }
+      } catch (err) {
+        throw annotateError(err, i, start);
       }
       return result;
     }
+    skip(reader: XdrReader): void {
+      let i = 0;
+      let start = reader.offset;
+      try {
+        for (; i < n; i++) {
+          start = reader.offset;
+          codec.skip(reader);
+        }
+      } catch (err) {
+        throw annotateError(err, i, start);
+      }
+    }
+    encodedSize(value: readonly T[]): number {
+      return elementsSize(codec, value);
+    }
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      if (!Array.isArray(value)) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.InvalidValue,
+          `Expected array, got ${describeValue(value)}`,
+        );
+        return;
+      }
+      if (value.length !== n) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.LengthMismatch,
+          `Fixed array length mismatch: got ${value.length}, expected ${n}`,
+        );
+      }
+      collectElementViolations(codec, value, path, violations);
+    }
+    equals(a: readonly T[], b: readonly T[]): boolean {
+      return elementsEqual(codec, a, b);
+    }
+    compare(a: readonly T[], b: readonly T[]): number {
+      return compareElements(codec, a, b);
+    }
+    hashInto(hasher: XdrHasher, value: readonly T[]): void {
+      for (const item of value) codec.hashInto(hasher, item);
+    }
     toJsonValue(value: readonly T[]): unknown {
       return value.map((v) => codec.toJsonValue(v));
     }
     fromJsonValue(json: unknown): readonly T[] {
-      return (json as unknown[]).map((v) => codec.fromJsonValue(v));
+      return arrayFromJsonValue(codec, json);
     }
   })();
 }
@@ -158,6 +432,7 @@ export function varArray<T>(
   codec: XdrCodec<T>,
 ): XdrCodec<readonly T[]> {
   return new (class extends BaseCodec<readonly T[]> {
+    readonly schema: XdrSchema = { kind: 'varArray', maxLength: max, codec };
     encode(writer: XdrWriter, value: readonly T[]): void {
       if (value.length > max) {
         throw new XdrError(
@@ -166,8 +441,13 @@ export function varArray<T>(
         );
       }
       writer.writeUint32(value.length);
-      for (let i = 0; i < value.length; i++) {
-        codec.encode(writer, value[i]!);
+      let i = 0;
+      try {
+        for (; i < value.length; i++) {
+          codec.encode(writer, value[i]!);
+        }
+      } catch (err) {
+        throw annotateError(err, i, writer.offset);
       }
     }
     decode(reader: XdrReader): readonly T[] {
@@ -179,22 +459,87 @@ export function varArray<T>(
         );
       }
       const result: T[] = [];
-      for (let i = 0; i < len; i++) {
-        result.push(codec.decode(reader));
+      let i = 0;
+      let start = reader.offset;
+      try {
+        for (; i < len; i++) {
+          start = reader.offset;
+          result.push(codec.decode(reader));
+        }
+      } catch (err) {
+        throw annotateError(err, i, start);
       }
       return result;
     }
+    skip(reader: XdrReader): void {
+      const len = reader.readUint32();
+      if (len > max) {
+        throw new XdrError(
+          XdrErrorCode.LengthExceedsMax,
+          `Array length ${len} exceeds max ${max}`,
+        );
+      }
+      let i = 0;
+      let start = reader.offset;
+      try {
+        for (; i < len; i++) {
+          start = reader.offset;
+          codec.skip(reader);
+        }
+      } catch (err) {
+        throw annotateError(err, i, start);
+      }
+    }
+    encodedSize(value: readonly T[]): number {
+      return 4 + elementsSize(codec, value);
+    }
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      if (!Array.isArray(value)) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.InvalidValue,
+          `Expected array, got ${describeValue(value)}`,
+        );
+        return;
+      }
+      if (value.length > max) {
+        addViolation(
+          violations,
+          path,
+          XdrErrorCode.LengthExceedsMax,
+          `Array length ${value.length} exceeds max ${max}`,
+        );
+      }
+      collectElementViolations(codec, value, path, violations);
+    }
+    equals(a: readonly T[], b: readonly T[]): boolean {
+      return elementsEqual(codec, a, b);
+    }
+    compare(a: readonly T[], b: readonly T[]): number {
+      // The length prefix is compared first
+      return cmp(a.length, b.length) || compareElements(codec, a, b);
+    }
+    hashInto(hasher: XdrHasher, value: readonly T[]): void {
+      hasher.writeUint32(value.length);
+      for (const item of value) codec.hashInto(hasher, item);
+    }
     toJsonValue(value: readonly T[]): unknown {
       return value.map((v) => codec.toJsonValue(v));
     }
     fromJsonValue(json: unknown): readonly T[] {
-      return (json as unknown[]).map((v) => codec.fromJsonValue(v));
+      return arrayFromJsonValue(codec, json);
     }
   })();
 }
 
 export function option<T>(codec: XdrCodec<T>): XdrCodec<T | null> {
   return new (class extends BaseCodec<T | null> {
+    readonly schema: XdrSchema = { kind: 'option', codec };
     encode(writer: XdrWriter, value: T | null): void {
       if (value === null) {
         writer.writeInt32(0);
@@ -210,6 +555,40 @@ export function option<T>(codec: XdrCodec<T>): XdrCodec<T | null> {
       }
       return null;
     }
+    skip(reader: XdrReader): void {
+      if (reader.readBool()) {
+        codec.skip(reader);
+      }
+    }
+    encodedSize(value: T | null): number {
+      return value === null ? 4 : 4 + codec.encodedSize(value);
+    }
+    collectViolations(
+      value: unknown,
+      path: XdrPathSegment[],
+      violations: XdrViolation[],
+    ): void {
+      if (value !== null) {
+        codec.collectViolations(value, path, violations);
+      }
+    }
+    equals(a: T | null, b: T | null): boolean {
+      if (a === null || b === null) return a === b;
+      return codec.equals(a, b);
+    }
+    compare(a: T | null, b: T | null): number {
+      // Absent (discriminant 0) sorts before present (discriminant 1)
+      if (a === null || b === null) return cmp(Number(a !== null), Number(b !== null));
+      return codec.compare(a, b);
+    }
+    hashInto(hasher: XdrHasher, value: T | null): void {
+      if (value === null) {
+        hasher.writeBool(false);
+      } else {
+        hasher.writeBool(true);
+        codec.hashInto(hasher, value);
+      }
+    }
     toJsonValue(value: T | null): unknown {
       if (value === null) {
         return null;
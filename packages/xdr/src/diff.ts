@@ -0,0 +1,288 @@
+/**
+ * Structural diff between two values of the same XDR type.
+ *
+ *   const changes = diffXdr(TransactionEnvelope, before, after);
+ *   console.log(formatXdrDiff(changes));
+ *   // ~ Tx.tx.fee: 100 -> 250
+ *   // + Tx.tx.operations[1]: {"sourceAccount":null,"body":{...}}
+ *
+ * Values are walked along the codec's schema and compared with
+ * `codec.equals`, so unchanged subtrees are skipped in one step.
+ */
+import { type XdrCodec } from './codec.js';
+import { type XdrPathSegment, formatPath } from './errors.js';
+import { type XdrSchema, resolveSchema, schemaName } from './schema.js';
+import { assetBytesToString, encodeMuxedAddress } from './stellar.js';
+import {
+  encodeStrkey,
+  STRKEY_ED25519_PUBLIC,
+  STRKEY_CONTRACT,
+  STRKEY_LIQUIDITY_POOL,
+  STRKEY_CLAIMABLE_BALANCE,
+} from '@stellar/strkey';
+
+export type XdrChangeKind =
+  /** A number, bool, enum, opaque or string value differs. */
+  | 'changed'
+  /** A union holds a different arm; `before` and `after` are the unions. */
+  | 'armChanged'
+  /** An array element exists only in `after`. */
+  | 'added'
+  /** An array element exists only in `before`. */
+  | 'removed'
+  /** An optional value went from null to present. */
+  | 'set'
+  /** An optional value went from present to null. */
+  | 'cleared';
+
+export interface XdrChange {
+  readonly kind: XdrChangeKind;
+  /** Location of the value, as in `XdrError.path`; empty for the root. */
+  readonly path: readonly XdrPathSegment[];
+  /** Codec of the value at `path`. */
+  readonly codec: XdrCodec<any>;
+  /** Absent for 'added' and 'set'. */
+  readonly before?: unknown;
+  /** Absent for 'removed' and 'cleared'. */
+  readonly after?: unknown;
+}
+
+/**
+ * Lists the differences between `a` and `b`, outermost first in field and
+ * element order. Arrays are compared by index: an insertion in the middle
+ * shows up as changes to the following elements plus an 'added' at the end.
+ * Returns an empty list when the values are equal.
+ */
+export function diffXdr<T>(codec: XdrCodec<T>, a: T, b: T): XdrChange[] {
+  const changes: XdrChange[] = [];
+  diffValues(codec, a, b, [], changes);
+  return changes;
+}
+
+function diffValues(
+  codec: XdrCodec<any>,
+  a: any,
+  b: any,
+  path: XdrPathSegment[],
+  changes: XdrChange[],
+): void {
+  if (codec.equals(a, b)) return;
+  if (isStellarDisplayed(codec)) {
+    // Addresses and asset codes change as a whole
+    changes.push({ kind: 'changed', path: [...path], codec, before: a, after: b });
+    return;
+  }
+  const schema = codec.schema;
+  switch (schema.kind) {
+    case 'typedef':
+      if (isContainer(resolveSchema(codec))) {
+        diffValues(schema.codec, a, b, path, changes);
+      } else {
+        // Keep the declared type for display
+        changes.push({ kind: 'changed', path: [...path], codec, before: a, after: b });
+      }
+      return;
+
+    case 'struct':
+      for (const field of schema.fields) {
+        path.push(field.name);
+        diffValues(field.codec, a[field.name], b[field.name], path, changes);
+        path.pop();
+      }
+      return;
+
+    case 'union': {
+      const key = unionKey(a);
+      if (key !== unionKey(b)) {
+        changes.push({ kind: 'armChanged', path: [...path], codec, before: a, after: b });
+        return;
+      }
+      // Equal keys with unequal values means the arm is not void
+      const arm = schema.arms.find((candidate) => candidate.key === key);
+      const armCodec = (arm !== undefined ? arm.codec : schema.defaultArm?.codec)!;
+      path.push(key);
+      diffValues(armCodec, a[key], b[key], path, changes);
+      path.pop();
+      return;
+    }
+
+    case 'option':
+      if (a === null) {
+        changes.push({ kind: 'set', path: [...path], codec: schema.codec, after: b });
+      } else if (b === null) {
+        changes.push({ kind: 'cleared', path: [...path], codec: schema.codec, before: a });
+      } else {
+        diffValues(schema.codec, a, b, path, changes);
+      }
+      return;
+
+    case 'fixedArray':
+    case 'varArray': {
+      const before = a as readonly unknown[];
+      const after = b as readonly unknown[];
+      const common = Math.min(before.length, after.length);
+      for (let i = 0; i < common; i++) {
+        path.push(i);
+        diffValues(schema.codec, before[i], after[i], path, changes);
+        path.pop();
+      }
+      for (let i = common; i < after.length; i++) {
+        changes.push({
+          kind: 'added',
+          path: [...path, i],
+          codec: schema.codec,
+          after: after[i],
+        });
+      }
+      for (let i = common; i < before.length; i++) {
+        changes.push({
+          kind: 'removed',
+          path: [...path, i],
+          codec: schema.codec,
+          before: before[i],
+        });
+      }
+      return;
+    }
+
+    default:
+      changes.push({ kind: 'changed', path: [...path], codec, before: a, after: b });
+  }
+}
+
+function isContainer(schema: XdrSchema): boolean {
+  switch (schema.kind) {
+    case 'struct':
+    case 'union':
+    case 'option':
+    case 'fixedArray':
+    case 'varArray':
+      return true;
+    default:
+      return false;
+  }
+}
+
+function unionKey(value: unknown): string {
+  return typeof value === 'string' ? value : Object.keys(value as object)[0]!;
+}
+
+const CHANGE_PREFIX: Record<XdrChangeKind, string> = {
+  changed: '~',
+  armChanged: '~',
+  added: '+',
+  removed: '-',
+  set: '+',
+  cleared: '-',
+};
+
+/**
+ * Renders changes one per line: `~ path: before -> after` for changed values
+ * and arms, `+ path: value` for added elements and set options, `- path:
+ * value` for removed elements and cleared options.
+ *
+ * Values are printed as SEP-0051 JSON, with account IDs and muxed accounts
+ * as G/M-addresses (as `stellarPublicKey`/`stellarMuxedAccount` do), contract,
+ * liquidity pool and claimable balance IDs as C/L/B-addresses, and asset
+ * codes as ASCII.
+ */
+export function formatXdrDiff(changes: readonly XdrChange[]): string {
+  return changes
+    .map((change) => {
+      const path = change.path.length > 0 ? formatPath(change.path) : '(root)';
+      const show = (value: unknown) => JSON.stringify(displayJson(change.codec, value));
+      let text = `${CHANGE_PREFIX[change.kind]} ${path}: `;
+      if (change.before !== undefined && change.after !== undefined) {
+        text += `${show(change.before)} -> ${show(change.after)}`;
+      } else {
+        text += show(change.before !== undefined ? change.before : change.after);
+      }
+      return text;
+    })
+    .join('\n');
+}
+
+/** Like `codec.toJsonValue`, with Stellar addresses and asset codes readable. */
+function displayJson(codec: XdrCodec<any>, value: any): unknown {
+  const stellar = stellarDisplay(codec, value);
+  if (stellar !== undefined) return stellar;
+
+  const schema = codec.schema;
+  switch (schema.kind) {
+    case 'typedef':
+      return displayJson(schema.codec, value);
+    case 'option':
+      return value === null ? null : displayJson(schema.codec, value);
+    case 'fixedArray':
+    case 'varArray':
+      return (value as unknown[]).map((item) => displayJson(schema.codec, item));
+    case 'struct': {
+      const result: Record<string, unknown> = {};
+      for (const field of schema.fields) {
+        result[field.name] = displayJson(field.codec, value[field.name]);
+      }
+      return result;
+    }
+    case 'union': {
+      const key = unionKey(value);
+      const arm = schema.arms.find((candidate) => candidate.key === key);
+      const armCodec = arm !== undefined ? arm.codec : schema.defaultArm?.codec;
+      if (armCodec === undefined) return key;
+      return { [key]: displayJson(armCodec, value[key]) };
+    }
+    default:
+      return codec.toJsonValue(value);
+  }
+}
+
+const STELLAR_DISPLAYED = new Set([
+  'PublicKey',
+  'MuxedAccount',
+  'MuxedEd25519Account',
+  'ContractID',
+  'PoolID',
+  'ClaimableBalanceID',
+  'AssetCode4',
+  'AssetCode12',
+]);
+
+/** Whether `codec`, or a type it is a typedef of, has a `stellarDisplay` form. */
+function isStellarDisplayed(codec: XdrCodec<any>): boolean {
+  for (let c = codec; ; c = c.schema.codec) {
+    if (STELLAR_DISPLAYED.has(schemaName(c)!)) return true;
+    if (c.schema.kind !== 'typedef') return false;
+  }
+}
+
+/**
+ * Readable forms of the generated Stellar types in `STELLAR_DISPLAYED`,
+ * matched by declared name. `displayJson` follows typedef chains to them
+ * (e.g. AccountID → PublicKey).
+ */
+function stellarDisplay(codec: XdrCodec<any>, value: any): string | undefined {
+  switch (schemaName(codec)) {
+    case 'PublicKey':
+      return encodeStrkey(STRKEY_ED25519_PUBLIC, value.PublicKeyTypeEd25519);
+    case 'MuxedAccount':
+      return 'Ed25519' in value
+        ? encodeStrkey(STRKEY_ED25519_PUBLIC, value.Ed25519)
+        : encodeMuxedAddress(value.MuxedEd25519.ed25519, value.MuxedEd25519.id);
+    case 'MuxedEd25519Account':
+      return encodeMuxedAddress(value.ed25519, value.id);
+    case 'ContractID':
+      return encodeStrkey(STRKEY_CONTRACT, value);
+    case 'PoolID':
+      return encodeStrkey(STRKEY_LIQUIDITY_POOL, value);
+    case 'ClaimableBalanceID': {
+      // Payload: the ClaimableBalanceIDType byte followed by the hash
+      const payload = new Uint8Array(33);
+      payload.set(value.ClaimableBalanceIdTypeV0, 1);
+      return encodeStrkey(STRKEY_CLAIMABLE_BALANCE, payload);
+    }
+    case 'AssetCode4':
+    case 'AssetCode12':
+      return assetBytesToString(value);
+    default:
+      return undefined;
+  }
+}
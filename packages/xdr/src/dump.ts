@@ -0,0 +1,291 @@
+/**
+ * Annotated hex dumps: every byte of an encoding labeled with the value it
+ * belongs to.
+ *
+ *   formatXdrDump(dumpXdr(TransactionEnvelope, bytes));
+ *   // 000000  00 00 00 02   (root) [discriminant] EnvelopeType = "Tx"
+ *   // 000004  00 00 00 00   Tx.tx.sourceAccount [discriminant] CryptoKeyType = "Ed25519"
+ *   // 000008  3c b3 23 66 …  Tx.tx.sourceAccount.Ed25519 Uint256 = "3cb3…"
+ *
+ * `dumpXdr` returns plain JSON-compatible entries, so two encodings can be
+ * compared with any JSON or line diff.
+ */
+import { type XdrCodec } from './codec.js';
+import {
+  XdrError,
+  XdrErrorCode,
+  type XdrPathSegment,
+  annotateError,
+  formatPath,
+} from './errors.js';
+import { type Limits } from './limits.js';
+import { XdrReader } from './reader.js';
+import { decodeBase64 } from './base64.js';
+import { bytesToHex } from './hex.js';
+import { resolveSchema, schemaName } from './schema.js';
+
+export type XdrDumpRole =
+  /** The encoding of a value: a number, bool, enum or opaque/string data. */
+  | 'value'
+  /** The uint32 length prefix of variable opaque data, a string or an array. */
+  | 'length'
+  /** A union discriminant. */
+  | 'discriminant'
+  /** The bool flag of an optional value. */
+  | 'presence'
+  /** Zero bytes aligning opaque data and strings to four bytes. */
+  | 'padding';
+
+export interface XdrDumpEntry {
+  /** Byte offset of the span in the encoding. */
+  readonly offset: number;
+  readonly length: number;
+  /** The span's bytes in lowercase hex. */
+  readonly hex: string;
+  /** Location of the value, as in `XdrError.path`; empty for the root. */
+  readonly path: readonly XdrPathSegment[];
+  readonly role: XdrDumpRole;
+  /**
+   * Declared type name where there is one (e.g. 'Hash', 'EnvelopeType'),
+   * otherwise the XDR type, e.g. 'uint32', 'opaque[32]' or 'string<28>'.
+   */
+  readonly type: string;
+  /** The decoded value in SEP-0051 JSON form; absent for padding. */
+  readonly value?: unknown;
+}
+
+/**
+ * Decodes `input` (bytes or base64) as `codec` and returns one entry per
+ * span of bytes, in order, covering the whole buffer. Decoding errors are
+ * thrown as by `fromXdr`, with the path and offset of the failing value.
+ */
+export function dumpXdr(
+  codec: XdrCodec<any>,
+  input: Uint8Array | string,
+  limits?: Limits,
+): XdrDumpEntry[] {
+  const bytes = typeof input === 'string' ? decodeBase64(input) : input;
+  const reader = new XdrReader(bytes, limits);
+  const dumper = new Dumper(bytes, reader);
+  try {
+    dumper.walk(codec, undefined);
+  } catch (err) {
+    // The path is left at the failing value; annotate innermost first
+    const path = dumper.path;
+    annotateError(err, path[path.length - 1], dumper.valueStart);
+    for (let i = path.length - 2; i >= 0; i--) annotateError(err, path[i]);
+    throw err;
+  }
+  try {
+    reader.ensureEnd();
+  } catch (err) {
+    throw annotateError(err, undefined, reader.offset);
+  }
+  return dumper.entries;
+}
+
+const BYTES_PER_LINE = 16;
+
+/**
+ * Renders dump entries as a hexdump-style listing: offset, bytes, then
+ * `path [role] type = value`. Spans longer than 16 bytes continue on
+ * unlabeled lines.
+ */
+export function formatXdrDump(entries: readonly XdrDumpEntry[]): string {
+  const hexWidth = BYTES_PER_LINE * 3 - 1;
+  const lines: string[] = [];
+  for (const entry of entries) {
+    let label = entry.path.length > 0 ? formatPath(entry.path) : '(root)';
+    if (entry.role !== 'value') label += ` [${entry.role}]`;
+    label += ` ${entry.type}`;
+    if (entry.value !== undefined) label += ` = ${JSON.stringify(entry.value)}`;
+
+    const count = Math.max(1, Math.ceil(entry.length / BYTES_PER_LINE));
+    for (let i = 0; i < count; i++) {
+      const hex = entry.hex.slice(i * BYTES_PER_LINE * 2, (i + 1) * BYTES_PER_LINE * 2);
+      const offset = (entry.offset + i * BYTES_PER_LINE).toString(16).padStart(6, '0');
+      const spaced = (hex.match(/../g) ?? []).join(' ');
+      lines.push(
+        i === 0 ? `${offset}  ${spaced.padEnd(hexWidth)}  ${label}` : `${offset}  ${spaced}`,
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+class Dumper {
+  readonly entries: XdrDumpEntry[] = [];
+  /** Path of the value being read; not unwound when an error is thrown. */
+  readonly path: XdrPathSegment[] = [];
+  /** Offset where the value at `path` starts; also left in place on error. */
+  valueStart = 0;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    private readonly reader: XdrReader,
+  ) {}
+
+  /** `name` is the nearest enclosing typedef name, if any. */
+  walk(codec: XdrCodec<any>, name: string | undefined): void {
+    const schema = codec.schema;
+    const reader = this.reader;
+    switch (schema.kind) {
+      case 'typedef':
+        this.walk(schema.codec, name ?? schema.name);
+        return;
+
+      case 'void':
+        return;
+
+      case 'int32':
+      case 'uint32':
+      case 'int64':
+      case 'uint64':
+      case 'bool':
+        this.leaf(codec, name ?? schema.kind);
+        return;
+      case 'float32':
+        this.leaf(codec, name ?? 'float');
+        return;
+      case 'float64':
+        this.leaf(codec, name ?? 'double');
+        return;
+      case 'enum':
+        this.leaf(codec, name ?? schema.name ?? 'enum');
+        return;
+
+      case 'fixedOpaque':
+        this.begin();
+        this.opaque(codec, name ?? `opaque[${schema.length}]`, schema.length);
+        return;
+      case 'varOpaque':
+      case 'string': {
+        const base = schema.kind === 'string' ? 'string' : 'opaque';
+        const len = this.length(schema.maxLength, 'Opaque');
+        this.opaque(codec, name ?? `${base}<${schema.maxLength ?? ''}>`, len);
+        return;
+      }
+
+      case 'fixedArray':
+      case 'varArray': {
+        const len =
+          schema.kind === 'fixedArray' ? schema.length : this.length(schema.maxLength, 'Array');
+        for (let i = 0; i < len; i++) {
+          this.path.push(i);
+          this.walk(schema.codec, undefined);
+          this.path.pop();
+        }
+        return;
+      }
+
+      case 'option': {
+        const start = this.begin();
+        const present = reader.readBool();
+        this.push(start, 'presence', 'bool', present);
+        if (present) this.walk(schema.codec, name);
+        return;
+      }
+
+      case 'struct':
+        reader.limits.withDepth(() => {
+          for (const field of schema.fields) {
+            this.path.push(field.name);
+            this.walk(field.codec, undefined);
+            this.path.pop();
+          }
+        });
+        return;
+
+      case 'union':
+        reader.limits.withDepth(() => {
+          const start = this.begin();
+          const tag = schema.switchOn.decode(reader);
+          const switchOn = schema.switchOn;
+          const switchType = schemaName(switchOn) ?? resolveSchema(switchOn).kind;
+          this.push(start, 'discriminant', switchType, switchOn.toJsonValue(tag));
+          const arm = schema.arms.find((a) => a.tag === tag);
+          if (arm === undefined && schema.defaultArm === undefined) {
+            throw new XdrError(
+              XdrErrorCode.InvalidUnionDiscriminant,
+              `Unknown union discriminant: ${String(tag)}`,
+            );
+          }
+          const armCodec = arm !== undefined ? arm.codec : schema.defaultArm!.codec;
+          if (armCodec === undefined) return;
+          this.path.push(arm !== undefined ? arm.key : String(tag));
+          this.walk(armCodec, undefined);
+          this.path.pop();
+        });
+        return;
+    }
+  }
+
+  private leaf(codec: XdrCodec<any>, type: string): void {
+    const start = this.begin();
+    const value = codec.decode(this.reader);
+    this.push(start, 'value', type, codec.toJsonValue(value));
+  }
+
+  /** Reads a uint32 length prefix, checking it against `maxLength`. */
+  private length(maxLength: number | undefined, what: string): number {
+    const start = this.begin();
+    const len = this.reader.readUint32();
+    if (maxLength !== undefined && len > maxLength) {
+      throw new XdrError(
+        XdrErrorCode.LengthExceedsMax,
+        `${what} length ${len} exceeds max ${maxLength}`,
+      );
+    }
+    this.push(start, 'length', 'uint32', len);
+    return len;
+  }
+
+  /**
+   * Reads `len` data bytes and their padding as separate spans. The value
+   * starts at its length prefix, if any, so `begin` is left to the caller.
+   */
+  private opaque(codec: XdrCodec<any>, type: string, len: number): void {
+    const reader = this.reader;
+    const start = reader.offset;
+    const data = reader.readBytes(len);
+    const value = codec.schema.kind === 'string' ? latin1(data) : data;
+    this.push(start, 'value', type, codec.toJsonValue(value));
+
+    const padStart = reader.offset;
+    const padding = reader.readBytes((4 - (len % 4)) % 4);
+    if (padding.length === 0) return;
+    const nonZero = padding.findIndex((b) => b !== 0);
+    if (nonZero !== -1) {
+      throw new XdrError(
+        XdrErrorCode.NonZeroPadding,
+        `Non-zero padding byte at offset ${padStart + nonZero}`,
+      );
+    }
+    this.push(padStart, 'padding', 'padding', undefined);
+  }
+
+  /** Marks the current offset as the start of the value about to be read. */
+  private begin(): number {
+    this.valueStart = this.reader.offset;
+    return this.valueStart;
+  }
+
+  private push(start: number, role: XdrDumpRole, type: string, value: unknown): void {
+    const length = this.reader.offset - start;
+    const entry: XdrDumpEntry = {
+      offset: start,
+      length,
+      hex: bytesToHex(this.bytes.subarray(start, start + length)),
+      path: [...this.path],
+      role,
+      type,
+    };
+    this.entries.push(value === undefined ? entry : { ...entry, value });
+  }
+}
+
+function latin1(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) result += String.fromCharCode(bytes[i]!);
+  return result;
+}
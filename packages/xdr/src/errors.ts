@@ -14,11 +14,117 @@ export const XdrErrorCode = {
 
 export type XdrErrorCode = (typeof XdrErrorCode)[keyof typeof XdrErrorCode];
 
+/** A struct field name, union arm key or array index. */
+export type XdrPathSegment = string | number;
+
 export class XdrError extends Error {
   readonly code: XdrErrorCode;
+  /** The error description without code or location. */
+  readonly detail: string | undefined;
+  private readonly segments: XdrPathSegment[] = [];
+  private byteOffset: number | undefined;
+
   constructor(code: XdrErrorCode, message?: string) {
     super(message ? `${code}: ${message}` : code);
     this.name = 'XdrError';
     this.code = code;
+    this.detail = message;
+  }
+
+  /**
+   * Location of the failing value, outermost first, e.g.
+   * `['tx', 'operations', 3, 'body', 'InvokeHostFunction']`. Empty when the
+   * error was raised by the top-level codec itself.
+   */
+  get path(): readonly XdrPathSegment[] {
+    return this.segments;
+  }
+
+  /**
+   * Byte offset of the failing value. For decode errors this is where the
+   * innermost failing field, element or arm starts (the value's start, not
+   * where reading stopped); for encode errors, the writer position when the
+   * error was raised; for trailing bytes, where the value ended. The first
+   * offset recorded wins, so outer codecs do not replace it. Undefined for
+   * errors raised outside binary encode/decode, e.g. in `fromJsonValue`.
+   */
+  get offset(): number | undefined {
+    return this.byteOffset;
+  }
+
+  /**
+   * Records where the error happened as it propagates out of a composite
+   * codec. Called once per nesting level, innermost first; the first offset
+   * recorded wins.
+   * @internal
+   */
+  addContext(segment?: XdrPathSegment, offset?: number): this {
+    if (segment !== undefined) this.segments.unshift(segment);
+    if (this.byteOffset === undefined) this.byteOffset = offset;
+    this.message = this.formatMessage();
+    return this;
+  }
+
+  private formatMessage(): string {
+    let message = this.detail ? `${this.code}: ${this.detail}` : this.code;
+    const location: string[] = [];
+    if (this.segments.length > 0) location.push(`at ${formatPath(this.segments)}`);
+    if (this.byteOffset !== undefined) location.push(`offset ${this.byteOffset}`);
+    if (location.length > 0) message += ` (${location.join(', ')})`;
+    return message;
+  }
+}
+
+/**
+ * Renders a path as a property-access string:
+ * `['auth', 0, 'rootInvocation']` → `auth[0].rootInvocation`.
+ */
+export function formatPath(path: readonly XdrPathSegment[]): string {
+  let result = '';
+  for (const segment of path) {
+    if (typeof segment === 'number') result += `[${segment}]`;
+    else result += result === '' ? segment : `.${segment}`;
   }
+  return result;
+}
+
+/**
+ * Adds location context to an XdrError and returns it for rethrowing. Other
+ * errors are returned untouched.
+ */
+export function annotateError(
+  err: unknown,
+  segment?: XdrPathSegment,
+  offset?: number,
+): unknown {
+  if (err instanceof XdrError) err.addContext(segment, offset);
+  return err;
+}
+
+/** A problem found by `XdrCodec.validate`, located by its path. */
+export interface XdrViolation {
+  readonly path: readonly XdrPathSegment[];
+  readonly code: XdrErrorCode;
+  readonly message: string;
+}
+
+/** Records a violation at a snapshot of the current path. */
+export function addViolation(
+  violations: XdrViolation[],
+  path: readonly XdrPathSegment[],
+  code: XdrErrorCode,
+  message: string,
+): void {
+  violations.push({ path: path.slice(), code, message });
+}
+
+/** Short description of an arbitrary value for violation messages. */
+export function describeValue(value: unknown): string {
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (value instanceof Uint8Array) return `Uint8Array(${value.length})`;
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (value === null) return 'null';
+  if (typeof value === 'object') return 'object';
+  return String(value);
 }
@@ -0,0 +1,205 @@
+/**
+ * RFC 5531 record marking for streams of XDR values.
+ *
+ * History archive checkpoint files (ledger, transactions, results, buckets)
+ * are sequences of records, each prefixed by a 4-byte big-endian record mark:
+ * the high bit flags the last fragment of a record and the low 31 bits give
+ * the fragment length. A record is the concatenation of its fragments and
+ * holds exactly one XDR value.
+ */
+import { type XdrCodec } from './codec.js';
+import { XdrError, XdrErrorCode } from './errors.js';
+import { type Limits, DEFAULT_LIMITS } from './limits.js';
+
+const LAST_FRAGMENT = 0x80000000;
+const MAX_FRAGMENT_LENGTH = 0x7fffffff;
+
+export type ByteSource =
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>
+  | Iterable<Uint8Array>;
+
+export interface FramedReadOptions {
+  /** Limits applied when decoding each record. */
+  readonly limits?: Limits;
+  /** Largest record accepted, in bytes. Defaults to `limits.len`. */
+  readonly maxRecordSize?: number;
+}
+
+export interface FramedWriteOptions {
+  /** Limits applied when encoding each value. */
+  readonly limits?: Limits;
+}
+
+/**
+ * Prefixes an encoded XDR value with a record mark, producing a single-fragment
+ * record.
+ */
+export function frameRecord(payload: Uint8Array): Uint8Array {
+  if (payload.length > MAX_FRAGMENT_LENGTH) {
+    throw new XdrError(
+      XdrErrorCode.LengthExceedsMax,
+      `Record length ${payload.length} exceeds max ${MAX_FRAGMENT_LENGTH}`,
+    );
+  }
+  const out = new Uint8Array(4 + payload.length);
+  new DataView(out.buffer).setUint32(0, (LAST_FRAGMENT | payload.length) >>> 0);
+  out.set(payload, 4);
+  return out;
+}
+
+/**
+ * Reads record-marked frames from a byte stream and yields the raw record
+ * payloads. Only the current record is held in memory.
+ */
+export async function* readRecords(
+  source: ByteSource,
+  options?: Pick<FramedReadOptions, 'maxRecordSize'>,
+): AsyncGenerator<Uint8Array> {
+  const maxRecordSize = options?.maxRecordSize ?? DEFAULT_LIMITS.len;
+  const queue = new ChunkQueue(chunksOf(source));
+  try {
+    for (;;) {
+      const fragments: Uint8Array[] = [];
+      let recordLength = 0;
+      let last = false;
+      while (!last) {
+        const mark = await queue.take(4, fragments.length === 0);
+        if (mark === null) return;
+        const header = new DataView(mark.buffer, mark.byteOffset, 4).getUint32(0);
+        last = (header & LAST_FRAGMENT) !== 0;
+        const fragmentLength = header & MAX_FRAGMENT_LENGTH;
+        recordLength += fragmentLength;
+        if (recordLength > maxRecordSize) {
+          throw new XdrError(
+            XdrErrorCode.LengthExceedsMax,
+            `Record length ${recordLength} exceeds max ${maxRecordSize}`,
+          );
+        }
+        fragments.push((await queue.take(fragmentLength, false))!);
+      }
+      yield concat(fragments, recordLength);
+    }
+  } finally {
+    await queue.close();
+  }
+}
+
+/**
+ * Decodes a stream of record-marked XDR frames into typed values.
+ *
+ *   for await (const entry of readFramed(BucketEntry, file)) { ... }
+ *
+ * Each record must contain exactly one value of the codec's type.
+ */
+export async function* readFramed<T>(
+  codec: XdrCodec<T>,
+  source: ByteSource,
+  options?: FramedReadOptions,
+): AsyncGenerator<T> {
+  const limits = options?.limits ?? DEFAULT_LIMITS;
+  const maxRecordSize = options?.maxRecordSize ?? limits.len;
+  for await (const record of readRecords(source, { maxRecordSize })) {
+    yield codec.fromXdr(record, limits);
+  }
+}
+
+/**
+ * Encodes values as record-marked XDR frames, one record per value. The
+ * result can be piped to a file or wrapped with `ReadableStream.from`.
+ */
+export async function* writeFramed<T>(
+  codec: XdrCodec<T>,
+  values: AsyncIterable<T> | Iterable<T>,
+  options?: FramedWriteOptions,
+): AsyncGenerator<Uint8Array> {
+  for await (const value of values) {
+    yield frameRecord(codec.toXdr(value, options?.limits));
+  }
+}
+
+// ---- internals ----
+
+function isReadableStream(
+  source: ByteSource,
+): source is ReadableStream<Uint8Array> {
+  return typeof (source as ReadableStream<Uint8Array>).getReader === 'function';
+}
+
+// Not every ReadableStream implementation is async-iterable, so streams are
+// read through their reader and released when iteration stops.
+async function* chunksOf(source: ByteSource): AsyncGenerator<Uint8Array> {
+  if (!isReadableStream(source)) {
+    yield* source;
+    return;
+  }
+  const reader = source.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function concat(parts: readonly Uint8Array[], length: number): Uint8Array {
+  if (parts.length === 1) return parts[0]!;
+  const out = new Uint8Array(length);
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+class ChunkQueue {
+  private readonly chunks: AsyncIterator<Uint8Array>;
+  private current: Uint8Array = new Uint8Array(0);
+  private pos: number = 0;
+
+  constructor(chunks: AsyncIterator<Uint8Array>) {
+    this.chunks = chunks;
+  }
+
+  /**
+   * Takes exactly `n` bytes. Returns null when the stream ends cleanly before
+   * the first byte and `eofAllowed` is set; any other short read is an error.
+   */
+  async take(n: number, eofAllowed: boolean): Promise<Uint8Array | null> {
+    if (this.current.length - this.pos >= n) {
+      const out = this.current.subarray(this.pos, this.pos + n);
+      this.pos += n;
+      return out;
+    }
+    const out = new Uint8Array(n);
+    let filled = 0;
+    while (filled < n) {
+      if (this.pos === this.current.length) {
+        const next = await this.chunks.next();
+        if (next.done) {
+          if (filled === 0 && eofAllowed) return null;
+          throw new XdrError(
+            XdrErrorCode.BufferUnderflow,
+            `Truncated record stream: need ${n} bytes, have ${filled}`,
+          );
+        }
+        this.current = next.value;
+        this.pos = 0;
+        continue;
+      }
+      const count = Math.min(n - filled, this.current.length - this.pos);
+      out.set(this.current.subarray(this.pos, this.pos + count), filled);
+      filled += count;
+      this.pos += count;
+    }
+    return out;
+  }
+
+  async close(): Promise<void> {
+    await this.chunks.return?.();
+  }
+}
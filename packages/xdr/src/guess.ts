@@ -0,0 +1,127 @@
+/**
+ * Identifies the type of an unlabeled XDR blob, like `stellar-xdr guess`.
+ */
+import { type XdrCodec } from './codec.js';
+import { type Limits } from './limits.js';
+import { decodeBase64 } from './base64.js';
+import { schemaName } from './schema.js';
+import * as generated from '../generated/index.js';
+
+export interface XdrGuess {
+  /** Export name of the type, e.g. 'TransactionEnvelope'. */
+  readonly name: string;
+  readonly codec: XdrCodec<any>;
+  /** The decoded value. */
+  readonly value: unknown;
+  /**
+   * Number of discriminants, enum values, bools and option flags the bytes
+   * had to match. Higher means the match is less likely to be accidental.
+   */
+  readonly score: number;
+}
+
+const GUESS_DEPTH = 100;
+
+let generatedCodecs: Readonly<Record<string, XdrCodec<any>>> | undefined;
+
+function isCodec(value: unknown): value is XdrCodec<any> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'schema' in value &&
+    typeof (value as XdrCodec<any>).decode === 'function'
+  );
+}
+
+/** Every codec exported by the generated Stellar types, by export name. */
+function allGeneratedCodecs(): Readonly<Record<string, XdrCodec<any>>> {
+  if (generatedCodecs === undefined) {
+    const codecs: Record<string, XdrCodec<any>> = {};
+    for (const [name, value] of Object.entries(generated)) {
+      if (isCodec(value)) codecs[name] = value;
+    }
+    generatedCodecs = codecs;
+  }
+  return generatedCodecs;
+}
+
+/**
+ * Tries to decode `input` (bytes or base64) as each candidate type, by
+ * default every generated Stellar type, and returns those that decode
+ * cleanly and consume the whole buffer, most plausible first.
+ *
+ *   guessXdrType(blob);                                    // all types
+ *   guessXdrType(blob, { TransactionEnvelope, TransactionResult });
+ *   guessXdrType(blob, next);                              // another version
+ *
+ * Values of a candidate record that are not codecs, such as the constants of
+ * a generated namespace, are ignored.
+ * Decoding uses strict limits: a depth of 100 and no more bytes than given.
+ * Ties in score are ordered by name.
+ */
+export function guessXdrType(
+  input: Uint8Array | string,
+  candidates?:
+    | Readonly<Record<string, unknown>>
+    | readonly XdrCodec<any>[],
+): XdrGuess[] {
+  const bytes = typeof input === 'string' ? decodeBase64(input) : input;
+  const limits: Limits = { depth: GUESS_DEPTH, len: bytes.length };
+  const entries: [string, XdrCodec<any>][] = Array.isArray(candidates)
+    ? candidates.map((codec) => [schemaName(codec) ?? codec.schema.kind, codec])
+    : candidates === undefined
+      ? Object.entries(allGeneratedCodecs())
+      : Object.entries(candidates).filter((entry): entry is [string, XdrCodec<any>] =>
+          isCodec(entry[1]),
+        );
+
+  const guesses: XdrGuess[] = [];
+  for (const [name, codec] of entries) {
+    let value: unknown;
+    try {
+      value = codec.fromXdr(bytes, limits);
+    } catch {
+      continue;
+    }
+    guesses.push({ name, codec, value, score: plausibility(codec, value) });
+  }
+  return guesses.sort(
+    (a, b) => b.score - a.score || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0),
+  );
+}
+
+/** Counts the constrained values (see `XdrGuess.score`) in a decoded value. */
+function plausibility(codec: XdrCodec<any>, value: any): number {
+  const schema = codec.schema;
+  switch (schema.kind) {
+    case 'typedef':
+      return plausibility(schema.codec, value);
+    case 'bool':
+    case 'enum':
+      return 1;
+    case 'option':
+      return value === null ? 1 : 1 + plausibility(schema.codec, value);
+    case 'fixedArray':
+    case 'varArray': {
+      let score = 0;
+      for (const item of value as unknown[]) score += plausibility(schema.codec, item);
+      return score;
+    }
+    case 'struct': {
+      let score = 0;
+      for (const field of schema.fields) {
+        score += plausibility(field.codec, value[field.name]);
+      }
+      return score;
+    }
+    case 'union': {
+      if (typeof value === 'string') return 1;
+      const key = Object.keys(value)[0]!;
+      const arm = schema.arms.find((a) => a.key === key);
+      const armCodec = arm !== undefined ? arm.codec : schema.defaultArm?.codec;
+      return armCodec === undefined ? 1 : 1 + plausibility(armCodec, value[key]);
+    }
+    default:
+      return 0;
+  }
+}
@@ -1,5 +1,11 @@
 // Core XDR
-export { XdrError, XdrErrorCode } from './errors.js';
+export {
+  XdrError,
+  XdrErrorCode,
+  type XdrPathSegment,
+  type XdrViolation,
+  formatPath,
+} from './errors.js';
 export { type Limits, DEFAULT_LIMITS, LimitTracker } from './limits.js';
 export { encodeBase64, decodeBase64 } from './base64.js';
 export { bytesToHex, hexToBytes } from './hex.js';
@@ -24,7 +30,60 @@ export {
   varArray,
   option,
 } from './containers.js';
-export { xdrStruct, xdrEnum, lazy, taggedUnion, is, jsonAs } from './composites.js';
+export {
+  xdrStruct,
+  xdrEnum,
+  lazy,
+  taggedUnion,
+  typedef,
+  is,
+  jsonAs,
+} from './composites.js';
+export {
+  type XdrSchema,
+  type XdrSchemaKind,
+  type XdrSchemaOf,
+  type XdrStructField,
+  type XdrUnionArm,
+  resolveSchema,
+  schemaName,
+} from './schema.js';
+export { XdrHasher } from './compare.js';
+export { XdrMap, XdrSet } from './collections.js';
+export { type XdrProjection, project } from './projection.js';
+export { compile } from './compile.js';
+export {
+  type XdrDumpEntry,
+  type XdrDumpRole,
+  dumpXdr,
+  formatXdrDump,
+} from './dump.js';
+export {
+  type XdrChange,
+  type XdrChangeKind,
+  diffXdr,
+  formatXdrDiff,
+} from './diff.js';
+export {
+  type JsonSchema,
+  type JsonSchemaOptions,
+  JSON_SCHEMA_DIALECT,
+  toJsonSchema,
+} from './json-schema.js';
+export {
+  type ArbitraryOptions,
+  type XdrArbitrary,
+  arbitrary,
+} from './arbitrary.js';
+export {
+  type ByteSource,
+  type FramedReadOptions,
+  type FramedWriteOptions,
+  frameRecord,
+  readRecords,
+  readFramed,
+  writeFramed,
+} from './framing.js';
 
 // Stellar wrappers
 export {
@@ -37,6 +96,7 @@ export {
   stellarUint128,
   stellarInt256,
   stellarUint256,
+  encodeMuxedAddress,
 } from './stellar.js';
 
 // Re-export strkey for convenience
@@ -44,3 +104,15 @@ export * from '@stellar/strkey';
 
 // Generated Stellar XDR types
 export * from '../generated/index.js';
+
+// Type guessing over the generated types
+export { type XdrGuess, guessXdrType } from './guess.js';
+
+// Protocol versions
+export {
+  XDR_VERSIONS,
+  type XdrVersion,
+  xdrTypes,
+  sameXdrShape,
+  convertXdr,
+} from './versions.js';
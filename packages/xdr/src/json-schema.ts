@@ -0,0 +1,205 @@
+/**
+ * JSON Schema (draft 2020-12) for the SEP-0051 JSON form of XDR types, as
+ * produced by `toJson`/`toJsonValue`.
+ *
+ *   toJsonSchema(TransactionEnvelope, { id: 'https://example.com/tx.json' });
+ *   // { $schema, $id, $ref: '#/$defs/TransactionEnvelope', $defs: { ... } }
+ *
+ * Named types (structs, enums, unions, typedefs) become `$defs` entries
+ * referenced by `$ref`, which also covers recursive types such as SCVal.
+ * Codecs with a custom JSON form (`jsonAs`) contribute their `jsonSchema`.
+ */
+import { type XdrCodec } from './codec.js';
+import { type XdrSchema, resolveSchema, schemaName } from './schema.js';
+
+/** A JSON Schema object. */
+export type JsonSchema = { readonly [keyword: string]: unknown };
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+export interface JsonSchemaOptions {
+  /** `$id` of the generated document. */
+  id?: string;
+}
+
+/** Decimal integers: 64-bit values are JSON strings. */
+const INT_STRING = '^-?[0-9]+$';
+const UINT_STRING = '^[0-9]+$';
+
+/**
+ * One SEP-0051 escaped string byte: printable ASCII other than `\`, or an
+ * escape (`\0`, `\t`, `\n`, `\r`, `\\`, `\xNN`).
+ */
+const ESCAPED_BYTE = String.raw`(?:[\x20-\x5b\x5d-\x7e]|\\[0tnr\\]|\\x[0-9a-f]{2})`;
+
+/**
+ * Builds a standalone JSON Schema document describing `codec.toJsonValue`
+ * output, the form `fromJsonValue` reads back.
+ */
+export function toJsonSchema(
+  codec: XdrCodec<any>,
+  options: JsonSchemaOptions = {},
+): JsonSchema {
+  const builder = new SchemaBuilder();
+  const root = builder.build(codec);
+  const document: Record<string, unknown> = { $schema: JSON_SCHEMA_DIALECT };
+  if (options.id !== undefined) document.$id = options.id;
+  Object.assign(document, root);
+  if (Object.keys(builder.defs).length > 0) document.$defs = builder.defs;
+  return document;
+}
+
+/**
+ * Schema for SEP-0051 escaped strings of at most `maxBytes` bytes; each
+ * byte is one character or one escape sequence.
+ */
+function escapedStringSchema(maxBytes?: number): JsonSchema {
+  const count = maxBytes === undefined ? '*' : `{0,${maxBytes}}`;
+  return { type: 'string', pattern: `^${ESCAPED_BYTE}${count}$` };
+}
+
+class SchemaBuilder {
+  readonly defs: Record<string, JsonSchema> = {};
+  /** `$defs` names by JSON form: the custom `jsonSchema`, else the XDR schema. */
+  private readonly names = new Map<object, string>();
+
+  build(codec: XdrCodec<any>): JsonSchema {
+    const name = schemaName(codec);
+    if (name === undefined) return this.body(codec);
+
+    const key = codec.jsonSchema ?? codec.schema;
+    let defName = this.names.get(key);
+    if (defName === undefined) {
+      defName = this.uniqueName(name);
+      this.names.set(key, defName);
+      // Reserve the name before descending so recursive references resolve
+      this.defs[defName] = {};
+      this.defs[defName] = this.body(codec);
+    }
+    return { $ref: `#/$defs/${defName}` };
+  }
+
+  /** Same-named types with different JSON forms get a numeric suffix. */
+  private uniqueName(name: string): string {
+    let unique = name;
+    for (let i = 2; unique in this.defs; i++) unique = `${name}${i}`;
+    return unique;
+  }
+
+  private body(codec: XdrCodec<any>): JsonSchema {
+    if (codec.jsonSchema !== undefined) return codec.jsonSchema;
+    const schema = codec.schema;
+    switch (schema.kind) {
+      case 'typedef':
+        return this.build(schema.codec);
+      case 'int32':
+        return { type: 'integer', minimum: -0x80000000, maximum: 0x7fffffff };
+      case 'uint32':
+        return { type: 'integer', minimum: 0, maximum: 0xffffffff };
+      case 'int64':
+        return { type: 'string', pattern: INT_STRING };
+      case 'uint64':
+        return { type: 'string', pattern: UINT_STRING };
+      case 'float32':
+      case 'float64':
+        return { type: 'number' };
+      case 'bool':
+        return { type: 'boolean' };
+      case 'void':
+        return { type: 'null' };
+      case 'fixedOpaque':
+        return { type: 'string', pattern: `^[0-9a-fA-F]{${schema.length * 2}}$` };
+      case 'varOpaque':
+        return schema.maxLength === undefined
+          ? { type: 'string', pattern: '^(?:[0-9a-fA-F]{2})*$' }
+          : {
+              type: 'string',
+              pattern: '^(?:[0-9a-fA-F]{2})*$',
+              maxLength: schema.maxLength * 2,
+            };
+      case 'string':
+        return escapedStringSchema(schema.maxLength);
+      case 'fixedArray':
+        return {
+          type: 'array',
+          items: this.build(schema.codec),
+          minItems: schema.length,
+          maxItems: schema.length,
+        };
+      case 'varArray':
+        return { type: 'array', items: this.build(schema.codec), maxItems: schema.maxLength };
+      case 'option':
+        return { oneOf: [{ type: 'null' }, this.build(schema.codec)] };
+      case 'struct': {
+        const properties: Record<string, JsonSchema> = {};
+        for (const field of schema.fields) properties[field.name] = this.build(field.codec);
+        return {
+          type: 'object',
+          properties,
+          required: schema.fields.map((field) => field.name),
+          additionalProperties: false,
+        };
+      }
+      case 'enum':
+        return { type: 'string', enum: Object.keys(schema.members) };
+      case 'union':
+        return this.union(schema);
+    }
+  }
+
+  /** Void arms are their key as a string, others `{ key: value }`. */
+  private union(schema: Extract<XdrSchema, { kind: 'union' }>): JsonSchema {
+    const voidKeys: string[] = [];
+    const variants: JsonSchema[] = [];
+    const seen = new Set<string>();
+    for (const arm of schema.arms) {
+      // `case A: case B:` arms appear once per tag
+      if (seen.has(arm.key)) continue;
+      seen.add(arm.key);
+      if (arm.codec === undefined) voidKeys.push(arm.key);
+      else variants.push(singleKey(arm.key, this.build(arm.codec)));
+    }
+
+    if (schema.defaultArm !== undefined) {
+      const defaultCodec = schema.defaultArm.codec;
+      const switchOn = resolveSchema(schema.switchOn);
+      if (switchOn.kind === 'enum') {
+        // Remaining enum members, keyed by name
+        const tags = new Set(schema.arms.map((arm) => arm.tag));
+        const keys = Object.keys(switchOn.members).filter((member) => !tags.has(member));
+        if (defaultCodec === undefined) {
+          voidKeys.push(...keys);
+        } else {
+          const armSchema = this.build(defaultCodec);
+          for (const key of keys) variants.push(singleKey(key, armSchema));
+        }
+      } else {
+        // Any other integer, keyed by its decimal string
+        const otherKey = { pattern: INT_STRING, not: { enum: [...seen] } };
+        variants.push(
+          defaultCodec === undefined
+            ? { type: 'string', ...otherKey }
+            : {
+                type: 'object',
+                minProperties: 1,
+                maxProperties: 1,
+                propertyNames: otherKey,
+                additionalProperties: this.build(defaultCodec),
+              },
+        );
+      }
+    }
+
+    if (voidKeys.length > 0) variants.unshift({ type: 'string', enum: voidKeys });
+    return variants.length === 1 ? variants[0]! : { oneOf: variants };
+  }
+}
+
+function singleKey(key: string, value: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    properties: { [key]: value },
+    required: [key],
+    additionalProperties: false,
+  };
+}
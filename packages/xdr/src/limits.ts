@@ -27,6 +27,19 @@ export class LimitTracker {
   }
 
   withDepth<T>(fn: () => T): T {
+    this.enter();
+    try {
+      return fn();
+    } finally {
+      this.exit();
+    }
+  }
+
+  /**
+   * Enters one nesting level; callers must `exit()` once done, even on error.
+   * `withDepth` without the callback, for compiled codecs.
+   */
+  enter(): void {
     this.currentDepth++;
     if (this.currentDepth > this.limits.depth) {
       throw new XdrError(
@@ -34,10 +47,9 @@ export class LimitTracker {
         `Depth limit exceeded: ${this.currentDepth} > ${this.limits.depth}`,
       );
     }
-    try {
-      return fn();
-    } finally {
-      this.currentDepth--;
-    }
+  }
+
+  exit(): void {
+    this.currentDepth--;
   }
 }
@@ -1,89 +1,367 @@
 import { BaseCodec, type XdrCodec } from './codec.js';
 import { XdrReader } from './reader.js';
 import { XdrWriter } from './writer.js';
+import { type XdrSchema } from './schema.js';
+import {
+  XdrHasher,
+  cmp,
+  cmpInt32,
+  cmpInt64,
+  float32Bits,
+  float64Bits,
+} from './compare.js';
+import {
+  XdrError,
+  XdrErrorCode,
+  addViolation,
+  describeValue,
+  type XdrPathSegment,
+  type XdrViolation,
+} from './errors.js';
+
+const INT32_MIN = -(2 ** 31);
+const INT32_MAX = 2 ** 31 - 1;
+const UINT32_MAX = 2 ** 32 - 1;
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+const UINT64_MAX = 2n ** 64n - 1n;
+
+function checkInt(
+  type: string,
+  min: number,
+  max: number,
+  value: unknown,
+  path: XdrPathSegment[],
+  violations: XdrViolation[],
+): void {
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < min ||
+    value > max
+  ) {
+    addViolation(
+      violations,
+      path,
+      XdrErrorCode.InvalidValue,
+      `Invalid ${type} value: ${describeValue(value)}`,
+    );
+  }
+}
+
+function checkBigInt(
+  type: string,
+  min: bigint,
+  max: bigint,
+  value: unknown,
+  path: XdrPathSegment[],
+  violations: XdrViolation[],
+): void {
+  if (typeof value !== 'bigint' || value < min || value > max) {
+    addViolation(
+      violations,
+      path,
+      XdrErrorCode.InvalidValue,
+      `Invalid ${type} value: ${describeValue(value)}`,
+    );
+  }
+}
+
+/** Parses a 64-bit integer from its JSON form, a decimal string. */
+function bigIntFromJson(type: string, min: bigint, max: bigint, json: unknown): bigint {
+  const value =
+    (typeof json === 'string' && /^-?\d+$/.test(json)) ||
+    (typeof json === 'number' && Number.isSafeInteger(json))
+      ? BigInt(json)
+      : undefined;
+  if (value === undefined || value < min || value > max) {
+    throw new XdrError(XdrErrorCode.InvalidValue, `Invalid ${type} value: ${describeValue(json)}`);
+  }
+  return value;
+}
+
+function checkType(
+  type: 'number' | 'boolean',
+  value: unknown,
+  path: XdrPathSegment[],
+  violations: XdrViolation[],
+): void {
+  if (typeof value !== type) {
+    addViolation(
+      violations,
+      path,
+      XdrErrorCode.InvalidValue,
+      `Expected ${type}, got ${describeValue(value)}`,
+    );
+  }
+}
 
 class Int32Codec extends BaseCodec<number> {
+  readonly schema: XdrSchema = { kind: 'int32' };
   encode(writer: XdrWriter, value: number): void {
     writer.writeInt32(value);
   }
   decode(reader: XdrReader): number {
     return reader.readInt32();
   }
+  skip(reader: XdrReader): void {
+    reader.skip(4);
+  }
+  encodedSize(_value: number): number {
+    return 4;
+  }
+  collectViolations(
+    value: unknown,
+    path: XdrPathSegment[],
+    violations: XdrViolation[],
+  ): void {
+    checkInt('int32', INT32_MIN, INT32_MAX, value, path, violations);
+  }
+  equals(a: number, b: number): boolean {
+    return a === b;
+  }
+  compare(a: number, b: number): number {
+    return cmpInt32(a, b);
+  }
+  hashInto(hasher: XdrHasher, value: number): void {
+    hasher.writeInt32(value);
+  }
 }
 
 class Uint32Codec extends BaseCodec<number> {
+  readonly schema: XdrSchema = { kind: 'uint32' };
   encode(writer: XdrWriter, value: number): void {
     writer.writeUint32(value);
   }
   decode(reader: XdrReader): number {
     return reader.readUint32();
   }
+  skip(reader: XdrReader): void {
+    reader.skip(4);
+  }
+  encodedSize(_value: number): number {
+    return 4;
+  }
+  collectViolations(
+    value: unknown,
+    path: XdrPathSegment[],
+    violations: XdrViolation[],
+  ): void {
+    checkInt('uint32', 0, UINT32_MAX, value, path, violations);
+  }
+  equals(a: number, b: number): boolean {
+    return a === b;
+  }
+  compare(a: number, b: number): number {
+    return cmp(a, b);
+  }
+  hashInto(hasher: XdrHasher, value: number): void {
+    hasher.writeUint32(value);
+  }
 }
 
 class Int64Codec extends BaseCodec<bigint> {
+  readonly schema: XdrSchema = { kind: 'int64' };
   encode(writer: XdrWriter, value: bigint): void {
     writer.writeInt64(value);
   }
   decode(reader: XdrReader): bigint {
     return reader.readInt64();
   }
+  skip(reader: XdrReader): void {
+    reader.skip(8);
+  }
+  encodedSize(_value: bigint): number {
+    return 8;
+  }
+  collectViolations(
+    value: unknown,
+    path: XdrPathSegment[],
+    violations: XdrViolation[],
+  ): void {
+    checkBigInt('int64', INT64_MIN, INT64_MAX, value, path, violations);
+  }
+  equals(a: bigint, b: bigint): boolean {
+    return a === b;
+  }
+  compare(a: bigint, b: bigint): number {
+    return cmpInt64(a, b);
+  }
+  hashInto(hasher: XdrHasher, value: bigint): void {
+    hasher.writeInt64(value);
+  }
   toJsonValue(value: bigint): unknown {
     return String(value);
   }
   fromJsonValue(json: unknown): bigint {
-    return BigInt(json as string);
+    return bigIntFromJson('int64', INT64_MIN, INT64_MAX, json);
   }
 }
 
 class Uint64Codec extends BaseCodec<bigint> {
+  readonly schema: XdrSchema = { kind: 'uint64' };
   encode(writer: XdrWriter, value: bigint): void {
     writer.writeUint64(value);
   }
   decode(reader: XdrReader): bigint {
     return reader.readUint64();
   }
+  skip(reader: XdrReader): void {
+    reader.skip(8);
+  }
+  encodedSize(_value: bigint): number {
+    return 8;
+  }
+  collectViolations(
+    value: unknown,
+    path: XdrPathSegment[],
+    violations: XdrViolation[],
+  ): void {
+    checkBigInt('uint64', 0n, UINT64_MAX, value, path, violations);
+  }
+  equals(a: bigint, b: bigint): boolean {
+    return a === b;
+  }
+  compare(a: bigint, b: bigint): number {
+    return cmp(a, b);
+  }
+  hashInto(hasher: XdrHasher, value: bigint): void {
+    hasher.writeUint64(value);
+  }
   toJsonValue(value: bigint): unknown {
     return String(value);
   }
   fromJsonValue(json: unknown): bigint {
-    return BigInt(json as string);
+    return bigIntFromJson('uint64', 0n, UINT64_MAX, json);
   }
 }
 
 class Float32Codec extends BaseCodec<number> {
+  readonly schema: XdrSchema = { kind: 'float32' };
   encode(writer: XdrWriter, value: number): void {
     writer.writeFloat32(value);
   }
   decode(reader: XdrReader): number {
     return reader.readFloat32();
   }
+  skip(reader: XdrReader): void {
+    reader.skip(4);
+  }
+  encodedSize(_value: number): number {
+    return 4;
+  }
+  collectViolations(
+    value: unknown,
+    path: XdrPathSegment[],
+    violations: XdrViolation[],
+  ): void {
+    checkType('number', value, path, violations);
+  }
+  equals(a: number, b: number): boolean {
+    return float32Bits(a) === float32Bits(b);
+  }
+  compare(a: number, b: number): number {
+    return cmp(float32Bits(a), float32Bits(b));
+  }
+  hashInto(hasher: XdrHasher, value: number): void {
+    hasher.writeFloat32(value);
+  }
 }
 
 class Float64Codec extends BaseCodec<number> {
+  readonly schema: XdrSchema = { kind: 'float64' };
   encode(writer: XdrWriter, value: number): void {
     writer.writeFloat64(value);
   }
   decode(reader: XdrReader): number {
     return reader.readFloat64();
   }
+  skip(reader: XdrReader): void {
+    reader.skip(8);
+  }
+  encodedSize(_value: number): number {
+    return 8;
+  }
+  collectViolations(
+    value: unknown,
+    path: XdrPathSegment[],
+    violations: XdrViolation[],
+  ): void {
+    checkType('number', value, path, violations);
+  }
+  equals(a: number, b: number): boolean {
+    return float64Bits(a) === float64Bits(b);
+  }
+  compare(a: number, b: number): number {
+    return cmp(float64Bits(a), float64Bits(b));
+  }
+  hashInto(hasher: XdrHasher, value: number): void {
+    hasher.writeFloat64(value);
+  }
 }
 
 class BoolCodec extends BaseCodec<boolean> {
+  readonly schema: XdrSchema = { kind: 'bool' };
   encode(writer: XdrWriter, value: boolean): void {
     writer.writeBool(value);
   }
   decode(reader: XdrReader): boolean {
     return reader.readBool();
   }
+  skip(reader: XdrReader): void {
+    reader.readBool();
+  }
+  encodedSize(_value: boolean): number {
+    return 4;
+  }
+  collectViolations(
+    value: unknown,
+    path: XdrPathSegment[],
+    violations: XdrViolation[],
+  ): void {
+    checkType('boolean', value, path, violations);
+  }
+  equals(a: boolean, b: boolean): boolean {
+    return a === b;
+  }
+  compare(a: boolean, b: boolean): number {
+    return cmp(Number(a), Number(b));
+  }
+  hashInto(hasher: XdrHasher, value: boolean): void {
+    hasher.writeBool(value);
+  }
 }
 
 class VoidCodec extends BaseCodec<void> {
+  readonly schema: XdrSchema = { kind: 'void' };
   encode(_writer: XdrWriter, _value: void): void {
     // void encodes nothing
   }
   decode(_reader: XdrReader): void {
     // void decodes nothing
   }
+  skip(_reader: XdrReader): void {
+    // void occupies no bytes
+  }
+  encodedSize(_value: void): number {
+    return 0;
+  }
+  collectViolations(
+    _value: unknown,
+    _path: XdrPathSegment[],
+    _violations: XdrViolation[],
+  ): void {
+    // any value encodes as nothing
+  }
+  equals(_a: void, _b: void): boolean {
+    return true;
+  }
+  compare(_a: void, _b: void): number {
+    return 0;
+  }
+  hashInto(_hasher: XdrHasher, _value: void): void {
+    // void hashes nothing
+  }
   toJsonValue(_value: void): unknown {
     return null;
   }
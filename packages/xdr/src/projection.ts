@@ -0,0 +1,263 @@
+/**
+ * Selective decoding: materialize only chosen paths of a large value and
+ * `skip` over everything else.
+ *
+ * Paths name struct fields and union arm keys, joined with dots. Arrays and
+ * options are transparent: a path continues into every element.
+ *
+ *   const events = project(TransactionMeta, ['3.sorobanMeta.events']);
+ *   events.fromXdr(bytes);
+ *   // → { 3: { sorobanMeta: { events: [...] } } }
+ *
+ * Struct fields outside the selection are omitted; union arms outside the
+ * selection decode to their key alone, as void arms do.
+ */
+import { type XdrCodec } from './codec.js';
+import { XdrError, XdrErrorCode, annotateError, formatPath } from './errors.js';
+import { type Limits } from './limits.js';
+import { XdrReader } from './reader.js';
+import { decodeBase64 } from './base64.js';
+import { schemaName } from './schema.js';
+
+export interface XdrProjection<R = any> {
+  /** The codec whose values are being projected. */
+  readonly codec: XdrCodec<any>;
+  readonly paths: readonly string[];
+  decode(reader: XdrReader): R;
+  fromXdr(input: Uint8Array | ArrayBufferLike, limits?: Limits): R;
+  fromBase64(input: string, limits?: Limits): R;
+}
+
+/** Selected children by field/arm key; `true` selects the whole subtree. */
+type Selection = Map<string, Selection | true>;
+
+type Decoder = (reader: XdrReader) => unknown;
+
+/**
+ * Builds a decoder for `codec` that materializes only the given paths.
+ * Throws `XdrError` (INVALID_VALUE) if a path does not exist in the type.
+ */
+export function project<R = any>(
+  codec: XdrCodec<any>,
+  paths: readonly string[],
+): XdrProjection<R> {
+  const selection: Selection = new Map();
+  for (const path of paths) {
+    addPath(selection, path.split('.'));
+  }
+  const decodeSelected = buildDecoder(codec, selection, []);
+
+  return {
+    codec,
+    paths,
+    decode(reader: XdrReader): R {
+      return decodeSelected(reader) as R;
+    },
+    fromXdr(input: Uint8Array | ArrayBufferLike, limits?: Limits): R {
+      const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+      const reader = new XdrReader(bytes, limits);
+      let result: unknown;
+      try {
+        result = decodeSelected(reader);
+      } catch (err) {
+        throw annotateError(err, undefined, 0);
+      }
+      try {
+        reader.ensureEnd();
+      } catch (err) {
+        throw annotateError(err, undefined, reader.offset);
+      }
+      return result as R;
+    },
+    fromBase64(input: string, limits?: Limits): R {
+      return this.fromXdr(decodeBase64(input), limits);
+    },
+  };
+}
+
+function addPath(selection: Selection, segments: readonly string[]): void {
+  let node = selection;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i]!;
+    const existing = node.get(segment);
+    if (existing === true) return;
+    if (i === segments.length - 1) {
+      node.set(segment, true);
+      return;
+    }
+    if (existing === undefined) {
+      const child: Selection = new Map();
+      node.set(segment, child);
+      node = child;
+    } else {
+      node = existing;
+    }
+  }
+}
+
+function selectionError(
+  codec: XdrCodec<any>,
+  path: readonly string[],
+  key: string,
+): XdrError {
+  const type = schemaName(codec) ?? codec.schema.kind;
+  const at = path.length > 0 ? ` at ${formatPath(path)}` : '';
+  return new XdrError(
+    XdrErrorCode.InvalidValue,
+    `Projection path not found: ${type}${at} has no field or arm '${key}'`,
+  );
+}
+
+function childDecoder(
+  codec: XdrCodec<any>,
+  selected: Selection | true,
+  path: readonly string[],
+): Decoder {
+  if (selected === true) return (reader) => codec.decode(reader);
+  return buildDecoder(codec, selected, path);
+}
+
+function buildDecoder(
+  codec: XdrCodec<any>,
+  selection: Selection,
+  path: readonly string[],
+): Decoder {
+  const schema = codec.schema;
+  switch (schema.kind) {
+    case 'typedef':
+      return buildDecoder(schema.codec, selection, path);
+
+    case 'option': {
+      const inner = buildDecoder(schema.codec, selection, path);
+      return (reader) => (reader.readBool() ? inner(reader) : null);
+    }
+
+    case 'fixedArray':
+    case 'varArray': {
+      const inner = buildDecoder(schema.codec, selection, path);
+      return (reader) => {
+        let len: number;
+        if (schema.kind === 'fixedArray') {
+          len = schema.length;
+        } else {
+          len = reader.readUint32();
+          if (len > schema.maxLength) {
+            throw new XdrError(
+              XdrErrorCode.LengthExceedsMax,
+              `Array length ${len} exceeds max ${schema.maxLength}`,
+            );
+          }
+        }
+        const result: unknown[] = [];
+        let i = 0;
+        let start = reader.offset;
+        try {
+          for (; i < len; i++) {
+            start = reader.offset;
+            result.push(inner(reader));
+          }
+        } catch (err) {
+          throw annotateError(err, i, start);
+        }
+        return result;
+      };
+    }
+
+    case 'struct': {
+      const fieldNames = new Set(schema.fields.map((f) => f.name));
+      for (const key of selection.keys()) {
+        if (!fieldNames.has(key)) throw selectionError(codec, path, key);
+      }
+      const steps = schema.fields.map((field) => {
+        const selected = selection.get(field.name);
+        return {
+          name: field.name,
+          decode:
+            selected === undefined
+              ? undefined
+              : childDecoder(field.codec, selected, [...path, field.name]),
+          codec: field.codec,
+        };
+      });
+      return (reader) =>
+        reader.limits.withDepth(() => {
+          const result: Record<string, unknown> = {};
+          for (const step of steps) {
+            const start = reader.offset;
+            try {
+              if (step.decode === undefined) step.codec.skip(reader);
+              else result[step.name] = step.decode(reader);
+            } catch (err) {
+              throw annotateError(err, step.name, start);
+            }
+          }
+          return result;
+        });
+    }
+
+    case 'union': {
+      const arms = new Map<
+        string | number,
+        { key: string; codec?: XdrCodec<any>; decode?: Decoder }
+      >();
+      const armKeys = new Set(schema.arms.map((arm) => arm.key));
+      for (const key of selection.keys()) {
+        if (!armKeys.has(key) && schema.defaultArm === undefined) {
+          throw selectionError(codec, path, key);
+        }
+      }
+      const armDecoder = (key: string, armCodec: XdrCodec<any> | undefined) => {
+        const selected = selection.get(key);
+        if (selected === undefined) return undefined;
+        if (armCodec === undefined) {
+          // A void arm has nothing to descend into
+          if (selected !== true) {
+            throw selectionError(codec, [...path, key], selected.keys().next().value!);
+          }
+          return undefined;
+        }
+        return childDecoder(armCodec, selected, [...path, key]);
+      };
+      for (const arm of schema.arms) {
+        arms.set(arm.tag, {
+          key: arm.key,
+          codec: arm.codec,
+          decode: armDecoder(arm.key, arm.codec),
+        });
+      }
+      const defaultCodec = schema.defaultArm?.codec;
+      return (reader) =>
+        reader.limits.withDepth(() => {
+          const tag = schema.switchOn.decode(reader);
+          let arm = arms.get(tag);
+          if (arm === undefined) {
+            if (schema.defaultArm === undefined) {
+              throw new XdrError(
+                XdrErrorCode.InvalidUnionDiscriminant,
+                `Unknown union discriminant: ${String(tag)}`,
+              );
+            }
+            const key = String(tag);
+            arm = { key, codec: defaultCodec, decode: armDecoder(key, defaultCodec) };
+          }
+          if (arm.codec === undefined) return arm.key;
+          const start = reader.offset;
+          try {
+            if (arm.decode === undefined) {
+              arm.codec.skip(reader);
+              return arm.key;
+            }
+            return { [arm.key]: arm.decode(reader) };
+          } catch (err) {
+            throw annotateError(err, arm.key, start);
+          }
+        });
+    }
+
+    default: {
+      const [key] = selection.keys();
+      if (key !== undefined) throw selectionError(codec, path, key);
+      return (reader) => codec.skip(reader);
+    }
+  }
+}
@@ -102,13 +102,7 @@ export class XdrReader {
   }
 
   readVarOpaque(maxLength?: number): Uint8Array {
-    const len = this.readUint32();
-    if (maxLength !== undefined && len > maxLength) {
-      throw new XdrError(
-        XdrErrorCode.LengthExceedsMax,
-        `Opaque length ${len} exceeds max ${maxLength}`,
-      );
-    }
+    const len = this.readOpaqueLength(maxLength);
     this.ensureAvailable(len + pad(len));
     this.limits.consumeLen(len + pad(len));
     const result = this.data.slice(this.pos, this.pos + len);
@@ -134,6 +128,26 @@ export class XdrReader {
     return result;
   }
 
+  /** Advances past `n` bytes (no padding) without copying them. */
+  skip(n: number): void {
+    this.ensureAvailable(n);
+    this.limits.consumeLen(n);
+    this.pos += n;
+  }
+
+  /** Advances past fixed opaque data, checking its padding. */
+  skipFixedOpaque(n: number): void {
+    this.ensureAvailable(n + pad(n));
+    this.limits.consumeLen(n + pad(n));
+    this.pos += n;
+    this.validatePadding(pad(n));
+  }
+
+  /** Advances past variable opaque data or a string, checking its padding. */
+  skipVarOpaque(maxLength?: number): void {
+    this.skipFixedOpaque(this.readOpaqueLength(maxLength));
+  }
+
   ensureEnd(): void {
     if (this.pos !== this.data.length) {
       throw new XdrError(
@@ -143,6 +157,17 @@ export class XdrReader {
     }
   }
 
+  private readOpaqueLength(maxLength: number | undefined): number {
+    const len = this.readUint32();
+    if (maxLength !== undefined && len > maxLength) {
+      throw new XdrError(
+        XdrErrorCode.LengthExceedsMax,
+        `Opaque length ${len} exceeds max ${maxLength}`,
+      );
+    }
+    return len;
+  }
+
   private ensureAvailable(n: number): void {
     if (this.pos + n > this.data.length) {
       throw new XdrError(
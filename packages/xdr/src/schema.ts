@@ -0,0 +1,104 @@
+/**
+ * Runtime type descriptors for codecs.
+ *
+ * Every codec exposes a `schema` describing its XDR shape, with child codecs
+ * linked directly so tooling can walk a full type (e.g. TransactionEnvelope)
+ * without re-parsing the `.x` files. Recursive types are reached through
+ * `lazy`, whose schema is that of its target, so walkers must stop on a
+ * repeated typedef/struct/union name or bound their depth.
+ */
+import { type XdrCodec } from './codec.js';
+
+export interface XdrStructField {
+  readonly name: string;
+  readonly codec: XdrCodec<any>;
+}
+
+/** One per discriminant value; `case A: case B:` arms appear twice. */
+export interface XdrUnionArm {
+  /** Discriminant value: an enum member name or an integer. */
+  readonly tag: string | number;
+  /** Key of the arm in the externally-tagged value. */
+  readonly key: string;
+  /** Undefined for void arms. */
+  readonly codec?: XdrCodec<any>;
+}
+
+export type XdrSchema =
+  | { readonly kind: 'int32' }
+  | { readonly kind: 'uint32' }
+  | { readonly kind: 'int64' }
+  | { readonly kind: 'uint64' }
+  | { readonly kind: 'float32' }
+  | { readonly kind: 'float64' }
+  | { readonly kind: 'bool' }
+  | { readonly kind: 'void' }
+  | { readonly kind: 'fixedOpaque'; readonly length: number }
+  | { readonly kind: 'varOpaque'; readonly maxLength?: number }
+  | { readonly kind: 'string'; readonly maxLength?: number }
+  | {
+      readonly kind: 'fixedArray';
+      readonly length: number;
+      readonly codec: XdrCodec<any>;
+    }
+  | {
+      readonly kind: 'varArray';
+      readonly maxLength: number;
+      readonly codec: XdrCodec<any>;
+    }
+  | { readonly kind: 'option'; readonly codec: XdrCodec<any> }
+  | {
+      readonly kind: 'struct';
+      readonly name?: string;
+      readonly fields: readonly XdrStructField[];
+    }
+  | {
+      readonly kind: 'enum';
+      readonly name?: string;
+      readonly members: Readonly<Record<string, number>>;
+    }
+  | {
+      readonly kind: 'union';
+      readonly name?: string;
+      readonly switchOn: XdrCodec<any>;
+      readonly arms: readonly XdrUnionArm[];
+      /** Present when the union has a `default:` arm. */
+      readonly defaultArm?: { readonly codec?: XdrCodec<any> };
+    }
+  | { readonly kind: 'typedef'; readonly name: string; readonly codec: XdrCodec<any> };
+
+export type XdrSchemaKind = XdrSchema['kind'];
+
+/** Narrows a schema to the variant with the given kind. */
+export type XdrSchemaOf<K extends XdrSchemaKind> = Extract<XdrSchema, { kind: K }>;
+
+/**
+ * Returns the schema of a codec with typedefs followed through to the
+ * underlying type.
+ *
+ *   resolveSchema(AccountId) → { kind: 'union', name: 'PublicKey', ... }
+ */
+export function resolveSchema(codec: XdrCodec<any>): XdrSchema {
+  let schema = codec.schema;
+  while (schema.kind === 'typedef') {
+    schema = schema.codec.schema;
+  }
+  return schema;
+}
+
+/**
+ * Returns the declared name of a codec's type: the typedef, struct, enum or
+ * union name, or undefined for anonymous and primitive codecs.
+ */
+export function schemaName(codec: XdrCodec<any>): string | undefined {
+  const schema = codec.schema;
+  switch (schema.kind) {
+    case 'typedef':
+    case 'struct':
+    case 'enum':
+    case 'union':
+      return schema.name;
+    default:
+      return undefined;
+  }
+}
@@ -7,6 +7,7 @@
  */
 import { type XdrCodec } from './codec.js';
 import { jsonAs } from './composites.js';
+import { type JsonSchema } from './json-schema.js';
 import {
   encodeStrkey,
   decodeStrkey,
@@ -14,6 +15,25 @@ import {
   STRKEY_MUXED_ED25519,
 } from '@stellar/strkey';
 
+// ---- JSON Schemas of the custom forms (see toJsonSchema) ----
+
+const G_ADDRESS = '^G[A-Z2-7]{55}$';
+const M_ADDRESS = '^M[A-Z2-7]{68}$';
+const PUBLIC_KEY_SCHEMA: JsonSchema = { type: 'string', pattern: G_ADDRESS };
+const MUXED_ACCOUNT_SCHEMA: JsonSchema = {
+  type: 'string',
+  pattern: `${G_ADDRESS}|${M_ADDRESS}`,
+};
+/** ASCII with `\\` and `\xNN` escapes, one byte each; trailing NULs trimmed. */
+function assetCodeSchema(maxBytes: number): JsonSchema {
+  return {
+    type: 'string',
+    pattern: String.raw`^(?:[\x20-\x5b\x5d-\x7e]|\\\\|\\x[0-9a-f]{2})` + `{0,${maxBytes}}$`,
+  };
+}
+const INT_SCHEMA: JsonSchema = { type: 'string', pattern: '^-?[0-9]+$' };
+const UINT_SCHEMA: JsonSchema = { type: 'string', pattern: '^[0-9]+$' };
+
 // ---- PublicKey / AccountId ----
 
 /**
@@ -24,6 +44,7 @@ import {
  */
 export function stellarPublicKey<T>(codec: XdrCodec<T>): XdrCodec<T> {
   return jsonAs(codec, {
+    jsonSchema: PUBLIC_KEY_SCHEMA,
     toJsonValue(value: T): unknown {
       const v = value as { readonly ed25519: Uint8Array };
       return encodeStrkey(STRKEY_ED25519_PUBLIC, v.ed25519);
@@ -48,6 +69,16 @@ export const stellarAccountId = stellarPublicKey;
 
 // ---- MuxedAccount ----
 
+/** Encodes the M-address of a muxed ed25519 account. */
+export function encodeMuxedAddress(ed25519: Uint8Array, id: bigint): string {
+  // Payload: 32 bytes ed25519 key + 8 bytes big-endian uint64 id
+  const payload = new Uint8Array(40);
+  payload.set(ed25519, 0);
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  view.setBigUint64(32, id, false);
+  return encodeStrkey(STRKEY_MUXED_ED25519, payload);
+}
+
 /**
  * Wraps a MuxedAccount union codec:
  *   ed25519 arm → G-address
@@ -55,6 +86,7 @@ export const stellarAccountId = stellarPublicKey;
  */
 export function stellarMuxedAccount<T>(codec: XdrCodec<T>): XdrCodec<T> {
   return jsonAs(codec, {
+    jsonSchema: MUXED_ACCOUNT_SCHEMA,
     toJsonValue(value: T): unknown {
       const v = value as Record<string, any>;
       if ('ed25519' in v) {
@@ -62,12 +94,7 @@ export function stellarMuxedAccount<T>(codec: XdrCodec<T>): XdrCodec<T> {
       }
       if ('muxed_ed25519' in v) {
         const med = v.muxed_ed25519 as { id: bigint; ed25519: Uint8Array };
-        // Payload: 32 bytes ed25519 key + 8 bytes big-endian uint64 id
-        const payload = new Uint8Array(40);
-        payload.set(med.ed25519, 0);
-        const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
-        view.setBigUint64(32, med.id, false);
-        return encodeStrkey(STRKEY_MUXED_ED25519, payload);
+        return encodeMuxedAddress(med.ed25519, med.id);
       }
       throw new Error('Unknown MuxedAccount arm');
     },
@@ -100,8 +127,9 @@ export function stellarMuxedAccount<T>(codec: XdrCodec<T>): XdrCodec<T> {
 /**
  * Encode bytes to ASCII, trimming trailing NULs and applying SEP-0051-style
  * escaping for non-printable bytes.
+ * @internal
  */
-function assetBytesToString(bytes: Uint8Array): string {
+export function assetBytesToString(bytes: Uint8Array): string {
   // Find last non-NUL byte
   let end = bytes.length;
   while (end > 0 && bytes[end - 1] === 0) end--;
@@ -155,6 +183,7 @@ function stringToAssetBytes(str: string, len: number): Uint8Array {
  */
 export function stellarAssetCode4<T>(codec: XdrCodec<T>): XdrCodec<T> {
   return jsonAs(codec, {
+    jsonSchema: assetCodeSchema(4),
     toJsonValue(value: T): unknown {
       return assetBytesToString(value as unknown as Uint8Array);
     },
@@ -170,6 +199,7 @@ export function stellarAssetCode4<T>(codec: XdrCodec<T>): XdrCodec<T> {
  */
 export function stellarAssetCode12<T>(codec: XdrCodec<T>): XdrCodec<T> {
   return jsonAs(codec, {
+    jsonSchema: assetCodeSchema(12),
     toJsonValue(value: T): unknown {
       return assetBytesToString(value as unknown as Uint8Array);
     },
@@ -194,6 +224,7 @@ export function stellarInt128<T>(codec: XdrCodec<T>): XdrCodec<T> {
   const MIN = -(1n << 127n);
   const MAX = (1n << 127n) - 1n;
   return jsonAs(codec, {
+    jsonSchema: INT_SCHEMA,
     toJsonValue(value: T): unknown {
       const v = value as { readonly hi: bigint; readonly lo: bigint };
       const combined = (v.hi << 64n) | BigInt.asUintN(64, v.lo);
@@ -224,6 +255,7 @@ export function stellarInt128<T>(codec: XdrCodec<T>): XdrCodec<T> {
 export function stellarUint128<T>(codec: XdrCodec<T>): XdrCodec<T> {
   const MAX = (1n << 128n) - 1n;
   return jsonAs(codec, {
+    jsonSchema: UINT_SCHEMA,
     toJsonValue(value: T): unknown {
       const v = value as { readonly hi: bigint; readonly lo: bigint };
       const combined = (BigInt.asUintN(64, v.hi) << 64n) | BigInt.asUintN(64, v.lo);
@@ -254,6 +286,7 @@ export function stellarInt256<T>(codec: XdrCodec<T>): XdrCodec<T> {
   const MIN = -(1n << 255n);
   const MAX = (1n << 255n) - 1n;
   return jsonAs(codec, {
+    jsonSchema: INT_SCHEMA,
     toJsonValue(value: T): unknown {
       const v = value as {
         readonly hiHi: bigint;
@@ -294,6 +327,7 @@ export function stellarInt256<T>(codec: XdrCodec<T>): XdrCodec<T> {
 export function stellarUint256<T>(codec: XdrCodec<T>): XdrCodec<T> {
   const MAX = (1n << 256n) - 1n;
   return jsonAs(codec, {
+    jsonSchema: UINT_SCHEMA,
     toJsonValue(value: T): unknown {
       const v = value as {
         readonly hiHi: bigint;
@@ -0,0 +1,155 @@
+/**
+ * Side-by-side protocol versions, like rs-stellar-xdr's `curr`/`next`.
+ *
+ * `curr` is generated from the XDR of the protocol live on the network and
+ * `next` from the XDR of the upcoming one, so both networks can be decoded
+ * during an upgrade:
+ *
+ *   import * as next from '@stellar/xdr/next';
+ *   next.TransactionMeta.fromXdr(bytes);
+ *
+ *   const types = xdrTypes(network.protocolVersion >= 24 ? 'next' : 'curr');
+ *   types.LedgerEntry.fromXdr(bytes);
+ *
+ * The root exports of the package are the `curr` types. Until the upcoming
+ * protocol changes the XDR, `next` is the same module as `curr`.
+ */
+import { type XdrCodec } from './codec.js';
+import { type Limits } from './limits.js';
+import { type XdrSchema, resolveSchema } from './schema.js';
+import * as curr from '../generated/curr/index.js';
+
+export const XDR_VERSIONS = { curr, next: curr } as const;
+
+export type XdrVersion = keyof typeof XDR_VERSIONS;
+
+/**
+ * Returns the generated types of a protocol version. Throws `TypeError` for
+ * an unknown version, e.g. one read from configuration.
+ */
+export function xdrTypes<V extends XdrVersion>(version: V): (typeof XDR_VERSIONS)[V] {
+  if (!Object.prototype.hasOwnProperty.call(XDR_VERSIONS, version)) {
+    throw new TypeError(`Unknown XDR version: ${String(version)}`);
+  }
+  return XDR_VERSIONS[version];
+}
+
+/** Results of top-level comparisons; partial results rely on assumptions. */
+const shapeCache = new WeakMap<XdrSchema, WeakMap<XdrSchema, boolean>>();
+
+/**
+ * Whether two codecs have values of the same shape: the same fields, enum
+ * members, union arms and lengths, whatever their type names. Such values
+ * can be passed from one to the other unchanged.
+ *
+ *   sameXdrShape(curr.Asset, next.Asset);  // true unless Asset changed
+ */
+export function sameXdrShape(a: XdrCodec<any>, b: XdrCodec<any>): boolean {
+  let cached = shapeCache.get(a.schema);
+  if (cached === undefined) {
+    cached = new WeakMap();
+    shapeCache.set(a.schema, cached);
+  }
+  let result = cached.get(b.schema);
+  if (result === undefined) {
+    result = sameShape(a, b, new Map());
+    cached.set(b.schema, result);
+  }
+  return result;
+}
+
+/**
+ * Converts a value of one version's type to another's, e.g. a `curr`
+ * LedgerEntry to a `next` one. Values of the same shape are returned as is
+ * (not copied). Otherwise the value is re-encoded, which succeeds when it
+ * only uses fields, arms and members present in both versions and throws
+ * `XdrError` otherwise.
+ */
+export function convertXdr<F, T>(
+  from: XdrCodec<F>,
+  to: XdrCodec<T>,
+  value: F,
+  limits?: Limits,
+): T {
+  if (sameXdrShape(from, to)) return value as unknown as T;
+  return to.fromXdr(from.toXdr(value, limits), limits);
+}
+
+/**
+ * `assumed` holds the pairs being compared further up, which are taken as
+ * equal so recursive types terminate.
+ */
+function sameShape(
+  codecA: XdrCodec<any> | undefined,
+  codecB: XdrCodec<any> | undefined,
+  assumed: Map<XdrSchema, Set<XdrSchema>>,
+): boolean {
+  if (codecA === undefined || codecB === undefined) return codecA === codecB;
+  const a = resolveSchema(codecA);
+  const b = resolveSchema(codecB);
+  if (a === b) return true;
+  if (a.kind !== b.kind) return false;
+  let pending = assumed.get(a);
+  if (pending?.has(b)) return true;
+  if (pending === undefined) {
+    pending = new Set();
+    assumed.set(a, pending);
+  }
+  pending.add(b);
+
+  switch (a.kind) {
+    case 'fixedOpaque':
+      return a.length === (b as typeof a).length;
+    case 'varOpaque':
+    case 'string':
+      return a.maxLength === (b as typeof a).maxLength;
+    case 'fixedArray': {
+      const other = b as typeof a;
+      return a.length === other.length && sameShape(a.codec, other.codec, assumed);
+    }
+    case 'varArray': {
+      const other = b as typeof a;
+      return a.maxLength === other.maxLength && sameShape(a.codec, other.codec, assumed);
+    }
+    case 'option':
+      return sameShape(a.codec, (b as typeof a).codec, assumed);
+    case 'struct': {
+      const fields = (b as typeof a).fields;
+      return (
+        a.fields.length === fields.length &&
+        a.fields.every(
+          (field, i) =>
+            field.name === fields[i]!.name && sameShape(field.codec, fields[i]!.codec, assumed),
+        )
+      );
+    }
+    case 'enum': {
+      const members = (b as typeof a).members;
+      const names = Object.keys(a.members);
+      return (
+        names.length === Object.keys(members).length &&
+        names.every((name) => a.members[name] === members[name])
+      );
+    }
+    case 'union': {
+      const other = b as typeof a;
+      return (
+        sameShape(a.switchOn, other.switchOn, assumed) &&
+        a.arms.length === other.arms.length &&
+        a.arms.every(
+          (arm, i) =>
+            arm.tag === other.arms[i]!.tag &&
+            arm.key === other.arms[i]!.key &&
+            sameShape(arm.codec, other.arms[i]!.codec, assumed),
+        ) &&
+        (a.defaultArm === undefined
+          ? other.defaultArm === undefined
+          : other.defaultArm !== undefined &&
+            sameShape(a.defaultArm.codec, other.defaultArm.codec, assumed))
+      );
+    }
+    default:
+      // Primitives of the same kind
+      return true;
+  }
+}
@@ -155,13 +155,16 @@ export class XdrWriter {
   }
 
   toUint8Array(): Uint8Array {
+    // An exactly presized buffer is handed over without copying; any later
+    // write reallocates, so the returned bytes are never modified.
+    if (this.pos === this.buf.length) return this.buf;
     return this.buf.slice(0, this.pos);
   }
 
   private ensureCapacity(needed: number): void {
     const required = this.pos + needed;
     if (required <= this.buf.length) return;
-    let newSize = this.buf.length;
+    let newSize = Math.max(this.buf.length, 1);
     while (newSize < required) {
       newSize *= 2;
     }
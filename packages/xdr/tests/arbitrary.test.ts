@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  int64,
+  xdrString,
+  varArray,
+  varOpaque,
+  option,
+  xdrEnum,
+  taggedUnion,
+  uint32,
+  bool,
+  arbitrary,
+  type XdrCodec,
+  SCVal,
+  Asset,
+  LedgerEntry,
+  TransactionEnvelope,
+} from '../src/index.js';
+
+function expectRoundTrips<T>(codec: XdrCodec<T>, values: readonly T[]): void {
+  for (const value of values) {
+    expect(codec.validate(value)).toEqual([]);
+    expect(codec.fromXdr(codec.toXdr(value))).toEqual(value);
+  }
+}
+
+describe('arbitrary', () => {
+  it('is deterministic for a seed', () => {
+    const a = arbitrary(TransactionEnvelope, { seed: 7 }).take(5);
+    const b = arbitrary(TransactionEnvelope, { seed: 7 }).take(5);
+    const c = arbitrary(TransactionEnvelope, { seed: 8 }).take(5);
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+  });
+
+  it('generates encodable values of large generated types', () => {
+    expectRoundTrips(TransactionEnvelope, arbitrary(TransactionEnvelope, { seed: 1 }).take(50));
+    expectRoundTrips(LedgerEntry, arbitrary(LedgerEntry, { seed: 2 }).take(50));
+    expectRoundTrips(
+      TransactionEnvelope,
+      arbitrary(TransactionEnvelope, { seed: 3, edgeCases: true }).take(50),
+    );
+  });
+
+  it('stops recursive types at the depth budget', () => {
+    for (const depth of [1, 3, 6]) {
+      // The encoder's depth limit counts the same struct/union nesting
+      for (const value of arbitrary(SCVal, { seed: depth, depth }).take(100)) {
+        expect(() => SCVal.toXdr(value, { depth, len: 1 << 20 })).not.toThrow();
+      }
+    }
+  });
+
+  it('respects maximum lengths', () => {
+    const codec = varArray(3, xdrString(2));
+    const options = { seed: 4, maxLength: 100, edgeCases: true };
+    for (const value of arbitrary(codec, options).take(200)) {
+      expect(value.length).toBeLessThanOrEqual(3);
+      for (const s of value) expect(s.length).toBeLessThanOrEqual(2);
+    }
+    for (const value of arbitrary(varOpaque(), { seed: 5, maxLength: 4 }).take(100)) {
+      expect(value.length).toBeLessThanOrEqual(4);
+    }
+  });
+
+  it('takes declared enum members and union arms, including defaults', () => {
+    const Kind = xdrEnum({ a: 0, b: 1, c: 2 });
+    const U = taggedUnion({
+      switchOn: Kind,
+      arms: [{ tags: ['a'], codec: bool }],
+      defaultArm: {},
+    });
+    const keys = arbitrary(U, { seed: 6 })
+      .take(100)
+      .map((value) => (typeof value === 'string' ? value : Object.keys(value)[0]));
+    expect([...new Set(keys)].sort()).toEqual(['a', 'b', 'c']);
+
+    const Ext = taggedUnion({
+      switchOn: uint32,
+      arms: [{ tags: [0], key: 'v0' }],
+      defaultArm: { codec: bool },
+    });
+    const values = arbitrary(Ext, { seed: 7 }).take(50);
+    expectRoundTrips(Ext, values);
+    expect(values).toContain('v0');
+    expect(values).toContainEqual(expect.any(Object));
+  });
+
+  it('produces edge cases on request', () => {
+    const ints = arbitrary(int64, { seed: 8, edgeCases: true }).take(200);
+    expect(ints).toContain(2n ** 63n - 1n);
+    expect(ints).toContain(-(2n ** 63n));
+    expect(arbitrary(int64, { seed: 8 }).take(200)).not.toContain(2n ** 63n - 1n);
+
+    const arrays = arbitrary(varArray(5, option(int64)), { seed: 9, edgeCases: true }).take(100);
+    expect(arrays).toContainEqual([]);
+
+    const codes = arbitrary(Asset, { seed: 10, edgeCases: true })
+      .take(300)
+      .flatMap((asset) =>
+        typeof asset === 'object' && 'CreditAlphanum12' in asset
+          ? [asset.CreditAlphanum12.assetCode]
+          : [],
+      );
+    expect(codes.some((code) => code.every((b) => b !== 0))).toBe(true);
+    for (const code of codes) {
+      expect(String.fromCharCode(...code)).toMatch(/^[A-Z0-9]{5,12}\0*$/);
+    }
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => arbitrary(int64, { depth: -1 })).toThrow(TypeError);
+    expect(() => arbitrary(int64, { maxLength: 1.5 })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect } from 'vitest';
+import {
+  int32,
+  uint32,
+  int64,
+  uint64,
+  float32,
+  float64,
+  bool,
+  xdrVoid,
+  fixedOpaque,
+  varOpaque,
+  xdrString,
+  fixedArray,
+  varArray,
+  option,
+  xdrStruct,
+  xdrEnum,
+  taggedUnion,
+  XdrMap,
+  XdrSet,
+  type XdrCodec,
+  SCVal,
+  LedgerKey,
+  Asset,
+} from '../src/index.js';
+
+/** Byte-wise order of two encodings: the reference `compare` must match. */
+function compareEncoded<T>(codec: XdrCodec<T>, a: T, b: T): number {
+  const x = codec.toXdr(a);
+  const y = codec.toXdr(b);
+  const n = Math.min(x.length, y.length);
+  for (let i = 0; i < n; i++) {
+    if (x[i] !== y[i]) return x[i]! < y[i]! ? -1 : 1;
+  }
+  return Math.sign(x.length - y.length);
+}
+
+function fnv1a(bytes: Uint8Array): number {
+  let h = 0x811c9dc5;
+  for (const b of bytes) h = Math.imul(h ^ b, 0x01000193);
+  return h >>> 0;
+}
+
+/** Checks compare/equals/hash against the encodings of every pair. */
+function checkAgainstEncoding<T>(codec: XdrCodec<T>, values: readonly T[]): void {
+  for (const a of values) {
+    expect(codec.hash(a)).toBe(fnv1a(codec.toXdr(a)));
+    for (const b of values) {
+      const expected = compareEncoded(codec, a, b);
+      expect(Math.sign(codec.compare(a, b))).toBe(expected);
+      expect(codec.equals(a, b)).toBe(expected === 0);
+    }
+  }
+}
+
+const account = (fill: number) => ({
+  PublicKeyTypeEd25519: new Uint8Array(32).fill(fill),
+});
+
+describe('equals / compare / hash', () => {
+  it('orders signed integers by encoding', () => {
+    checkAgainstEncoding(int32, [0, 1, -1, 2 ** 31 - 1, -(2 ** 31), 7]);
+    checkAgainstEncoding(int64, [0n, 1n, -1n, 2n ** 63n - 1n, -(2n ** 63n)]);
+    // Negative values sort after positive ones, as their bytes do
+    expect(int32.compare(-1, 1)).toBeGreaterThan(0);
+  });
+
+  it('orders unsigned integers, floats and bools', () => {
+    checkAgainstEncoding(uint32, [0, 1, 2 ** 32 - 1, 256]);
+    checkAgainstEncoding(uint64, [0n, 1n, 2n ** 64n - 1n, 2n ** 32n]);
+    checkAgainstEncoding(float32, [0, -0, 1.5, -1.5, Infinity]);
+    checkAgainstEncoding(float64, [0, -0, 1.5, -1.5, NaN]);
+    checkAgainstEncoding(bool, [true, false]);
+    expect(float64.equals(NaN, NaN)).toBe(true);
+    expect(float64.equals(0, -0)).toBe(false);
+  });
+
+  it('treats void values as equal', () => {
+    expect(xdrVoid.equals(undefined, undefined)).toBe(true);
+    expect(xdrVoid.compare(undefined, undefined)).toBe(0);
+  });
+
+  it('orders opaque data and strings with length prefixes first', () => {
+    const bytes = (...b: number[]) => new Uint8Array(b);
+    checkAgainstEncoding(fixedOpaque(3), [bytes(0, 0, 0), bytes(1, 2, 3), bytes(1, 2, 4)]);
+    checkAgainstEncoding(varOpaque(), [bytes(), bytes(9), bytes(1, 2), bytes(1, 3)]);
+    checkAgainstEncoding(xdrString(), ['', 'b', 'ab', 'abc', 'abd', 'ÿ']);
+    expect(varOpaque().compare(bytes(9), bytes(1, 2))).toBeLessThan(0);
+  });
+
+  it('compares arrays and options element-wise', () => {
+    checkAgainstEncoding(varArray(10, int32), [[], [1], [1, 2], [2], [-1]]);
+    checkAgainstEncoding(fixedArray(2, uint32), [[0, 1], [1, 0], [1, 1]]);
+    checkAgainstEncoding(option(int32), [null, 0, 5, -5]);
+  });
+
+  it('compares structs field by field and enums by value', () => {
+    const Color = xdrEnum({ red: 5, green: 1, blue: -1 });
+    checkAgainstEncoding(Color, ['red', 'green', 'blue']);
+    const Pair = xdrStruct<{ a: number; b: string }>([
+      ['a', uint32],
+      ['b', xdrString()],
+    ]);
+    checkAgainstEncoding(Pair, [
+      { a: 1, b: 'x' },
+      { a: 1, b: 'y' },
+      { a: 0, b: 'z' },
+    ]);
+  });
+
+  it('compares unions by discriminant, then arm value', () => {
+    const U = taggedUnion({
+      switchOn: int32,
+      arms: [
+        { tags: [0], key: 'none' },
+        { tags: [1, 2], key: 'num', codec: uint32 },
+      ],
+      defaultArm: { codec: xdrString() },
+    });
+    checkAgainstEncoding(U, ['none', { num: 3 }, { num: 4 }, { 7: 'a' }, { '-3': 'b' }]);
+  });
+
+  it('matches the encoding order for generated types', () => {
+    const values: SCVal[] = [
+      'Void',
+      { Bool: false },
+      { Bool: true },
+      { U32: 7 },
+      { I32: -7 },
+      { I64: -1n },
+      { I128: { hi: -1n, lo: 5n } },
+      { Symbol: 'transfer' },
+      { Symbol: 'mint' },
+      { Bytes: new Uint8Array([1, 2, 3]) },
+      { Vec: null },
+      { Vec: [{ U32: 1 }, { Symbol: 'a' }] },
+      { Vec: [{ U32: 1 }] },
+      { Map: [{ key: { Symbol: 'k' }, val: { I32: 1 } }] },
+      { Address: { Account: account(1) } },
+      { Address: { Contract: new Uint8Array(32).fill(2) } },
+    ];
+    checkAgainstEncoding(SCVal, values);
+
+    const keys: LedgerKey[] = [
+      { Account: { accountID: account(2) } },
+      { Account: { accountID: account(1) } },
+      { Data: { accountID: account(1), dataName: 'b' } },
+      { Data: { accountID: account(1), dataName: 'a' } },
+      { Ttl: { keyHash: new Uint8Array(32) } },
+    ];
+    checkAgainstEncoding(LedgerKey, keys);
+  });
+
+  it('works as an unbound sort comparator', () => {
+    const keys: LedgerKey[] = [
+      { Ttl: { keyHash: new Uint8Array(32) } },
+      { Account: { accountID: account(2) } },
+      { Account: { accountID: account(1) } },
+    ];
+    const sorted = [...keys].sort(LedgerKey.compare);
+    expect(sorted).toEqual([keys[2], keys[1], keys[0]]);
+  });
+
+  it('equates values decoded separately', () => {
+    const asset: Asset = {
+      CreditAlphanum4: {
+        assetCode: new Uint8Array([85, 83, 68, 67]),
+        issuer: account(3),
+      },
+    };
+    const copy = Asset.fromXdr(Asset.toXdr(asset));
+    expect(copy).not.toBe(asset);
+    expect(Asset.equals(asset, copy)).toBe(true);
+    expect(Asset.hash(asset)).toBe(Asset.hash(copy));
+    expect(Asset.equals(asset, 'Native')).toBe(false);
+  });
+});
+
+describe('XdrMap', () => {
+  const usdc: Asset = {
+    CreditAlphanum4: {
+      assetCode: new Uint8Array([85, 83, 68, 67]),
+      issuer: account(3),
+    },
+  };
+
+  it('keys entries by value', () => {
+    const map = new XdrMap<Asset, bigint>(Asset);
+    map.set(usdc, 10n).set('Native', 5n);
+    expect(map.size).toBe(2);
+    expect(map.get(Asset.fromXdr(Asset.toXdr(usdc)))).toBe(10n);
+    expect(map.has('Native')).toBe(true);
+
+    map.set(Asset.fromXdr(Asset.toXdr(usdc)), 11n);
+    expect(map.size).toBe(2);
+    expect(map.get(usdc)).toBe(11n);
+  });
+
+  it('iterates in insertion order and deletes', () => {
+    const map = new XdrMap<number, string>(int32, [
+      [3, 'c'],
+      [1, 'a'],
+      [2, 'b'],
+    ]);
+    expect([...map.keys()]).toEqual([3, 1, 2]);
+    expect(map.delete(1)).toBe(true);
+    expect(map.delete(1)).toBe(false);
+    expect([...map]).toEqual([
+      [3, 'c'],
+      [2, 'b'],
+    ]);
+    const seen: string[] = [];
+    map.forEach((value) => seen.push(value));
+    expect(seen).toEqual(['c', 'b']);
+    map.clear();
+    expect(map.size).toBe(0);
+    expect(map.get(3)).toBeUndefined();
+  });
+
+  it('keeps colliding hashes apart', () => {
+    const colliding: XdrCodec<number> = Object.assign(Object.create(int32), {
+      hash: () => 0,
+    });
+    const map = new XdrMap<number, string>(colliding, [
+      [1, 'a'],
+      [2, 'b'],
+    ]);
+    expect(map.get(1)).toBe('a');
+    expect(map.get(2)).toBe('b');
+    map.delete(1);
+    expect(map.get(2)).toBe('b');
+  });
+});
+
+describe('XdrSet', () => {
+  it('deduplicates by value', () => {
+    const a = new Uint8Array([1, 2]);
+    const set = new XdrSet(varOpaque(), [a, new Uint8Array([1, 2]), new Uint8Array([3])]);
+    expect(set.size).toBe(2);
+    expect(set.has(new Uint8Array([1, 2]))).toBe(true);
+    expect([...set][0]).toBe(a);
+    expect(set.delete(new Uint8Array([3]))).toBe(true);
+    expect([...set.values()]).toEqual([a]);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Generic vs compiled codecs. Run with `npm run bench -w packages/xdr`.
+ */
+import { bench, describe } from 'vitest';
+import {
+  compile,
+  type XdrCodec,
+  SCVal,
+  TransactionEnvelope,
+  LedgerCloseMeta,
+} from '../src/index.js';
+import { ENVELOPES, SC_VAL, LEDGER_CLOSE_META } from './compile.fixtures.js';
+
+function compareCodecs<T>(name: string, codec: XdrCodec<T>, value: T): void {
+  const compiled = compile(codec);
+  const bytes = codec.toXdr(value);
+
+  describe(`${name} decode`, () => {
+    bench('generic', () => {
+      codec.fromXdr(bytes);
+    });
+    bench('compiled', () => {
+      compiled.fromXdr(bytes);
+    });
+  });
+
+  describe(`${name} encode`, () => {
+    bench('generic', () => {
+      codec.toXdr(value);
+    });
+    bench('compiled', () => {
+      compiled.toXdr(value);
+    });
+  });
+}
+
+compareCodecs('TransactionEnvelope', TransactionEnvelope, ENVELOPES[0]!);
+compareCodecs('LedgerCloseMeta', LedgerCloseMeta, LEDGER_CLOSE_META);
+compareCodecs('SCVal', SCVal, SC_VAL);
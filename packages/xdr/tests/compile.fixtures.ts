@@ -0,0 +1,112 @@
+/**
+ * Realistic values for the compiled codec tests and benchmarks.
+ */
+import {
+  TransactionEnvelope,
+  type ContractEvent,
+  type LedgerCloseMeta,
+  type SCVal,
+  type TransactionMeta,
+  type TransactionResultMeta,
+} from '../src/index.js';
+import { TX_PAYMENT_BYTES, TX_WITH_SIG_BYTES } from './rs-compat/fixtures.js';
+
+export const ENVELOPES = [
+  TransactionEnvelope.fromXdr(TX_PAYMENT_BYTES),
+  TransactionEnvelope.fromXdr(TX_WITH_SIG_BYTES),
+];
+
+export const SC_VAL: SCVal = {
+  Vec: [
+    { Symbol: 'transfer' },
+    { Address: { Contract: new Uint8Array(32).fill(7) } },
+    { I128: { hi: -1n, lo: 12345n } },
+    {
+      Map: [
+        { key: { Symbol: 'amount' }, val: { U64: 10n } },
+        { key: { Symbol: 'memo' }, val: { String: 'hello' } },
+        { key: { Symbol: 'nested' }, val: { Vec: [{ Bool: true }, 'Void'] } },
+      ],
+    },
+    { Bytes: new Uint8Array([1, 2, 3, 4, 5]) },
+  ],
+};
+
+function event(symbol: string): ContractEvent {
+  return {
+    ext: '0',
+    contractID: new Uint8Array(32).fill(1),
+    type: 'Contract',
+    body: { 0: { topics: [{ Symbol: symbol }, SC_VAL], data: { I32: 1 } } },
+  };
+}
+
+export const TRANSACTION_META: TransactionMeta = {
+  3: {
+    ext: '0',
+    txChangesBefore: [],
+    operations: [{ changes: [] }],
+    txChangesAfter: [],
+    sorobanMeta: {
+      ext: '0',
+      events: [event('transfer'), event('mint')],
+      returnValue: SC_VAL,
+      diagnosticEvents: [{ inSuccessfulContractCall: true, event: event('diag') }],
+    },
+  },
+};
+
+function resultMeta(i: number): TransactionResultMeta {
+  return {
+    result: {
+      transactionHash: new Uint8Array(32).fill(i),
+      result: { feeCharged: 100n, result: { TxSUCCESS: [] }, ext: '0' },
+      ext: '0',
+    },
+    feeProcessing: [],
+    txApplyProcessing: TRANSACTION_META,
+  } as TransactionResultMeta;
+}
+
+export const LEDGER_CLOSE_META: LedgerCloseMeta = {
+  0: {
+    ledgerHeader: {
+      hash: new Uint8Array(32).fill(9),
+      header: {
+        ledgerVersion: 22,
+        previousLedgerHash: new Uint8Array(32),
+        scpValue: {
+          txSetHash: new Uint8Array(32),
+          closeTime: 1700000000n,
+          upgrades: [],
+          ext: 'Basic',
+        },
+        txSetResultHash: new Uint8Array(32),
+        bucketListHash: new Uint8Array(32),
+        ledgerSeq: 123456,
+        totalCoins: 1000000000000000000n,
+        feePool: 0n,
+        inflationSeq: 0,
+        idPool: 0n,
+        baseFee: 100,
+        baseReserve: 5000000,
+        maxTxSetSize: 1000,
+        skipList: [
+          new Uint8Array(32),
+          new Uint8Array(32),
+          new Uint8Array(32),
+          new Uint8Array(32),
+        ],
+        ext: '0',
+      },
+      ext: '0',
+    },
+    txSet: {
+      previousLedgerHash: new Uint8Array(32),
+      txs: [...ENVELOPES, ...ENVELOPES],
+    },
+    txProcessing: [resultMeta(1), resultMeta(2), resultMeta(3), resultMeta(4)],
+    upgradesProcessing: [],
+    scpInfo: [],
+  },
+};
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import {
+  int32,
+  uint32,
+  uint64,
+  bool,
+  xdrVoid,
+  fixedOpaque,
+  xdrString,
+  fixedArray,
+  varArray,
+  option,
+  xdrStruct,
+  xdrEnum,
+  taggedUnion,
+  jsonAs,
+  compile,
+  XdrError,
+  type XdrCodec,
+  SCVal,
+  Asset,
+  Memo,
+  TransactionEnvelope,
+  TransactionMeta,
+  LedgerCloseMeta,
+} from '../src/index.js';
+import {
+  ENVELOPES,
+  SC_VAL,
+  TRANSACTION_META,
+  LEDGER_CLOSE_META,
+} from './compile.fixtures.js';
+
+function expectSameRoundTrip<T>(codec: XdrCodec<T>, value: T): void {
+  const compiled = compile(codec);
+  const bytes = codec.toXdr(value);
+  expect(compiled.toXdr(value)).toEqual(bytes);
+  expect(compiled.fromXdr(bytes)).toEqual(codec.fromXdr(bytes));
+}
+
+/** Runs both codecs and expects the same error (message, path, offset). */
+function expectSameError(run: (codec: XdrCodec<any>) => unknown, codec: XdrCodec<any>): void {
+  const capture = (c: XdrCodec<any>): unknown => {
+    try {
+      run(c);
+    } catch (err) {
+      return err;
+    }
+    throw new Error('expected an error');
+  };
+  const expected = capture(codec);
+  const actual = capture(compile(codec));
+  expect(actual).toBeInstanceOf(XdrError);
+  expect((actual as XdrError).message).toBe((expected as XdrError).message);
+  expect((actual as XdrError).path).toEqual((expected as XdrError).path);
+  expect((actual as XdrError).offset).toBe((expected as XdrError).offset);
+}
+
+describe('compile', () => {
+  it('matches the generated Stellar codecs', () => {
+    for (const envelope of ENVELOPES) {
+      expectSameRoundTrip(TransactionEnvelope, envelope);
+    }
+    expectSameRoundTrip(SCVal, SC_VAL);
+    expectSameRoundTrip(TransactionMeta, TRANSACTION_META);
+    expectSameRoundTrip(LedgerCloseMeta, LEDGER_CLOSE_META);
+    expectSameRoundTrip(Asset, 'Native');
+    expectSameRoundTrip(Memo, { Text: 'hi' });
+    expectSameRoundTrip(Memo, 'None');
+  });
+
+  it('compiles primitives and containers', () => {
+    expectSameRoundTrip(int32, -7);
+    expectSameRoundTrip(xdrVoid, undefined);
+    expectSameRoundTrip(fixedArray(2, xdrString(3)), ['ab', 'c']);
+    expectSameRoundTrip(varArray(3, option(uint64)), [null, 5n]);
+    expectSameRoundTrip(xdrStruct([]), {});
+  });
+
+  it('handles int-switched unions with default arms', () => {
+    const Ext = taggedUnion({
+      switchOn: uint32,
+      arms: [
+        { tags: [0], key: 'v0' },
+        { tags: [1, 2], key: 'num', codec: int32 },
+      ],
+      defaultArm: { codec: xdrString() },
+    });
+    expectSameRoundTrip(Ext, 'v0');
+    expectSameRoundTrip(Ext, { num: 4 });
+    expectSameRoundTrip(Ext, { 9: 'other' });
+    // The second tag of a shared arm decodes to the same key
+    expect(compile(Ext).fromXdr(new Uint8Array([0, 0, 0, 2, 0, 0, 0, 1]))).toEqual({
+      num: 1,
+    });
+  });
+
+  it('handles enum-switched unions with default arms', () => {
+    const Kind = xdrEnum({ a: 0, b: 1, c: 2 });
+    const U = taggedUnion({
+      switchOn: Kind,
+      arms: [{ tags: ['a'], codec: bool }],
+      defaultArm: {},
+    });
+    expectSameRoundTrip(U, { a: true });
+    expectSameRoundTrip(U, 'c');
+  });
+
+  it('falls back to the original codec for other discriminant types', () => {
+    const U = taggedUnion({
+      switchOn: bool,
+      arms: [
+        { tags: [false as unknown as number], key: 'no' },
+        { tags: [true as unknown as number], key: 'yes', codec: int32 },
+      ],
+    });
+    expectSameRoundTrip(U, { yes: 3 });
+    expectSameRoundTrip(U, 'no');
+  });
+
+  it('throws the same decode errors', () => {
+    const bytes = LedgerCloseMeta.toXdr(LEDGER_CLOSE_META);
+    expectSameError((c) => c.fromXdr(bytes.slice(0, bytes.length - 100)), LedgerCloseMeta);
+    expectSameError((c) => c.fromXdr(new Uint8Array([0, 0, 0, 99])), SCVal);
+    expectSameError((c) => c.fromXdr(new Uint8Array([0, 0, 0, 9])), TransactionMeta);
+    expectSameError((c) => c.fromXdr(new Uint8Array([0, 0, 0, 1, 0, 0, 0, 2])), Asset);
+    expectSameError((c) => c.fromXdr(new Uint8Array([...bytes, 0, 0, 0, 0])), LedgerCloseMeta);
+    const Small = varArray(1, int32);
+    expectSameError((c) => c.fromXdr(new Uint8Array([0, 0, 0, 2])), Small);
+  });
+
+  it('throws the same encode errors', () => {
+    expectSameError((c) => c.toXdr({ Vec: [{ U32: -1 }] }), SCVal);
+    expectSameError((c) => c.toXdr({ Nope: 1 }), SCVal);
+    expectSameError((c) => c.toXdr('Nope'), SCVal);
+    expectSameError((c) => c.toXdr({ Text: 'x'.repeat(29) }), Memo);
+    expectSameError((c) => c.toXdr([1]), fixedArray(2, int32));
+    expectSameError((c) => c.toXdr([1, 2]), varArray(1, int32));
+    expectSameError((c) => c.toXdr('d'), xdrEnum({ a: 0 }));
+    expectSameError(
+      (c) => c.toXdr({ a: new Uint8Array(3) }),
+      xdrStruct([['a', fixedOpaque(4)]]),
+    );
+  });
+
+  it('enforces depth and byte limits', () => {
+    let deep: SCVal = { U32: 1 };
+    for (let i = 0; i < 20; i++) deep = { Vec: [deep] };
+    const bytes = SCVal.toXdr(deep);
+    expectSameError((c) => c.fromXdr(bytes, { depth: 10, len: 1 << 20 }), SCVal);
+    expectSameError((c) => c.toXdr(deep, { depth: 10, len: 1 << 20 }), SCVal);
+    expectSameError((c) => c.fromXdr(bytes, { depth: 100, len: 16 }), SCVal);
+    // Depth is released after each value, so a compiled codec is reusable
+    expect(compile(SCVal).fromXdr(bytes, { depth: 50, len: 1 << 20 })).toEqual(deep);
+  });
+
+  it('delegates everything but binary encode/decode', () => {
+    const Code = jsonAs(fixedOpaque(4), {
+      toJsonValue: () => 'CODE',
+      fromJsonValue: () => new Uint8Array(4),
+    });
+    const compiled = compile(Code);
+    expect(compiled.schema).toBe(Code.schema);
+    expect(compiled.toJsonValue(new Uint8Array(4))).toBe('CODE');
+    expect(compile(SCVal).validate({ U32: -1 })).toEqual(SCVal.validate({ U32: -1 }));
+    expect(compile(SCVal).encodedSize(SC_VAL)).toBe(SCVal.encodedSize(SC_VAL));
+    expect(compile(SCVal).equals(SC_VAL, SC_VAL)).toBe(true);
+  });
+
+  it('caches compiled codecs', () => {
+    expect(compile(TransactionEnvelope)).toBe(compile(TransactionEnvelope));
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffXdr,
+  formatXdrDiff,
+  encodeStrkey,
+  STRKEY_ED25519_PUBLIC,
+  STRKEY_MUXED_ED25519,
+  STRKEY_CONTRACT,
+  Asset,
+  AccountEntry,
+  MuxedAccount,
+  SCAddress,
+  TransactionEnvelope,
+  Uint32,
+  type AccountEntry as AccountEntryValue,
+} from '../src/index.js';
+import { ENVELOPES } from './compile.fixtures.js';
+
+const alice = new Uint8Array(32).fill(1);
+const bob = new Uint8Array(32).fill(2);
+const G_ALICE = encodeStrkey(STRKEY_ED25519_PUBLIC, alice);
+const G_BOB = encodeStrkey(STRKEY_ED25519_PUBLIC, bob);
+
+const account: AccountEntryValue = {
+  accountID: { PublicKeyTypeEd25519: alice },
+  balance: 100n,
+  seqNum: 5n,
+  numSubEntries: 1,
+  inflationDest: null,
+  flags: 0,
+  homeDomain: 'example.com',
+  thresholds: new Uint8Array([1, 0, 0, 0]),
+  signers: [{ key: { Ed25519: bob }, weight: 1 }],
+  ext: '0',
+};
+
+describe('diffXdr', () => {
+  it('returns no changes for equal values', () => {
+    const copy = { ...account, signers: [...account.signers] };
+    expect(diffXdr(AccountEntry, account, copy)).toEqual([]);
+  });
+
+  it('reports changed fields, set options and array edits with paths', () => {
+    const after: AccountEntryValue = {
+      ...account,
+      balance: 250n,
+      inflationDest: { PublicKeyTypeEd25519: bob },
+      signers: [
+        { key: { Ed25519: bob }, weight: 2 },
+        { key: { PreAuthTx: alice }, weight: 1 },
+      ],
+    };
+    const changes = diffXdr(AccountEntry, account, after);
+    const summary = changes.map(({ kind, path, before, after }) => ({ kind, path, before, after }));
+    expect(summary).toEqual([
+      { kind: 'changed', path: ['balance'], before: 100n, after: 250n },
+      { kind: 'set', path: ['inflationDest'], before: undefined, after: after.inflationDest },
+      { kind: 'changed', path: ['signers', 0, 'weight'], before: 1, after: 2 },
+      { kind: 'added', path: ['signers', 1], before: undefined, after: after.signers[1] },
+    ]);
+    expect(changes[2]!.codec).toBe(Uint32);
+
+    const reverse = diffXdr(AccountEntry, after, account);
+    expect(reverse.map((c) => c.kind)).toEqual(['changed', 'cleared', 'changed', 'removed']);
+  });
+
+  it('reports a switched union arm without descending', () => {
+    const changes = diffXdr(AccountEntry, account, {
+      ...account,
+      signers: [{ key: { HashX: bob }, weight: 1 }],
+    });
+    expect(changes).toEqual([
+      expect.objectContaining({
+        kind: 'armChanged',
+        path: ['signers', 0, 'key'],
+        before: { Ed25519: bob },
+        after: { HashX: bob },
+      }),
+    ]);
+  });
+
+  it('treats addresses and asset codes as single values', () => {
+    const changes = diffXdr(AccountEntry, account, {
+      ...account,
+      accountID: { PublicKeyTypeEd25519: bob },
+    });
+    expect(changes.map((c) => [c.kind, c.path])).toEqual([['changed', ['accountID']]]);
+  });
+
+  it('diffs transaction envelopes', () => {
+    const [a, b] = ENVELOPES;
+    const changes = diffXdr(TransactionEnvelope, a!, b!);
+    expect(changes.length).toBeGreaterThan(0);
+    for (const change of changes) expect(change.path[0]).toBe('Tx');
+  });
+});
+
+describe('formatXdrDiff', () => {
+  it('renders one line per change with strkeys', () => {
+    const after: AccountEntryValue = {
+      ...account,
+      accountID: { PublicKeyTypeEd25519: bob },
+      inflationDest: { PublicKeyTypeEd25519: alice },
+      signers: [],
+    };
+    expect(formatXdrDiff(diffXdr(AccountEntry, account, after)).split('\n')).toEqual([
+      `~ accountID: "${G_ALICE}" -> "${G_BOB}"`,
+      `+ inflationDest: "${G_ALICE}"`,
+      `- signers[0]: {"key":{"Ed25519":"${'02'.repeat(32)}"},"weight":1}`,
+    ]);
+  });
+
+  it('renders asset codes, muxed accounts and contract addresses', () => {
+    const usdc: Asset = {
+      CreditAlphanum4: {
+        assetCode: new Uint8Array([0x55, 0x53, 0x44, 0x43]),
+        issuer: { PublicKeyTypeEd25519: alice },
+      },
+    };
+    expect(formatXdrDiff(diffXdr(Asset, 'Native', usdc))).toBe(
+      `~ (root): "Native" -> {"CreditAlphanum4":{"assetCode":"USDC","issuer":"${G_ALICE}"}}`,
+    );
+
+    const muxed = { MuxedEd25519: { id: 7n, ed25519: alice } } as const;
+    const payload = new Uint8Array(40);
+    payload.set(alice);
+    payload[39] = 7;
+    expect(formatXdrDiff(diffXdr(MuxedAccount, { Ed25519: alice }, muxed))).toBe(
+      `~ (root): "${G_ALICE}" -> "${encodeStrkey(STRKEY_MUXED_ED25519, payload)}"`,
+    );
+
+    const account = { Account: { PublicKeyTypeEd25519: alice } };
+    const C_BOB = encodeStrkey(STRKEY_CONTRACT, bob);
+    expect(formatXdrDiff(diffXdr(SCAddress, account, { Contract: bob }))).toBe(
+      `~ (root): {"Account":"${G_ALICE}"} -> {"Contract":"${C_BOB}"}`,
+    );
+  });
+});
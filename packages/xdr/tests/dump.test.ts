@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  int32,
+  uint64,
+  fixedOpaque,
+  varArray,
+  option,
+  xdrString,
+  xdrStruct,
+  typedef,
+  dumpXdr,
+  formatXdrDump,
+  encodeBase64,
+  XdrError,
+  XdrErrorCode,
+  TransactionEnvelope,
+  SCVal,
+} from '../src/index.js';
+import { TX_PAYMENT_BYTES } from './rs-compat/fixtures.js';
+
+describe('dumpXdr', () => {
+  it('labels every span of a struct', () => {
+    const Point = xdrStruct<{
+      id: Uint8Array;
+      name: string;
+      tags: number[];
+      next: bigint | null;
+    }>([
+      ['id', typedef('Id', fixedOpaque(3))],
+      ['name', xdrString(8)],
+      ['tags', varArray(4, int32)],
+      ['next', option(uint64)],
+    ]);
+    const bytes = Point.toXdr({
+      id: new Uint8Array([1, 2, 3]),
+      name: 'ab',
+      tags: [-1],
+      next: null,
+    });
+    expect(dumpXdr(Point, bytes)).toEqual([
+      { offset: 0, length: 3, hex: '010203', path: ['id'], role: 'value', type: 'Id', value: '010203' },
+      { offset: 3, length: 1, hex: '00', path: ['id'], role: 'padding', type: 'padding' },
+      { offset: 4, length: 4, hex: '00000002', path: ['name'], role: 'length', type: 'uint32', value: 2 },
+      { offset: 8, length: 2, hex: '6162', path: ['name'], role: 'value', type: 'string<8>', value: 'ab' },
+      { offset: 10, length: 2, hex: '0000', path: ['name'], role: 'padding', type: 'padding' },
+      { offset: 12, length: 4, hex: '00000001', path: ['tags'], role: 'length', type: 'uint32', value: 1 },
+      { offset: 16, length: 4, hex: 'ffffffff', path: ['tags', 0], role: 'value', type: 'int32', value: -1 },
+      { offset: 20, length: 4, hex: '00000000', path: ['next'], role: 'presence', type: 'bool', value: false },
+    ]);
+  });
+
+  it('covers the whole encoding of a transaction envelope', () => {
+    const entries = dumpXdr(TransactionEnvelope, encodeBase64(TX_PAYMENT_BYTES));
+    let offset = 0;
+    for (const entry of entries) {
+      expect(entry.offset).toBe(offset);
+      offset += entry.length;
+    }
+    expect(offset).toBe(TX_PAYMENT_BYTES.length);
+    expect(entries[0]).toMatchObject({
+      path: [],
+      role: 'discriminant',
+      type: 'EnvelopeType',
+      value: 'Tx',
+    });
+    expect(entries).toContainEqual(
+      expect.objectContaining({ path: ['Tx', 'tx', 'fee'], type: 'Uint32', value: 200 }),
+    );
+    // Entries are JSON-compatible
+    expect(JSON.parse(JSON.stringify(entries))).toEqual(entries);
+  });
+
+  it('throws decode errors with their path', () => {
+    const bytes = SCVal.toXdr({ Vec: [{ U32: 1 }, { Symbol: 'abc' }] });
+    bytes[bytes.length - 1] = 1;
+    try {
+      dumpXdr(SCVal, bytes);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(XdrError);
+      expect((err as XdrError).code).toBe(XdrErrorCode.NonZeroPadding);
+      expect((err as XdrError).path).toEqual(['Vec', 1, 'Symbol']);
+      // Start of the symbol's length prefix, as reported by fromXdr
+      expect((err as XdrError).offset).toBe(24);
+      expect(() => SCVal.fromXdr(bytes)).toThrow(expect.objectContaining({ offset: 24 }));
+    }
+    expect(() => dumpXdr(int32, new Uint8Array(8))).toThrow(/not fully consumed/);
+  });
+});
+
+describe('formatXdrDump', () => {
+  it('renders one labeled line per span, wrapping long spans', () => {
+    const Wrapper = xdrStruct<{ hash: Uint8Array }>([['hash', fixedOpaque(20)]]);
+    const bytes = Wrapper.toXdr({ hash: new Uint8Array(20).fill(0xab) });
+    const text = formatXdrDump(dumpXdr(Wrapper, bytes));
+    const hex = 'ab'.repeat(20);
+    expect(text.split('\n')).toEqual([
+      `000000  ${'ab '.repeat(15)}ab  hash opaque[20] = "${hex}"`,
+      `000010  ab ab ab ab`,
+    ]);
+  });
+
+  it('marks non-value roles', () => {
+    const text = formatXdrDump(dumpXdr(option(int32), new Uint8Array([0, 0, 0, 1, 0, 0, 0, 5])));
+    expect(text).toBe(
+      [
+        `000000  00 00 00 01${' '.repeat(36)}  (root) [presence] bool = true`,
+        `000004  00 00 00 05${' '.repeat(36)}  (root) int32 = 5`,
+      ].join('\n'),
+    );
+  });
+});
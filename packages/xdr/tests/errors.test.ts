@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import { XdrError, XdrErrorCode, formatPath } from '../src/errors.js';
+import { xdrStruct, xdrEnum, taggedUnion } from '../src/composites.js';
+import { int32, uint32 } from '../src/primitives.js';
+import { fixedArray, varArray, option, varOpaque } from '../src/containers.js';
+import { stellarMuxedAccount } from '../src/stellar.js';
+import { MuxedAccount, TransactionEnvelope } from '../generated/index.js';
+import { TX_PAYMENT_BYTES } from './rs-compat/fixtures.js';
+
+// An enum codec whose fromJsonValue rejects unknown members, standing in for
+// JSON conversions that validate their input.
+const jsonStrictEnum = (() => {
+  const inner = xdrEnum({ a: 0, b: 1 });
+  return Object.assign(Object.create(inner), {
+    fromJsonValue(json: unknown): string {
+      if (json !== 'a' && json !== 'b') {
+        throw new XdrError(
+          XdrErrorCode.InvalidEnumValue,
+          `Unknown enum member: ${String(json)}`,
+        );
+      }
+      return json;
+    },
+  });
+})();
+
+function catchXdrError(fn: () => unknown): XdrError {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(XdrError);
+    return err as XdrError;
+  }
+  throw new Error('expected an XdrError');
+}
+
+describe('XdrError', () => {
+  it('keeps the original message when there is no context', () => {
+    const err = new XdrError(XdrErrorCode.InvalidValue, 'bad');
+    expect(err.message).toBe('INVALID_VALUE: bad');
+    expect(err.detail).toBe('bad');
+    expect(err.path).toEqual([]);
+    expect(err.offset).toBeUndefined();
+  });
+
+  it('appends path and offset to the message', () => {
+    const err = new XdrError(XdrErrorCode.InvalidValue, 'bad');
+    err.addContext(0, 12).addContext('items');
+    expect(err.path).toEqual(['items', 0]);
+    expect(err.offset).toBe(12);
+    expect(err.message).toBe('INVALID_VALUE: bad (at items[0], offset 12)');
+  });
+
+  it('keeps the innermost offset', () => {
+    const err = new XdrError(XdrErrorCode.InvalidValue);
+    err.addContext('a', 4).addContext('b', 8);
+    expect(err.offset).toBe(4);
+  });
+});
+
+describe('formatPath', () => {
+  it('renders fields and indices', () => {
+    expect(
+      formatPath(['tx', 'operations', 3, 'body', 'InvokeHostFunction', 'auth', 0]),
+    ).toBe('tx.operations[3].body.InvokeHostFunction.auth[0]');
+  });
+
+  it('renders a leading index', () => {
+    expect(formatPath([2, 'x'])).toBe('[2].x');
+  });
+
+  it('renders an empty path', () => {
+    expect(formatPath([])).toBe('');
+  });
+});
+
+describe('error paths', () => {
+  const Kind = xdrEnum({ a: 0, b: 1 });
+
+  interface Inner {
+    readonly kind: 'a' | 'b';
+    readonly data: Uint8Array;
+  }
+  const Inner = xdrStruct<Inner>([
+    ['kind', Kind],
+    ['data', varOpaque(4)],
+  ]);
+
+  const Body = taggedUnion({
+    switchOn: Kind,
+    arms: [
+      { tags: ['a'], codec: varArray(4, Inner) },
+      { tags: ['b'] },
+    ],
+  });
+
+  interface Outer {
+    readonly seq: number;
+    readonly body: unknown;
+    readonly extra: readonly number[] | null;
+  }
+  const Outer = xdrStruct<Outer>([
+    ['seq', uint32],
+    ['body', Body],
+    ['extra', option(fixedArray(2, int32))],
+  ]);
+
+  const valid: Outer = {
+    seq: 7,
+    body: {
+      a: [
+        { kind: 'a', data: new Uint8Array([1]) },
+        { kind: 'b', data: new Uint8Array([2, 3]) },
+      ],
+    },
+    extra: [1, 2],
+  };
+
+  it('annotates binary decode errors with path and offset', () => {
+    const bytes = Outer.toXdr(valid);
+    // Second Inner.kind: seq(4) + disc(4) + len(4) + kind(4) + data(8) = 24
+    bytes.set([0, 0, 0, 9], 24);
+    const err = catchXdrError(() => Outer.fromXdr(bytes));
+    expect(err.code).toBe(XdrErrorCode.InvalidEnumValue);
+    expect(err.path).toEqual(['body', 'a', 1, 'kind']);
+    expect(err.offset).toBe(24);
+    expect(err.message).toBe(
+      'INVALID_ENUM_VALUE: Unknown enum value: 9 (at body.a[1].kind, offset 24)',
+    );
+  });
+
+  it('annotates union discriminant errors with the union path', () => {
+    const bytes = Outer.toXdr(valid);
+    bytes.set([0, 0, 0, 5], 4);
+    const err = catchXdrError(() => Outer.fromXdr(bytes));
+    expect(err.code).toBe(XdrErrorCode.InvalidEnumValue);
+    expect(err.path).toEqual(['body']);
+    expect(err.offset).toBe(4);
+  });
+
+  it('annotates buffer underflow inside optional arrays', () => {
+    const bytes = Outer.toXdr(valid);
+    const err = catchXdrError(() =>
+      Outer.fromXdr(bytes.subarray(0, bytes.length - 2)),
+    );
+    expect(err.code).toBe(XdrErrorCode.BufferUnderflow);
+    expect(err.path).toEqual(['extra', 1]);
+    expect(err.offset).toBe(bytes.length - 4);
+  });
+
+  it('reports the offset of trailing bytes', () => {
+    const bytes = new Uint8Array([0, 0, 0, 1, 0, 0]);
+    const err = catchXdrError(() => int32.fromXdr(bytes));
+    expect(err.code).toBe(XdrErrorCode.BufferNotFullyConsumed);
+    expect(err.path).toEqual([]);
+    expect(err.offset).toBe(4);
+  });
+
+  it('annotates encode errors', () => {
+    const bad = {
+      ...valid,
+      body: { a: [{ kind: 'a', data: new Uint8Array(5) }] },
+    };
+    const err = catchXdrError(() => Outer.toXdr(bad));
+    expect(err.code).toBe(XdrErrorCode.LengthExceedsMax);
+    expect(err.path).toEqual(['body', 'a', 0, 'data']);
+    expect(err.offset).toBe(16);
+  });
+
+  it('annotates encode errors in fixed arrays', () => {
+    const err = catchXdrError(() => Outer.toXdr({ ...valid, extra: [1, 2.5] }));
+    expect(err.code).toBe(XdrErrorCode.InvalidValue);
+    expect(err.path).toEqual(['extra', 1]);
+  });
+
+  it('annotates fromJsonValue errors without an offset', () => {
+    const Strict = xdrStruct<{ readonly kind: string }>([
+      ['kind', jsonStrictEnum],
+    ]);
+    const err = catchXdrError(() =>
+      varArray(4, Strict).fromJsonValue([{ kind: 'a' }, { kind: 'z' }]),
+    );
+    expect(err.path).toEqual([1, 'kind']);
+    expect(err.offset).toBeUndefined();
+  });
+
+  it('annotates fromJsonValue errors in union arms', () => {
+    const Wrapper = taggedUnion({
+      switchOn: Kind,
+      arms: [{ tags: ['a'], codec: varArray(4, jsonStrictEnum) }],
+    });
+    const err = catchXdrError(() => Wrapper.fromJsonValue({ a: ['a', 'q'] }));
+    expect(err.path).toEqual(['a', 1]);
+  });
+});
+
+describe('JSON errors in generated types', () => {
+  const json = TransactionEnvelope.toJsonValue(TransactionEnvelope.fromXdr(TX_PAYMENT_BYTES));
+
+  // A copy of the payment envelope's JSON with one field replaced
+  function withTx(patch: (tx: any) => void): unknown {
+    const copy = structuredClone(json) as any;
+    patch(copy.Tx.tx);
+    return copy;
+  }
+
+  it('rejects non-integer 64-bit values with their path', () => {
+    const err = catchXdrError(() =>
+      TransactionEnvelope.fromJson(JSON.stringify(withTx((tx) => (tx.seqNum = 'x')))),
+    );
+    expect(err.code).toBe(XdrErrorCode.InvalidValue);
+    expect(err.path).toEqual(['Tx', 'tx', 'seqNum']);
+    expect(err.offset).toBeUndefined();
+
+    const amount = catchXdrError(() =>
+      TransactionEnvelope.fromJsonValue(
+        withTx((tx) => (tx.operations[0].body.Payment.amount = '1.5')),
+      ),
+    );
+    expect(amount.path).toEqual(['Tx', 'tx', 'operations', 0, 'body', 'Payment', 'amount']);
+  });
+
+  it('rejects out-of-range 64-bit values', () => {
+    const err = catchXdrError(() =>
+      TransactionEnvelope.fromJsonValue(withTx((tx) => (tx.cond.Time.minTime = '-1'))),
+    );
+    expect(err.code).toBe(XdrErrorCode.InvalidValue);
+    expect(err.path).toEqual(['Tx', 'tx', 'cond', 'Time', 'minTime']);
+  });
+
+  it('rejects invalid hex and wrong opaque lengths', () => {
+    const hex = catchXdrError(() =>
+      TransactionEnvelope.fromJsonValue(withTx((tx) => (tx.sourceAccount.Ed25519 = 'zz'))),
+    );
+    expect(hex.code).toBe(XdrErrorCode.InvalidValue);
+    expect(hex.path).toEqual(['Tx', 'tx', 'sourceAccount', 'Ed25519']);
+
+    const short = catchXdrError(() =>
+      TransactionEnvelope.fromJsonValue(withTx((tx) => (tx.sourceAccount.Ed25519 = 'aabb'))),
+    );
+    expect(short.code).toBe(XdrErrorCode.LengthMismatch);
+  });
+
+  it('turns errors from custom JSON forms into XdrErrors', () => {
+    const err = catchXdrError(() => stellarMuxedAccount(MuxedAccount).fromJsonValue('GBAD'));
+    expect(err.code).toBe(XdrErrorCode.InvalidValue);
+  });
+});
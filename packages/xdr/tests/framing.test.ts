@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  frameRecord,
+  readRecords,
+  readFramed,
+  writeFramed,
+} from '../src/framing.js';
+import { xdrStruct } from '../src/composites.js';
+import { int32, uint32 } from '../src/primitives.js';
+import { xdrString } from '../src/containers.js';
+import { XdrErrorCode } from '../src/errors.js';
+
+interface Entry {
+  readonly id: number;
+  readonly name: string;
+}
+const Entry = xdrStruct<Entry>([
+  ['id', uint32],
+  ['name', xdrString(64)],
+]);
+
+function bytes(...values: number[]): Uint8Array {
+  return new Uint8Array(values);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+}
+
+/** Splits a buffer into chunks of `size` bytes to exercise boundary handling. */
+function chunked(data: Uint8Array, size: number): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < data.length; i += size) {
+    chunks.push(data.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function collect<T>(iter: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const v of iter) out.push(v);
+  return out;
+}
+
+describe('framing', () => {
+  const entries: Entry[] = [
+    { id: 1, name: 'alpha' },
+    { id: 2, name: '' },
+    { id: 3, name: 'gamma-delta' },
+  ];
+
+  describe('frameRecord', () => {
+    it('sets the last-fragment bit and length', () => {
+      expect(frameRecord(bytes(0, 0, 0, 7))).toEqual(
+        bytes(0x80, 0, 0, 4, 0, 0, 0, 7),
+      );
+    });
+
+    it('frames an empty payload', () => {
+      expect(frameRecord(new Uint8Array(0))).toEqual(bytes(0x80, 0, 0, 0));
+    });
+  });
+
+  describe('readFramed', () => {
+    it('decodes a sequence of records', async () => {
+      const data = concat(...entries.map((e) => frameRecord(Entry.toXdr(e))));
+      expect(await collect(readFramed(Entry, [data]))).toEqual(entries);
+    });
+
+    it('handles record marks split across chunks', async () => {
+      const data = concat(...entries.map((e) => frameRecord(Entry.toXdr(e))));
+      for (const size of [1, 3, 5, 7]) {
+        expect(await collect(readFramed(Entry, chunked(data, size)))).toEqual(
+          entries,
+        );
+      }
+    });
+
+    it('reassembles multi-fragment records', async () => {
+      const payload = int32.toXdr(-5);
+      const data = concat(
+        bytes(0, 0, 0, 1),
+        payload.subarray(0, 1),
+        bytes(0, 0, 0, 0),
+        bytes(0x80, 0, 0, 3),
+        payload.subarray(1),
+      );
+      expect(await collect(readFramed(int32, chunked(data, 2)))).toEqual([-5]);
+    });
+
+    it('reads from a ReadableStream', async () => {
+      const data = concat(...entries.map((e) => frameRecord(Entry.toXdr(e))));
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const c of chunked(data, 6)) controller.enqueue(c);
+          controller.close();
+        },
+      });
+      expect(await collect(readFramed(Entry, stream))).toEqual(entries);
+      expect(stream.locked).toBe(false);
+    });
+
+    it('reads from an async iterable', async () => {
+      async function* source() {
+        for (const e of entries) yield frameRecord(Entry.toXdr(e));
+      }
+      expect(await collect(readFramed(Entry, source()))).toEqual(entries);
+    });
+
+    it('yields nothing for an empty stream', async () => {
+      expect(await collect(readFramed(Entry, []))).toEqual([]);
+    });
+
+    it('rejects a stream truncated mid-record', async () => {
+      const data = frameRecord(Entry.toXdr(entries[0]!));
+      await expect(
+        collect(readFramed(Entry, [data.subarray(0, data.length - 1)])),
+      ).rejects.toThrow(XdrErrorCode.BufferUnderflow);
+    });
+
+    it('rejects a stream truncated mid-mark', async () => {
+      await expect(
+        collect(readFramed(Entry, [bytes(0x80, 0)])),
+      ).rejects.toThrow(XdrErrorCode.BufferUnderflow);
+    });
+
+    it('rejects records over maxRecordSize', async () => {
+      const data = frameRecord(Entry.toXdr(entries[0]!));
+      await expect(
+        collect(readFramed(Entry, [data], { maxRecordSize: 8 })),
+      ).rejects.toThrow(XdrErrorCode.LengthExceedsMax);
+    });
+
+    it('rejects records with trailing bytes', async () => {
+      const data = frameRecord(bytes(0, 0, 0, 1, 0, 0, 0, 2));
+      await expect(collect(readFramed(int32, [data]))).rejects.toThrow(
+        XdrErrorCode.BufferNotFullyConsumed,
+      );
+    });
+
+    it('applies limits to each record', async () => {
+      const data = frameRecord(Entry.toXdr(entries[0]!));
+      await expect(
+        collect(readFramed(Entry, [data], { limits: { depth: 0, len: 1024 } })),
+      ).rejects.toThrow(XdrErrorCode.DepthLimitExceeded);
+    });
+
+    it('stops pulling from the source when iteration ends early', async () => {
+      let pulled = 0;
+      function* source() {
+        for (const e of entries) {
+          pulled++;
+          yield frameRecord(Entry.toXdr(e));
+        }
+      }
+      for await (const e of readFramed(Entry, source())) {
+        expect(e).toEqual(entries[0]);
+        break;
+      }
+      expect(pulled).toBe(1);
+    });
+  });
+
+  describe('readRecords', () => {
+    it('yields raw record payloads', async () => {
+      const data = concat(frameRecord(bytes(1, 2, 3, 4)), frameRecord(bytes()));
+      expect(await collect(readRecords([data]))).toEqual([
+        bytes(1, 2, 3, 4),
+        bytes(),
+      ]);
+    });
+  });
+
+  describe('writeFramed', () => {
+    it('roundtrips through readFramed', async () => {
+      const frames = await collect(writeFramed(Entry, entries));
+      expect(frames).toHaveLength(3);
+      expect(await collect(readFramed(Entry, frames))).toEqual(entries);
+    });
+
+    it('accepts an async iterable of values', async () => {
+      async function* values() {
+        yield* entries;
+      }
+      const frames = await collect(writeFramed(Entry, values()));
+      expect(frames[0]).toEqual(frameRecord(Entry.toXdr(entries[0]!)));
+    });
+  });
+});
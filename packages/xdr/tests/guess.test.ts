@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  int32,
+  xdrString,
+  guessXdrType,
+  encodeBase64,
+  SCVal,
+  LedgerKey,
+  TransactionEnvelope,
+  TransactionResult,
+  Asset,
+  MemoType,
+} from '../src/index.js';
+import { TX_PAYMENT_BYTES } from './rs-compat/fixtures.js';
+
+describe('guessXdrType', () => {
+  it('finds a transaction envelope among all generated types', () => {
+    const guesses = guessXdrType(encodeBase64(TX_PAYMENT_BYTES));
+    const names = guesses.map((g) => g.name);
+    expect(names).toContain('TransactionEnvelope');
+    const envelope = guesses.find((g) => g.name === 'TransactionEnvelope')!;
+    expect(envelope.codec).toBe(TransactionEnvelope);
+    expect(envelope.value).toEqual(TransactionEnvelope.fromXdr(TX_PAYMENT_BYTES));
+    expect(guesses[0]!.score).toBe(envelope.score);
+  });
+
+  it('ranks structured matches above accidental ones', () => {
+    const bytes = SCVal.toXdr({ Vec: [{ Symbol: 'hello' }, { U32: 5 }] });
+    const guesses = guessXdrType(bytes);
+    expect(guesses[0]!.name).toBe('SCVal');
+    // Scores never increase down the list
+    for (let i = 1; i < guesses.length; i++) {
+      expect(guesses[i]!.score).toBeLessThanOrEqual(guesses[i - 1]!.score);
+    }
+  });
+
+  it('only returns types that consume the whole buffer', () => {
+    const key = LedgerKey.toXdr({
+      Account: { accountID: { PublicKeyTypeEd25519: new Uint8Array(32).fill(3) } },
+    });
+    for (const guess of guessXdrType(key)) {
+      expect(guess.codec.toXdr(guess.value).length).toBe(key.length);
+    }
+    expect(guessXdrType(new Uint8Array([0, 0, 0]))).toEqual([]);
+  });
+
+  it('restricts the search to the given candidates', () => {
+    const bytes = Asset.toXdr('Native');
+    const guesses = guessXdrType(bytes, { Asset, TransactionResult, MemoType });
+    expect(guesses.map((g) => g.name)).toEqual(['Asset', 'MemoType']);
+    expect(guesses[0]!.value).toBe('Native');
+  });
+
+  it('names anonymous candidates given as an array', () => {
+    const guesses = guessXdrType(xdrString().toXdr('abc'), [int32, xdrString()]);
+    expect(guesses.map((g) => [g.name, g.value])).toEqual([['string', 'abc']]);
+  });
+
+  it('applies strict depth limits', () => {
+    let deep: SCVal = 'Void';
+    for (let i = 0; i < 150; i++) deep = { Vec: [deep] };
+    expect(guessXdrType(SCVal.toXdr(deep), { SCVal })).toEqual([]);
+  });
+});
@@ -19,7 +19,11 @@ import {
   XdrErrorCode,
   encodeBase64,
   decodeBase64,
+  arbitrary,
   type XdrCodec,
+  SCVal,
+  LedgerEntry,
+  TransactionEnvelope,
 } from '../src/index.js';
 
 describe('integration', () => {
@@ -361,4 +365,28 @@ describe('integration', () => {
       expect(restored.label).toBe('café');
     });
   });
+
+  describe('generated round-trips', () => {
+    function roundTrips<T>(codec: XdrCodec<T>, count: number, seed: number): void {
+      for (const value of arbitrary(codec, { seed, edgeCases: seed % 2 === 1 }).take(count)) {
+        const xdr = codec.toXdr(value);
+        expect(codec.fromXdr(xdr)).toEqual(value);
+        expect(codec.fromJson(codec.toJson(value))).toEqual(value);
+      }
+    }
+
+    it('roundtrips random Asset values', () => {
+      roundTrips(Asset, 1000, 1);
+    });
+
+    it('roundtrips random TransactionEnvelope values', () => {
+      roundTrips(TransactionEnvelope, 500, 2);
+      roundTrips(TransactionEnvelope, 500, 3);
+    });
+
+    it('roundtrips random SCVal and LedgerEntry values', () => {
+      roundTrips(SCVal, 1000, 5);
+      roundTrips(LedgerEntry, 500, 7);
+    });
+  });
 });
@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import {
+  int32,
+  uint64,
+  bool,
+  fixedOpaque,
+  varOpaque,
+  xdrString,
+  varArray,
+  option,
+  xdrStruct,
+  xdrEnum,
+  taggedUnion,
+  toJsonSchema,
+  JSON_SCHEMA_DIALECT,
+  type JsonSchema,
+  type XdrCodec,
+  SCVal,
+  LedgerCloseMeta,
+  TransactionEnvelope as GeneratedEnvelope,
+} from '../src/index.js';
+import * as compat from './rs-compat/stellar_types.js';
+import { TX_PAYMENT_BYTES, TX_CHANGE_TRUST_BYTES } from './rs-compat/fixtures.js';
+import { SC_VAL, LEDGER_CLOSE_META, ENVELOPES } from './compile.fixtures.js';
+
+/** Checks a value against the JSON Schema keywords `toJsonSchema` emits. */
+function conforms(schema: any, value: unknown, root: any): boolean {
+  if (schema.$ref !== undefined) {
+    const name = (schema.$ref as string).replace('#/$defs/', '');
+    return conforms(root.$defs[name], value, root);
+  }
+  if (schema.oneOf !== undefined) {
+    return schema.oneOf.filter((s: any) => conforms(s, value, root)).length === 1;
+  }
+  if (schema.not !== undefined && conforms(schema.not, value, root)) return false;
+  if (schema.enum !== undefined && !schema.enum.includes(value)) return false;
+  switch (schema.type) {
+    case 'null':
+      return value === null;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'number':
+      return typeof value === 'number';
+    case 'integer':
+      return (
+        Number.isInteger(value) &&
+        (value as number) >= schema.minimum &&
+        (value as number) <= schema.maximum
+      );
+    case 'string':
+      return (
+        typeof value === 'string' &&
+        (schema.pattern === undefined || new RegExp(schema.pattern).test(value)) &&
+        (schema.maxLength === undefined || value.length <= schema.maxLength)
+      );
+    case 'array':
+      return (
+        Array.isArray(value) &&
+        value.length >= (schema.minItems ?? 0) &&
+        value.length <= schema.maxItems &&
+        value.every((item) => conforms(schema.items, item, root))
+      );
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+      const obj = value as Record<string, unknown>;
+      const keys = Object.keys(obj);
+      if (schema.minProperties !== undefined && keys.length < schema.minProperties) return false;
+      if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) return false;
+      if (!(schema.required ?? []).every((key: string) => key in obj)) return false;
+      return keys.every((key) => {
+        if (schema.propertyNames !== undefined && !conforms(schema.propertyNames, key, root)) {
+          return false;
+        }
+        const property = schema.properties?.[key];
+        if (property !== undefined) return conforms(property, obj[key], root);
+        if (schema.additionalProperties === false) return false;
+        return conforms(schema.additionalProperties, obj[key], root);
+      });
+    }
+    default:
+      // Only `not` with a bare pattern reaches here (property names)
+      return schema.pattern === undefined || new RegExp(schema.pattern).test(value as string);
+  }
+}
+
+function expectConforms<T>(codec: XdrCodec<T>, value: T): JsonSchema {
+  const schema = toJsonSchema(codec);
+  expect(conforms(schema, codec.toJsonValue(value), schema)).toBe(true);
+  return schema;
+}
+
+describe('toJsonSchema', () => {
+  it('describes primitives and containers', () => {
+    expect(toJsonSchema(int32)).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      type: 'integer',
+      minimum: -2147483648,
+      maximum: 2147483647,
+    });
+    expect(toJsonSchema(uint64, { id: 'urn:u64' })).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      $id: 'urn:u64',
+      type: 'string',
+      pattern: '^[0-9]+$',
+    });
+    const { $schema: _, ...opaque } = toJsonSchema(fixedOpaque(2));
+    expect(opaque).toEqual({ type: 'string', pattern: '^[0-9a-fA-F]{4}$' });
+    expect(toJsonSchema(varArray(3, option(bool)))).toMatchObject({
+      type: 'array',
+      maxItems: 3,
+      items: { oneOf: [{ type: 'null' }, { type: 'boolean' }] },
+    });
+    expectConforms(varOpaque(4), new Uint8Array([1, 2, 3]));
+  });
+
+  it('matches SEP-0051 string escapes within the byte limit', () => {
+    const codec = xdrString(4);
+    const schema = toJsonSchema(codec);
+    expect(conforms(schema, codec.toJsonValue('a\n\\\x01'), schema)).toBe(true);
+    expect(conforms(schema, 'abcde', schema)).toBe(false);
+    expect(conforms(schema, 'a\\q', schema)).toBe(false);
+    expect(conforms(schema, 'é', schema)).toBe(false);
+  });
+
+  it('puts named types in $defs and references them', () => {
+    const Color = xdrEnum({ red: 0, green: 1 }, 'Color');
+    const Pixel = xdrStruct<{ a: string; b: string }>(
+      [
+        ['a', Color],
+        ['b', Color],
+      ],
+      'Pixel',
+    );
+    expect(toJsonSchema(Pixel)).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      $ref: '#/$defs/Pixel',
+      $defs: {
+        Color: { type: 'string', enum: ['red', 'green'] },
+        Pixel: {
+          type: 'object',
+          properties: { a: { $ref: '#/$defs/Color' }, b: { $ref: '#/$defs/Color' } },
+          required: ['a', 'b'],
+          additionalProperties: false,
+        },
+      },
+    });
+  });
+
+  it('describes unions as void keys or single-key objects', () => {
+    const Kind = xdrEnum({ a: 0, b: 1, c: 2, d: 3 });
+    const U = taggedUnion({
+      switchOn: Kind,
+      arms: [
+        { tags: ['a'], codec: int32 },
+        { tags: ['b'] },
+      ],
+      defaultArm: { codec: bool },
+    });
+    const schema = toJsonSchema(U);
+    expect(schema.oneOf).toHaveLength(4);
+    for (const value of ['b', { a: 1 }, { c: true }, { d: false }]) {
+      expect(conforms(schema, value, schema)).toBe(true);
+    }
+    for (const value of ['a', { b: 1 }, { a: true }, { a: 1, c: true }]) {
+      expect(conforms(schema, value, schema)).toBe(false);
+    }
+
+    const Ext = taggedUnion({
+      switchOn: int32,
+      arms: [{ tags: [0], key: 'v0' }, { tags: [1], key: '1', codec: int32 }],
+      defaultArm: { codec: bool },
+    });
+    const ext = toJsonSchema(Ext);
+    expect(conforms(ext, 'v0', ext)).toBe(true);
+    expect(conforms(ext, { 1: 5 }, ext)).toBe(true);
+    expect(conforms(ext, { 7: true }, ext)).toBe(true);
+    expect(conforms(ext, { 1: true }, ext)).toBe(false);
+  });
+
+  it('validates the JSON of generated types, including recursive ones', () => {
+    const scVal = expectConforms(SCVal, SC_VAL);
+    expect(Object.keys(scVal.$defs as object)).toContain('SCVal');
+    expectConforms(LedgerCloseMeta, LEDGER_CLOSE_META);
+    for (const envelope of ENVELOPES) expectConforms(GeneratedEnvelope, envelope);
+    const json = SCVal.toJsonValue({ Vec: [{ U64: 5n }] }) as any;
+    json.Vec[0].U64 = 5;
+    expect(conforms(scVal, json, scVal)).toBe(false);
+  });
+
+  it('uses the strkey and asset code forms of the Stellar JSON wrappers', () => {
+    const schema = expectConforms(
+      compat.TransactionEnvelope,
+      compat.TransactionEnvelope.fromXdr(TX_PAYMENT_BYTES),
+    );
+    const changeTrust = compat.TransactionEnvelope.fromXdr(TX_CHANGE_TRUST_BYTES);
+    expectConforms(compat.TransactionEnvelope, changeTrust);
+    expect(toJsonSchema(compat.MuxedAccount)).toMatchObject({
+      type: 'string',
+      pattern: '^G[A-Z2-7]{55}$|^M[A-Z2-7]{68}$',
+    });
+    const code = toJsonSchema(compat.AssetCode4);
+    expect(conforms(code, 'USD\\x01', code)).toBe(true);
+    expect(conforms(code, 'USDCX', code)).toBe(false);
+    expect(conforms(toJsonSchema(compat.Int128Parts), '-12', {})).toBe(true);
+
+    const json = compat.TransactionEnvelope.toJsonValue(
+      compat.TransactionEnvelope.fromXdr(TX_PAYMENT_BYTES),
+    ) as any;
+    json.tx.tx.source_account = json.tx.tx.source_account.toLowerCase();
+    expect(conforms(schema, json, schema)).toBe(false);
+  });
+});
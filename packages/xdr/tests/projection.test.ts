@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import {
+  int32,
+  uint64,
+  bool,
+  xdrString,
+  varOpaque,
+  fixedArray,
+  varArray,
+  option,
+  xdrStruct,
+  xdrEnum,
+  taggedUnion,
+  XdrReader,
+  XdrError,
+  XdrErrorCode,
+  project,
+  type XdrCodec,
+  SCVal,
+  Asset,
+  TransactionMeta,
+  type ContractEvent,
+} from '../src/index.js';
+
+/** Skips one value and checks the reader ends where decode would. */
+function expectSkipMatchesDecode<T>(codec: XdrCodec<T>, value: T): void {
+  const bytes = codec.toXdr(value);
+  const padded = new Uint8Array([...bytes, 0, 0, 0, 7]);
+  const reader = new XdrReader(padded);
+  codec.skip(reader);
+  expect(reader.offset).toBe(bytes.length);
+  expect(reader.readInt32()).toBe(7);
+}
+
+const event = (symbol: string): ContractEvent => ({
+  ext: '0',
+  contractID: new Uint8Array(32).fill(1),
+  type: 'Contract',
+  body: { 0: { topics: [{ Symbol: symbol }], data: { I32: 1 } } },
+});
+
+const meta: TransactionMeta = {
+  3: {
+    ext: '0',
+    txChangesBefore: [],
+    operations: [{ changes: [] }],
+    txChangesAfter: [],
+    sorobanMeta: {
+      ext: '0',
+      events: [event('transfer'), event('mint')],
+      returnValue: { Vec: [{ U32: 1 }, { String: 'ok' }] },
+      diagnosticEvents: [
+        { inSuccessfulContractCall: true, event: event('diag') },
+      ],
+    },
+  },
+};
+
+describe('skip', () => {
+  it('advances past every kind of value', () => {
+    expectSkipMatchesDecode(int32, -5);
+    expectSkipMatchesDecode(uint64, 2n ** 64n - 1n);
+    expectSkipMatchesDecode(bool, true);
+    expectSkipMatchesDecode(xdrString(), 'hello');
+    expectSkipMatchesDecode(varOpaque(), new Uint8Array([1, 2, 3]));
+    expectSkipMatchesDecode(fixedArray(2, int32), [1, 2]);
+    expectSkipMatchesDecode(varArray(5, xdrString()), ['a', 'bcd']);
+    expectSkipMatchesDecode(option(int32), null);
+    expectSkipMatchesDecode(option(int32), 3);
+    expectSkipMatchesDecode(SCVal, { Map: [{ key: { Symbol: 'k' }, val: 'Void' }] });
+    expectSkipMatchesDecode(TransactionMeta, meta);
+  });
+
+  it('checks lengths, padding and discriminants like decode', () => {
+    const skip = (codec: XdrCodec<any>, ...b: number[]) => () =>
+      codec.skip(new XdrReader(new Uint8Array(b)));
+    expect(skip(varOpaque(2), 0, 0, 0, 3, 1, 2, 3, 0)).toThrow(
+      expect.objectContaining({ code: XdrErrorCode.LengthExceedsMax }),
+    );
+    expect(skip(varOpaque(), 0, 0, 0, 1, 1, 9, 0, 0)).toThrow(
+      expect.objectContaining({ code: XdrErrorCode.NonZeroPadding }),
+    );
+    expect(skip(bool, 0, 0, 0, 2)).toThrow(
+      expect.objectContaining({ code: XdrErrorCode.InvalidValue }),
+    );
+    expect(skip(xdrEnum({ a: 0 }), 0, 0, 0, 1)).toThrow(
+      expect.objectContaining({ code: XdrErrorCode.InvalidEnumValue }),
+    );
+    expect(skip(TransactionMeta, 0, 0, 0, 9)).toThrow(
+      expect.objectContaining({ code: XdrErrorCode.InvalidUnionDiscriminant }),
+    );
+    expect(skip(int32, 0, 0)).toThrow(
+      expect.objectContaining({ code: XdrErrorCode.BufferUnderflow }),
+    );
+  });
+
+  it('annotates errors with the path of the skipped value', () => {
+    const Pair = xdrStruct([
+      ['a', int32],
+      ['b', varArray(4, xdrString(2))],
+    ]);
+    const bytes = new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 3]);
+    try {
+      Pair.skip(new XdrReader(bytes));
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(XdrError);
+      expect((err as XdrError).path).toEqual(['b', 0]);
+    }
+  });
+});
+
+describe('project', () => {
+  const bytes = TransactionMeta.toXdr(meta);
+
+  it('decodes only the selected paths', () => {
+    const events = project(TransactionMeta, ['3.sorobanMeta.events']);
+    expect(events.fromXdr(bytes)).toEqual({
+      3: { sorobanMeta: { events: [event('transfer'), event('mint')] } },
+    });
+  });
+
+  it('merges several paths and descends through arrays and options', () => {
+    const topics = project(TransactionMeta, [
+      '3.sorobanMeta.events.body.0.topics',
+      '3.sorobanMeta.diagnosticEvents.inSuccessfulContractCall',
+      '3.operations',
+    ]);
+    expect(topics.fromBase64(TransactionMeta.toBase64(meta))).toEqual({
+      3: {
+        operations: [{ changes: [] }],
+        sorobanMeta: {
+          events: [
+            { body: { 0: { topics: [{ Symbol: 'transfer' }] } } },
+            { body: { 0: { topics: [{ Symbol: 'mint' }] } } },
+          ],
+          diagnosticEvents: [{ inSuccessfulContractCall: true }],
+        },
+      },
+    });
+  });
+
+  it('keeps a whole subtree when a prefix is selected', () => {
+    const projection = project(TransactionMeta, [
+      '3.sorobanMeta.returnValue.Vec',
+      '3.sorobanMeta',
+    ]);
+    expect(projection.fromXdr(bytes)).toEqual({
+      3: { sorobanMeta: (meta as { 3: any })[3].sorobanMeta },
+    });
+  });
+
+  it('returns the key of arms outside the selection', () => {
+    const v2 = project(TransactionMeta, ['2.operations']);
+    expect(v2.fromXdr(bytes)).toBe('3');
+    const absent = project(TransactionMeta, ['3.sorobanMeta.events']);
+    const empty: TransactionMeta = {
+      3: { ...(meta as { 3: any })[3], sorobanMeta: null },
+    };
+    expect(absent.fromXdr(TransactionMeta.toXdr(empty))).toEqual({
+      3: { sorobanMeta: null },
+    });
+  });
+
+  it('handles default arms', () => {
+    const Ext = taggedUnion({
+      switchOn: int32,
+      arms: [{ tags: [0], key: 'v0' }],
+      defaultArm: { codec: xdrStruct([['x', int32], ['y', int32]]) },
+    });
+    const projection = project(Ext, ['5.y']);
+    expect(projection.fromXdr(Ext.toXdr({ 5: { x: 1, y: 2 } }))).toEqual({
+      5: { y: 2 },
+    });
+    expect(projection.fromXdr(Ext.toXdr({ 6: { x: 1, y: 2 } }))).toBe('6');
+    expect(projection.fromXdr(Ext.toXdr('v0'))).toBe('v0');
+  });
+
+  it('rejects paths that do not exist in the type', () => {
+    expect(() => project(TransactionMeta, ['3.sorobanMeta.evnts'])).toThrow(
+      "Projection path not found: SorobanTransactionMeta at 3.sorobanMeta has no field or arm 'evnts'",
+    );
+    expect(() => project(TransactionMeta, ['7'])).toThrow(XdrError);
+    expect(() => project(Asset, ['Native.code'])).toThrow(XdrError);
+    expect(() => project(int32, ['x'])).toThrow(XdrError);
+  });
+
+  it('annotates decode errors with paths and offsets', () => {
+    const projection = project(TransactionMeta, ['3.sorobanMeta.events']);
+    const truncated = bytes.slice(0, bytes.length - 4);
+    try {
+      projection.fromXdr(truncated);
+      expect.unreachable();
+    } catch (err) {
+      expect((err as XdrError).code).toBe(XdrErrorCode.BufferUnderflow);
+      expect((err as XdrError).path.slice(0, 3)).toEqual([
+        '3',
+        'sorobanMeta',
+        'diagnosticEvents',
+      ]);
+    }
+    expect(() => projection.fromXdr(new Uint8Array([...bytes, 0, 0, 0, 0]))).toThrow(
+      expect.objectContaining({ code: XdrErrorCode.BufferNotFullyConsumed }),
+    );
+  });
+});
@@ -217,4 +217,30 @@ describe('XdrReader', () => {
       expect(r.readBytes(3)).toEqual(bytes(1, 2, 3));
     });
   });
+
+  describe('skip', () => {
+    it('skips raw bytes', () => {
+      const r = new XdrReader(bytes(1, 2, 3, 4, 0, 0, 0, 9));
+      r.skip(4);
+      expect(r.readInt32()).toBe(9);
+      expect(() => r.skip(1)).toThrow(XdrErrorCode.BufferUnderflow);
+    });
+
+    it('skips opaque data with padding', () => {
+      const r = new XdrReader(bytes(0, 0, 0, 2, 1, 2, 0, 0, 3, 0, 0, 0));
+      r.skipVarOpaque();
+      expect(r.offset).toBe(8);
+      r.skipFixedOpaque(1);
+      r.ensureEnd();
+    });
+
+    it('checks max length and padding', () => {
+      expect(() => new XdrReader(bytes(0, 0, 0, 5)).skipVarOpaque(4)).toThrow(
+        XdrErrorCode.LengthExceedsMax,
+      );
+      expect(() => new XdrReader(bytes(1, 1, 0, 0)).skipFixedOpaque(1)).toThrow(
+        XdrErrorCode.NonZeroPadding,
+      );
+    });
+  });
 });
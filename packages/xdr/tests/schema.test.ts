@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import {
+  int32,
+  uint32,
+  int64,
+  bool,
+  xdrVoid,
+  fixedOpaque,
+  varOpaque,
+  xdrString,
+  fixedArray,
+  varArray,
+  option,
+  xdrStruct,
+  xdrEnum,
+  taggedUnion,
+  typedef,
+  lazy,
+  jsonAs,
+  resolveSchema,
+  schemaName,
+  type XdrCodec,
+  type XdrSchema,
+  TransactionEnvelope,
+  AccountID,
+  Hash,
+  SCVal,
+  MemoType,
+} from '../src/index.js';
+
+describe('schema', () => {
+  it('describes primitives', () => {
+    expect(int32.schema).toEqual({ kind: 'int32' });
+    expect(uint32.schema).toEqual({ kind: 'uint32' });
+    expect(int64.schema).toEqual({ kind: 'int64' });
+    expect(bool.schema).toEqual({ kind: 'bool' });
+    expect(xdrVoid.schema).toEqual({ kind: 'void' });
+  });
+
+  it('describes opaque and string lengths', () => {
+    expect(fixedOpaque(32).schema).toEqual({ kind: 'fixedOpaque', length: 32 });
+    expect(varOpaque(64).schema).toEqual({ kind: 'varOpaque', maxLength: 64 });
+    expect(varOpaque().schema).toEqual({
+      kind: 'varOpaque',
+      maxLength: undefined,
+    });
+    expect(xdrString(28).schema).toEqual({ kind: 'string', maxLength: 28 });
+  });
+
+  it('links array and option element codecs', () => {
+    const fixed = fixedArray(3, int32).schema;
+    expect(fixed).toMatchObject({ kind: 'fixedArray', length: 3 });
+    expect(fixed.kind === 'fixedArray' && fixed.codec).toBe(int32);
+
+    const list = varArray(20, uint32).schema;
+    expect(list).toMatchObject({ kind: 'varArray', maxLength: 20 });
+    expect(list.kind === 'varArray' && list.codec).toBe(uint32);
+
+    const opt = option(bool).schema;
+    expect(opt.kind === 'option' && opt.codec).toBe(bool);
+  });
+
+  it('describes struct fields in order', () => {
+    const Point = xdrStruct<{ x: number; y: number }>(
+      [
+        ['x', int32],
+        ['y', int32],
+      ],
+      'Point',
+    );
+    expect(Point.schema).toEqual({
+      kind: 'struct',
+      name: 'Point',
+      fields: [
+        { name: 'x', codec: int32 },
+        { name: 'y', codec: int32 },
+      ],
+    });
+  });
+
+  it('describes enum members', () => {
+    const Color = xdrEnum({ red: 0, green: 1, blue: 5 }, 'Color');
+    expect(Color.schema).toEqual({
+      kind: 'enum',
+      name: 'Color',
+      members: { red: 0, green: 1, blue: 5 },
+    });
+  });
+
+  it('leaves names undefined for anonymous codecs', () => {
+    expect(xdrStruct([]).schema).toMatchObject({ name: undefined });
+    expect(schemaName(xdrEnum({ a: 0 }))).toBeUndefined();
+    expect(schemaName(int32)).toBeUndefined();
+  });
+
+  it('describes union discriminant and arms', () => {
+    const Kind = xdrEnum({ none: 0, one: 1, two: 2 });
+    const U = taggedUnion({
+      name: 'U',
+      switchOn: Kind,
+      arms: [{ tags: ['none', 'two'] }, { tags: ['one'], codec: int32 }],
+    });
+    const schema = U.schema;
+    expect(schema).toMatchObject({ kind: 'union', name: 'U' });
+    if (schema.kind !== 'union') throw new Error('not a union');
+    expect(schema.switchOn).toBe(Kind);
+    expect(schema.arms).toEqual([
+      { tag: 'none', key: 'none', codec: undefined },
+      { tag: 'two', key: 'two', codec: undefined },
+      { tag: 'one', key: 'one', codec: int32 },
+    ]);
+    expect(schema.defaultArm).toBeUndefined();
+  });
+
+  it('describes int-discriminated unions with explicit keys and defaults', () => {
+    const Ext = taggedUnion({
+      switchOn: int32,
+      arms: [{ tags: [0], key: 'v0' }],
+      defaultArm: { codec: varOpaque() },
+    });
+    const schema = Ext.schema;
+    if (schema.kind !== 'union') throw new Error('not a union');
+    expect(schema.arms).toEqual([{ tag: 0, key: 'v0', codec: undefined }]);
+    expect(schema.defaultArm?.codec?.schema.kind).toBe('varOpaque');
+  });
+
+  it('names typedefs and resolves through them', () => {
+    const Inner = fixedOpaque(32);
+    const Named = typedef('Named', Inner);
+    const Alias = typedef('Alias', Named);
+    expect(Alias.schema).toEqual({ kind: 'typedef', name: 'Alias', codec: Named });
+    expect(resolveSchema(Alias)).toBe(Inner.schema);
+    expect(schemaName(Alias)).toBe('Alias');
+    const bytes = new Uint8Array(32).fill(7);
+    expect(Alias.fromXdr(Alias.toXdr(bytes))).toEqual(bytes);
+    expect(Alias.toJsonValue(bytes)).toBe(Inner.toJsonValue(bytes));
+  });
+
+  it('is transparent through lazy and jsonAs', () => {
+    const Target = xdrStruct([['x', int32]], 'Target');
+    expect(lazy(() => Target).schema).toBe(Target.schema);
+    const custom = jsonAs(Target, {
+      toJsonValue: () => 'x',
+      fromJsonValue: () => ({ x: 0 }),
+    });
+    expect(custom.schema).toBe(Target.schema);
+  });
+
+  describe('generated types', () => {
+    it('names generated typedefs, structs, enums and unions', () => {
+      expect(Hash.schema).toMatchObject({ kind: 'typedef', name: 'Hash' });
+      expect(resolveSchema(Hash)).toEqual({ kind: 'fixedOpaque', length: 32 });
+      expect(resolveSchema(AccountID)).toMatchObject({
+        kind: 'union',
+        name: 'PublicKey',
+      });
+      expect(MemoType.schema).toMatchObject({ kind: 'enum', name: 'MemoType' });
+      expect(TransactionEnvelope.schema).toMatchObject({
+        kind: 'union',
+        name: 'TransactionEnvelope',
+      });
+    });
+
+    it('walks the full TransactionEnvelope schema', () => {
+      const seen = new Set<string>();
+      const kinds = new Set<string>();
+      const walk = (codec: XdrCodec<any>): void => {
+        const schema: XdrSchema = codec.schema;
+        kinds.add(schema.kind);
+        const name = schemaName(codec);
+        if (name !== undefined) {
+          if (seen.has(name)) return;
+          seen.add(name);
+        }
+        switch (schema.kind) {
+          case 'typedef':
+          case 'option':
+          case 'fixedArray':
+          case 'varArray':
+            walk(schema.codec);
+            break;
+          case 'struct':
+            for (const f of schema.fields) walk(f.codec);
+            break;
+          case 'union':
+            walk(schema.switchOn);
+            for (const arm of schema.arms) if (arm.codec) walk(arm.codec);
+            if (schema.defaultArm?.codec) walk(schema.defaultArm.codec);
+            break;
+        }
+      };
+      walk(TransactionEnvelope);
+      // Reached through lazy, recursive references
+      expect(seen.has('SorobanAuthorizedInvocation')).toBe(true);
+      expect(seen.has('SCVal')).toBe(true);
+      expect(seen.has('InvokeHostFunctionOp')).toBe(true);
+      expect(kinds).toEqual(
+        new Set([
+          'union',
+          'enum',
+          'struct',
+          'typedef',
+          'int32',
+          'uint32',
+          'int64',
+          'uint64',
+          'bool',
+          'fixedOpaque',
+          'varOpaque',
+          'string',
+          'varArray',
+          'option',
+        ]),
+      );
+    });
+
+    it('describes SCVal arms', () => {
+      const schema = SCVal.schema;
+      if (schema.kind !== 'union') throw new Error('not a union');
+      expect(schemaName(schema.switchOn)).toBe('SCValType');
+      expect(schema.arms.find((a) => a.tag === 'Vec')?.codec?.schema).toMatchObject(
+        { kind: 'option' },
+      );
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  int32,
+  uint32,
+  int64,
+  uint64,
+  float32,
+  float64,
+  bool,
+  xdrVoid,
+  fixedOpaque,
+  varOpaque,
+  xdrString,
+  fixedArray,
+  varArray,
+  option,
+  xdrStruct,
+  xdrEnum,
+  taggedUnion,
+  lazy,
+  XdrError,
+  XdrErrorCode,
+  XdrWriter,
+  type XdrCodec,
+  SCVal,
+  TransactionEnvelope,
+} from '../src/index.js';
+import {
+  TX_SMALL_BYTES,
+  TX_PAYMENT_BYTES,
+  TX_WITH_SIG_BYTES,
+  TX_CHANGE_TRUST_BYTES,
+} from './rs-compat/fixtures.js';
+
+function expectExactSize<T>(codec: XdrCodec<T>, value: T): void {
+  expect(codec.encodedSize(value)).toBe(codec.toXdr(value).length);
+}
+
+describe('encodedSize', () => {
+  it('sizes primitives', () => {
+    expectExactSize(int32, -1);
+    expectExactSize(uint32, 1);
+    expectExactSize(int64, -1n);
+    expectExactSize(uint64, 1n);
+    expectExactSize(float32, 1.5);
+    expectExactSize(float64, 1.5);
+    expectExactSize(bool, true);
+    expect(xdrVoid.encodedSize(undefined)).toBe(0);
+  });
+
+  it('includes length prefixes and padding', () => {
+    expect(fixedOpaque(5).encodedSize(new Uint8Array(5))).toBe(8);
+    expect(varOpaque().encodedSize(new Uint8Array(0))).toBe(4);
+    expect(varOpaque().encodedSize(new Uint8Array(5))).toBe(12);
+    expect(xdrString().encodedSize('abcd')).toBe(8);
+    for (let n = 0; n < 9; n++) {
+      expectExactSize(varOpaque(), new Uint8Array(n));
+      expectExactSize(xdrString(), 'x'.repeat(n));
+    }
+  });
+
+  it('sizes arrays and options', () => {
+    expectExactSize(fixedArray(3, int64), [1n, 2n, 3n]);
+    expectExactSize(varArray(10, xdrString()), ['a', 'bcdef', '']);
+    expectExactSize(option(int32), null);
+    expectExactSize(option(int32), 5);
+  });
+
+  it('sizes structs, enums and unions', () => {
+    const Kind = xdrEnum({ none: 0, text: 1 });
+    const U = taggedUnion({
+      switchOn: Kind,
+      arms: [{ tags: ['none'] }, { tags: ['text'], codec: xdrString() }],
+    });
+    const S = xdrStruct<{ u: unknown; n: bigint }>([
+      ['u', U],
+      ['n', uint64],
+    ]);
+    expectExactSize(S, { u: 'none', n: 1n });
+    expectExactSize(S, { u: { text: 'hello' }, n: 1n });
+    expectExactSize(Kind, 'text');
+
+    const Ext = taggedUnion({
+      switchOn: int32,
+      arms: [{ tags: [0], key: 'v0' }],
+      defaultArm: { codec: uint64 },
+    });
+    expectExactSize(Ext, 'v0');
+    expectExactSize(Ext, { 9: 1n });
+  });
+
+  it('follows lazy references in recursive types', () => {
+    const value: SCVal = {
+      Vec: [
+        { Map: [{ key: { Symbol: 'k' }, val: { Vec: [{ U32: 1 }] } }] },
+        { Bytes: new Uint8Array(3) },
+        'Void',
+      ],
+    };
+    expectExactSize(SCVal, value);
+    expectExactSize(lazy(() => int32), 1);
+  });
+
+  it('matches real transaction envelopes', () => {
+    for (const bytes of [
+      TX_SMALL_BYTES,
+      TX_PAYMENT_BYTES,
+      TX_WITH_SIG_BYTES,
+      TX_CHANGE_TRUST_BYTES,
+    ]) {
+      const envelope = TransactionEnvelope.fromXdr(bytes);
+      expect(TransactionEnvelope.encodedSize(envelope)).toBe(bytes.length);
+    }
+  });
+});
+
+describe('toXdr presizing', () => {
+  it('produces identical bytes with an exactly sized buffer', () => {
+    const envelope = TransactionEnvelope.fromXdr(TX_PAYMENT_BYTES);
+    const bytes = TransactionEnvelope.toXdr(envelope);
+    expect(bytes).toEqual(TX_PAYMENT_BYTES);
+    expect(bytes.buffer.byteLength).toBe(bytes.length);
+  });
+
+  it('encodes empty values', () => {
+    expect(xdrVoid.toXdr(undefined)).toEqual(new Uint8Array(0));
+    expect(xdrStruct([]).toXdr({})).toEqual(new Uint8Array(0));
+  });
+
+  it('still reports malformed values with their path', () => {
+    const S = xdrStruct<{ items: readonly number[] }>([
+      ['items', varArray(2, int32)],
+    ]);
+    try {
+      S.toXdr({ items: [1, 2.5] });
+      expect.unreachable();
+    } catch (err) {
+      expect((err as XdrError).code).toBe(XdrErrorCode.InvalidValue);
+      expect((err as XdrError).path).toEqual(['items', 1]);
+    }
+  });
+
+  it('returns bytes unaffected by later writes', () => {
+    const writer = new XdrWriter(4);
+    writer.writeInt32(1);
+    const bytes = writer.toUint8Array();
+    writer.writeInt32(2);
+    expect(bytes).toEqual(new Uint8Array([0, 0, 0, 1]));
+    expect(writer.toUint8Array()).toEqual(new Uint8Array([0, 0, 0, 1, 0, 0, 0, 2]));
+  });
+
+  it('grows writers created with zero capacity', () => {
+    const writer = new XdrWriter(0);
+    writer.writeInt64(5n);
+    expect(writer.toUint8Array()).toHaveLength(8);
+  });
+});
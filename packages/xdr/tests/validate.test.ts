@@ -0,0 +1,287 @@
+import { describe, it, expect } from 'vitest';
+import {
+  int32,
+  uint32,
+  int64,
+  uint64,
+  float64,
+  bool,
+  xdrVoid,
+  fixedOpaque,
+  varOpaque,
+  xdrString,
+  fixedArray,
+  varArray,
+  option,
+  xdrStruct,
+  xdrEnum,
+  taggedUnion,
+  typedef,
+  lazy,
+  XdrErrorCode,
+  Asset,
+  Memo,
+  type XdrCodec,
+} from '../src/index.js';
+
+describe('validate', () => {
+  describe('primitives', () => {
+    it('accepts in-range values', () => {
+      expect(int32.validate(-(2 ** 31))).toEqual([]);
+      expect(uint32.validate(2 ** 32 - 1)).toEqual([]);
+      expect(int64.validate(-(2n ** 63n))).toEqual([]);
+      expect(uint64.validate(2n ** 64n - 1n)).toEqual([]);
+      expect(float64.validate(1.5)).toEqual([]);
+      expect(bool.validate(false)).toEqual([]);
+      expect(xdrVoid.validate(undefined)).toEqual([]);
+    });
+
+    it('rejects out-of-range integers', () => {
+      expect(int32.validate(2 ** 31)).toEqual([
+        {
+          path: [],
+          code: XdrErrorCode.InvalidValue,
+          message: 'Invalid int32 value: 2147483648',
+        },
+      ]);
+      expect(uint32.validate(-1)).toHaveLength(1);
+      expect(uint64.validate(-1n)[0]!.message).toBe('Invalid uint64 value: -1n');
+      expect(int64.validate(2n ** 63n)).toHaveLength(1);
+    });
+
+    it('rejects wrong types', () => {
+      expect(int32.validate(1.5)).toHaveLength(1);
+      expect(int32.validate('1')[0]!.message).toBe('Invalid int32 value: "1"');
+      expect(uint64.validate(1)).toHaveLength(1);
+      expect(bool.validate(1)[0]!.message).toBe('Expected boolean, got 1');
+      expect(float64.validate(null)).toHaveLength(1);
+    });
+  });
+
+  describe('containers', () => {
+    it('checks fixed opaque length', () => {
+      const codec = fixedOpaque(4);
+      expect(codec.validate(new Uint8Array(4))).toEqual([]);
+      expect(codec.validate(new Uint8Array(3))).toEqual([
+        {
+          path: [],
+          code: XdrErrorCode.LengthMismatch,
+          message: 'Fixed opaque length mismatch: got 3, expected 4',
+        },
+      ]);
+      expect(codec.validate([0, 0, 0, 0])[0]!.code).toBe(
+        XdrErrorCode.InvalidValue,
+      );
+    });
+
+    it('checks var opaque max length', () => {
+      expect(varOpaque(2).validate(new Uint8Array(2))).toEqual([]);
+      expect(varOpaque(2).validate(new Uint8Array(3))[0]!.code).toBe(
+        XdrErrorCode.LengthExceedsMax,
+      );
+      expect(varOpaque().validate(new Uint8Array(1000))).toEqual([]);
+    });
+
+    it('checks string max length', () => {
+      expect(xdrString(5).validate('hello')).toEqual([]);
+      expect(xdrString(4).validate('hello')).toEqual([
+        {
+          path: [],
+          code: XdrErrorCode.LengthExceedsMax,
+          message: 'String length 5 exceeds max 4',
+        },
+      ]);
+      expect(xdrString(4).validate(42)[0]!.code).toBe(XdrErrorCode.InvalidValue);
+    });
+
+    it('checks arrays and reports every bad element', () => {
+      const codec = varArray(2, int32);
+      expect(codec.validate([1, 2])).toEqual([]);
+      const violations = codec.validate([1, 'x', 2 ** 40]);
+      expect(violations.map((v) => [v.path, v.code])).toEqual([
+        [[], XdrErrorCode.LengthExceedsMax],
+        [[1], XdrErrorCode.InvalidValue],
+        [[2], XdrErrorCode.InvalidValue],
+      ]);
+      expect(codec.validate('nope')[0]!.message).toBe(
+        'Expected array, got "nope"',
+      );
+    });
+
+    it('checks fixed array length', () => {
+      expect(fixedArray(2, bool).validate([true])[0]!.code).toBe(
+        XdrErrorCode.LengthMismatch,
+      );
+    });
+
+    it('allows null options and checks present values', () => {
+      const codec = option(uint32);
+      expect(codec.validate(null)).toEqual([]);
+      expect(codec.validate(5)).toEqual([]);
+      expect(codec.validate(-5)).toHaveLength(1);
+      expect(codec.validate(undefined)).toHaveLength(1);
+    });
+  });
+
+  describe('composites', () => {
+    const Color = xdrEnum({ red: 0, green: 1 });
+
+    interface Item {
+      readonly color: string;
+      readonly tags: readonly string[];
+    }
+    const Item = xdrStruct<Item>([
+      ['color', Color],
+      ['tags', varArray(2, xdrString(3))],
+    ]);
+
+    it('checks enum members', () => {
+      expect(Color.validate('red')).toEqual([]);
+      expect(Color.validate('blue')).toEqual([
+        {
+          path: [],
+          code: XdrErrorCode.InvalidEnumValue,
+          message: 'Unknown enum member: "blue"',
+        },
+      ]);
+      expect(Color.validate('toString')).toHaveLength(1);
+      expect(Color.validate(0)).toHaveLength(1);
+    });
+
+    it('checks struct fields with paths', () => {
+      expect(Item.validate({ color: 'red', tags: ['a'] })).toEqual([]);
+      const violations = Item.validate({ color: 'pink', tags: ['ok', 'long'] });
+      expect(violations.map((v) => [v.path, v.code])).toEqual([
+        [['color'], XdrErrorCode.InvalidEnumValue],
+        [['tags', 1], XdrErrorCode.LengthExceedsMax],
+      ]);
+    });
+
+    it('reports missing fields', () => {
+      const violations = Item.validate({ color: 'red' });
+      expect(violations).toEqual([
+        {
+          path: ['tags'],
+          code: XdrErrorCode.InvalidValue,
+          message: 'Expected array, got undefined',
+        },
+      ]);
+    });
+
+    it('rejects non-object structs', () => {
+      expect(Item.validate(null)[0]!.message).toBe(
+        'Expected struct object, got null',
+      );
+      expect(Item.validate([])).toHaveLength(1);
+    });
+
+    const Shape = taggedUnion({
+      switchOn: xdrEnum({ none: 0, circle: 1, items: 2 }),
+      arms: [
+        { tags: ['none'] },
+        { tags: ['circle'], codec: uint32 },
+        { tags: ['items'], codec: varArray(4, Item) },
+      ],
+    });
+
+    it('accepts valid union arms', () => {
+      expect(Shape.validate('none')).toEqual([]);
+      expect(Shape.validate({ circle: 3 })).toEqual([]);
+      expect(Shape.validate({ items: [{ color: 'green', tags: [] }] })).toEqual(
+        [],
+      );
+    });
+
+    it('rejects unknown union keys', () => {
+      expect(Shape.validate('square')[0]!.code).toBe(
+        XdrErrorCode.InvalidUnionDiscriminant,
+      );
+      expect(Shape.validate({ square: 1 })[0]!.code).toBe(
+        XdrErrorCode.InvalidUnionDiscriminant,
+      );
+    });
+
+    it('rejects wrong union arm shapes', () => {
+      expect(Shape.validate('circle')[0]!.message).toBe(
+        'Union arm circle requires a value: expected { circle: ... }',
+      );
+      expect(Shape.validate({ none: 1 })[0]!.message).toBe(
+        "Union arm none is void: expected the string 'none'",
+      );
+      expect(Shape.validate({ circle: 1, none: 2 })[0]!.message).toBe(
+        'Union object must have exactly one key, got 2',
+      );
+      expect(Shape.validate(7)[0]!.code).toBe(XdrErrorCode.InvalidValue);
+    });
+
+    it('paths through union arms', () => {
+      const violations = Shape.validate({
+        items: [
+          { color: 'red', tags: [] },
+          { color: 'red', tags: [1] },
+        ],
+      });
+      expect(violations.map((v) => v.path)).toEqual([
+        ['items', 1, 'tags', 0],
+      ]);
+    });
+
+    it('checks default arm discriminants against the switch type', () => {
+      const Ext = taggedUnion({
+        switchOn: int32,
+        arms: [{ tags: [0], key: 'v0' }],
+        defaultArm: { codec: uint32 },
+      });
+      expect(Ext.validate('v0')).toEqual([]);
+      expect(Ext.validate({ 7: 1 })).toEqual([]);
+      expect(Ext.validate({ abc: 1 })[0]!.code).toBe(XdrErrorCode.InvalidValue);
+      expect(Ext.validate({ 7: -1 }).map((v) => v.path)).toEqual([['7']]);
+    });
+
+    it('follows lazy and typedef codecs', () => {
+      interface Node {
+        readonly value: number;
+        readonly next: Node | null;
+      }
+      const Node: XdrCodec<Node> = xdrStruct<Node>([
+        ['value', int32],
+        ['next', option(lazy(() => Node))],
+      ]);
+      const Named = typedef('Named', Node);
+      const violations = Named.validate({
+        value: 1,
+        next: { value: 2, next: { value: 1.5, next: null } },
+      });
+      expect(violations.map((v) => v.path)).toEqual([['next', 'next', 'value']]);
+    });
+  });
+
+  describe('generated types', () => {
+    it('accepts values produced by decoding', () => {
+      const asset: Asset = {
+        CreditAlphanum4: {
+          assetCode: new Uint8Array([85, 83, 68, 0]),
+          issuer: { PublicKeyTypeEd25519: new Uint8Array(32) },
+        },
+      };
+      expect(Asset.validate(Asset.fromXdr(Asset.toXdr(asset)))).toEqual([]);
+    });
+
+    it('reports nested violations in generated unions', () => {
+      const violations = Asset.validate({
+        CreditAlphanum4: {
+          assetCode: new Uint8Array(5),
+          issuer: { PublicKeyTypeEd25519: new Uint8Array(31) },
+        },
+      });
+      expect(violations.map((v) => [v.path, v.code])).toEqual([
+        [['CreditAlphanum4', 'assetCode'], XdrErrorCode.LengthMismatch],
+        [
+          ['CreditAlphanum4', 'issuer', 'PublicKeyTypeEd25519'],
+          XdrErrorCode.LengthMismatch,
+        ],
+      ]);
+      expect(Memo.validate({ Text: 'x'.repeat(29) })[0]!.path).toEqual(['Text']);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  XDR_VERSIONS,
+  xdrTypes,
+  sameXdrShape,
+  convertXdr,
+  guessXdrType,
+  xdrStruct,
+  xdrEnum,
+  taggedUnion,
+  typedef,
+  lazy,
+  option,
+  int32,
+  xdrString,
+  XdrError,
+  Asset,
+  type XdrCodec,
+  type XdrVersion,
+} from '../src/index.js';
+import * as curr from '../generated/curr/index.js';
+import * as root from '../src/index.js';
+import { TX_PAYMENT_BYTES } from './rs-compat/fixtures.js';
+
+const { next } = XDR_VERSIONS;
+
+type Thing = 'none' | { readonly count: number } | { readonly label: string };
+
+// Version 1 of a type, and version 2 with an extra arm
+const KindV1 = xdrEnum({ none: 0, count: 1 }, 'Kind');
+const ThingV1 = taggedUnion({
+  switchOn: KindV1,
+  arms: [{ tags: ['none'] }, { tags: ['count'], codec: int32 }],
+}) as XdrCodec<Thing>;
+const KindV2 = xdrEnum({ none: 0, count: 1, label: 2 }, 'Kind');
+const ThingV2 = taggedUnion({
+  switchOn: KindV2,
+  arms: [
+    { tags: ['none'] },
+    { tags: ['count'], codec: int32 },
+    { tags: ['label'], codec: xdrString(8) },
+  ],
+}) as XdrCodec<Thing>;
+
+describe('versions', () => {
+  it('exposes curr as the root exports and next as curr until they differ', () => {
+    expect(curr.Asset).toBe(Asset);
+    expect(XDR_VERSIONS.curr).toBe(curr);
+    expect(XDR_VERSIONS.next).toBe(curr);
+    // Namespaces stay out of the root exports so bundles can tree-shake them
+    expect(root).not.toHaveProperty('curr');
+    expect(root).not.toHaveProperty('next');
+  });
+
+  it('selects versions by name', () => {
+    expect(xdrTypes('curr')).toBe(curr);
+    expect(xdrTypes('next')).toBe(next);
+    expect(() => xdrTypes('prev' as XdrVersion)).toThrow(TypeError);
+    expect(() => xdrTypes('toString' as XdrVersion)).toThrow(TypeError);
+  });
+
+  it('guesses types within a version namespace', () => {
+    const guess = guessXdrType(TX_PAYMENT_BYTES, next).find(
+      (candidate) => candidate.name === 'TransactionEnvelope',
+    );
+    expect(guess?.codec).toBe(next.TransactionEnvelope);
+  });
+});
+
+describe('sameXdrShape', () => {
+  it('matches the types of curr and next', () => {
+    expect(sameXdrShape(curr.TransactionEnvelope, next.TransactionEnvelope)).toBe(true);
+    expect(sameXdrShape(curr.SCVal, next.SCVal)).toBe(true);
+    expect(sameXdrShape(curr.Asset, next.TransactionEnvelope)).toBe(false);
+  });
+
+  it('ignores names and typedefs', () => {
+    const a = xdrStruct([['x', int32]], 'A');
+    const b = typedef('B', xdrStruct([['x', typedef('Int', int32)]], 'B'));
+    expect(sameXdrShape(a, b)).toBe(true);
+  });
+
+  it('compares fields, members, arms and lengths', () => {
+    expect(sameXdrShape(xdrStruct([['x', int32]]), xdrStruct([['y', int32]]))).toBe(false);
+    expect(sameXdrShape(xdrStruct([['x', int32]]), xdrStruct([['x', xdrString()]]))).toBe(false);
+    expect(sameXdrShape(xdrString(8), xdrString(9))).toBe(false);
+    expect(sameXdrShape(xdrEnum({ a: 0 }), xdrEnum({ a: 1 }))).toBe(false);
+    expect(sameXdrShape(KindV1, KindV2)).toBe(false);
+    expect(sameXdrShape(ThingV1, ThingV2)).toBe(false);
+  });
+
+  it('terminates on recursive types', () => {
+    type List = { readonly value: number; readonly rest: List | null };
+    const ListA: XdrCodec<List> = xdrStruct([
+      ['value', int32],
+      ['rest', option(lazy(() => ListA))],
+    ]);
+    const ListB: XdrCodec<List> = xdrStruct([
+      ['value', int32],
+      ['rest', option(lazy(() => ListB))],
+    ]);
+    const ListC: XdrCodec<List> = xdrStruct([
+      ['value', xdrString()],
+      ['rest', option(lazy(() => ListC))],
+    ]);
+    expect(sameXdrShape(ListA, ListB)).toBe(true);
+    expect(sameXdrShape(ListA, ListC)).toBe(false);
+  });
+});
+
+describe('convertXdr', () => {
+  it('returns values of the same shape as is', () => {
+    const tx = curr.TransactionEnvelope.fromXdr(TX_PAYMENT_BYTES);
+    expect(convertXdr(curr.TransactionEnvelope, next.TransactionEnvelope, tx)).toBe(tx);
+  });
+
+  it('re-encodes values whose type changed', () => {
+    expect(convertXdr(ThingV1, ThingV2, { count: 3 })).toEqual({ count: 3 });
+    expect(convertXdr(ThingV2, ThingV1, 'none')).toBe('none');
+  });
+
+  it('throws XdrError for parts missing from the target version', () => {
+    expect(() => convertXdr(ThingV2, ThingV1, { label: 'hi' })).toThrow(XdrError);
+  });
+});